@@ -3,8 +3,17 @@ const { MongoClient } = require('mongodb');
 const fs = require('fs');
 require('dotenv').config();
 
+// Rows are written under the Firebase uid of the account that owns solved.json
+const userId = process.argv[2] || process.env.LEETCODE_MASTERY_USER_ID;
+
 async function importSolvedProblems() {
   let client;
+
+  if (!userId) {
+    console.error("❌ Usage: node import-solved.js <firebase-uid> (or set LEETCODE_MASTERY_USER_ID)");
+    process.exitCode = 1;
+    return;
+  }
   
   try {
     console.log("🔗 Connecting to MongoDB...");
@@ -32,14 +41,14 @@ async function importSolvedProblems() {
       acRate: q.acRate,
       paidOnly: q.paidOnly,
       solvedAt: new Date(), // Mark when imported
-      userId: 'default-user', // Can be updated for multi-user support
+      userId,
     }));
 
     // Create/update solved collection
     const solvedCollection = db.collection('solved');
     
     // Clear existing and insert new
-    await solvedCollection.deleteMany({ userId: 'default-user' });
+    await solvedCollection.deleteMany({ userId });
     await solvedCollection.insertMany(solvedProblems);
     
     // Create indexes
@@ -59,7 +68,7 @@ async function importSolvedProblems() {
       const problemData = await problemsCollection.findOne({ titleSlug: solved.titleSlug });
       if (problemData && problemData.topicTags) {
         await solvedCollection.updateOne(
-          { titleSlug: solved.titleSlug, userId: 'default-user' },
+          { titleSlug: solved.titleSlug, userId },
           { $set: { topicTags: problemData.topicTags } }
         );
         enrichedCount++;
@@ -72,7 +81,7 @@ async function importSolvedProblems() {
     console.log("\n📊 Your Progress Statistics:");
     
     const stats = await solvedCollection.aggregate([
-      { $match: { userId: 'default-user' } },
+      { $match: { userId } },
       { $group: { _id: '$difficulty', count: { $sum: 1 } } }
     ]).toArray();
 
@@ -85,7 +94,7 @@ async function importSolvedProblems() {
     // Get topic breakdown
     console.log("\n📚 Your Topic Coverage:");
     const topicStats = await solvedCollection.aggregate([
-      { $match: { userId: 'default-user' } },
+      { $match: { userId } },
       { $unwind: '$topicTags' },
       { $group: { _id: '$topicTags', count: { $sum: 1 } } },
       { $sort: { count: -1 } },
@@ -8,8 +8,8 @@ const nextConfig: NextConfig = {
   eslint: {
     ignoreDuringBuilds: true,
   },
-  // Required for Genkit to work properly in production
-  serverExternalPackages: ['genkit', '@genkit-ai/google-genai'],
+  // Required for Genkit to work properly in production; sql.js loads its wasm and transformers.js its native ONNX runtime from node_modules
+  serverExternalPackages: ['genkit', '@genkit-ai/google-genai', 'sql.js', '@huggingface/transformers'],
   images: {
     remotePatterns: [
       {
@@ -12,10 +12,17 @@
  * - SuggestLeetCodeProblemsOutput - The return type for the suggestLeetCodeProblems function.
  */
 
-import {ai, createAiInstance} from '@/ai/genkit';
+import {ai, createAiInstance, getNextApiKey, reportKeyResult, GENKIT_MODEL} from '@/ai/genkit';
 import {z} from 'genkit';
+import {getDatabase} from '@/lib/mongodb';
+import {requireUser} from '@/lib/session';
+import {buildLeetCodeUrl} from '@/lib/problem-lookup';
+import {loadSuggestionRules, validateSuggestionOutput, type SuggestionShape} from '@/lib/suggestion-output';
+import {describeRecommendation, recommendProblems} from '@/lib/recommender';
+import {lookupAICache, storeAICache, type AICacheRequest} from '@/lib/ai-cache';
 
 const SuggestLeetCodeProblemsInputSchema = z.object({
+  userId: z.string().optional().describe('Signed-in user, for checking suggestions against their solved problems and coaching profile.'),
   bucketHistory: z
     .record(z.array(z.string()))
     .describe(
@@ -66,7 +73,16 @@ const SuggestLeetCodeProblemsInputSchema = z.object({
     includeWeakAreas: z.boolean(),
     adaptiveDifficulty: z.boolean(),
     focusArea: z.string()
-  }).optional()
+  }).optional(),
+  coachingPolicy: z
+    .string()
+    .optional()
+    .describe("The user's coaching profile compiled into instructions: allowed difficulties, interview date, target companies, daily time, languages."),
+  targetDifficulty: z.string().optional().describe('Requested difficulty, or "any".'),
+  repairFeedback: z
+    .string()
+    .optional()
+    .describe('Why suggestions from the previous answer were rejected, when asking again.'),
 });
 export type SuggestLeetCodeProblemsInput = z.infer<
   typeof SuggestLeetCodeProblemsInputSchema
@@ -159,6 +175,11 @@ Address these specific needs in your recommendations.
 • Focus Strategy: {{userPreferences.focusArea}}
 {{/if}}
 
+{{#if coachingPolicy}}
+📋 COACHING POLICY (set by the user; every suggestion MUST follow it):
+{{{coachingPolicy}}}
+{{/if}}
+
 🎯 PERSONALIZATION STRATEGY:
 1. **Weakness-First Approach**: If weak areas exist, prioritize foundational problems
 2. **Difficulty Adaptation**: Match problem difficulty to user's success patterns
@@ -188,9 +209,27 @@ OUTPUT EXACTLY THIS JSON FORMAT:
   ]
 }
 
-CRITICAL: Every reason MUST reference specific data from their profile - no generic advice allowed!`,
+CRITICAL: Every reason MUST reference specific data from their profile - no generic advice allowed!
+{{#if repairFeedback}}
+
+⚠️ CORRECTIONS NEEDED:
+{{{repairFeedback}}}
+{{/if}}`,
 });
 
+type SuggestedProblem = z.infer<typeof SuggestedProblemSchema>;
+
+const SUGGESTION_SHAPE: SuggestionShape<SuggestedProblem> = {
+  ref: p => ({id: p.leetcodeProblemId, title: p.title, url: p.url}),
+  fromCatalog: (p, problem) => ({
+    ...p,
+    leetcodeProblemId: String(problem.id),
+    title: problem.title,
+    difficulty: problem.difficulty,
+    url: buildLeetCodeUrl(problem.slug),
+  }),
+};
+
 const suggestLeetCodeProblemsFlow = ai.defineFlow(
   {
     name: 'suggestLeetCodeProblemsFlow',
@@ -198,13 +237,38 @@ const suggestLeetCodeProblemsFlow = ai.defineFlow(
     outputSchema: SuggestLeetCodeProblemsOutputSchema,
   },
   async input => {
+    if (input.userId) {
+      await requireUser(input.userId);
+    }
+
+    // Signed-in requests reuse a checked answer to the same input for a while
+    let cacheRequest: AICacheRequest | undefined;
+    if (input.userId) {
+      const {userId, repairFeedback, ...request} = input;
+      cacheRequest = {
+        scope: 'genkit-suggestions',
+        userId,
+        prompt: request.additionalContext ?? '',
+        context: request,
+        provider: 'genkit',
+        model: GENKIT_MODEL,
+      };
+      const hit = await lookupAICache<SuggestLeetCodeProblemsOutput>(cacheRequest);
+      if (hit) {
+        return hit.value;
+      }
+    }
+
     const maxRetries = 3;
     let lastError: Error | null = null;
+    let answer: {output: unknown; prompt: typeof prompt} | null = null;
     
     for (let attempt = 0; attempt < maxRetries; attempt++) {
+      let apiKey: string | undefined;
       try {
-        // Create a new AI instance with the next API key for each attempt
-        const aiInstance = createAiInstance();
+        // Create a new AI instance with the next usable API key for each attempt
+        apiKey = getNextApiKey();
+        const aiInstance = createAiInstance(apiKey);
         const retryPrompt = aiInstance.definePrompt({
           name: 'suggestLeetCodeProblemsPrompt',
           input: {schema: SuggestLeetCodeProblemsInputSchema},
@@ -271,6 +335,11 @@ Address these specific needs in your recommendations.
 • Focus Strategy: {{userPreferences.focusArea}}
 {{/if}}
 
+{{#if coachingPolicy}}
+📋 COACHING POLICY (set by the user; every suggestion MUST follow it):
+{{{coachingPolicy}}}
+{{/if}}
+
 🎯 PERSONALIZATION STRATEGY:
 1. **Weakness-First Approach**: If weak areas exist, prioritize foundational problems
 2. **Difficulty Adaptation**: Match problem difficulty to user's success patterns
@@ -300,31 +369,81 @@ OUTPUT EXACTLY THIS JSON FORMAT:
   ]
 }
 
-CRITICAL: Every reason MUST reference specific data from their profile - no generic advice allowed!`,
+CRITICAL: Every reason MUST reference specific data from their profile - no generic advice allowed!
+{{#if repairFeedback}}
+
+⚠️ CORRECTIONS NEEDED:
+{{{repairFeedback}}}
+{{/if}}`,
         });
         
         const {output} = await retryPrompt(input);
-        return output!;
+        reportKeyResult(apiKey);
+        answer = {output, prompt: retryPrompt};
+        break;
       } catch (error: any) {
         lastError = error;
         console.error(`AI suggestion attempt ${attempt + 1} failed:`, error?.message || error);
         
-        // Check if it's a rate limit error (429)
-        if (error?.status === 429 || error?.message?.includes('429') || error?.message?.includes('rate limit')) {
-          console.log(`Rate limit hit, retrying with next API key (attempt ${attempt + 1}/${maxRetries})`);
+        // Rate limits, exhausted quota and rejected keys park the key; retry with the next one
+        const categorized = apiKey ? reportKeyResult(apiKey, error) : undefined;
+        if (categorized && ['rate_limit', 'quota', 'auth', 'overloaded'].includes(categorized.category)) {
+          console.log(`${categorized.category} on this key, retrying with the next API key (attempt ${attempt + 1}/${maxRetries})`);
           continue;
         }
         
         // Check for API key configuration errors
         if (error?.message?.includes('API key') || error?.message?.includes('No Gemini')) {
-          throw new Error('AI service is not configured. Please contact the administrator to set up the Gemini API key.');
+          lastError = new Error('AI service is not configured. Please contact the administrator to set up the Gemini API key.');
         }
         
-        // For non-rate-limit errors, throw immediately
-        throw error;
+        // For non-rate-limit errors, stop retrying
+        break;
       }
     }
     
-    throw lastError || new Error('AI service failed after multiple retries. Please try again later.');
+    if (!answer) {
+      // Without a working Gemini key, answer from the deterministic recommender instead
+      if (input.userId) {
+        const {recommendations} = await recommendProblems(input.userId, {
+          topic: input.topic,
+          difficulty: input.targetDifficulty,
+          limit: input.numberOfProblems,
+        });
+        if (recommendations.length > 0) {
+          console.warn('AI suggestions unavailable, using the recommender:', lastError?.message);
+          return {
+            suggestedProblems: recommendations.map(p => ({
+              leetcodeProblemId: String(p.id),
+              title: p.title,
+              difficulty: p.difficulty,
+              url: buildLeetCodeUrl(p.slug),
+              reason: describeRecommendation(p),
+            })),
+          };
+        }
+      }
+      throw lastError || new Error('AI service failed after multiple retries. Please try again later.');
+    }
+
+    // Check the suggestions against the catalog; follow-ups go to the key that answered
+    const answeringPrompt = answer.prompt;
+    const {output} = await validateSuggestionOutput({
+      schema: SuggestLeetCodeProblemsOutputSchema,
+      raw: answer.output,
+      retry: async repairFeedback => (await answeringPrompt({...input, repairFeedback})).output,
+      items: output => output.suggestedProblems,
+      withItems: (output, suggestedProblems) => ({...output, suggestedProblems}),
+      shape: SUGGESTION_SHAPE,
+      rules: await loadSuggestionRules(await getDatabase(), input.userId, {
+        difficulty: input.targetDifficulty,
+        solvedTitles: input.bucketHistory['Solved'],
+      }),
+      wanted: input.numberOfProblems,
+    });
+    if (cacheRequest && output.suggestedProblems.length > 0) {
+      await storeAICache(cacheRequest, output);
+    }
+    return output;
   }
 );
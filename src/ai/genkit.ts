@@ -1,43 +1,51 @@
 import {genkit} from 'genkit';
 import {googleAI} from '@genkit-ai/google-genai';
+import {AIProviderError, categorizeError} from '@/lib/ai-errors';
+import {isLocalOnly} from '@/lib/ai-client';
+import {getProviderKeys, pickKey, reportFailure, reportSuccess} from '@/lib/ai-health';
 
-// Support multiple API keys for rate limit handling
-// Check for multiple environment variable names for compatibility
-function getApiKeys(): string[] {
-  const keysString = process.env.GEMINI_API_KEYS || 
-                     process.env.GEMINI_API_KEY || 
-                     process.env.GOOGLE_GENKIT_API_KEY ||
-                     process.env.GOOGLE_API_KEY || 
-                     '';
-  return keysString.split(',').filter(key => key.trim());
-}
-
-const apiKeys = getApiKeys();
-let currentKeyIndex = 0;
-
+// Support multiple API keys for rate limit handling. Keys come from GEMINI_API_KEYS,
+// GEMINI_API_KEY, GOOGLE_GENKIT_API_KEY or GOOGLE_API_KEY (see ai-health.ts), and
+// keys that hit a rate limit or quota are skipped until they cool down.
 export function getNextApiKey(): string {
-  // Re-read keys at runtime in case they weren't available at module load
-  const keys = apiKeys.length > 0 ? apiKeys : getApiKeys();
-  
-  if (keys.length === 0) {
+  if (isLocalOnly()) {
+    throw new AIProviderError('Cloud AI is disabled (AI_LOCAL_ONLY); Genkit flows need Gemini.', 'not_configured', 'genkit');
+  }
+  if (getProviderKeys('genkit').length === 0) {
     throw new Error('No Gemini API keys configured. Please set GEMINI_API_KEY, GEMINI_API_KEYS, GOOGLE_GENKIT_API_KEY, or GOOGLE_API_KEY environment variable.');
   }
-  const key = keys[currentKeyIndex].trim();
-  currentKeyIndex = (currentKeyIndex + 1) % keys.length;
+
+  const key = pickKey('genkit');
+  if (!key) {
+    throw new AIProviderError('All Gemini API keys are rate limited or out of quota. Please try again later.', 'rate_limit', 'genkit');
+  }
   return key;
 }
 
-export function createAiInstance() {
-  const apiKey = getNextApiKey();
+// Record how a call made with `apiKey` went; returns the categorized error, if any
+export function reportKeyResult(apiKey: string, error?: unknown): AIProviderError | undefined {
+  if (!error) {
+    reportSuccess('genkit', apiKey);
+    return undefined;
+  }
+  const categorized = categorizeError('genkit', error);
+  reportFailure('genkit', apiKey, categorized);
+  return categorized;
+}
+
+// Model for every Genkit flow; also part of the AI response cache key (see ai-cache.ts)
+export const GENKIT_MODEL = 'googleai/gemini-2.0-flash';
+
+export function createAiInstance(apiKey: string = getNextApiKey()) {
   return genkit({
     plugins: [googleAI({ apiKey })],
-    model: 'googleai/gemini-2.0-flash',
+    model: GENKIT_MODEL,
   });
 }
 
 // Default instance - explicitly pass API key if available
-const defaultApiKey = getApiKeys()[0];
+const defaultApiKey = getProviderKeys('genkit')[0];
 export const ai = genkit({
   plugins: [googleAI(defaultApiKey ? { apiKey: defaultApiKey } : undefined)],
-  model: 'googleai/gemini-2.0-flash',
+  model: GENKIT_MODEL,
 });
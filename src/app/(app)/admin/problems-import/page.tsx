@@ -5,8 +5,9 @@ import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Progress } from '@/components/ui/progress';
-import { Loader2, Download, Database, BarChart3 } from 'lucide-react';
+import { Loader2, Download, Database, BarChart3, History, RotateCcw } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
+import type { CatalogChange, ImportRun } from '@/lib/catalog-import';
 
 interface ProblemsStats {
   total: number;
@@ -14,27 +15,73 @@ interface ProblemsStats {
   topTopics: { name: string; count: number }[];
 }
 
+// Pages fetched per request; the page keeps calling until the run completes
+const PAGES_PER_REQUEST = 5;
+
+const CHANGE_LABELS: Record<CatalogChange['kind'], string> = {
+  'added': 'Added',
+  'retitled': 'Retitled',
+  'retagged': 'Retagged',
+  'difficulty-changed': 'Difficulty',
+  'removed': 'Removed',
+};
+
+function formatChangeValue(value?: string | string[]) {
+  if (value === undefined) return '';
+  return Array.isArray(value) ? value.join(', ') || '(none)' : value;
+}
+
 export default function ProblemsImportPage() {
   const [isImporting, setIsImporting] = useState(false);
   const [stats, setStats] = useState<ProblemsStats | null>(null);
   const [isLoadingStats, setIsLoadingStats] = useState(false);
   const [importResult, setImportResult] = useState<string>('');
+  const [runs, setRuns] = useState<ImportRun[]>([]);
+  const [changes, setChanges] = useState<(CatalogChange & { at: string })[]>([]);
   
   const { toast } = useToast();
 
-  const startImport = async () => {
+  const latestRun = runs[0];
+  const canResume = latestRun && (latestRun.status === 'running' || latestRun.status === 'failed');
+
+  const loadChangelog = async (runId: string) => {
+    try {
+      const response = await fetch(`/api/problems/changelog?runId=${runId}&limit=200`);
+      const data = await response.json();
+      if (data.success) {
+        setChanges(data.data);
+      }
+    } catch (error) {
+      console.error('Failed to load changelog:', error);
+    }
+  };
+
+  const startImport = async (restart: boolean = false) => {
     setIsImporting(true);
     setImportResult('');
     
     try {
-      const response = await fetch('/api/problems', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-      });
+      let data: any;
+      let first = true;
 
-      const data = await response.json();
+      // Each request advances the run by a few pages; stop when it completes
+      do {
+        const response = await fetch('/api/problems', {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({ restart: restart && first, maxPages: PAGES_PER_REQUEST }),
+        });
+        data = await response.json();
+        first = false;
+
+        if (data.success && data.data.run) {
+          const run: ImportRun = data.data.run;
+          setRuns(prev => [run, ...prev.filter(r => r._id !== run._id)]);
+          setImportResult(`⏳ ${data.message}`);
+        }
+      } while (data.success && data.data.run?.status === 'running');
       
       if (data.success) {
         setImportResult(`✅ ${data.message}`);
@@ -45,6 +92,9 @@ export default function ProblemsImportPage() {
         
         // Refresh stats after import
         loadStats();
+        if (data.data.run?._id) {
+          loadChangelog(data.data.run._id);
+        }
       } else {
         setImportResult(`❌ Import failed: ${data.error}`);
         toast({
@@ -75,6 +125,10 @@ export default function ProblemsImportPage() {
       
       if (data.success) {
         setStats(data.data);
+        setRuns(data.runs || []);
+        if (data.runs?.[0]?._id) {
+          loadChangelog(data.runs[0]._id);
+        }
       } else {
         toast({
           title: "Failed to Load Stats",
@@ -131,7 +185,7 @@ export default function ProblemsImportPage() {
         <CardContent className="space-y-4">
           <div className="flex gap-4">
             <Button
-              onClick={startImport}
+              onClick={() => startImport()}
               disabled={isImporting}
               size="lg"
               className="min-w-[200px]"
@@ -144,10 +198,17 @@ export default function ProblemsImportPage() {
               ) : (
                 <>
                   <Download className="mr-2 h-4 w-4" />
-                  Start Import
+                  {canResume ? 'Resume Import' : 'Start Import'}
                 </>
               )}
             </Button>
+
+            {canResume && !isImporting && (
+              <Button onClick={() => startImport(true)} variant="outline">
+                <RotateCcw className="mr-2 h-4 w-4" />
+                Start Over
+              </Button>
+            )}
             
             <Button
               onClick={loadStats}
@@ -163,6 +224,33 @@ export default function ProblemsImportPage() {
             </Button>
           </div>
 
+          {latestRun && (
+            <div className="space-y-2">
+              <div className="flex items-center justify-between text-sm">
+                <span>
+                  {latestRun.fetched}{latestRun.total ? ` / ${latestRun.total}` : ''} problems fetched
+                </span>
+                <Badge variant={latestRun.status === 'failed' ? 'destructive' : 'secondary'}>
+                  {latestRun.status}
+                </Badge>
+              </div>
+              <Progress
+                value={latestRun.total ? Math.min(100, (latestRun.fetched / latestRun.total) * 100) : latestRun.status === 'completed' ? 100 : 0}
+              />
+              <div className="flex flex-wrap gap-2 text-xs">
+                <Badge variant="outline">+{latestRun.counts.added} added</Badge>
+                <Badge variant="outline">{latestRun.counts.retitled} retitled</Badge>
+                <Badge variant="outline">{latestRun.counts.retagged} retagged</Badge>
+                <Badge variant="outline">{latestRun.counts.difficultyChanged} difficulty changed</Badge>
+                <Badge variant="outline">-{latestRun.counts.removed} removed</Badge>
+                <Badge variant="outline">{latestRun.counts.unchanged} unchanged</Badge>
+              </div>
+              {latestRun.error && (
+                <p className="text-sm text-destructive">Last error: {latestRun.error}</p>
+              )}
+            </div>
+          )}
+
           {importResult && (
             <div className="p-3 bg-muted rounded-md font-mono text-sm">
               {importResult}
@@ -172,12 +260,50 @@ export default function ProblemsImportPage() {
           <div className="text-sm text-muted-foreground space-y-1">
             <p>• This will fetch all problems from LeetCode's GraphQL API</p>
             <p>• Problems are fetched in batches of 100 with 1-second delays</p>
-            <p>• Existing problems will be replaced with fresh data</p>
-            <p>• The process may take several minutes to complete</p>
+            <p>• Problems are upserted by slug; only real changes are logged</p>
+            <p>• An interrupted import resumes from the last fetched page</p>
           </div>
         </CardContent>
       </Card>
 
+      {/* Changelog Section */}
+      {latestRun && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <History className="h-5 w-5" />
+              Changelog
+            </CardTitle>
+            <CardDescription>
+              Changes recorded by the import started {new Date(latestRun.startedAt).toLocaleString()}
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {changes.length > 0 ? (
+              <div className="max-h-96 overflow-y-auto space-y-2">
+                {changes.map((change, index) => (
+                  <div key={`${change.titleSlug}-${change.kind}-${index}`} className="flex items-start gap-3 p-2 border rounded text-sm">
+                    <Badge variant="secondary" className="shrink-0">{CHANGE_LABELS[change.kind]}</Badge>
+                    <div className="min-w-0">
+                      <div className="font-medium">{change.titleSlug}</div>
+                      {change.before !== undefined && change.after !== undefined && (
+                        <div className="text-xs text-muted-foreground">
+                          {formatChangeValue(change.before)} → {formatChangeValue(change.after)}
+                        </div>
+                      )}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            ) : (
+              <div className="text-center py-4 text-muted-foreground">
+                No changes recorded for this run.
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
       {/* Stats Section */}
       <Card>
         <CardHeader>
@@ -0,0 +1,245 @@
+"use client";
+
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Loader2, Search, RefreshCw, Play, RotateCcw, BarChart3 } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import type { EmbeddingSourceType, IndexFreshness } from '@/lib/embedding-index';
+
+type IndexAction = 'process' | 'sync' | 'reindex';
+
+const TYPE_LABELS: Record<EmbeddingSourceType, string> = {
+  memory: 'Memories',
+  snippet: 'Snippets',
+  note: 'Notes',
+  problem: 'Problems',
+};
+
+function formatDate(value?: string | Date) {
+  return value ? new Date(value).toLocaleString() : '—';
+}
+
+export default function SearchIndexPage() {
+  const [freshness, setFreshness] = useState<IndexFreshness | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [runningAction, setRunningAction] = useState<IndexAction | null>(null);
+  const [lastResult, setLastResult] = useState<string>('');
+
+  const { toast } = useToast();
+
+  const loadFreshness = async () => {
+    setIsLoading(true);
+
+    try {
+      const response = await fetch('/api/embeddings');
+      const data = await response.json();
+
+      if (data.success) {
+        setFreshness(data.data);
+      } else {
+        toast({
+          title: "Failed to Load Index",
+          description: data.error,
+          variant: "destructive",
+        });
+      }
+    } catch (error) {
+      toast({
+        title: "Failed to Load Index",
+        description: error instanceof Error ? error.message : 'Unknown error',
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const runAction = async (action: IndexAction) => {
+    setRunningAction(action);
+    setLastResult('');
+
+    try {
+      const response = await fetch('/api/embeddings', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ action }),
+      });
+      const data = await response.json();
+
+      if (data.success) {
+        setLastResult(`✅ ${data.message}`);
+        loadFreshness();
+      } else {
+        setLastResult(`❌ ${data.error}`);
+        toast({
+          title: "Index Update Failed",
+          description: data.error,
+          variant: "destructive",
+        });
+      }
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      setLastResult(`❌ ${errorMessage}`);
+      toast({
+        title: "Index Update Failed",
+        description: errorMessage,
+        variant: "destructive",
+      });
+    } finally {
+      setRunningAction(null);
+    }
+  };
+
+  React.useEffect(() => {
+    loadFreshness();
+  }, []);
+
+  const actionIcon = (action: IndexAction, Icon: typeof Play) =>
+    runningAction === action
+      ? <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+      : <Icon className="mr-2 h-4 w-4" />;
+
+  return (
+    <div className="max-w-6xl mx-auto p-6 space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold">Search Index</h1>
+          <p className="text-muted-foreground mt-2">
+            Freshness of the embeddings behind semantic search
+          </p>
+        </div>
+      </div>
+
+      {/* Maintenance Section */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <RefreshCw className="h-5 w-5" />
+            Maintenance
+          </CardTitle>
+          <CardDescription>
+            Content changes are queued automatically; use these to catch up or rebuild
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex flex-wrap gap-4">
+            <Button onClick={() => runAction('process')} disabled={runningAction !== null}>
+              {actionIcon('process', Play)}
+              Process Queue
+            </Button>
+            <Button onClick={() => runAction('sync')} disabled={runningAction !== null} variant="outline">
+              {actionIcon('sync', RefreshCw)}
+              Sync Sources
+            </Button>
+            <Button onClick={() => runAction('reindex')} disabled={runningAction !== null} variant="outline">
+              {actionIcon('reindex', RotateCcw)}
+              Re-embed Everything
+            </Button>
+            <Button onClick={loadFreshness} disabled={isLoading} variant="outline">
+              {isLoading ? (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              ) : (
+                <BarChart3 className="mr-2 h-4 w-4" />
+              )}
+              Refresh
+            </Button>
+          </div>
+
+          {lastResult && (
+            <div className="p-3 bg-muted rounded-md font-mono text-sm">
+              {lastResult}
+            </div>
+          )}
+
+          <div className="text-sm text-muted-foreground space-y-1">
+            <p>• Process Queue embeds the next batch of pending vectors and keeps draining in the background</p>
+            <p>• Sync Sources queues anything edited outside the app and removes vectors of deleted items</p>
+            <p>• Re-embed Everything marks every vector stale, e.g. after switching embedding model</p>
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Freshness Section */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Search className="h-5 w-5" />
+            Index Freshness
+          </CardTitle>
+          <CardDescription>
+            {freshness
+              ? `${freshness.model} · ${freshness.dimensions} dimensions · pipeline v${freshness.version}`
+              : 'Vectors per source type'}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {freshness ? (
+            <div className="space-y-4">
+              <div className="flex items-center gap-2 text-sm">
+                <span>Queue:</span>
+                <Badge variant={freshness.draining ? 'default' : 'secondary'}>
+                  {freshness.draining ? 'embedding' : 'idle'}
+                </Badge>
+              </div>
+
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Source</TableHead>
+                    <TableHead className="text-right">Vectors</TableHead>
+                    <TableHead className="text-right">Fresh</TableHead>
+                    <TableHead className="text-right">Pending</TableHead>
+                    <TableHead className="text-right">Failed</TableHead>
+                    <TableHead className="text-right">Orphaned</TableHead>
+                    <TableHead>Last Embedded</TableHead>
+                    <TableHead>Oldest Pending</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {freshness.types.map(row => (
+                    <TableRow key={row.type}>
+                      <TableCell className="font-medium">{TYPE_LABELS[row.type]}</TableCell>
+                      <TableCell className="text-right">{row.total}</TableCell>
+                      <TableCell className="text-right">
+                        {row.total > 0 ? `${row.fresh} (${Math.round((row.fresh / row.total) * 100)}%)` : 0}
+                      </TableCell>
+                      <TableCell className="text-right">{row.pending}</TableCell>
+                      <TableCell className="text-right">
+                        {row.failed > 0 ? <Badge variant="destructive">{row.failed}</Badge> : 0}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {row.orphaned > 0 ? <Badge variant="outline">{row.orphaned}</Badge> : 0}
+                      </TableCell>
+                      <TableCell className="text-sm text-muted-foreground">{formatDate(row.lastEmbeddedAt)}</TableCell>
+                      <TableCell className="text-sm text-muted-foreground">{formatDate(row.oldestPendingAt)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+
+              <p className="text-xs text-muted-foreground">
+                Only fresh vectors are searched. Orphaned vectors are never returned and are removed by Sync Sources.
+              </p>
+            </div>
+          ) : (
+            <div className="text-center py-8 text-muted-foreground">
+              {isLoading ? (
+                <div className="flex items-center justify-center gap-2">
+                  <Loader2 className="h-4 w-4 animate-spin" />
+                  Loading index...
+                </div>
+              ) : (
+                "Index freshness is not available."
+              )}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,460 @@
+"use client";
+
+import React, { useCallback, useEffect, useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  compareBackup,
+  createBackup,
+  deleteBackup,
+  listBackups,
+  restoreBackup,
+  updateBackupSettings,
+} from "@/lib/backup-actions";
+import { CacheUtils } from "@/lib/cache";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { ArchiveRestore, GitCompare, History, Loader2, RotateCcw, Save, Trash2 } from "lucide-react";
+import type { BackupMeta, BackupTrigger } from "@/lib/backup-store";
+import type { BackupSettings } from "@/lib/backups";
+import type { BackupDiff, DiffStoreName } from "@/lib/backup-diff";
+
+const TRIGGER_LABELS: Record<BackupTrigger, string> = {
+  "scheduled": "Scheduled",
+  "manual": "Manual",
+  "pre-restore": "Before restore",
+  "pre-delete": "Before delete",
+  "pre-import": "Before import",
+};
+
+const STORE_LABELS: Record<DiffStoreName, string> = {
+  topics: "Topics",
+  questions: "Questions",
+  notes: "Topic notes",
+  dailyQuestions: "Daily questions",
+  snippets: "Snippets",
+  solved: "Solved problems",
+  reviews: "Review cards",
+  memories: "Memories",
+};
+
+const INTERVAL_OPTIONS = [
+  { hours: 6, label: "Every 6 hours" },
+  { hours: 12, label: "Every 12 hours" },
+  { hours: 24, label: "Daily" },
+  { hours: 72, label: "Every 3 days" },
+  { hours: 168, label: "Weekly" },
+];
+
+function formatSize(bytes: number) {
+  return bytes < 1024 * 1024 ? `${(bytes / 1024).toFixed(1)} KB` : `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+}
+
+function summarizeCounts(backup: BackupMeta) {
+  const { counts } = backup;
+  return `${counts.topics} topics · ${counts.questions} questions · ${counts.notes} notes · ${counts.snippets} snippets · ${counts.reviews} review cards · ${counts.memories} memories`;
+}
+
+function DiffView({
+  diff,
+  onRestoreTopic,
+  restoringTopic,
+}: {
+  diff: BackupDiff;
+  onRestoreTopic: (topicId: string) => void;
+  restoringTopic: string | null;
+}) {
+  const changedStores = diff.stores.filter(s => s.removed.length || s.added.length || s.changed.length);
+
+  return (
+    <div className="space-y-4 text-sm">
+      {diff.restorableTopics.length > 0 && (
+        <div className="space-y-2">
+          <p className="font-medium">Recoverable topics</p>
+          {diff.restorableTopics.map(topic => (
+            <div key={topic.id} className="flex items-center justify-between gap-2 rounded-md border p-2">
+              <div className="min-w-0">
+                <p className="truncate font-medium">{topic.name}</p>
+                <p className="text-xs text-muted-foreground">
+                  {topic.deleted
+                    ? "Deleted since this backup"
+                    : `${topic.missingQuestions} questions and ${topic.missingNotes} notes missing`}
+                </p>
+              </div>
+              <Button
+                size="sm"
+                variant="outline"
+                disabled={!!restoringTopic}
+                onClick={() => onRestoreTopic(topic.id)}
+              >
+                {restoringTopic === topic.id ? (
+                  <Loader2 className="h-3.5 w-3.5 animate-spin" />
+                ) : (
+                  <RotateCcw className="h-3.5 w-3.5" />
+                )}
+                <span className="ml-1">Restore</span>
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {changedStores.length === 0 ? (
+        <p className="text-muted-foreground">No differences - your data matches this backup.</p>
+      ) : (
+        <div className="space-y-2">
+          {changedStores.map(store => (
+            <details key={store.store} className="rounded-md border p-2">
+              <summary className="flex cursor-pointer items-center justify-between gap-2">
+                <span className="font-medium">{STORE_LABELS[store.store]}</span>
+                <span className="flex gap-1">
+                  {store.removed.length > 0 && <Badge variant="destructive">-{store.removed.length}</Badge>}
+                  {store.added.length > 0 && <Badge>+{store.added.length}</Badge>}
+                  {store.changed.length > 0 && <Badge variant="secondary">~{store.changed.length}</Badge>}
+                </span>
+              </summary>
+              <ul className="mt-2 max-h-40 space-y-0.5 overflow-y-auto text-xs">
+                {store.removed.map(item => (
+                  <li key={`r-${item.id}`} className="text-destructive">- {item.label}</li>
+                ))}
+                {store.added.map(item => (
+                  <li key={`a-${item.id}`} className="text-green-600">+ {item.label}</li>
+                ))}
+                {store.changed.map(item => (
+                  <li key={`c-${item.id}`} className="text-muted-foreground">~ {item.label}</li>
+                ))}
+              </ul>
+            </details>
+          ))}
+          <p className="text-xs text-muted-foreground">
+            - only in the backup · + added since · ~ changed since
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default function BackupsPage() {
+  const [backups, setBackups] = useState<BackupMeta[]>([]);
+  const [settings, setSettings] = useState<BackupSettings | null>(null);
+  const [storeKind, setStoreKind] = useState<string>("");
+  const [isLoading, setIsLoading] = useState(true);
+  const [isBackingUp, setIsBackingUp] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [comparing, setComparing] = useState<{ backup: BackupMeta; diff: BackupDiff } | null>(null);
+  const [restoringTopic, setRestoringTopic] = useState<string | null>(null);
+  const { user } = useAuth();
+  const { toast } = useToast();
+
+  const load = useCallback(async () => {
+    if (!user) return;
+    const result = await listBackups(user.uid);
+    if (result.success) {
+      setBackups(result.backups || []);
+      setSettings(result.settings || null);
+      setStoreKind(result.store || "");
+    } else {
+      toast({ title: "Failed to load backups", description: result.error, variant: "destructive" });
+    }
+    setIsLoading(false);
+  }, [user, toast]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const afterRestore = async (description: string) => {
+    if (!user) return;
+    try {
+      await CacheUtils.invalidateUserCache(user.uid);
+    } catch (error) {
+      console.error("Failed to invalidate cache after restore:", error);
+    }
+    toast({ title: "Restored", description });
+    await load();
+  };
+
+  const handleBackupNow = async () => {
+    if (!user) return;
+    setIsBackingUp(true);
+    const result = await createBackup(user.uid);
+    setIsBackingUp(false);
+    if (result.success) {
+      toast({ title: "Backup created", description: result.backup ? summarizeCounts(result.backup) : undefined });
+      await load();
+    } else {
+      toast({ title: "Backup failed", description: result.error, variant: "destructive" });
+    }
+  };
+
+  const handleSaveSettings = async () => {
+    if (!user || !settings) return;
+    setIsSaving(true);
+    const result = await updateBackupSettings(user.uid, {
+      enabled: settings.enabled,
+      intervalHours: settings.intervalHours,
+      retainCount: settings.retainCount,
+      retainDays: settings.retainDays,
+    });
+    setIsSaving(false);
+    if (result.success) {
+      toast({ title: "Backup schedule saved" });
+      await load();
+    } else {
+      toast({ title: "Couldn't save schedule", description: result.error, variant: "destructive" });
+    }
+  };
+
+  const handleCompare = async (backup: BackupMeta) => {
+    if (!user) return;
+    setBusyId(backup.id);
+    const result = await compareBackup(user.uid, backup.id);
+    setBusyId(null);
+    if (result.success && result.diff) {
+      setComparing({ backup, diff: result.diff });
+    } else {
+      toast({ title: "Compare failed", description: result.error, variant: "destructive" });
+    }
+  };
+
+  const handleRestoreTopic = async (topicId: string) => {
+    if (!user || !comparing) return;
+    setRestoringTopic(topicId);
+    const result = await restoreBackup(user.uid, comparing.backup.id, { topicIds: [topicId] });
+    setRestoringTopic(null);
+    if (result.success) {
+      await afterRestore(`${result.restored?.records ?? 0} records brought back.`);
+      await handleCompare(comparing.backup);
+    } else {
+      toast({ title: "Restore failed", description: result.error, variant: "destructive" });
+    }
+  };
+
+  const handleRestoreAll = async (backup: BackupMeta) => {
+    if (!user) return;
+    setBusyId(backup.id);
+    const result = await restoreBackup(user.uid, backup.id);
+    setBusyId(null);
+    if (result.success) {
+      await afterRestore("Your data was replaced with this backup. The previous state was saved as a restore point.");
+    } else {
+      toast({ title: "Restore failed", description: result.error, variant: "destructive" });
+    }
+  };
+
+  const handleDelete = async (backup: BackupMeta) => {
+    if (!user) return;
+    setBusyId(backup.id);
+    const result = await deleteBackup(user.uid, backup.id);
+    setBusyId(null);
+    if (result.success) {
+      setBackups(current => current.filter(b => b.id !== backup.id));
+    } else {
+      toast({ title: "Delete failed", description: result.error, variant: "destructive" });
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="space-y-6 pb-8">
+        <Skeleton className="h-10 w-64" />
+        <Skeleton className="h-40" />
+        <Skeleton className="h-96" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6 pb-8">
+      <header className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl sm:text-3xl font-semibold tracking-tight flex items-center gap-3">
+            <History className="h-8 w-8" />
+            Backups
+          </h1>
+          <p className="text-muted-foreground mt-2">
+            Restore points of all your topics, notes, snippets, review cards and memories
+          </p>
+        </div>
+        <Button onClick={handleBackupNow} disabled={isBackingUp} className="flex items-center gap-2">
+          {isBackingUp ? <Loader2 className="h-4 w-4 animate-spin" /> : <ArchiveRestore className="h-4 w-4" />}
+          Back up now
+        </Button>
+      </header>
+
+      {settings && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Schedule</CardTitle>
+            <CardDescription>
+              Backups run when you open the app and the last one is older than the interval.
+              {storeKind && ` Stored in ${storeKind === "filesystem" ? "the backup directory" : "the database"}.`}
+              {settings.lastError && <span className="block text-destructive">Last scheduled backup failed: {settings.lastError}</span>}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="grid gap-4 sm:grid-cols-4 sm:items-end">
+            <div className="flex items-center gap-2">
+              <Switch
+                id="backupsEnabled"
+                checked={settings.enabled}
+                onCheckedChange={enabled => setSettings({ ...settings, enabled })}
+              />
+              <Label htmlFor="backupsEnabled">Automatic backups</Label>
+            </div>
+            <div className="space-y-1">
+              <Label>Interval</Label>
+              <Select
+                value={String(settings.intervalHours)}
+                onValueChange={value => setSettings({ ...settings, intervalHours: Number(value) })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {INTERVAL_OPTIONS.map(option => (
+                    <SelectItem key={option.hours} value={String(option.hours)}>{option.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="grid grid-cols-2 gap-2">
+              <div className="space-y-1">
+                <Label htmlFor="retainCount">Keep last</Label>
+                <Input
+                  id="retainCount"
+                  type="number"
+                  min={1}
+                  max={100}
+                  value={settings.retainCount}
+                  onChange={e => setSettings({ ...settings, retainCount: Number(e.target.value) })}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="retainDays">Max days</Label>
+                <Input
+                  id="retainDays"
+                  type="number"
+                  min={1}
+                  max={365}
+                  value={settings.retainDays}
+                  onChange={e => setSettings({ ...settings, retainDays: Number(e.target.value) })}
+                />
+              </div>
+            </div>
+            <Button variant="outline" onClick={handleSaveSettings} disabled={isSaving}>
+              {isSaving ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Save className="mr-2 h-4 w-4" />}
+              Save
+            </Button>
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Restore points</CardTitle>
+          <CardDescription>Compare a backup with your current data to recover individual topics, or restore it entirely.</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-2">
+          {backups.length === 0 && (
+            <p className="text-sm text-muted-foreground">No backups yet.</p>
+          )}
+          {backups.map(backup => (
+            <div key={backup.id} className="flex flex-col gap-2 rounded-md border p-3 sm:flex-row sm:items-center sm:justify-between">
+              <div className="min-w-0 space-y-1">
+                <div className="flex items-center gap-2">
+                  <span className="font-medium">{new Date(backup.createdAt).toLocaleString()}</span>
+                  <Badge variant="secondary">{TRIGGER_LABELS[backup.trigger]}</Badge>
+                  <span className="text-xs text-muted-foreground">{formatSize(backup.size)}</span>
+                </div>
+                <p className="text-xs text-muted-foreground">{summarizeCounts(backup)}</p>
+              </div>
+              <div className="flex shrink-0 gap-2">
+                <Button size="sm" variant="outline" disabled={busyId === backup.id} onClick={() => handleCompare(backup)}>
+                  {busyId === backup.id ? <Loader2 className="h-3.5 w-3.5 animate-spin" /> : <GitCompare className="h-3.5 w-3.5" />}
+                  <span className="ml-1">Compare</span>
+                </Button>
+                <AlertDialog>
+                  <AlertDialogTrigger asChild>
+                    <Button size="sm" variant="outline" disabled={busyId === backup.id}>
+                      <RotateCcw className="h-3.5 w-3.5" />
+                      <span className="ml-1">Restore</span>
+                    </Button>
+                  </AlertDialogTrigger>
+                  <AlertDialogContent>
+                    <AlertDialogHeader>
+                      <AlertDialogTitle>Restore this backup?</AlertDialogTitle>
+                      <AlertDialogDescription>
+                        All topics, notes, snippets, solved problems, review cards and memories will be replaced with
+                        the backup from {new Date(backup.createdAt).toLocaleString()}. Your current data is saved as a
+                        restore point first.
+                      </AlertDialogDescription>
+                    </AlertDialogHeader>
+                    <AlertDialogFooter>
+                      <AlertDialogCancel>Cancel</AlertDialogCancel>
+                      <AlertDialogAction onClick={() => handleRestoreAll(backup)}>Restore</AlertDialogAction>
+                    </AlertDialogFooter>
+                  </AlertDialogContent>
+                </AlertDialog>
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  disabled={busyId === backup.id}
+                  onClick={() => handleDelete(backup)}
+                  aria-label="Delete backup"
+                >
+                  <Trash2 className="h-3.5 w-3.5" />
+                </Button>
+              </div>
+            </div>
+          ))}
+        </CardContent>
+      </Card>
+
+      <Dialog open={!!comparing} onOpenChange={open => { if (!open) setComparing(null); }}>
+        <DialogContent className="sm:max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Backup vs. now</DialogTitle>
+            <DialogDescription>
+              {comparing && `Backup from ${new Date(comparing.backup.createdAt).toLocaleString()} compared with your current data.`}
+            </DialogDescription>
+          </DialogHeader>
+          {comparing && (
+            <DiffView diff={comparing.diff} onRestoreTopic={handleRestoreTopic} restoringTopic={restoringTopic} />
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
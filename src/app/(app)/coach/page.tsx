@@ -0,0 +1,15 @@
+import { CoachChat } from "@/components/ai/coach-chat";
+
+export default function CoachPage() {
+  return (
+    <div className="space-y-6 pb-8">
+      <header>
+        <h1 className="text-2xl sm:text-3xl font-semibold tracking-tight">AI Coach</h1>
+        <p className="text-muted-foreground mt-2">
+          Talk through problems and plans with a coach that knows your progress. Conversations are saved.
+        </p>
+      </header>
+      <CoachChat />
+    </div>
+  );
+}
@@ -1,6 +1,7 @@
 import { DailyQuestions } from "@/components/dashboard/daily-questions";
 import { TopicsGrid } from "@/components/dashboard/topics-grid";
 import { ProgressOverview } from "@/components/dashboard/progress-overview";
+import { ClaimLegacyData } from "@/components/dashboard/claim-legacy-data";
 import { Suspense } from "react";
 import { Skeleton } from "@/components/ui/skeleton";
 
@@ -14,6 +15,8 @@ export default function DashboardPage() {
         </h1>
       </header>
 
+      <ClaimLegacyData />
+
       {/* Progress Overview Section */}
       <section>
         <Suspense fallback={<Skeleton className="h-64 w-full rounded-xl" />}>
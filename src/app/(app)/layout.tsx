@@ -7,8 +7,13 @@ import { AppHeader } from "@/components/layout/header";
 import { AppSidebar } from "@/components/layout/app-sidebar";
 import { MobileBottomNav } from "@/components/layout/mobile-nav";
 import { SidebarProvider, Sidebar, SidebarInset } from "@/components/ui/sidebar";
+import { runScheduledBackup } from "@/lib/backup-actions";
+import { purgeExpiredTrash } from "@/lib/actions";
 import { Loader2 } from "lucide-react";
 
+const TRASH_PURGE_KEY = "trash_purged_at";
+const TRASH_PURGE_INTERVAL_MS = 1000 * 60 * 60 * 24;
+
 export default function AppLayout({ children }: { children: React.ReactNode }) {
   const { user, loading } = useAuth();
   const router = useRouter();
@@ -19,6 +24,24 @@ export default function AppLayout({ children }: { children: React.ReactNode }) {
     }
   }, [user, loading, router]);
 
+  // Take the scheduled backup if one is due; the server decides
+  useEffect(() => {
+    if (!user) return;
+    runScheduledBackup(user.uid).catch(error => console.error("Scheduled backup failed:", error));
+  }, [user]);
+
+  // Purge expired trash at most once a day per browser
+  useEffect(() => {
+    if (!user) return;
+    const key = `${TRASH_PURGE_KEY}_${user.uid}`;
+    const last = Number(localStorage.getItem(key) || 0);
+    if (Date.now() - last < TRASH_PURGE_INTERVAL_MS) return;
+
+    purgeExpiredTrash(user.uid)
+      .then(() => localStorage.setItem(key, String(Date.now())))
+      .catch(error => console.error("Trash purge failed:", error));
+  }, [user]);
+
   if (loading || !user) {
     return (
       <div className="flex h-screen items-center justify-center bg-background">
@@ -27,13 +27,12 @@ import {
 import { Brain, Plus, Search, Trash2, Loader2, Lightbulb, AlertTriangle, CheckCircle, BookOpen, Database } from "lucide-react";
 import { patterns, topicTags } from "@/lib/types";
 import { 
-  addMemory, 
   getMemories, 
-  deleteMemory, 
   getMemoryStats,
   type MemoryType,
   type MongoMemory 
 } from "@/lib/memory-actions";
+import { queueAddMemory, queueDeleteMemory } from "@/lib/outbox";
 
 const memoryTypeConfig: Record<MemoryType, { label: string; icon: typeof Lightbulb; color: string }> = {
   insight: { label: 'Insight', icon: Lightbulb, color: 'text-amber-500' },
@@ -130,7 +129,7 @@ export default function MemoryBankPage() {
     
     startTransition(async () => {
       const tags = selectedTags.length > 0 ? selectedTags : suggestedTags;
-      const result = await addMemory(user.uid, newContent, newType, tags);
+      const result = await queueAddMemory(user.uid, newContent, newType, tags);
       
       if (result.success) {
         // Refresh the list
@@ -159,7 +158,7 @@ export default function MemoryBankPage() {
     if (!user) return;
     
     startTransition(async () => {
-      const result = await deleteMemory(user.uid, memoryId);
+      const result = await queueDeleteMemory(user.uid, memoryId);
       
       if (result.success) {
         setMemories(prev => prev.filter(m => m._id?.toString() !== memoryId));
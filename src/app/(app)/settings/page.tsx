@@ -0,0 +1,294 @@
+"use client";
+
+import React, { useCallback, useEffect, useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { getCoachingProfile, updateCoachingProfile } from "@/lib/coaching-profile-actions";
+import { clearAICache, getAICacheStats } from "@/lib/ai-cache-actions";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { Loader2, Save, Settings, Trash2, Zap } from "lucide-react";
+import { difficulties, type Difficulty } from "@/lib/types";
+import type { CoachingProfile, ExperienceLevel } from "@/lib/coaching-profile";
+import type { AICacheScope, AICacheStats } from "@/lib/ai-cache";
+
+const EXPERIENCE_OPTIONS: { value: ExperienceLevel; label: string }[] = [
+  { value: "student", label: "Student / new grad" },
+  { value: "junior", label: "Junior engineer" },
+  { value: "mid", label: "Mid-level engineer" },
+  { value: "senior", label: "Senior engineer" },
+  { value: "staff", label: "Staff+ engineer" },
+];
+
+const NO_LEVEL = "unset";
+
+const CACHE_SCOPE_LABELS: Record<AICacheScope, string> = {
+  ask: "Coach answers",
+  suggestions: "Problem suggestions",
+  "genkit-suggestions": "Suggester (Gemini)",
+};
+
+function splitList(value: string) {
+  return value.split(",").map(item => item.trim()).filter(Boolean);
+}
+
+// The form keeps lists as the text the user typed; they're split on save
+interface CoachingForm {
+  targetCompanies: string;
+  interviewDate: string;
+  allowedDifficulties: Difficulty[];
+  dailyMinutes: string;
+  preferredLanguages: string;
+  experienceLevel: ExperienceLevel | typeof NO_LEVEL;
+}
+
+function toForm(profile: CoachingProfile): CoachingForm {
+  return {
+    targetCompanies: profile.targetCompanies.join(", "),
+    interviewDate: profile.interviewDate ?? "",
+    allowedDifficulties: profile.allowedDifficulties,
+    dailyMinutes: profile.dailyMinutes ? String(profile.dailyMinutes) : "",
+    preferredLanguages: profile.preferredLanguages.join(", "),
+    experienceLevel: profile.experienceLevel ?? NO_LEVEL,
+  };
+}
+
+export default function SettingsPage() {
+  const [form, setForm] = useState<CoachingForm | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [cacheStats, setCacheStats] = useState<AICacheStats | null>(null);
+  const [isClearing, setIsClearing] = useState(false);
+  const { user } = useAuth();
+  const { toast } = useToast();
+
+  const load = useCallback(async () => {
+    if (!user) return;
+    const result = await getCoachingProfile(user.uid);
+    if (result.success && result.profile) {
+      setForm(toForm(result.profile));
+    } else {
+      toast({ title: "Failed to load coaching profile", description: result.error, variant: "destructive" });
+    }
+  }, [user, toast]);
+
+  const loadCacheStats = useCallback(async () => {
+    if (!user) return;
+    const result = await getAICacheStats(user.uid);
+    if (result.success && result.stats) {
+      setCacheStats(result.stats);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    load();
+    loadCacheStats();
+  }, [load, loadCacheStats]);
+
+  const toggleDifficulty = (difficulty: Difficulty, checked: boolean) => {
+    if (!form) return;
+    const allowed = checked
+      ? difficulties.filter(d => d === difficulty || form.allowedDifficulties.includes(d))
+      : form.allowedDifficulties.filter(d => d !== difficulty);
+    setForm({ ...form, allowedDifficulties: allowed });
+  };
+
+  const handleSave = async () => {
+    if (!user || !form) return;
+    setIsSaving(true);
+    const result = await updateCoachingProfile(user.uid, {
+      targetCompanies: splitList(form.targetCompanies),
+      interviewDate: form.interviewDate,
+      allowedDifficulties: form.allowedDifficulties,
+      dailyMinutes: form.dailyMinutes ? Number(form.dailyMinutes) : 0,
+      preferredLanguages: splitList(form.preferredLanguages),
+      experienceLevel: form.experienceLevel === NO_LEVEL ? "" : form.experienceLevel,
+    });
+    setIsSaving(false);
+    if (result.success && result.profile) {
+      setForm(toForm(result.profile));
+      toast({ title: "Coaching profile saved", description: "New suggestions and coach answers will follow it" });
+    } else {
+      toast({ title: "Couldn't save coaching profile", description: result.error, variant: "destructive" });
+    }
+  };
+
+  const handleClearCache = async () => {
+    if (!user) return;
+    setIsClearing(true);
+    const result = await clearAICache(user.uid);
+    setIsClearing(false);
+    if (result.success) {
+      toast({ title: "Cached AI answers cleared", description: "The next request asks the AI again" });
+      loadCacheStats();
+    } else {
+      toast({ title: "Couldn't clear cached answers", description: result.error, variant: "destructive" });
+    }
+  };
+
+  return (
+    <div className="space-y-6 pb-8">
+      <header>
+        <h1 className="text-2xl sm:text-3xl font-semibold tracking-tight flex items-center gap-3">
+          <Settings className="h-8 w-8" />
+          Settings
+        </h1>
+        <p className="text-muted-foreground mt-2">
+          Tell the AI what you are preparing for
+        </p>
+      </header>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Coaching profile</CardTitle>
+          <CardDescription>
+            Every AI suggestion and coach answer follows this profile. Suggestions never include a difficulty you leave unchecked.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {!form ? (
+            <div className="space-y-3">
+              <Skeleton className="h-10 w-full" />
+              <Skeleton className="h-10 w-full" />
+              <Skeleton className="h-10 w-2/3" />
+            </div>
+          ) : (
+            <div className="grid gap-6 sm:grid-cols-2">
+              <div className="space-y-2 sm:col-span-2">
+                <Label>Difficulties to suggest</Label>
+                <div className="flex flex-wrap gap-6">
+                  {difficulties.map(difficulty => (
+                    <div key={difficulty} className="flex items-center gap-2">
+                      <Checkbox
+                        id={`difficulty-${difficulty}`}
+                        checked={form.allowedDifficulties.includes(difficulty)}
+                        onCheckedChange={checked => toggleDifficulty(difficulty, checked === true)}
+                      />
+                      <Label htmlFor={`difficulty-${difficulty}`}>{difficulty}</Label>
+                    </div>
+                  ))}
+                </div>
+              </div>
+
+              <div className="space-y-1">
+                <Label htmlFor="targetCompanies">Target companies</Label>
+                <Input
+                  id="targetCompanies"
+                  placeholder="Google, Stripe"
+                  value={form.targetCompanies}
+                  onChange={e => setForm({ ...form, targetCompanies: e.target.value })}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="interviewDate">Interview date</Label>
+                <Input
+                  id="interviewDate"
+                  type="date"
+                  value={form.interviewDate}
+                  onChange={e => setForm({ ...form, interviewDate: e.target.value })}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="dailyMinutes">Daily practice time (minutes)</Label>
+                <Input
+                  id="dailyMinutes"
+                  type="number"
+                  min={10}
+                  max={600}
+                  placeholder="60"
+                  value={form.dailyMinutes}
+                  onChange={e => setForm({ ...form, dailyMinutes: e.target.value })}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="preferredLanguages">Preferred languages</Label>
+                <Input
+                  id="preferredLanguages"
+                  placeholder="Python, Go"
+                  value={form.preferredLanguages}
+                  onChange={e => setForm({ ...form, preferredLanguages: e.target.value })}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label>Experience</Label>
+                <Select
+                  value={form.experienceLevel}
+                  onValueChange={value => setForm({ ...form, experienceLevel: value as CoachingForm["experienceLevel"] })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NO_LEVEL}>Not set</SelectItem>
+                    {EXPERIENCE_OPTIONS.map(option => (
+                      <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="flex items-end">
+                <Button onClick={handleSave} disabled={isSaving || form.allowedDifficulties.length === 0}>
+                  {isSaving ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Save className="mr-2 h-4 w-4" />}
+                  Save
+                </Button>
+              </div>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Zap className="h-5 w-5" />
+            AI response cache
+          </CardTitle>
+          <CardDescription>
+            Repeated questions and suggestion requests are answered from the server cache until your solved problems or reviews change.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {!cacheStats ? (
+            <Skeleton className="h-16 w-full" />
+          ) : (
+            <div className="space-y-4">
+              <div className="space-y-1">
+                <div className="flex items-center justify-between text-sm">
+                  <span>Hit rate, last {cacheStats.days} days</span>
+                  <span className="font-medium">{cacheStats.total.hitRate}%</span>
+                </div>
+                <Progress value={cacheStats.total.hitRate} className="h-2" />
+                <p className="text-xs text-muted-foreground">
+                  {cacheStats.total.hits} cached of {cacheStats.total.hits + cacheStats.total.misses} requests
+                  {" "}• ~{cacheStats.total.tokensSaved.toLocaleString()} tokens saved
+                  {" "}• {cacheStats.entries} answers cached now
+                </p>
+              </div>
+              <div className="grid gap-2 sm:grid-cols-3">
+                {cacheStats.scopes.map(scope => (
+                  <div key={scope.scope} className="rounded-lg border p-3">
+                    <p className="text-sm font-medium">{CACHE_SCOPE_LABELS[scope.scope]}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {scope.hits + scope.misses > 0
+                        ? `${scope.hitRate}% of ${scope.hits + scope.misses} from cache`
+                        : "No requests yet"}
+                    </p>
+                  </div>
+                ))}
+              </div>
+              <Button variant="outline" onClick={handleClearCache} disabled={isClearing || cacheStats.entries === 0}>
+                {isClearing ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Trash2 className="mr-2 h-4 w-4" />}
+                Clear cached answers
+              </Button>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
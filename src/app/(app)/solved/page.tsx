@@ -28,7 +28,8 @@ import { Label } from "@/components/ui/label";
 import { Checkbox } from "@/components/ui/checkbox";
 import { getSolvedProblems, getTopicProgress, SolvedProblem } from "@/lib/progress-actions";
 import { getTopics } from "@/lib/actions";
-import { getProblemById } from "@/lib/problem-lookup";
+import { getCatalogProblem } from "@/lib/problem-catalog";
+import { LeetCodeSyncDialog } from "@/components/solved/leetcode-sync-dialog";
 import { useAuth } from "@/hooks/use-auth";
 import { useToast } from "@/hooks/use-toast";
 import { CheckCircle2, Search, ExternalLink, Filter, TrendingUp, Plus, FolderPlus, PlaySquare } from "lucide-react";
@@ -49,17 +50,20 @@ export default function SolvedProblemsPage() {
   const [isPlaylistDialogOpen, setIsPlaylistDialogOpen] = useState(false);
   const [newProblemId, setNewProblemId] = useState("");
   const [problemDetails, setProblemDetails] = useState<any>(null);
+  const [reloadKey, setReloadKey] = useState(0);
   
   const { user } = useAuth();
   const { toast } = useToast();
 
   useEffect(() => {
     async function loadData() {
+      if (!user) return;
+
       try {
         const [solvedResult, topicsResult, userTopics] = await Promise.all([
-          getSolvedProblems("default-user", { limit: 500 }),
-          getTopicProgress(),
-          user ? getTopics(user.uid) : Promise.resolve([])
+          getSolvedProblems(user.uid, { limit: 500 }),
+          getTopicProgress(user.uid),
+          getTopics(user.uid)
         ]);
 
         if (solvedResult.success && solvedResult.problems) {
@@ -80,17 +84,18 @@ export default function SolvedProblemsPage() {
     }
 
     loadData();
-  }, [user]);
+  }, [user, reloadKey]);
 
   // Auto-fetch problem details when ID is entered
   useEffect(() => {
     if (newProblemId && /^\d+$/.test(newProblemId.trim())) {
-      const problem = getProblemById(parseInt(newProblemId.trim()));
-      if (problem) {
-        setProblemDetails(problem);
-      } else {
-        setProblemDetails(null);
-      }
+      let cancelled = false;
+      getCatalogProblem(parseInt(newProblemId.trim())).then(problem => {
+        if (!cancelled) setProblemDetails(problem ?? null);
+      });
+      return () => {
+        cancelled = true;
+      };
     } else {
       setProblemDetails(null);
     }
@@ -257,6 +262,8 @@ export default function SolvedProblemsPage() {
           </p>
         </div>
         <div className="flex gap-2">
+          <LeetCodeSyncDialog onSynced={() => setReloadKey(key => key + 1)} />
+
           <Dialog open={isAddDialogOpen} onOpenChange={setIsAddDialogOpen}>
             <DialogTrigger asChild>
               <Button className="flex items-center gap-2">
@@ -6,6 +6,7 @@ import { useAuth } from "@/hooks/use-auth";
 import { db } from "@/lib/firebase";
 import { doc, getDoc, collection, getDocs, query, orderBy } from "firebase/firestore";
 import { Topic, TopicQuestion, TopicNote } from "@/lib/types";
+import { isTrashed } from "@/lib/trash";
 import TopicDetails from "@/components/topics/topic-details";
 import { notFound, useRouter } from "next/navigation";
 import { Loader2 } from "lucide-react";
@@ -27,18 +28,18 @@ export default function TopicPage({ params }: { params: { id: string } }) {
       const topicRef = doc(db, "users", userId, "topics", topicId);
       const topicSnap = await getDoc(topicRef);
 
-      if (!topicSnap.exists()) {
+      if (!topicSnap.exists() || isTrashed(topicSnap.data())) {
         return null;
       }
       const topic = { id: topicSnap.id, ...topicSnap.data() } as Topic;
 
       const questionsQuery = query(collection(topicRef, "questions"), orderBy("createdAt", "asc"));
       const questionsSnap = await getDocs(questionsQuery);
-      const questions = questionsSnap.docs.map(doc => ({ id: doc.id, ...doc.data() })) as TopicQuestion[];
+      const questions = (questionsSnap.docs.map(doc => ({ id: doc.id, ...doc.data() })) as TopicQuestion[]).filter(q => !isTrashed(q));
 
       const notesQuery = query(collection(topicRef, "notes"), orderBy("createdAt", "asc"));
       const notesSnap = await getDocs(notesQuery);
-      const notes = notesSnap.docs.map(doc => ({ id: doc.id, ...doc.data() })) as TopicNote[];
+      const notes = (notesSnap.docs.map(doc => ({ id: doc.id, ...doc.data() })) as TopicNote[]).filter(n => !isTrashed(n));
 
       return { topic, questions, notes };
     } catch (error) {
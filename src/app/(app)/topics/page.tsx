@@ -19,6 +19,7 @@ import {
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
 import { getTopicsWithStats, addTopic, deleteTopic } from "@/lib/actions";
+import { TRASH_RETENTION_DAYS } from "@/lib/trash";
 import { useAuth } from "@/hooks/use-auth";
 import { useToast } from "@/hooks/use-toast";
 import { Plus, BookOpen, Trash2, Search, Filter } from "lucide-react";
@@ -88,8 +89,8 @@ export default function TopicsPage() {
       await deleteTopic(user.uid, topicId);
       
       toast({
-        title: "Topic Deleted",
-        description: `${topicName} has been removed.`,
+        title: "Moved to Trash",
+        description: `${topicName} can be restored from the Trash for ${TRASH_RETENTION_DAYS} days.`,
       });
       
       fetchTopics();
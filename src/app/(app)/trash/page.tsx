@@ -0,0 +1,234 @@
+"use client";
+
+import React, { useCallback, useEffect, useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { emptyTrash, getTrash, purgeFromTrash, restoreFromTrash } from "@/lib/actions";
+import { getMongoTrash, purgeMongoItem, restoreMongoItem } from "@/lib/trash-actions";
+import { purgeDate, TRASH_RETENTION_DAYS, type TrashItem, type TrashKind } from "@/lib/trash";
+import { CacheUtils } from "@/lib/cache";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { Loader2, RotateCcw, Trash2, XCircle } from "lucide-react";
+
+const KIND_LABELS: Record<TrashKind, string> = {
+  topic: "Topic",
+  question: "Question",
+  note: "Note",
+  memory: "Memory",
+  snippet: "Snippet",
+};
+
+const isMongoItem = (item: TrashItem): item is TrashItem & { kind: "memory" | "snippet" } =>
+  item.kind === "memory" || item.kind === "snippet";
+
+function daysLeft(item: TrashItem) {
+  const ms = purgeDate(item.deletedAt).getTime() - Date.now();
+  return Math.max(0, Math.ceil(ms / (1000 * 60 * 60 * 24)));
+}
+
+export default function TrashPage() {
+  const [items, setItems] = useState<TrashItem[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isEmptying, setIsEmptying] = useState(false);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const { user } = useAuth();
+  const { toast } = useToast();
+
+  const load = useCallback(async () => {
+    if (!user) return;
+    try {
+      const [firestoreItems, mongo] = await Promise.all([getTrash(user.uid), getMongoTrash(user.uid)]);
+      if (!mongo.success) {
+        toast({ title: "Some trashed items couldn't be loaded", description: mongo.error, variant: "destructive" });
+      }
+      setItems(
+        [...firestoreItems, ...(mongo.items || [])].sort((a, b) => b.deletedAt.localeCompare(a.deletedAt))
+      );
+    } catch (error) {
+      console.error("Failed to load trash:", error);
+      toast({ title: "Failed to load trash", variant: "destructive" });
+    }
+    setIsLoading(false);
+  }, [user, toast]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const handleRestore = async (item: TrashItem) => {
+    if (!user) return;
+    setBusyId(item.id);
+    try {
+      if (isMongoItem(item)) {
+        const result = await restoreMongoItem(user.uid, item.kind, item.id);
+        if (!result.success) throw new Error(result.error);
+        await CacheUtils.invalidateUserCache(user.uid);
+      } else {
+        await restoreFromTrash(user.uid, item);
+      }
+      setItems(current => current.filter(i => i.id !== item.id));
+      toast({
+        title: "Restored",
+        description: item.kind === "topic" ? `${item.label} is back with its questions and notes.` : item.label,
+      });
+    } catch (error) {
+      toast({
+        title: "Restore failed",
+        description: error instanceof Error ? error.message : undefined,
+        variant: "destructive",
+      });
+    }
+    setBusyId(null);
+  };
+
+  const handlePurge = async (item: TrashItem) => {
+    if (!user) return;
+    setBusyId(item.id);
+    try {
+      if (isMongoItem(item)) {
+        const result = await purgeMongoItem(user.uid, item.kind, item.id);
+        if (!result.success) throw new Error(result.error);
+      } else {
+        await purgeFromTrash(user.uid, item);
+      }
+      setItems(current => current.filter(i => i.id !== item.id));
+    } catch (error) {
+      toast({
+        title: "Delete failed",
+        description: error instanceof Error ? error.message : undefined,
+        variant: "destructive",
+      });
+    }
+    setBusyId(null);
+  };
+
+  const handleEmpty = async () => {
+    if (!user) return;
+    setIsEmptying(true);
+    try {
+      const purged = await emptyTrash(user.uid);
+      toast({ title: "Trash emptied", description: `${purged} items deleted forever.` });
+      await load();
+    } catch (error) {
+      toast({
+        title: "Couldn't empty trash",
+        description: error instanceof Error ? error.message : undefined,
+        variant: "destructive",
+      });
+    }
+    setIsEmptying(false);
+  };
+
+  if (isLoading) {
+    return (
+      <div className="space-y-6 pb-8">
+        <Skeleton className="h-10 w-64" />
+        <Skeleton className="h-96" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6 pb-8">
+      <header className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl sm:text-3xl font-semibold tracking-tight flex items-center gap-3">
+            <Trash2 className="h-8 w-8" />
+            Trash
+          </h1>
+          <p className="text-muted-foreground mt-2">
+            Deleted items are kept for {TRASH_RETENTION_DAYS} days before they are removed for good
+          </p>
+        </div>
+        <AlertDialog>
+          <AlertDialogTrigger asChild>
+            <Button variant="outline" disabled={isEmptying || items.length === 0} className="flex items-center gap-2">
+              {isEmptying ? <Loader2 className="h-4 w-4 animate-spin" /> : <XCircle className="h-4 w-4" />}
+              Empty trash
+            </Button>
+          </AlertDialogTrigger>
+          <AlertDialogContent>
+            <AlertDialogHeader>
+              <AlertDialogTitle>Empty the trash?</AlertDialogTitle>
+              <AlertDialogDescription>
+                All {items.length} items will be deleted forever, including the questions and notes of trashed topics.
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            <AlertDialogFooter>
+              <AlertDialogCancel>Cancel</AlertDialogCancel>
+              <AlertDialogAction onClick={handleEmpty}>Empty trash</AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
+      </header>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Deleted items</CardTitle>
+          <CardDescription>Restoring a topic brings back its questions and notes too.</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-2">
+          {items.length === 0 && (
+            <p className="text-sm text-muted-foreground">The trash is empty.</p>
+          )}
+          {items.map(item => (
+            <div key={`${item.kind}-${item.id}`} className="flex flex-col gap-2 rounded-md border p-3 sm:flex-row sm:items-center sm:justify-between">
+              <div className="min-w-0 space-y-1">
+                <div className="flex items-center gap-2">
+                  <Badge variant="secondary">{KIND_LABELS[item.kind]}</Badge>
+                  <span className="truncate font-medium">{item.label || "Untitled"}</span>
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  {item.detail && `${item.detail} · `}
+                  Deleted {new Date(item.deletedAt).toLocaleDateString()} · removed in {daysLeft(item)} days
+                </p>
+              </div>
+              <div className="flex shrink-0 gap-2">
+                <Button size="sm" variant="outline" disabled={busyId === item.id} onClick={() => handleRestore(item)}>
+                  {busyId === item.id ? <Loader2 className="h-3.5 w-3.5 animate-spin" /> : <RotateCcw className="h-3.5 w-3.5" />}
+                  <span className="ml-1">Restore</span>
+                </Button>
+                <AlertDialog>
+                  <AlertDialogTrigger asChild>
+                    <Button size="sm" variant="ghost" disabled={busyId === item.id}>
+                      <Trash2 className="h-3.5 w-3.5" />
+                      <span className="ml-1">Delete forever</span>
+                    </Button>
+                  </AlertDialogTrigger>
+                  <AlertDialogContent>
+                    <AlertDialogHeader>
+                      <AlertDialogTitle>Delete forever?</AlertDialogTitle>
+                      <AlertDialogDescription>
+                        {item.kind === "topic"
+                          ? `${item.label} and all of its questions and notes will be deleted. This can't be undone.`
+                          : `${item.label || "This item"} will be deleted. This can't be undone.`}
+                      </AlertDialogDescription>
+                    </AlertDialogHeader>
+                    <AlertDialogFooter>
+                      <AlertDialogCancel>Cancel</AlertDialogCancel>
+                      <AlertDialogAction onClick={() => handlePurge(item)}>Delete forever</AlertDialogAction>
+                    </AlertDialogFooter>
+                  </AlertDialogContent>
+                </AlertDialog>
+              </div>
+            </div>
+          ))}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,128 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ObjectId } from 'mongodb';
+import { getSessionUser } from '@/lib/session';
+import { buildAIContext, formatContextWithReport } from '@/lib/ai-context';
+import { PROVIDER_CONFIGS, buildSystemPrompt, type AIProvider } from '@/lib/ai-client';
+import { openStreamWithFallback } from '@/lib/ai-router';
+import { describeDropped } from '@/lib/context-budget';
+import { categorizeError, type AIErrorCategory } from '@/lib/ai-errors';
+import {
+  appendMessages,
+  conversationTitle,
+  findConversation,
+  historyForPrompt,
+  type ConversationMessage,
+} from '@/lib/conversations';
+
+const MAX_MESSAGE_LENGTH = 8000;
+
+const ERROR_STATUS: Partial<Record<AIErrorCategory, number>> = {
+  rate_limit: 429,
+  quota: 429,
+  not_configured: 503,
+  aborted: 499,
+};
+
+// POST /api/ai/chat - send a message to the AI coach and stream the reply as plain text.
+// Body: { message, conversationId?, provider? }. Without a conversationId a new thread
+// is started; its id comes back in the X-Conversation-Id header. `provider` is tried
+// first, then the fallback chain; X-AI-Provider names the one that answered. When the
+// user context had to be trimmed to the token budget, X-Context-Dropped lists what went.
+export async function POST(request: NextRequest) {
+  const sessionUser = await getSessionUser();
+  if (!sessionUser) {
+    return NextResponse.json({ success: false, error: 'Not authenticated' }, { status: 401 });
+  }
+
+  const body = await request.json().catch(() => null);
+  const message = typeof body?.message === 'string' ? body.message.trim() : '';
+  if (!message || message.length > MAX_MESSAGE_LENGTH) {
+    return NextResponse.json(
+      { success: false, error: `Message must be 1-${MAX_MESSAGE_LENGTH} characters` },
+      { status: 400 }
+    );
+  }
+  const preferred: AIProvider | undefined = body?.provider && body.provider in PROVIDER_CONFIGS
+    ? body.provider
+    : undefined;
+
+  try {
+    const existing = body?.conversationId
+      ? await findConversation(sessionUser.uid, String(body.conversationId))
+      : null;
+    if (body?.conversationId && !existing) {
+      return NextResponse.json({ success: false, error: 'Conversation not found' }, { status: 404 });
+    }
+
+    const userMessage: ConversationMessage = { role: 'user', content: message, createdAt: new Date() };
+    const context = await buildAIContext(sessionUser.uid, {
+      includeMemories: true,
+      includeProblems: true,
+      userQuery: message,
+    });
+    const { text: contextText, report } = await formatContextWithReport(context, { provider: preferred });
+    const systemPrompt = buildSystemPrompt(contextText);
+    const history = historyForPrompt([...(existing?.messages ?? []), userMessage]);
+
+    // Resolves on the first token, so a failed request is still a JSON error
+    const { provider, tokens } = await openStreamWithFallback(systemPrompt, history, {
+      provider: preferred,
+      signal: request.signal,
+    });
+    // A new thread is only written together with its first turn
+    const conversationId = existing?._id ?? new ObjectId();
+
+    let reply = '';
+    const encoder = new TextEncoder();
+
+    const stream = new ReadableStream<Uint8Array>({
+      async start(controller) {
+        let interrupted = false;
+        try {
+          for await (const token of tokens) {
+            reply += token;
+            controller.enqueue(encoder.encode(token));
+          }
+        } catch (error) {
+          interrupted = true;
+          console.error('AI chat stream failed:', error);
+        }
+
+        // Both turns in one write, so the thread never holds a question without its reply
+        if (reply) {
+          await appendMessages(sessionUser.uid, conversationId, [userMessage, {
+            role: 'assistant',
+            content: reply,
+            createdAt: new Date(),
+            provider,
+            ...(interrupted ? { interrupted } : {}),
+          }], existing ? undefined : conversationTitle(message))
+            .catch(error => console.error('Failed to save AI reply:', error));
+        }
+
+        if (interrupted) {
+          controller.error(new Error('The reply was interrupted'));
+        } else {
+          controller.close();
+        }
+      },
+    });
+
+    return new NextResponse(stream, {
+      headers: {
+        'Content-Type': 'text/plain; charset=utf-8',
+        'Cache-Control': 'no-store',
+        'X-Conversation-Id': conversationId.toString(),
+        'X-AI-Provider': provider,
+        ...(report.dropped.length > 0 ? { 'X-Context-Dropped': describeDropped(report) } : {}),
+      },
+    });
+  } catch (error) {
+    console.error('AI chat error:', error);
+    const categorized = categorizeError('router', error, request.signal);
+    return NextResponse.json(
+      { success: false, error: categorized.message, errorCategory: categorized.category },
+      { status: ERROR_STATUS[categorized.category] ?? 502 }
+    );
+  }
+}
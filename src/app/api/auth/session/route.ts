@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { SESSION_COOKIE, verifyIdToken } from '@/lib/session';
+
+// Firebase ID tokens expire after an hour; the client refreshes the cookie on every token change
+const SESSION_MAX_AGE = 60 * 60;
+
+export async function POST(request: NextRequest) {
+  const authorization = request.headers.get('authorization');
+  const token = authorization?.match(/^Bearer\s+(.+)$/i)?.[1];
+
+  if (!token) {
+    return NextResponse.json({ error: 'ID token is required' }, { status: 400 });
+  }
+
+  const user = await verifyIdToken(token);
+  if (!user) {
+    return NextResponse.json({ error: 'Invalid ID token' }, { status: 401 });
+  }
+
+  const response = NextResponse.json({ success: true, uid: user.uid });
+  response.cookies.set(SESSION_COOKIE, token, {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'lax',
+    path: '/',
+    maxAge: SESSION_MAX_AGE,
+  });
+  return response;
+}
+
+export async function DELETE() {
+  const response = NextResponse.json({ success: true });
+  response.cookies.delete(SESSION_COOKIE);
+  return response;
+}
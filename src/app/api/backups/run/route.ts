@@ -0,0 +1,25 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { runDueBackups } from '@/lib/backups';
+
+// POST /api/backups/run - back up every user who is due; for Cloud Scheduler or cron.
+// Authenticated with `Authorization: Bearer $BACKUP_CRON_SECRET`.
+export async function POST(request: NextRequest) {
+  const secret = process.env.BACKUP_CRON_SECRET;
+  if (!secret) {
+    return NextResponse.json({ success: false, error: 'Scheduled backups are not configured' }, { status: 503 });
+  }
+  if (request.headers.get('authorization') !== `Bearer ${secret}`) {
+    return NextResponse.json({ success: false, error: 'Not authorized' }, { status: 401 });
+  }
+
+  try {
+    const summary = await runDueBackups();
+    return NextResponse.json({ success: true, data: summary });
+  } catch (error) {
+    console.error('Backup run failed:', error);
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Backup run failed'
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,96 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getDatabase } from '@/lib/mongodb';
+import { getSessionUser, isAdmin } from '@/lib/session';
+import {
+  EMBEDDING_SOURCE_TYPES,
+  getIndexFreshness,
+  processEmbeddingQueue,
+  reindexAllEmbeddings,
+  scheduleEmbeddingQueue,
+  syncEmbeddingSources,
+  type EmbeddingSourceType,
+} from '@/lib/embedding-index';
+
+// Index-wide freshness counts cover every user's sources, so only admins see them
+export async function GET() {
+  try {
+    const user = await getSessionUser();
+    if (!user) {
+      return NextResponse.json({ success: false, error: 'Not authenticated' }, { status: 401 });
+    }
+    if (!isAdmin(user)) {
+      return NextResponse.json({ success: false, error: 'Admin access required' }, { status: 403 });
+    }
+
+    const db = await getDatabase();
+    if (!db) {
+      return NextResponse.json({ success: false, error: 'Database not available' }, { status: 503 });
+    }
+
+    return NextResponse.json({ success: true, data: await getIndexFreshness(db) });
+  } catch (error) {
+    console.error("Embedding index API error:", error);
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error"
+    }, { status: 500 });
+  }
+}
+
+// Body: { action: 'process' | 'sync' | 'reindex', type?: EmbeddingSourceType }
+// sync and reindex cover every user's sources and re-embedding costs API calls, so they're for admins;
+// process works through everyone's queue for admins and only the caller's own entries otherwise
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getSessionUser();
+    if (!user) {
+      return NextResponse.json({ success: false, error: 'Not authenticated' }, { status: 401 });
+    }
+    const admin = isAdmin(user);
+
+    const db = await getDatabase();
+    if (!db) {
+      return NextResponse.json({ success: false, error: 'Database not available' }, { status: 503 });
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const type = EMBEDDING_SOURCE_TYPES.includes(body.type) ? body.type as EmbeddingSourceType : undefined;
+
+    if (!admin && body.action !== 'process') {
+      return NextResponse.json({ success: false, error: 'Admin access required' }, { status: 403 });
+    }
+
+    switch (body.action) {
+      case 'process': {
+        const result = await processEmbeddingQueue(db, 50, admin ? undefined : user.uid);
+        if (admin && result.remaining > 0) scheduleEmbeddingQueue();
+        return NextResponse.json({
+          success: true,
+          message: `Embedded ${result.processed} sources (${result.failed} failed, ${result.remaining} still queued)`,
+          data: result
+        });
+      }
+      case 'sync': {
+        const removed = await syncEmbeddingSources(db);
+        const total = Object.values(removed).reduce<number>((sum, count) => sum + (count ?? 0), 0);
+        return NextResponse.json({
+          success: true,
+          message: `Queued changed sources and removed ${total} orphaned vectors${removed.note === null ? ' (notes skipped: Firestore unavailable)' : ''}`,
+          data: removed
+        });
+      }
+      case 'reindex': {
+        const queued = await reindexAllEmbeddings(db, type);
+        return NextResponse.json({ success: true, message: `Queued ${queued} vectors for re-embedding` });
+      }
+      default:
+        return NextResponse.json({ success: false, error: 'Unknown action' }, { status: 400 });
+    }
+  } catch (error) {
+    console.error("Embedding index API error:", error);
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error"
+    }, { status: 500 });
+  }
+}
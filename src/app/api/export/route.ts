@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSessionUser } from '@/lib/session';
+import { buildExportArchive } from '@/lib/export-archive';
+import { buildAnkiNotes, buildMarkdownFiles, toAnkiCsv } from '@/lib/export-formats';
+import { buildAnkiPackage } from '@/lib/anki-package';
+import { createZip } from '@/lib/zip';
+
+const FORMATS = ['json', 'markdown', 'anki-csv', 'apkg'] as const;
+type ExportFormat = (typeof FORMATS)[number];
+
+function download(body: BodyInit, filename: string, contentType: string) {
+  return new NextResponse(body, {
+    headers: {
+      'Content-Type': contentType,
+      'Content-Disposition': `attachment; filename="${filename}"`,
+      'Cache-Control': 'no-store',
+    },
+  });
+}
+
+// GET /api/export?format=json|markdown|anki-csv|apkg - the signed-in user's data
+export async function GET(request: NextRequest) {
+  try {
+    const sessionUser = await getSessionUser();
+    if (!sessionUser) {
+      return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const format = (searchParams.get('format') || 'json') as ExportFormat;
+    if (!FORMATS.includes(format)) {
+      return NextResponse.json(
+        { error: `Unknown format "${format}"; expected one of ${FORMATS.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const archive = await buildExportArchive(sessionUser);
+    const date = archive.exportedAt.split('T')[0];
+
+    switch (format) {
+      case 'json':
+        return download(
+          JSON.stringify(archive, null, 2),
+          `leetcode-mastery-export-${date}.json`,
+          'application/json'
+        );
+      case 'markdown': {
+        const files = buildMarkdownFiles(archive).map(file => ({ name: `topics/${file.name}`, data: file.content }));
+        return download(
+          new Uint8Array(createZip(files)),
+          `leetcode-mastery-notes-${date}.zip`,
+          'application/zip'
+        );
+      }
+      case 'anki-csv':
+        return download(
+          toAnkiCsv(buildAnkiNotes(archive)),
+          `leetcode-mastery-anki-${date}.csv`,
+          'text/csv'
+        );
+      case 'apkg':
+        return download(
+          new Uint8Array(await buildAnkiPackage(buildAnkiNotes(archive))),
+          `leetcode-mastery-${date}.apkg`,
+          'application/octet-stream'
+        );
+    }
+  } catch (error) {
+    console.error('Export API error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Export failed' },
+      { status: 500 }
+    );
+  }
+}
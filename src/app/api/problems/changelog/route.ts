@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getImportChangelog } from '@/lib/leetcode-import';
+import type { CatalogChangeKind } from '@/lib/catalog-import';
+import { getSessionUser } from '@/lib/session';
+
+export async function GET(request: NextRequest) {
+  try {
+    if (!(await getSessionUser())) {
+      return NextResponse.json({ success: false, error: 'Not authenticated' }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const runId = searchParams.get('runId');
+    const kind = searchParams.get('kind') as CatalogChangeKind | null;
+    const limit = parseInt(searchParams.get('limit') || '200');
+
+    if (!runId) {
+      return NextResponse.json({
+        success: false,
+        error: 'runId parameter is required'
+      }, { status: 400 });
+    }
+
+    const result = await getImportChangelog(runId, { kind: kind || undefined, limit });
+
+    if (result.success) {
+      return NextResponse.json({
+        success: true,
+        data: result.changes
+      });
+    } else {
+      return NextResponse.json({
+        success: false,
+        error: result.error
+      }, { status: 500 });
+    }
+  } catch (error) {
+    console.error("Changelog API error:", error);
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error"
+    }, { status: 500 });
+  }
+}
@@ -1,15 +1,31 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { importLeetCodeProblems, getProblemsStats } from '@/lib/leetcode-import';
+import { importLeetCodeProblems, getProblemsStats, getImportRuns } from '@/lib/leetcode-import';
+import { getSessionUser, isAdmin } from '@/lib/session';
 
-export async function POST() {
+export async function POST(request: NextRequest) {
   try {
-    console.log("Starting LeetCode problems import...");
-    const result = await importLeetCodeProblems();
+    const user = await getSessionUser();
+    if (!user) {
+      return NextResponse.json({ success: false, error: 'Not authenticated' }, { status: 401 });
+    }
+    if (!isAdmin(user)) {
+      return NextResponse.json({ success: false, error: 'Admin access required' }, { status: 403 });
+    }
+
+    // Optional body: { restart?: boolean, maxPages?: number }
+    const body = await request.json().catch(() => ({}));
+    const result = await importLeetCodeProblems({
+      restart: body.restart === true,
+      maxPages: typeof body.maxPages === 'number' && body.maxPages > 0 ? body.maxPages : undefined,
+    });
     
     if (result.success) {
+      const completed = result.run?.status === 'completed';
       return NextResponse.json({
         success: true,
-        message: `Successfully imported ${result.imported} problems`,
+        message: completed
+          ? `Successfully imported ${result.imported} problems`
+          : `Imported ${result.imported} of ${result.total} problems so far`,
         data: result
       });
     } else {
@@ -29,12 +45,18 @@ export async function POST() {
 
 export async function GET() {
   try {
+    if (!(await getSessionUser())) {
+      return NextResponse.json({ success: false, error: 'Not authenticated' }, { status: 401 });
+    }
+
     const stats = await getProblemsStats();
+    const runs = await getImportRuns(5);
     
     if (stats.success) {
       return NextResponse.json({
         success: true,
-        data: stats.stats
+        data: stats.stats,
+        runs: runs.runs || []
       });
     } else {
       return NextResponse.json({
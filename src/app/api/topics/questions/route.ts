@@ -1,15 +1,27 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { db } from '@/lib/firebase';
 import { collection, addDoc, serverTimestamp } from 'firebase/firestore';
+import { getSessionUser } from '@/lib/session';
 
 export async function POST(request: NextRequest) {
   try {
+    const sessionUser = await getSessionUser();
+    if (!sessionUser) {
+      return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+    }
+
     const body = await request.json();
-    const { userId, topicId, problemId, title, difficulty, titleSlug, topicTags } = body;
+    const { topicId, problemId, title, difficulty, titleSlug, topicTags } = body;
+
+    // The user always comes from the session; a body userId may only confirm it
+    if (body.userId && body.userId !== sessionUser.uid) {
+      return NextResponse.json({ error: 'Not allowed to write another user\'s data' }, { status: 403 });
+    }
+    const userId = sessionUser.uid;
 
-    if (!userId || !topicId || !problemId) {
+    if (!topicId || !problemId) {
       return NextResponse.json(
-        { error: 'User ID, Topic ID and Problem ID are required' },
+        { error: 'Topic ID and Problem ID are required' },
         { status: 400 }
       );
     }
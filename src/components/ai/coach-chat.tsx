@@ -0,0 +1,284 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Textarea } from "@/components/ui/textarea";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Loader2, MessageSquare, Plus, Send, Square, Trash2 } from "lucide-react";
+import { cn } from "@/lib/utils";
+import {
+  deleteConversation,
+  getConversation,
+  listConversations,
+  type ConversationSummary,
+} from "@/lib/coach-actions";
+import { getAvailableProviders } from "@/lib/ai-provider";
+import type { AIProvider, ChatRole } from "@/lib/ai-client";
+import type { CircuitState } from "@/lib/ai-health";
+
+interface DisplayMessage {
+  role: ChatRole;
+  content: string;
+  interrupted?: boolean;
+}
+
+const STARTERS = [
+  "What should I practice this week?",
+  "Explain the sliding window pattern with an example",
+  "Why do I keep failing dynamic programming problems?",
+];
+
+export function CoachChat() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [threads, setThreads] = useState<ConversationSummary[]>([]);
+  const [activeId, setActiveId] = useState<string | null>(null);
+  const [messages, setMessages] = useState<DisplayMessage[]>([]);
+  const [input, setInput] = useState("");
+  const [isStreaming, setIsStreaming] = useState(false);
+  const [providers, setProviders] = useState<{ provider: AIProvider; name: string; available: boolean; circuit: CircuitState }[]>([]);
+  const [provider, setProvider] = useState<AIProvider | "default">("default");
+  const abortRef = useRef<AbortController | null>(null);
+  const bottomRef = useRef<HTMLDivElement>(null);
+
+  const loadThreads = useCallback(async () => {
+    if (!user) return;
+    const result = await listConversations(user.uid);
+    if (result.success) {
+      setThreads(result.conversations || []);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    loadThreads();
+    getAvailableProviders().then(list => setProviders(list.filter(p => p.available)));
+  }, [loadThreads]);
+
+  useEffect(() => {
+    bottomRef.current?.scrollIntoView({ behavior: "smooth" });
+  }, [messages]);
+
+  const openThread = async (id: string) => {
+    if (!user || isStreaming) return;
+    setActiveId(id);
+    const result = await getConversation(user.uid, id);
+    if (result.success && result.conversation) {
+      setMessages(result.conversation.messages.map(({ role, content, interrupted }) => ({ role, content, interrupted })));
+    } else {
+      toast({ title: "Couldn't open conversation", description: result.error, variant: "destructive" });
+    }
+  };
+
+  const newThread = () => {
+    if (isStreaming) return;
+    setActiveId(null);
+    setMessages([]);
+  };
+
+  const removeThread = async (id: string) => {
+    if (!user) return;
+    const result = await deleteConversation(user.uid, id);
+    if (result.success) {
+      setThreads(current => current.filter(t => t.id !== id));
+      if (activeId === id) newThread();
+    } else {
+      toast({ title: "Delete failed", description: result.error, variant: "destructive" });
+    }
+  };
+
+  const send = async (text: string) => {
+    const message = text.trim();
+    if (!user || !message || isStreaming) return;
+
+    setInput("");
+    setIsStreaming(true);
+    setMessages(current => [...current, { role: "user", content: message }, { role: "assistant", content: "" }]);
+
+    const controller = new AbortController();
+    abortRef.current = controller;
+
+    const updateReply = (update: (reply: DisplayMessage) => DisplayMessage) =>
+      setMessages(current => [...current.slice(0, -1), update(current[current.length - 1])]);
+
+    try {
+      const response = await fetch("/api/ai/chat", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          message,
+          conversationId: activeId ?? undefined,
+          provider: provider === "default" ? undefined : provider,
+        }),
+        signal: controller.signal,
+      });
+
+      if (!response.ok || !response.body) {
+        const error = await response.json().catch(() => null);
+        throw new Error(error?.error || response.statusText);
+      }
+
+      const conversationId = response.headers.get("X-Conversation-Id");
+      if (conversationId && conversationId !== activeId) {
+        setActiveId(conversationId);
+      }
+
+      const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        updateReply(reply => ({ ...reply, content: reply.content + value }));
+      }
+    } catch (error) {
+      const stopped = controller.signal.aborted;
+      updateReply(reply => reply.content ? { ...reply, interrupted: true } : reply);
+      setMessages(current => current[current.length - 1].content ? current : current.slice(0, -2));
+      if (!stopped) {
+        toast({
+          title: "The coach couldn't answer",
+          description: error instanceof Error ? error.message : undefined,
+          variant: "destructive",
+        });
+      }
+    } finally {
+      abortRef.current = null;
+      setIsStreaming(false);
+      loadThreads();
+    }
+  };
+
+  return (
+    <div className="grid gap-4 md:grid-cols-[240px_1fr]">
+      <Card className="h-fit">
+        <CardContent className="space-y-1 p-2">
+          <Button variant="outline" size="sm" className="mb-2 w-full justify-start gap-2" onClick={newThread}>
+            <Plus className="h-4 w-4" />
+            New conversation
+          </Button>
+          {threads.length === 0 && (
+            <p className="px-2 py-1 text-xs text-muted-foreground">No conversations yet.</p>
+          )}
+          {threads.map(thread => (
+            <div
+              key={thread.id}
+              className={cn(
+                "group flex items-center gap-1 rounded-md px-2 py-1.5 text-sm hover:bg-muted",
+                thread.id === activeId && "bg-muted"
+              )}
+            >
+              <button className="min-w-0 flex-1 truncate text-left" onClick={() => openThread(thread.id)}>
+                {thread.title}
+              </button>
+              <button
+                className="opacity-0 group-hover:opacity-100 text-muted-foreground hover:text-destructive"
+                onClick={() => removeThread(thread.id)}
+                aria-label="Delete conversation"
+              >
+                <Trash2 className="h-3.5 w-3.5" />
+              </button>
+            </div>
+          ))}
+        </CardContent>
+      </Card>
+
+      <Card className="flex h-[70vh] flex-col">
+        <ScrollArea className="flex-1 p-4">
+          {messages.length === 0 ? (
+            <div className="flex flex-col items-center gap-3 py-12 text-center">
+              <MessageSquare className="h-8 w-8 text-muted-foreground" />
+              <p className="text-sm text-muted-foreground">
+                Ask about a problem, a pattern or your study plan. The coach knows your progress and notes.
+              </p>
+              <div className="flex flex-wrap justify-center gap-2">
+                {STARTERS.map(starter => (
+                  <Button key={starter} variant="outline" size="sm" onClick={() => send(starter)}>
+                    {starter}
+                  </Button>
+                ))}
+              </div>
+            </div>
+          ) : (
+            <div className="space-y-4">
+              {messages.map((message, index) => (
+                <div key={index} className={cn("flex", message.role === "user" ? "justify-end" : "justify-start")}>
+                  <div
+                    className={cn(
+                      "max-w-[85%] whitespace-pre-wrap rounded-lg px-3 py-2 text-sm",
+                      message.role === "user" ? "bg-primary text-primary-foreground" : "bg-muted"
+                    )}
+                  >
+                    {message.content || <Loader2 className="h-4 w-4 animate-spin" />}
+                    {message.interrupted && (
+                      <Badge variant="outline" className="ml-2 text-[10px]">interrupted</Badge>
+                    )}
+                  </div>
+                </div>
+              ))}
+              <div ref={bottomRef} />
+            </div>
+          )}
+        </ScrollArea>
+
+        <form
+          className="flex items-end gap-2 border-t p-3"
+          onSubmit={e => {
+            e.preventDefault();
+            send(input);
+          }}
+        >
+          <Textarea
+            value={input}
+            onChange={e => setInput(e.target.value)}
+            onKeyDown={e => {
+              if (e.key === "Enter" && !e.shiftKey) {
+                e.preventDefault();
+                send(input);
+              }
+            }}
+            placeholder="Ask your coach..."
+            rows={2}
+            className="min-h-0 flex-1 resize-none"
+          />
+          <div className="flex flex-col gap-2">
+            {providers.length > 1 && (
+              <Select value={provider} onValueChange={value => setProvider(value as AIProvider | "default")}>
+                <SelectTrigger className="h-8 w-36 text-xs">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="default">Default model</SelectItem>
+                  {providers.map(p => (
+                    <SelectItem key={p.provider} value={p.provider}>
+                      {p.name}{p.circuit === "open" ? " (paused)" : ""}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+            {isStreaming ? (
+              <Button type="button" variant="outline" onClick={() => abortRef.current?.abort()}>
+                <Square className="mr-2 h-4 w-4" />
+                Stop
+              </Button>
+            ) : (
+              <Button type="submit" disabled={!input.trim()}>
+                <Send className="mr-2 h-4 w-4" />
+                Send
+              </Button>
+            )}
+          </div>
+        </form>
+      </Card>
+    </div>
+  );
+}
@@ -7,6 +7,7 @@ import { zodResolver } from "@hookform/resolvers/zod";
 import * as z from "zod";
 import { suggestLeetCodeProblems, SuggestLeetCodeProblemsOutput } from "@/ai/flows/suggest-leetcode-problems";
 import { getAllUserProblems, addAISuggestedToDailyQuestion, getTopicsWithStats } from "@/lib/actions";
+import { getCoachingPolicy } from "@/lib/coaching-profile-actions";
 import { cache, CacheUtils } from "@/lib/cache";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -219,11 +220,16 @@ export function AIProblemSuggester() {
     setSuggestions(null);
 
     try {
-      const bucketHistory = await getAllUserProblems(user.uid);
+      const [bucketHistory, policyResult] = await Promise.all([
+        getAllUserProblems(user.uid),
+        getCoachingPolicy(user.uid)
+      ]);
+      const coachingPolicy = policyResult.success ? policyResult.policy : undefined;
       
       // Create enhanced cache key that includes personal context
       const personalContext = {
         stats: personalStats,
+        coachingPolicy,
         topicPrefs: values,
         weakAreas: personalStats?.weakestAreas?.slice(0, 3).map(t => t.name) || [],
         patterns: personalStats?.performancePatterns || {}
@@ -249,6 +255,7 @@ export function AIProblemSuggester() {
       console.log('Making personalized AI API call...');
       const enhancedInput = {
         ...values,
+        userId: user.uid,
         bucketHistory,
         personalStats,
         topicPerformance: topics.reduce((acc, topic) => {
@@ -265,7 +272,8 @@ export function AIProblemSuggester() {
           includeWeakAreas: values.includeWeakAreas,
           adaptiveDifficulty: values.adaptiveDifficulty,
           focusArea: values.focusArea
-        }
+        },
+        coachingPolicy
       };
       
       const result = await suggestLeetCodeProblems(enhancedInput);
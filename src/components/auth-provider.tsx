@@ -1,7 +1,7 @@
 "use client";
 
 import React, { createContext, useState, useEffect, ReactNode } from "react";
-import { onAuthStateChanged, User } from "firebase/auth";
+import { onIdTokenChanged, User } from "firebase/auth";
 import { auth } from "@/lib/firebase";
 
 interface AuthContextType {
@@ -14,12 +14,31 @@ export const AuthContext = createContext<AuthContextType>({
   loading: true,
 });
 
+// Mirror the Firebase ID token into the server session cookie
+async function syncSession(user: User | null) {
+  try {
+    if (user) {
+      const token = await user.getIdToken();
+      await fetch("/api/auth/session", {
+        method: "POST",
+        headers: { Authorization: `Bearer ${token}` },
+      });
+    } else {
+      await fetch("/api/auth/session", { method: "DELETE" });
+    }
+  } catch (error) {
+    console.error("Failed to sync auth session:", error);
+  }
+}
+
 export function AuthProvider({ children }: { children: ReactNode }) {
   const [user, setUser] = useState<User | null>(null);
   const [loading, setLoading] = useState(true);
 
   useEffect(() => {
-    const unsubscribe = onAuthStateChanged(auth, (user) => {
+    const unsubscribe = onIdTokenChanged(auth, async (user) => {
+      // Server actions read the session cookie, so it must be set before consumers render
+      await syncSession(user);
       setUser(user);
       setLoading(false);
     });
@@ -0,0 +1,71 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { getLegacyDataStatus, claimLegacyData, type LegacyDataStatus } from "@/lib/legacy-claim-actions";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+import { Archive, Loader2 } from "lucide-react";
+
+// Offers the legacy data owner a one-time import of "default-user" data
+export function ClaimLegacyData() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [status, setStatus] = useState<LegacyDataStatus | null>(null);
+  const [isClaiming, setIsClaiming] = useState(false);
+
+  useEffect(() => {
+    if (!user) return;
+
+    getLegacyDataStatus(user.uid).then(result => {
+      if (result.success && result.status) {
+        setStatus(result.status);
+      }
+    });
+  }, [user]);
+
+  if (!user || !status?.claimable) return null;
+
+  const total = Object.values(status.counts).reduce((sum, count) => sum + count, 0);
+
+  const handleClaim = async () => {
+    setIsClaiming(true);
+    try {
+      const result = await claimLegacyData(user.uid);
+
+      if (result.success) {
+        toast({
+          title: "Data Claimed",
+          description: `Moved ${total} records into your account. Reload to see them.`,
+        });
+        setStatus({ ...status, claimable: false, claimedBy: user.uid });
+      } else {
+        toast({
+          title: "Claim Failed",
+          description: result.error || "Failed to claim legacy data",
+          variant: "destructive",
+        });
+      }
+    } finally {
+      setIsClaiming(false);
+    }
+  };
+
+  return (
+    <Alert>
+      <Archive className="h-4 w-4" />
+      <AlertTitle>Data from before sign-in</AlertTitle>
+      <AlertDescription className="space-y-3">
+        <p>
+          {total} records (solved problems, reviews, memories and snippets) were saved
+          before accounts existed. Claim them to move them into this account.
+        </p>
+        <Button size="sm" onClick={handleClaim} disabled={isClaiming}>
+          {isClaiming && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+          Claim Data
+        </Button>
+      </AlertDescription>
+    </Alert>
+  );
+}
@@ -27,7 +27,7 @@ import {
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Skeleton } from "../ui/skeleton";
-import { getProblemById } from "@/lib/problem-lookup";
+import { getCatalogProblem } from "@/lib/problem-catalog";
 import { useToast } from "@/hooks/use-toast";
 
 function AddDailyQuestionForm({
@@ -48,12 +48,13 @@ function AddDailyQuestionForm({
   // Auto-fetch problem details when ID is entered
   useEffect(() => {
     if (leetcodeId && /^\d+$/.test(leetcodeId.trim())) {
-      const problem = getProblemById(parseInt(leetcodeId.trim()));
-      if (problem) {
-        setProblemDetails(problem);
-      } else {
-        setProblemDetails(null);
-      }
+      let cancelled = false;
+      getCatalogProblem(parseInt(leetcodeId.trim())).then(problem => {
+        if (!cancelled) setProblemDetails(problem ?? null);
+      });
+      return () => {
+        cancelled = true;
+      };
     } else {
       setProblemDetails(null);
     }
@@ -2,8 +2,8 @@
 
 import { useState } from "react";
 import { useAuth } from "@/hooks/use-auth";
-import { db } from "@/lib/firebase";
-import { collection, getDocs, query, orderBy } from "firebase/firestore";
+import { useToast } from "@/hooks/use-toast";
+import { fetchExportData } from "@/lib/data-transfer";
 import { Button } from "@/components/ui/button";
 import {
   Dialog,
@@ -20,86 +20,73 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
-import { Download, FileJson, FileText, Loader2 } from "lucide-react";
-import { ExportData, Topic, TopicQuestion, DailyQuestion, TopicNote, CodeSnippet } from "@/lib/types";
+import { Download, FileArchive, FileJson, FileText, Layers, Loader2 } from "lucide-react";
+import { ExportData } from "@/lib/types";
+
+type ExportFormat = "json" | "csv" | "markdown" | "anki-csv" | "apkg";
+
+const FORMAT_OPTIONS: { value: ExportFormat; label: string; icon: typeof FileJson; description: string }[] = [
+  {
+    value: "json",
+    label: "JSON (Full backup)",
+    icon: FileJson,
+    description: "Everything: topics, questions, notes, snippets, solved problems, review history and memories. Can be imported again.",
+  },
+  {
+    value: "csv",
+    label: "CSV (Questions only)",
+    icon: FileText,
+    description: "Spreadsheet format with questions only - great for review or sharing.",
+  },
+  {
+    value: "markdown",
+    label: "Markdown (Notes)",
+    icon: FileArchive,
+    description: "A zip with one Markdown file per topic, including notes and each question's approach.",
+  },
+  {
+    value: "anki-csv",
+    label: "Anki (CSV)",
+    icon: Layers,
+    description: "Your review cards as a text file for Anki's importer (File > Import).",
+  },
+  {
+    value: "apkg",
+    label: "Anki (Deck package)",
+    icon: Layers,
+    description: "Your review cards as an .apkg deck. Reviewed cards keep their schedule.",
+  },
+];
+
+function saveBlob(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+}
 
 export function ExportDataButton() {
   const [isOpen, setIsOpen] = useState(false);
-  const [format, setFormat] = useState<"json" | "csv">("json");
+  const [format, setFormat] = useState<ExportFormat>("json");
   const [isExporting, setIsExporting] = useState(false);
   const { user } = useAuth();
-
-  const fetchAllData = async (): Promise<ExportData | null> => {
-    if (!user) return null;
-
-    // Fetch topics with their questions and notes
-    const topicsRef = collection(db, "users", user.uid, "topics");
-    const topicsSnapshot = await getDocs(query(topicsRef, orderBy("createdAt", "desc")));
-    
-    const topics: (Topic & { questions: TopicQuestion[]; notes: TopicNote[] })[] = [];
-    
-    for (const topicDoc of topicsSnapshot.docs) {
-      const topicData = { id: topicDoc.id, ...topicDoc.data() } as Topic;
-      
-      // Fetch questions for this topic
-      const questionsRef = collection(db, "users", user.uid, "topics", topicDoc.id, "questions");
-      const questionsSnapshot = await getDocs(questionsRef);
-      const questions = questionsSnapshot.docs.map(doc => ({ 
-        id: doc.id, 
-        ...doc.data() 
-      })) as TopicQuestion[];
-      
-      // Fetch notes for this topic
-      const notesRef = collection(db, "users", user.uid, "topics", topicDoc.id, "notes");
-      const notesSnapshot = await getDocs(notesRef);
-      const notes = notesSnapshot.docs.map(doc => ({ 
-        id: doc.id, 
-        ...doc.data() 
-      })) as TopicNote[];
-      
-      topics.push({ ...topicData, questions, notes });
+  const { toast } = useToast();
+
+  // Every format except the questions CSV is built on the server from all stores
+  const exportFromServer = async (serverFormat: Exclude<ExportFormat, "csv">) => {
+    const response = await fetch(`/api/export?format=${serverFormat}`);
+    if (!response.ok) {
+      const body = await response.json().catch(() => null);
+      throw new Error(body?.error || `Export failed (${response.status})`);
     }
 
-    // Fetch daily questions
-    const dailyRef = collection(db, "users", user.uid, "dailyQuestions");
-    const dailySnapshot = await getDocs(query(dailyRef, orderBy("createdAt", "desc")));
-    const dailyQuestions = dailySnapshot.docs.map(doc => ({ 
-      id: doc.id, 
-      ...doc.data() 
-    })) as DailyQuestion[];
-
-    // Fetch snippets
-    const snippetsRef = collection(db, "users", user.uid, "snippets");
-    const snippetsSnapshot = await getDocs(query(snippetsRef, orderBy("createdAt", "desc")));
-    const snippets = snippetsSnapshot.docs.map(doc => ({ 
-      id: doc.id, 
-      ...doc.data() 
-    })) as CodeSnippet[];
-
-    return {
-      exportedAt: new Date().toISOString(),
-      version: "1.0",
-      user: {
-        uid: user.uid,
-        email: user.email || undefined,
-        displayName: user.displayName || undefined,
-      },
-      topics,
-      dailyQuestions,
-      snippets,
-    };
-  };
-
-  const exportAsJson = (data: ExportData) => {
-    const blob = new Blob([JSON.stringify(data, null, 2)], { type: "application/json" });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement("a");
-    a.href = url;
-    a.download = `leetcode-mastery-export-${new Date().toISOString().split("T")[0]}.json`;
-    document.body.appendChild(a);
-    a.click();
-    document.body.removeChild(a);
-    URL.revokeObjectURL(url);
+    const disposition = response.headers.get("Content-Disposition") || "";
+    const filename = disposition.match(/filename="([^"]+)"/)?.[1] || `leetcode-mastery-export.${serverFormat}`;
+    saveBlob(await response.blob(), filename);
   };
 
   const exportAsCsv = (data: ExportData) => {
@@ -148,39 +135,34 @@ export function ExportDataButton() {
     }
 
     const blob = new Blob([rows.join("\n")], { type: "text/csv" });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement("a");
-    a.href = url;
-    a.download = `leetcode-mastery-questions-${new Date().toISOString().split("T")[0]}.csv`;
-    document.body.appendChild(a);
-    a.click();
-    document.body.removeChild(a);
-    URL.revokeObjectURL(url);
+    saveBlob(blob, `leetcode-mastery-questions-${new Date().toISOString().split("T")[0]}.csv`);
   };
 
   const handleExport = async () => {
+    if (!user) return;
     setIsExporting(true);
     try {
-      const data = await fetchAllData();
-      if (!data) {
-        console.error("No data to export");
-        return;
-      }
-
-      if (format === "json") {
-        exportAsJson(data);
+      if (format === "csv") {
+        exportAsCsv(await fetchExportData(user));
       } else {
-        exportAsCsv(data);
+        await exportFromServer(format);
       }
 
       setIsOpen(false);
     } catch (error) {
       console.error("Export failed:", error);
+      toast({
+        title: "Export Failed",
+        description: error instanceof Error ? error.message : "Could not export your data",
+        variant: "destructive",
+      });
     } finally {
       setIsExporting(false);
     }
   };
 
+  const selected = FORMAT_OPTIONS.find(option => option.value === format)!;
+
   if (!user) return null;
 
   return (
@@ -195,35 +177,29 @@ export function ExportDataButton() {
         <DialogHeader>
           <DialogTitle>Export Your Data</DialogTitle>
           <DialogDescription>
-            Download all your topics, questions, notes, and snippets.
+            Download your topics, questions, notes, snippets, review cards and memories.
           </DialogDescription>
         </DialogHeader>
         <div className="space-y-4 py-4">
           <div className="space-y-2">
             <label className="text-sm font-medium">Format</label>
-            <Select value={format} onValueChange={(v) => setFormat(v as "json" | "csv")}>
+            <Select value={format} onValueChange={(v) => setFormat(v as ExportFormat)}>
               <SelectTrigger>
                 <SelectValue />
               </SelectTrigger>
               <SelectContent>
-                <SelectItem value="json">
-                  <div className="flex items-center gap-2">
-                    <FileJson className="h-4 w-4" />
-                    JSON (Full backup)
-                  </div>
-                </SelectItem>
-                <SelectItem value="csv">
-                  <div className="flex items-center gap-2">
-                    <FileText className="h-4 w-4" />
-                    CSV (Questions only)
-                  </div>
-                </SelectItem>
+                {FORMAT_OPTIONS.map(option => (
+                  <SelectItem key={option.value} value={option.value}>
+                    <div className="flex items-center gap-2">
+                      <option.icon className="h-4 w-4" />
+                      {option.label}
+                    </div>
+                  </SelectItem>
+                ))}
               </SelectContent>
             </Select>
             <p className="text-xs text-muted-foreground">
-              {format === "json" 
-                ? "Includes everything: topics, questions, notes, snippets, and all metadata." 
-                : "Spreadsheet format with questions only - great for review or sharing."}
+              {selected.description}
             </p>
           </div>
           
@@ -236,7 +212,7 @@ export function ExportDataButton() {
             ) : (
               <>
                 <Download className="mr-2 h-4 w-4" />
-                Export as {format.toUpperCase()}
+                Export {selected.label}
               </>
             )}
           </Button>
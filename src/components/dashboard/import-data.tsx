@@ -0,0 +1,275 @@
+"use client";
+
+import { useState } from "react";
+import { doc, collection } from "firebase/firestore";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { db } from "@/lib/firebase";
+import {
+  applyImportPlan,
+  loadExistingData,
+  parseExportData,
+  planImport,
+  type ImportMode,
+  type ImportPlan,
+  type ParsedExport,
+} from "@/lib/data-transfer";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { AlertTriangle, Loader2, Upload } from "lucide-react";
+
+function newDocId(path: string): string {
+  return doc(collection(db, path)).id;
+}
+
+function PlanPreview({ plan }: { plan: ImportPlan }) {
+  const { summary } = plan;
+
+  return (
+    <div className="space-y-3 text-sm">
+      {plan.mode === "replace" && (
+        <div className="flex items-start gap-2 rounded-md border border-destructive/50 p-2 text-destructive">
+          <AlertTriangle className="h-4 w-4 mt-0.5 shrink-0" />
+          <span>
+            Replace deletes {plan.deletes.topics.length} topics, {plan.deletes.dailyQuestions.length} daily
+            questions and {plan.deletes.snippets.length} snippets once the import is written. A backup is
+            taken first.
+          </span>
+        </div>
+      )}
+
+      <div className="grid grid-cols-2 gap-2">
+        <div className="rounded-md border p-2">
+          <div className="text-lg font-semibold">{summary.topicsCreated}</div>
+          <div className="text-xs text-muted-foreground">new topics ({summary.topicsMerged} merged)</div>
+        </div>
+        <div className="rounded-md border p-2">
+          <div className="text-lg font-semibold">{summary.questions}</div>
+          <div className="text-xs text-muted-foreground">questions</div>
+        </div>
+        <div className="rounded-md border p-2">
+          <div className="text-lg font-semibold">{summary.notes + summary.dailyQuestions}</div>
+          <div className="text-xs text-muted-foreground">notes and daily questions</div>
+        </div>
+        <div className="rounded-md border p-2">
+          <div className="text-lg font-semibold">{summary.snippets}</div>
+          <div className="text-xs text-muted-foreground">snippets</div>
+        </div>
+      </div>
+
+      {plan.topics.length > 0 && (
+        <div className="max-h-32 overflow-y-auto space-y-1">
+          {plan.topics.map(topic => (
+            <div key={topic.name} className="flex items-center justify-between gap-2">
+              <span className="truncate">{topic.name}</span>
+              <div className="flex shrink-0 gap-1">
+                <Badge variant={topic.action === "create" ? "default" : "secondary"} className="text-[10px]">
+                  {topic.action === "create" ? "New" : "Merge"}
+                </Badge>
+                <Badge variant="outline" className="text-[10px]">+{topic.questions} questions</Badge>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {plan.unsupported.length > 0 && (
+        <div className="flex items-start gap-2 rounded-md border p-2 text-xs text-muted-foreground">
+          <AlertTriangle className="h-4 w-4 mt-0.5 shrink-0" />
+          <span>
+            Not imported: {plan.unsupported.map(entry => `${entry.count} ${entry.label}`).join(", ")}.
+            Restore a backup to bring these back.
+          </span>
+        </div>
+      )}
+
+      {plan.skipped.length > 0 && (
+        <details className="text-xs text-muted-foreground">
+          <summary className="cursor-pointer">{summary.duplicatesSkipped} duplicates will be skipped</summary>
+          <ul className="mt-1 max-h-24 overflow-y-auto space-y-0.5">
+            {plan.skipped.map((item, index) => (
+              <li key={index}>{item.label} - {item.reason}</li>
+            ))}
+          </ul>
+        </details>
+      )}
+    </div>
+  );
+}
+
+export function ImportDataButton() {
+  const [isOpen, setIsOpen] = useState(false);
+  const [mode, setMode] = useState<ImportMode>("merge");
+  const [incoming, setIncoming] = useState<ParsedExport | null>(null);
+  const [errors, setErrors] = useState<string[]>([]);
+  const [plan, setPlan] = useState<ImportPlan | null>(null);
+  const [isPlanning, setIsPlanning] = useState(false);
+  const [progress, setProgress] = useState<string | null>(null);
+  const { user } = useAuth();
+  const { toast } = useToast();
+
+  const reset = () => {
+    setIncoming(null);
+    setErrors([]);
+    setPlan(null);
+    setProgress(null);
+  };
+
+  const buildPlan = async (data: ParsedExport, importMode: ImportMode) => {
+    if (!user) return;
+    setIsPlanning(true);
+    try {
+      const existing = await loadExistingData(user);
+      setPlan(planImport(user.uid, data, existing, importMode, newDocId));
+    } catch (error) {
+      setErrors([error instanceof Error ? error.message : "Failed to read current data"]);
+    } finally {
+      setIsPlanning(false);
+    }
+  };
+
+  const handleFile = async (file: File | undefined) => {
+    reset();
+    if (!file) return;
+
+    let raw: unknown;
+    try {
+      raw = JSON.parse(await file.text());
+    } catch {
+      setErrors(["File is not valid JSON"]);
+      return;
+    }
+
+    const parsed = parseExportData(raw);
+    if (!parsed.success) {
+      setErrors(parsed.errors);
+      return;
+    }
+
+    setIncoming(parsed.data);
+    await buildPlan(parsed.data, mode);
+  };
+
+  const handleModeChange = async (value: string) => {
+    const nextMode = value as ImportMode;
+    setMode(nextMode);
+    if (incoming) {
+      await buildPlan(incoming, nextMode);
+    }
+  };
+
+  const handleImport = async () => {
+    if (!user || !plan) return;
+
+    const result = await applyImportPlan(user.uid, plan, setProgress);
+    setProgress(null);
+
+    if (result.success) {
+      toast({
+        title: "Import Complete",
+        description: `${plan.summary.questions} questions and ${plan.summary.topicsCreated} topics imported.` +
+          (result.notImported?.length
+            ? ` Not imported: ${result.notImported.map(entry => `${entry.count} ${entry.label}`).join(", ")}.`
+            : ""),
+      });
+      setIsOpen(false);
+      reset();
+      window.location.reload();
+    } else {
+      toast({
+        title: "Import Failed",
+        description: result.error,
+        variant: "destructive",
+      });
+    }
+  };
+
+  if (!user) return null;
+
+  return (
+    <Dialog open={isOpen} onOpenChange={open => { setIsOpen(open); if (!open) reset(); }}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" className="h-8 gap-2">
+          <Upload className="h-3.5 w-3.5" />
+          <span className="hidden sm:inline">Import</span>
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Import Your Data</DialogTitle>
+          <DialogDescription>
+            Load a JSON export from this or another account. You'll see a preview before anything is written.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4 py-2">
+          <div className="space-y-2">
+            <Label htmlFor="importFile">Export file</Label>
+            <input
+              id="importFile"
+              type="file"
+              accept="application/json,.json"
+              onChange={(e) => handleFile(e.target.files?.[0])}
+              className="block w-full text-sm file:mr-3 file:rounded-md file:border-0 file:bg-muted file:px-3 file:py-1.5 file:text-sm"
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Mode</Label>
+            <RadioGroup value={mode} onValueChange={handleModeChange} className="grid grid-cols-2 gap-2">
+              <Label className="flex items-center gap-2 rounded-md border p-2 font-normal cursor-pointer">
+                <RadioGroupItem value="merge" />
+                Merge with current
+              </Label>
+              <Label className="flex items-center gap-2 rounded-md border p-2 font-normal cursor-pointer">
+                <RadioGroupItem value="replace" />
+                Replace everything
+              </Label>
+            </RadioGroup>
+          </div>
+
+          {errors.length > 0 && (
+            <div className="rounded-md border border-destructive/50 p-2 text-xs text-destructive space-y-1">
+              <p className="font-medium">This file can't be imported:</p>
+              {errors.map((error, index) => (
+                <p key={index} className="font-mono">{error}</p>
+              ))}
+            </div>
+          )}
+
+          {isPlanning && (
+            <div className="flex items-center gap-2 text-sm text-muted-foreground">
+              <Loader2 className="h-4 w-4 animate-spin" />
+              Comparing with your current data...
+            </div>
+          )}
+
+          {plan && !isPlanning && <PlanPreview plan={plan} />}
+
+          <Button onClick={handleImport} disabled={!plan || isPlanning || !!progress} className="w-full">
+            {progress ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                {progress}
+              </>
+            ) : (
+              <>
+                <Upload className="mr-2 h-4 w-4" />
+                {mode === "replace" ? "Replace and Import" : "Import"}
+              </>
+            )}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
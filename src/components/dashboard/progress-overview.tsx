@@ -6,19 +6,23 @@ import { Progress } from "@/components/ui/progress";
 import { Badge } from "@/components/ui/badge";
 import { Skeleton } from "@/components/ui/skeleton";
 import { getUserProgress, getTopicProgress, UserProgress } from "@/lib/progress-actions";
+import { useAuth } from "@/hooks/use-auth";
 import { TrendingUp, Target, Award, BookOpen, CheckCircle2 } from "lucide-react";
 
 export function ProgressOverview() {
+  const { user } = useAuth();
   const [progress, setProgress] = useState<UserProgress | null>(null);
   const [topicProgress, setTopicProgress] = useState<{ name: string; solved: number; total: number; percentage: number }[]>([]);
   const [isLoading, setIsLoading] = useState(true);
 
   useEffect(() => {
     async function loadProgress() {
+      if (!user) return;
+
       try {
         const [progressResult, topicsResult] = await Promise.all([
-          getUserProgress(),
-          getTopicProgress()
+          getUserProgress(user.uid),
+          getTopicProgress(user.uid)
         ]);
 
         if (progressResult.success && progressResult.progress) {
@@ -36,7 +40,7 @@ export function ProgressOverview() {
     }
 
     loadProgress();
-  }, []);
+  }, [user]);
 
   if (isLoading) {
     return (
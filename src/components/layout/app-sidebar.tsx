@@ -2,7 +2,7 @@
 
 import Link from "next/link";
 import { usePathname } from "next/navigation";
-import { BrainCircuit, Code2, LayoutDashboard, Brain, Database, Settings, CheckCircle2, BookOpen } from "lucide-react";
+import { BrainCircuit, Code2, LayoutDashboard, Brain, Database, Settings, CheckCircle2, BookOpen, History, Trash2, MessageSquare, Search } from "lucide-react";
 import {
   SidebarHeader,
   SidebarMenu,
@@ -14,6 +14,7 @@ import {
   SidebarGroupLabel,
 } from "@/components/ui/sidebar";
 import { ExportDataButton } from "@/components/dashboard/export-data";
+import { ImportDataButton } from "@/components/dashboard/import-data";
 
 export function AppSidebar() {
   const pathname = usePathname();
@@ -47,6 +48,11 @@ export function AppSidebar() {
       label: "AI Suggester",
       icon: BrainCircuit,
     },
+    {
+      href: "/coach",
+      label: "AI Coach",
+      icon: MessageSquare,
+    },
     {
       href: "/memory-bank",
       label: "Memory Bank",
@@ -60,6 +66,26 @@ export function AppSidebar() {
       label: "Problems Import",
       icon: Database,
     },
+    {
+      href: "/admin/search-index",
+      label: "Search Index",
+      icon: Search,
+    },
+    {
+      href: "/settings",
+      label: "Settings",
+      icon: Settings,
+    },
+    {
+      href: "/backups",
+      label: "Backups",
+      icon: History,
+    },
+    {
+      href: "/trash",
+      label: "Trash",
+      icon: Trash2,
+    },
   ];
 
   return (
@@ -148,7 +174,10 @@ export function AppSidebar() {
         </SidebarGroup>
       </SidebarContent>
       <SidebarFooter className="px-4 py-4 space-y-3">
-        <ExportDataButton />
+        <div className="flex gap-2">
+          <ExportDataButton />
+          <ImportDataButton />
+        </div>
         <p className="text-xs text-muted-foreground">Focus on quality</p>
       </SidebarFooter>
     </>
@@ -22,6 +22,7 @@ import {
 import { Button } from "@/components/ui/button";
 import { SidebarTrigger } from "@/components/ui/sidebar";
 import Link from "next/link";
+import { PendingChanges } from "@/components/layout/pending-changes";
 
 // Page title mapping
 const PAGE_TITLES: Record<string, string> = {
@@ -76,7 +77,8 @@ export function AppHeader() {
         </div>
       </div>
       
-      {/* Right side - User avatar */}
+      {/* Right side - Pending offline changes and user avatar */}
+      {user && <PendingChanges />}
       {user && (
         <DropdownMenu>
           <DropdownMenuTrigger asChild>
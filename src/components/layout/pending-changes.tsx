@@ -0,0 +1,113 @@
+"use client";
+
+import { useAuth } from "@/hooks/use-auth";
+import { useOutbox } from "@/hooks/use-outbox";
+import {
+  discardOutboxEntry,
+  flushOutbox,
+  resolveOutboxConflict,
+  retryOutboxEntry,
+  type OutboxEntry,
+} from "@/lib/outbox";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { AlertTriangle, CloudOff, CloudUpload, RefreshCw } from "lucide-react";
+import { cn } from "@/lib/utils";
+
+const STATUS_LABELS: Record<OutboxEntry["status"], string> = {
+  pending: "Waiting to sync",
+  failed: "Failed",
+  conflict: "Conflict",
+};
+
+function PendingChangeRow({ entry }: { entry: OutboxEntry }) {
+  return (
+    <div className="space-y-1 rounded-md border p-2 text-sm">
+      <div className="flex items-start justify-between gap-2">
+        <span className="font-medium break-words">{entry.label}</span>
+        <Badge
+          variant={entry.status === "pending" ? "secondary" : "destructive"}
+          className="shrink-0 text-[10px]"
+        >
+          {STATUS_LABELS[entry.status]}
+        </Badge>
+      </div>
+      <p className="text-xs text-muted-foreground">
+        {new Date(entry.timestamp).toLocaleString()}
+        {entry.lastError && ` · ${entry.lastError}`}
+      </p>
+
+      {entry.status === "conflict" && (
+        <div className="flex gap-2 pt-1">
+          <Button size="sm" variant="outline" className="h-7 text-xs" onClick={() => resolveOutboxConflict(entry.id, "keep-mine")}>
+            Keep mine
+          </Button>
+          <Button size="sm" variant="ghost" className="h-7 text-xs" onClick={() => resolveOutboxConflict(entry.id, "discard")}>
+            Discard
+          </Button>
+        </div>
+      )}
+
+      {entry.status === "failed" && (
+        <div className="flex gap-2 pt-1">
+          <Button size="sm" variant="outline" className="h-7 text-xs" onClick={() => retryOutboxEntry(entry.id)}>
+            Retry
+          </Button>
+          <Button size="sm" variant="ghost" className="h-7 text-xs" onClick={() => discardOutboxEntry(entry.id)}>
+            Discard
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
+
+// Header indicator for writes that haven't reached the server yet
+export function PendingChanges() {
+  const { user } = useAuth();
+  const { entries, isOnline } = useOutbox(user?.uid);
+
+  if (isOnline && entries.length === 0) return null;
+
+  const needsAttention = entries.some(entry => entry.status !== "pending");
+  const Icon = !isOnline ? CloudOff : needsAttention ? AlertTriangle : CloudUpload;
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="ghost" size="sm" className={cn("h-9 gap-1.5 touch-manipulation", needsAttention && "text-destructive")}>
+          <Icon className="h-4 w-4" />
+          <span className="text-xs">
+            {entries.length > 0 ? entries.length : "Offline"}
+          </span>
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-80">
+        <div className="flex items-center justify-between pb-2">
+          <div>
+            <p className="text-sm font-semibold">Pending changes</p>
+            <p className="text-xs text-muted-foreground">
+              {isOnline ? "Syncing with the server" : "You're offline - changes are saved on this device"}
+            </p>
+          </div>
+          {isOnline && entries.length > 0 && (
+            <Button size="icon" variant="ghost" className="h-8 w-8" onClick={() => flushOutbox()}>
+              <RefreshCw className="h-4 w-4" />
+            </Button>
+          )}
+        </div>
+
+        {entries.length === 0 ? (
+          <p className="py-2 text-sm text-muted-foreground">No unsynced changes.</p>
+        ) : (
+          <div className="max-h-80 space-y-2 overflow-y-auto">
+            {entries.map(entry => (
+              <PendingChangeRow key={entry.id} entry={entry} />
+            ))}
+          </div>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+}
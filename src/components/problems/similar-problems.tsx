@@ -0,0 +1,93 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { useAuth } from "@/hooks/use-auth";
+import { findSimilarProblems } from "@/lib/vector-search";
+import { buildLeetCodeUrl } from "@/lib/problem-lookup";
+import type { SimilarProblem } from "@/lib/problem-similarity";
+import { Badge } from "@/components/ui/badge";
+import { ExternalLink, Loader2 } from "lucide-react";
+
+const difficultyStyles: Record<string, string> = {
+  Easy: "text-emerald-600 dark:text-emerald-400",
+  Medium: "text-amber-600 dark:text-amber-400",
+  Hard: "text-red-600 dark:text-red-400",
+};
+
+// Ranked similar problems with the reasons each was picked
+export function SimilarProblems({ problem, limit = 5 }: { problem: string | number; limit?: number }) {
+  const { user } = useAuth();
+  const [problems, setProblems] = useState<SimilarProblem[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setProblems(null);
+    setError(null);
+
+    findSimilarProblems(problem, limit, user?.uid).then(result => {
+      if (cancelled) return;
+      if (result.success) {
+        setProblems(result.problems ?? []);
+      } else {
+        setError(result.error ?? "Failed to find similar problems");
+      }
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [problem, limit, user?.uid]);
+
+  if (error) {
+    return <p className="text-sm text-muted-foreground">{error}</p>;
+  }
+
+  if (!problems) {
+    return (
+      <div className="flex items-center gap-2 text-sm text-muted-foreground">
+        <Loader2 className="h-4 w-4 animate-spin" />
+        Finding similar problems...
+      </div>
+    );
+  }
+
+  if (problems.length === 0) {
+    return <p className="text-sm text-muted-foreground">No similar problems found.</p>;
+  }
+
+  return (
+    <div className="space-y-2">
+      {problems.map(similar => (
+        <div key={similar.slug} className="rounded-lg border p-3 space-y-1.5">
+          <div className="flex items-start justify-between gap-3">
+            <Link
+              href={buildLeetCodeUrl(similar.slug)}
+              target="_blank"
+              className="font-medium text-sm hover:text-primary transition-colors inline-flex items-center gap-1 min-w-0"
+            >
+              <span className="truncate">{similar.title}</span>
+              <ExternalLink className="h-3 w-3 shrink-0 text-muted-foreground" />
+            </Link>
+            <div className="flex items-center gap-2 shrink-0">
+              <span className={`text-xs font-medium ${difficultyStyles[similar.difficulty] ?? ""}`}>
+                {similar.difficulty}
+              </span>
+              <Badge variant="secondary" className="text-[10px] px-1.5 py-0 h-5">
+                {Math.round(similar.similarity * 100)}%
+              </Badge>
+            </div>
+          </div>
+          {similar.reasons.length > 0 && (
+            <ul className="text-xs text-muted-foreground space-y-0.5">
+              {similar.reasons.map(reason => (
+                <li key={reason.signal}>• {reason.label}</li>
+              ))}
+            </ul>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -10,9 +10,16 @@ import {
   importSolvedProblemsToReview,
   getRecommendedForReview,
   addToReviewSystem,
+  migrateLegacyReviews,
+  getReviewSettings,
+  updateReviewSettings,
+  getProblemTimeline,
+  fitFsrsParameters,
   type SmartReview,
   type ReviewStats
 } from "@/lib/smart-review-actions";
+import { getRetrievability, type ReviewAlgorithmName } from "@/lib/review-scheduler";
+import type { ReviewLogEntry } from "@/lib/review-log";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
@@ -28,6 +35,7 @@ import {
   DialogTitle,
 } from "@/components/ui/dialog";
 import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { 
   RotateCcw, 
   Brain,
@@ -48,6 +56,7 @@ import {
 } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import Link from "next/link";
+import { SimilarProblems } from "@/components/problems/similar-problems";
 
 const CONFIDENCE_LEVELS = [
   { value: 1, label: "Need Help", description: "I couldn't solve this", color: "text-red-500" },
@@ -74,12 +83,16 @@ export function EnhancedSmartReview() {
   const [recommendedProblems, setRecommendedProblems] = useState<any[]>([]);
   const [loading, setLoading] = useState(true);
   const [importing, setImporting] = useState(false);
+  const [algorithm, setAlgorithm] = useState<ReviewAlgorithmName>("sm2");
   
   // Review session state
   const [currentProblem, setCurrentProblem] = useState<SmartReview | null>(null);
   const [reviewNotes, setReviewNotes] = useState("");
   const [selectedConfidence, setSelectedConfidence] = useState<number | null>(null);
   const [isReviewOpen, setIsReviewOpen] = useState(false);
+  const [reviewStartedAt, setReviewStartedAt] = useState<number | null>(null);
+  const [timeline, setTimeline] = useState<ReviewLogEntry[]>([]);
+  const [fitting, setFitting] = useState(false);
 
   // Load all data
   const loadData = async () => {
@@ -87,13 +100,21 @@ export function EnhancedSmartReview() {
     
     setLoading(true);
     try {
-      const [dueResult, statsResult, topicsResult, recommendedResult] = await Promise.all([
+      // Fold any pre-scheduler review documents before reading stats
+      await migrateLegacyReviews(user.uid);
+
+      const [dueResult, statsResult, topicsResult, recommendedResult, settingsResult] = await Promise.all([
         getDueForReview(user.uid, 20),
         getReviewStats(user.uid),
         getWeakTopics(user.uid),
-        getRecommendedForReview(user.uid, 10)
+        getRecommendedForReview(user.uid, 10),
+        getReviewSettings(user.uid)
       ]);
 
+      if (settingsResult.success && settingsResult.settings) {
+        setAlgorithm(settingsResult.settings.algorithm);
+      }
+
       if (dueResult.success && dueResult.problems) {
         setDueProblems(dueResult.problems);
       }
@@ -126,11 +147,19 @@ export function EnhancedSmartReview() {
   }, [user]);
 
   // Start review session
-  const startReview = (problem: SmartReview) => {
+  const startReview = async (problem: SmartReview) => {
     setCurrentProblem(problem);
     setSelectedConfidence(null);
     setReviewNotes("");
+    setTimeline([]);
+    setReviewStartedAt(Date.now());
     setIsReviewOpen(true);
+
+    if (!user) return;
+    const result = await getProblemTimeline(user.uid, problem.problemSlug);
+    if (result.success && result.timeline) {
+      setTimeline(result.timeline);
+    }
   };
 
   // Submit review
@@ -144,11 +173,16 @@ export function EnhancedSmartReview() {
       return;
     }
 
+    const timeSpent = reviewStartedAt
+      ? Math.max(1, Math.round((Date.now() - reviewStartedAt) / 60000))
+      : undefined;
+
     const result = await recordReview(
       user.uid,
       currentProblem.problemSlug,
       selectedConfidence,
-      reviewNotes || undefined
+      reviewNotes || undefined,
+      timeSpent
     );
 
     if (result.success) {
@@ -197,6 +231,55 @@ export function EnhancedSmartReview() {
     }
   };
 
+  // Switch scheduling algorithm
+  const handleAlgorithmChange = async (value: string) => {
+    if (!user) return;
+
+    const next = value as ReviewAlgorithmName;
+    const result = await updateReviewSettings(user.uid, { algorithm: next });
+
+    if (result.success) {
+      setAlgorithm(next);
+      toast({
+        title: "Scheduler Updated",
+        description: next === "fsrs"
+          ? "FSRS will reschedule each problem on its next review"
+          : "SM-2 will reschedule each problem on its next review",
+      });
+    } else {
+      toast({
+        title: "Error",
+        description: result.error || "Failed to update scheduler",
+        variant: "destructive",
+      });
+    }
+  };
+
+  // Fit FSRS weights to the logged review history
+  const handleFitFsrs = async () => {
+    if (!user) return;
+
+    setFitting(true);
+    try {
+      const result = await fitFsrsParameters(user.uid);
+
+      if (result.success) {
+        toast({
+          title: "FSRS Personalized",
+          description: `Fitted to ${result.reviewCount} of your reviews`,
+        });
+      } else {
+        toast({
+          title: "Not Enough History",
+          description: result.error || "Failed to fit FSRS parameters",
+          variant: "destructive",
+        });
+      }
+    } finally {
+      setFitting(false);
+    }
+  };
+
   // Add problem to review system
   const addToReview = async (problem: any) => {
     if (!user) return;
@@ -249,12 +332,24 @@ export function EnhancedSmartReview() {
           </p>
         </div>
         
-        {stats && stats.totalProblems === 0 && (
-          <Button onClick={handleImport} disabled={importing} variant="outline" className="w-full sm:w-auto touch-manipulation">
-            <Download className="h-4 w-4 mr-2" />
-            {importing ? "Importing..." : "Import Solved Problems"}
-          </Button>
-        )}
+        <div className="flex flex-col sm:flex-row gap-2">
+          <Select value={algorithm} onValueChange={handleAlgorithmChange}>
+            <SelectTrigger className="w-full sm:w-[160px]">
+              <SelectValue placeholder="Scheduler" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="sm2">SM-2</SelectItem>
+              <SelectItem value="fsrs">FSRS</SelectItem>
+            </SelectContent>
+          </Select>
+
+          {stats && stats.totalProblems === 0 && (
+            <Button onClick={handleImport} disabled={importing} variant="outline" className="w-full sm:w-auto touch-manipulation">
+              <Download className="h-4 w-4 mr-2" />
+              {importing ? "Importing..." : "Import Solved Problems"}
+            </Button>
+          )}
+        </div>
       </div>
 
       {loading ? (
@@ -304,7 +399,12 @@ export function EnhancedSmartReview() {
           </TabsContent>
 
           <TabsContent value="stats" className="space-y-4">
-            <StatsTab stats={stats} />
+            <StatsTab
+              stats={stats}
+              algorithm={algorithm}
+              fitting={fitting}
+              onFitFsrs={handleFitFsrs}
+            />
           </TabsContent>
 
           <TabsContent value="topics" className="space-y-4">
@@ -331,6 +431,7 @@ export function EnhancedSmartReview() {
           notes={reviewNotes}
           onNotesChange={setReviewNotes}
           onSubmit={submitReview}
+          timeline={timeline}
         />
       )}
     </div>
@@ -459,6 +560,9 @@ function ReviewTab({
                     <span>Confidence: {problem.confidence}/5</span>
                     <span className="hidden sm:inline">Reviews: {problem.totalReviews}</span>
                     <span>Last: {new Date(problem.lastReviewedAt).toLocaleDateString()}</span>
+                    {problem.algorithm === "fsrs" && (
+                      <span>Recall: {Math.round(getRetrievability(problem) * 100)}%</span>
+                    )}
                   </div>
                   
                   {problem.topics.length > 0 && (
@@ -502,9 +606,21 @@ function ReviewTab({
 }
 
 // Stats Tab Component  
-function StatsTab({ stats }: { stats: ReviewStats | null }) {
+function StatsTab({
+  stats,
+  algorithm,
+  fitting,
+  onFitFsrs
+}: {
+  stats: ReviewStats | null;
+  algorithm: ReviewAlgorithmName;
+  fitting: boolean;
+  onFitFsrs: () => void;
+}) {
   if (!stats) return <div>Loading...</div>;
 
+  const maxReviewed = Math.max(1, ...stats.weeklyProgress.map(day => day.reviewed));
+
   return (
     <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 sm:gap-6">
       <Card>
@@ -568,6 +684,52 @@ function StatsTab({ stats }: { stats: ReviewStats | null }) {
           )}
         </CardContent>
       </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <TrendingUp className="h-5 w-5" />
+            Last 7 Days
+          </CardTitle>
+          <CardDescription>{stats.totalReviews} reviews logged in total</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="flex items-end justify-between gap-2 h-32">
+            {stats.weeklyProgress.map(day => (
+              <div key={day.date} className="flex-1 flex flex-col items-center gap-1">
+                <span className="text-xs text-muted-foreground">{day.reviewed || ""}</span>
+                <div
+                  className="w-full rounded-t bg-primary/70"
+                  style={{ height: `${(day.reviewed / maxReviewed) * 80}px` }}
+                  title={day.reviewed > 0 ? `Avg confidence ${day.avgConfidence}/5` : undefined}
+                />
+                <span className="text-[10px] text-muted-foreground">
+                  {new Date(day.date).toLocaleDateString(undefined, { weekday: "short" })}
+                </span>
+              </div>
+            ))}
+          </div>
+        </CardContent>
+      </Card>
+
+      {algorithm === "fsrs" && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Brain className="h-5 w-5" />
+              FSRS Parameters
+            </CardTitle>
+            <CardDescription>
+              Tune the scheduler to how you actually remember problems
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Button onClick={onFitFsrs} disabled={fitting} variant="outline" className="w-full">
+              {fitting ? "Fitting..." : "Fit to My Review History"}
+            </Button>
+          </CardContent>
+        </Card>
+      )}
     </div>
   );
 }
@@ -700,7 +862,8 @@ function ReviewDialog({
   onConfidenceChange,
   notes,
   onNotesChange,
-  onSubmit
+  onSubmit,
+  timeline
 }: {
   problem: SmartReview;
   isOpen: boolean;
@@ -710,6 +873,7 @@ function ReviewDialog({
   notes: string;
   onNotesChange: (notes: string) => void;
   onSubmit: () => void;
+  timeline: ReviewLogEntry[];
 }) {
   return (
     <Dialog open={isOpen} onOpenChange={onClose}>
@@ -788,6 +952,37 @@ function ReviewDialog({
             </div>
           </div>
 
+          {timeline.length > 0 && (
+            <div>
+              <Label className="text-sm font-medium mb-2 block">Review History</Label>
+              <div className="space-y-2 max-h-40 overflow-y-auto">
+                {[...timeline].reverse().map(entry => (
+                  <div key={entry.id} className="flex items-start justify-between gap-3 text-xs sm:text-sm border-l-2 pl-3">
+                    <div className="min-w-0">
+                      <p className="font-medium">
+                        {new Date(entry.reviewedAt).toLocaleDateString()} · {entry.confidence}/5
+                      </p>
+                      {entry.notes && (
+                        <p className="text-muted-foreground truncate">{entry.notes}</p>
+                      )}
+                    </div>
+                    <div className="text-right text-muted-foreground shrink-0">
+                      {entry.actualInterval !== null && (
+                        <p>{Math.round(entry.actualInterval)}d / {entry.scheduledInterval}d planned</p>
+                      )}
+                      {entry.timeSpent !== undefined && <p>{entry.timeSpent} min</p>}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          <div>
+            <Label className="text-sm font-medium mb-2 block">Similar Problems</Label>
+            <SimilarProblems problem={problem.problemSlug} limit={3} />
+          </div>
+
           <div>
             <Label htmlFor="notes" className="text-sm">Notes (optional)</Label>
             <Textarea
@@ -4,15 +4,13 @@ import { useState, useEffect } from "react";
 import { useAuth } from "@/hooks/use-auth";
 import { 
   getUserSnippets, 
-  createSnippet, 
-  updateSnippet, 
-  deleteSnippet, 
   searchSnippets,
   incrementSnippetUsage,
   type CodeSnippet, 
   type ProgrammingLanguage,
   type SnippetFilters 
 } from "@/lib/snippet-actions";
+import { queueCreateSnippet, queueUpdateSnippet, queueDeleteSnippet } from "@/lib/outbox";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -166,12 +164,12 @@ export function EnhancedSnippets() {
       difficulty: formData.difficulty as CodeSnippet["difficulty"] || undefined,
     };
 
-    const result = await createSnippet(user.uid, snippet);
+    const result = await queueCreateSnippet(user.uid, snippet);
 
     if (result.success) {
       toast({
         title: "Success",
-        description: "Snippet created successfully",
+        description: result.queued ? "Snippet saved offline - it will sync when you're back online" : "Snippet created successfully",
       });
       setIsCreateOpen(false);
       resetForm();
@@ -206,12 +204,12 @@ export function EnhancedSnippets() {
       difficulty: formData.difficulty as CodeSnippet["difficulty"] || undefined,
     };
 
-    const result = await updateSnippet(user.uid, editingSnippet.id!, updates);
+    const result = await queueUpdateSnippet(user.uid, editingSnippet.id!, updates);
 
     if (result.success) {
       toast({
         title: "Success",
-        description: "Snippet updated successfully",
+        description: result.queued ? "Changes saved offline - they will sync when you're back online" : "Snippet updated successfully",
       });
       setEditingSnippet(null);
       resetForm();
@@ -242,12 +240,12 @@ export function EnhancedSnippets() {
   const handleDelete = async (snippetId: string) => {
     if (!user) return;
 
-    const result = await deleteSnippet(user.uid, snippetId);
+    const result = await queueDeleteSnippet(user.uid, snippetId);
 
     if (result.success) {
       toast({
         title: "Success",
-        description: "Snippet deleted successfully",
+        description: result.queued ? "Delete saved offline - it will sync when you're back online" : "Snippet deleted successfully",
       });
       loadSnippets();
     } else {
@@ -0,0 +1,153 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import {
+  getLeetCodeSyncStatus,
+  syncSolvedFromLeetCode,
+  syncSolvedFromPayload,
+  type LeetCodeSyncResult,
+  type LeetCodeSyncStatus,
+} from "@/lib/leetcode-sync-actions";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Loader2, RefreshCw, Upload } from "lucide-react";
+
+export function LeetCodeSyncDialog({ onSynced }: { onSynced: () => void }) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [isOpen, setIsOpen] = useState(false);
+  const [username, setUsername] = useState("");
+  const [payloadText, setPayloadText] = useState("");
+  const [isSyncing, setIsSyncing] = useState(false);
+  const [status, setStatus] = useState<LeetCodeSyncStatus | null>(null);
+
+  useEffect(() => {
+    if (!user || !isOpen) return;
+
+    getLeetCodeSyncStatus(user.uid).then(result => {
+      if (result.success && result.status) {
+        setStatus(result.status);
+        if (result.status.username) setUsername(result.status.username);
+      }
+    });
+  }, [user, isOpen]);
+
+  const handleResult = (result: { success: boolean; result?: LeetCodeSyncResult; error?: string }) => {
+    if (result.success && result.result) {
+      toast({
+        title: "LeetCode Synced",
+        description: `${result.result.added} new, ${result.result.updated} updated`,
+      });
+      setPayloadText("");
+      setIsOpen(false);
+      onSynced();
+    } else {
+      toast({
+        title: "Sync Failed",
+        description: result.error || "Failed to sync from LeetCode",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const syncProfile = async () => {
+    if (!user || !username.trim()) return;
+
+    setIsSyncing(true);
+    try {
+      handleResult(await syncSolvedFromLeetCode(user.uid, username));
+    } finally {
+      setIsSyncing(false);
+    }
+  };
+
+  const syncPayload = async () => {
+    if (!user || !payloadText.trim()) return;
+
+    let payload: unknown;
+    try {
+      payload = JSON.parse(payloadText);
+    } catch {
+      toast({ title: "Invalid JSON", description: "Paste the raw LeetCode response", variant: "destructive" });
+      return;
+    }
+
+    setIsSyncing(true);
+    try {
+      handleResult(await syncSolvedFromPayload(user.uid, payload));
+    } finally {
+      setIsSyncing(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={setIsOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" className="flex items-center gap-2">
+          <RefreshCw className="h-4 w-4" />
+          Sync LeetCode
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Sync from LeetCode</DialogTitle>
+          <DialogDescription>
+            Pull recent accepted submissions from your public profile, or paste a saved
+            progress or submissions response for a full history.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-6 py-2">
+          <div className="space-y-2">
+            <Label htmlFor="leetcodeUsername">LeetCode username</Label>
+            <div className="flex gap-2">
+              <Input
+                id="leetcodeUsername"
+                value={username}
+                onChange={(e) => setUsername(e.target.value)}
+                placeholder="e.g., neetcode"
+              />
+              <Button onClick={syncProfile} disabled={isSyncing || !username.trim()}>
+                {isSyncing ? <Loader2 className="h-4 w-4 animate-spin" /> : "Sync"}
+              </Button>
+            </div>
+            {status?.lastSyncedAt && (
+              <p className="text-xs text-muted-foreground">
+                Last synced {new Date(status.lastSyncedAt).toLocaleString()}
+                {status.lastSubmissionAt &&
+                  ` · newest submission ${new Date(status.lastSubmissionAt).toLocaleDateString()}`}
+              </p>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="leetcodePayload">Or paste a LeetCode JSON response</Label>
+            <Textarea
+              id="leetcodePayload"
+              value={payloadText}
+              onChange={(e) => setPayloadText(e.target.value)}
+              placeholder='{"data": {"submissionList": {...}}}'
+              className="min-h-[120px] font-mono text-xs"
+            />
+            <Button onClick={syncPayload} disabled={isSyncing || !payloadText.trim()} variant="secondary" className="w-full">
+              <Upload className="h-4 w-4 mr-2" />
+              Import Payload
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
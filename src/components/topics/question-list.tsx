@@ -41,7 +41,9 @@ import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import * as z from "zod";
 import { addQuestionToTopic, updateTopicQuestion, deleteTopicQuestion } from "@/lib/actions";
-import { lookupProblem, parseLeetCodeUrl, buildLeetCodeUrl } from "@/lib/problem-lookup";
+import { parseLeetCodeUrl, buildLeetCodeUrl } from "@/lib/problem-lookup";
+import { lookupCatalogProblem } from "@/lib/problem-catalog";
+import { SimilarProblems } from "@/components/problems/similar-problems";
 import {
   DropdownMenu,
   DropdownMenuContent,
@@ -105,8 +107,8 @@ function QuestionForm({
     });
 
     // Auto-fill from LeetCode URL or problem number
-    const handleAutoFill = (input: string) => {
-        const problem = lookupProblem(input);
+    const handleAutoFill = async (input: string) => {
+        const problem = await lookupCatalogProblem(input);
         if (problem) {
             form.setValue('title', problem.title);
             form.setValue('difficulty', problem.difficulty);
@@ -407,8 +409,12 @@ function QuestionForm({
 function QuestionItem({ question, userId, topicId, onDeleted }: { question: TopicQuestion, userId: string, topicId: string, onDeleted: () => void }) {
     const [isEditOpen, setIsEditOpen] = useState(false);
     const [isDeleteOpen, setIsDeleteOpen] = useState(false);
+    const [isSimilarOpen, setIsSimilarOpen] = useState(false);
     const [isPending, startTransition] = useTransition();
 
+    // Catalog reference for similar problems; hand-entered questions may have neither
+    const catalogRef = (question.link ? parseLeetCodeUrl(question.link).slug : undefined) ?? question.leetcodeNumber;
+
     const statusStyles: Record<QuestionStatus, string> = {
         "To-Do": "bg-muted text-muted-foreground",
         "Solved": "bg-emerald-100 text-emerald-700 dark:bg-emerald-900/30 dark:text-emerald-400",
@@ -512,6 +518,22 @@ function QuestionItem({ question, userId, topicId, onDeleted }: { question: Topi
                 )}
             </div>
             <div className="flex items-center gap-1 shrink-0 opacity-100 sm:opacity-0 sm:group-hover:opacity-100 transition-opacity">
+                {catalogRef !== undefined && (
+                    <Dialog open={isSimilarOpen} onOpenChange={setIsSimilarOpen}>
+                        <DialogTrigger asChild>
+                            <Button variant="ghost" size="icon" className="h-9 w-9 touch-manipulation" title="Similar problems">
+                                <Sparkles className="h-4 w-4 text-muted-foreground" />
+                            </Button>
+                        </DialogTrigger>
+                        <DialogContent className="sm:max-w-lg max-h-[90vh] overflow-y-auto">
+                            <DialogHeader className="pb-2">
+                                <DialogTitle className="text-lg">Similar to {question.title}</DialogTitle>
+                                <DialogDescription className="text-sm">Ranked by content, patterns, topic lists and your notes.</DialogDescription>
+                            </DialogHeader>
+                            {isSimilarOpen && <SimilarProblems problem={catalogRef} />}
+                        </DialogContent>
+                    </Dialog>
+                )}
                 <Dialog open={isEditOpen} onOpenChange={setIsEditOpen}>
                     <DialogTrigger asChild>
                         <Button variant="ghost" size="icon" className="h-9 w-9 touch-manipulation">
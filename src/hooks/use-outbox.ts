@@ -0,0 +1,40 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useLiveQuery } from "dexie-react-hooks";
+import { getOutboxDb, startOutboxSync, type OutboxEntry } from "@/lib/outbox";
+
+/**
+ * Queued offline writes for a user, live-updated from IndexedDB, plus the
+ * browser's connectivity. Mounting the hook keeps the outbox flushing.
+ */
+export function useOutbox(userId: string | undefined): {
+  entries: OutboxEntry[];
+  isOnline: boolean;
+} {
+  const [isOnline, setIsOnline] = useState(true);
+
+  useEffect(() => {
+    const update = () => setIsOnline(navigator.onLine);
+    update();
+    window.addEventListener("online", update);
+    window.addEventListener("offline", update);
+    return () => {
+      window.removeEventListener("online", update);
+      window.removeEventListener("offline", update);
+    };
+  }, []);
+
+  useEffect(() => {
+    if (!userId) return;
+    return startOutboxSync();
+  }, [userId]);
+
+  const entries = useLiveQuery(
+    () => (userId ? getOutboxDb().actions.where("userId").equals(userId).sortBy("timestamp") : []),
+    [userId],
+    [] as OutboxEntry[]
+  );
+
+  return { entries, isOnline };
+}
@@ -3,17 +3,16 @@
 
 import { db } from "@/lib/firebase";
 import { cache, CacheUtils } from "@/lib/cache";
+import { enqueueWrite } from "@/lib/outbox";
+import { createBackup } from "@/lib/backup-actions";
+import { purgeMongoTrash } from "@/lib/trash-actions";
+import { deletedAtDate, isTrashed, trashCutoff, type TrashItem } from "@/lib/trash";
 import {
   collection,
-  addDoc,
-  serverTimestamp,
   query,
   where,
   getDocs,
   doc,
-  updateDoc,
-  deleteDoc,
-  writeBatch,
   getDoc,
   orderBy,
 } from "firebase/firestore";
@@ -25,6 +24,23 @@ import {
 } from "@/lib/types";
 
 
+function userPath(userId: string, ...segments: string[]): string {
+  return ["users", userId, ...segments].join("/");
+}
+
+// Firestore ids are generated locally, so creates can be queued offline
+function newDocId(path: string): string {
+  return doc(collection(db, path)).id;
+}
+
+async function invalidateUserCache(userId: string, change: string) {
+  try {
+    await CacheUtils.invalidateUserCache(userId);
+  } catch (error) {
+    console.error(`Failed to invalidate cache after ${change}:`, error);
+  }
+}
+
 // Topics Actions
 export async function addTopic(userId: string, formData: FormData) {
   const name = formData.get("name") as string;
@@ -34,18 +50,18 @@ export async function addTopic(userId: string, formData: FormData) {
     return { error: "Topic name is required." };
   }
 
-  await addDoc(collection(db, "users", userId, "topics"), {
-    name,
-    description,
-    createdAt: serverTimestamp(),
+  const path = userPath(userId, "topics");
+  await enqueueWrite({
+    userId,
+    target: "firestore",
+    action: "create",
+    collection: path,
+    docId: newDocId(path),
+    data: { name, description },
+    label: `Add topic "${name}"`,
   });
   
-  // Invalidate cache
-  try {
-    await CacheUtils.invalidateUserCache(userId);
-  } catch (error) {
-    console.error('Failed to invalidate cache after adding topic:', error);
-  }
+  await invalidateUserCache(userId, "adding topic");
 }
 
 export async function updateTopic(userId: string, topicId: string, formData: FormData) {
@@ -56,37 +72,32 @@ export async function updateTopic(userId: string, topicId: string, formData: For
     return { error: "Topic name is required." };
   }
 
-  const topicRef = doc(db, "users", userId, "topics", topicId);
-  await updateDoc(topicRef, { name, description });
+  await enqueueWrite({
+    userId,
+    target: "firestore",
+    action: "update",
+    collection: userPath(userId, "topics"),
+    docId: topicId,
+    data: { name, description },
+    label: `Edit topic "${name}"`,
+  });
   
-  // Invalidate cache
-  try {
-    await CacheUtils.invalidateUserCache(userId);
-  } catch (error) {
-    console.error('Failed to invalidate cache after updating topic:', error);
-  }
+  await invalidateUserCache(userId, "updating topic");
 }
 
+// Moves the topic to the trash; its questions and notes go with it
 export async function deleteTopic(userId: string, topicId: string) {
-    const batch = writeBatch(db);
-
-    const questionsSnapshot = await getDocs(collection(db, "users", userId, "topics", topicId, "questions"));
-    questionsSnapshot.forEach(doc => batch.delete(doc.ref));
-
-    const notesSnapshot = await getDocs(collection(db, "users", userId, "topics", topicId, "notes"));
-    notesSnapshot.forEach(doc => batch.delete(doc.ref));
-
-    const topicRef = doc(db, "users", userId, "topics", topicId);
-    batch.delete(topicRef);
-    
-    await batch.commit();
+    await enqueueWrite({
+      userId,
+      target: "firestore",
+      action: "update",
+      collection: userPath(userId, "topics"),
+      docId: topicId,
+      data: { deletedAt: new Date() },
+      label: "Move topic to trash",
+    });
     
-    // Invalidate cache
-    try {
-      await CacheUtils.invalidateUserCache(userId);
-    } catch (error) {
-      console.error('Failed to invalidate cache after deleting topic:', error);
-    }
+    await invalidateUserCache(userId, "deleting topic");
 }
 
 
@@ -105,14 +116,22 @@ export async function addDailyQuestion(userId: string, formData: FormData) {
   const link = titleSlug ? `https://leetcode.com/problems/${titleSlug}/` : 
                leetcodeId ? `https://leetcode.com/problems/${leetcodeId}/` : undefined;
 
-  await addDoc(collection(db, "users", userId, "dailyQuestions"), {
-    leetcodeId: parseInt(leetcodeId, 10),
-    ...(title && { title }),
-    ...(difficulty && { difficulty }),
-    ...(titleSlug && { titleSlug }),
-    ...(link && { link }),
-    note,
-    createdAt: serverTimestamp(),
+  const path = userPath(userId, "dailyQuestions");
+  await enqueueWrite({
+    userId,
+    target: "firestore",
+    action: "create",
+    collection: path,
+    docId: newDocId(path),
+    data: {
+      leetcodeId: parseInt(leetcodeId, 10),
+      ...(title && { title }),
+      ...(difficulty && { difficulty }),
+      ...(titleSlug && { titleSlug }),
+      ...(link && { link }),
+      note,
+    },
+    label: `Add daily question ${title || `#${leetcodeId}`}`,
   });
 }
 
@@ -127,18 +146,33 @@ export async function addAISuggestedToDailyQuestion(
     return { error: "Problem ID and User ID are required." };
   }
 
-  await addDoc(collection(db, "users", userId, "dailyQuestions"), {
-    leetcodeId: parseInt(problemId, 10),
-    link: url,
-    note: `🤖 AI Suggested: ${reason}`,
-    title,
-    source: 'ai-suggestion',
-    createdAt: serverTimestamp(),
+  const path = userPath(userId, "dailyQuestions");
+  await enqueueWrite({
+    userId,
+    target: "firestore",
+    action: "create",
+    collection: path,
+    docId: newDocId(path),
+    data: {
+      leetcodeId: parseInt(problemId, 10),
+      link: url,
+      note: `🤖 AI Suggested: ${reason}`,
+      title,
+      source: 'ai-suggestion',
+    },
+    label: `Add daily question ${title}`,
   });
 }
 
 export async function deleteDailyQuestion(userId: string, id: string) {
-    await deleteDoc(doc(db, "users", userId, "dailyQuestions", id));
+    await enqueueWrite({
+      userId,
+      target: "firestore",
+      action: "delete",
+      collection: userPath(userId, "dailyQuestions"),
+      docId: id,
+      label: "Delete daily question",
+    });
 }
 
 // Topic Questions Actions
@@ -172,10 +206,18 @@ export async function addQuestionToTopic(userId: string, topicId: string, formDa
         return { error: "Missing required fields." };
     }
 
-    await addDoc(collection(db, "users", userId, "topics", topicId, "questions"), {
-        ...questionData,
-        attemptCount: 1,
-        createdAt: serverTimestamp(),
+    const path = userPath(userId, "topics", topicId, "questions");
+    await enqueueWrite({
+        userId,
+        target: "firestore",
+        action: "create",
+        collection: path,
+        docId: newDocId(path),
+        data: {
+            ...questionData,
+            attemptCount: 1,
+        },
+        label: `Add question "${questionData.title}"`,
     });
 }
 
@@ -206,15 +248,31 @@ export async function updateTopicQuestion(userId: string, topicId: string, quest
     };
     
     if (questionData.status === 'Solved') {
-      questionData.lastSolved = serverTimestamp() as any;
+      // Time of the edit, not of the replay
+      questionData.lastSolved = new Date() as any;
     }
 
-    const questionRef = doc(db, "users", userId, "topics", topicId, "questions", questionId);
-    await updateDoc(questionRef, questionData);
+    await enqueueWrite({
+        userId,
+        target: "firestore",
+        action: "update",
+        collection: userPath(userId, "topics", topicId, "questions"),
+        docId: questionId,
+        data: questionData,
+        label: `Edit question "${questionData.title}"`,
+    });
 }
 
 export async function deleteTopicQuestion(userId: string, topicId: string, questionId: string) {
-    await deleteDoc(doc(db, "users", userId, "topics", topicId, "questions", questionId));
+    await enqueueWrite({
+        userId,
+        target: "firestore",
+        action: "update",
+        collection: userPath(userId, "topics", topicId, "questions"),
+        docId: questionId,
+        data: { deletedAt: new Date() },
+        label: "Move question to trash",
+    });
 }
 
 // Topic Notes Actions
@@ -228,9 +286,15 @@ export async function addNoteToTopic(userId: string, topicId: string, formData:
         return { error: "Note content cannot be empty." };
     }
 
-    await addDoc(collection(db, "users", userId, "topics", topicId, "notes"), {
-        ...noteData,
-        createdAt: serverTimestamp(),
+    const path = userPath(userId, "topics", topicId, "notes");
+    await enqueueWrite({
+        userId,
+        target: "firestore",
+        action: "create",
+        collection: path,
+        docId: newDocId(path),
+        data: noteData,
+        label: "Add note",
     });
 }
 
@@ -241,12 +305,161 @@ export async function updateNoteInTopic(userId: string, topicId: string, noteId:
     if (!noteData.content) {
         return { error: "Note content cannot be empty." };
     }
-    const noteRef = doc(db, "users", userId, "topics", topicId, "notes", noteId);
-    await updateDoc(noteRef, noteData);
+    await enqueueWrite({
+        userId,
+        target: "firestore",
+        action: "update",
+        collection: userPath(userId, "topics", topicId, "notes"),
+        docId: noteId,
+        data: noteData,
+        label: "Edit note",
+    });
 }
 
 export async function deleteNoteFromTopic(userId: string, topicId: string, noteId: string) {
-    await deleteDoc(doc(db, "users", userId, "topics", topicId, "notes", noteId));
+    await enqueueWrite({
+        userId,
+        target: "firestore",
+        action: "update",
+        collection: userPath(userId, "topics", topicId, "notes"),
+        docId: noteId,
+        data: { deletedAt: new Date() },
+        label: "Move note to trash",
+    });
+}
+
+// Trash Actions (memories and snippets are in trash-actions.ts)
+function trashPath(userId: string, item: Pick<TrashItem, "kind" | "topicId">): string {
+    if (item.kind === "topic") return userPath(userId, "topics");
+    return userPath(userId, "topics", item.topicId!, item.kind === "question" ? "questions" : "notes");
+}
+
+// Trashed topics, and trashed questions and notes of topics that aren't
+export async function getTrash(userId: string): Promise<TrashItem[]> {
+    if (!userId) return [];
+
+    const topicsSnapshot = await getDocs(collection(db, "users", userId, "topics"));
+    const items: TrashItem[] = [];
+
+    await Promise.all(topicsSnapshot.docs.map(async (topicDoc) => {
+        const topic = { id: topicDoc.id, ...topicDoc.data() } as Topic;
+        const [questionsSnapshot, notesSnapshot] = await Promise.all([
+            getDocs(collection(topicDoc.ref, "questions")),
+            getDocs(collection(topicDoc.ref, "notes")),
+        ]);
+
+        if (isTrashed(topic)) {
+            const questions = questionsSnapshot.docs.filter(d => !isTrashed(d.data())).length;
+            const notes = notesSnapshot.docs.filter(d => !isTrashed(d.data())).length;
+            items.push({
+                kind: "topic",
+                id: topic.id,
+                label: topic.name,
+                deletedAt: deletedAtDate(topic.deletedAt)!.toISOString(),
+                detail: `${questions} questions, ${notes} notes`,
+            });
+            return;
+        }
+
+        questionsSnapshot.docs.forEach((questionDoc) => {
+            const question = questionDoc.data() as TopicQuestion;
+            if (!isTrashed(question)) return;
+            items.push({
+                kind: "question",
+                id: questionDoc.id,
+                label: question.title,
+                deletedAt: deletedAtDate(question.deletedAt)!.toISOString(),
+                topicId: topic.id,
+                detail: topic.name,
+            });
+        });
+        notesSnapshot.docs.forEach((noteDoc) => {
+            const note = noteDoc.data() as TopicNote;
+            if (!isTrashed(note)) return;
+            items.push({
+                kind: "note",
+                id: noteDoc.id,
+                label: note.content.length > 80 ? `${note.content.slice(0, 79)}…` : note.content,
+                deletedAt: deletedAtDate(note.deletedAt)!.toISOString(),
+                topicId: topic.id,
+                detail: topic.name,
+            });
+        });
+    }));
+
+    return items.sort((a, b) => b.deletedAt.localeCompare(a.deletedAt));
+}
+
+export async function restoreFromTrash(userId: string, item: TrashItem) {
+    await enqueueWrite({
+        userId,
+        target: "firestore",
+        action: "update",
+        collection: trashPath(userId, item),
+        docId: item.id,
+        data: { deletedAt: null },
+        label: `Restore ${item.kind}`,
+    });
+
+    await invalidateUserCache(userId, "restoring from trash");
+}
+
+async function enqueuePurge(userId: string, item: TrashItem, label: string) {
+    await enqueueWrite({
+        userId,
+        target: "firestore",
+        action: "delete",
+        collection: trashPath(userId, item),
+        docId: item.id,
+        cascade: item.kind === "topic" ? ["questions", "notes"] : undefined,
+        label,
+    });
+}
+
+// Purges can't be undone, so keep a restore point when we can reach the server
+async function backupBeforePurge(userId: string) {
+    try {
+        const backup = await createBackup(userId, "pre-delete");
+        if (!backup.success) console.warn("No backup before purging trash:", backup.error);
+    } catch (error) {
+        console.warn("No backup before purging trash:", error);
+    }
+}
+
+// Delete a trashed topic, question or note for good
+export async function purgeFromTrash(userId: string, item: TrashItem) {
+    if (item.kind === "topic") {
+        await backupBeforePurge(userId);
+    }
+    await enqueuePurge(userId, item, `Delete ${item.kind} forever`);
+}
+
+// Delete everything in the trash, in every store
+export async function emptyTrash(userId: string): Promise<number> {
+    const items = await getTrash(userId);
+    if (items.length > 0) {
+        await backupBeforePurge(userId);
+    }
+    for (const item of items) {
+        await enqueuePurge(userId, item, `Delete ${item.kind} forever`);
+    }
+
+    const mongo = await purgeMongoTrash(userId, { expiredOnly: false });
+    if (!mongo.success) throw new Error(mongo.error);
+    return items.length + (mongo.purged ?? 0);
+}
+
+// Purge everything trashed longer than the retention period, in every store
+export async function purgeExpiredTrash(userId: string): Promise<number> {
+    const cutoff = trashCutoff().toISOString();
+    const expired = (await getTrash(userId)).filter(item => item.deletedAt < cutoff);
+
+    for (const item of expired) {
+        await enqueuePurge(userId, item, `Purge ${item.kind} from trash`);
+    }
+
+    const mongo = await purgeMongoTrash(userId, { expiredOnly: true });
+    return expired.length + (mongo.purged ?? 0);
 }
 
 export async function getAllUserProblems(userId: string) {
@@ -276,9 +489,11 @@ export async function getAllUserProblems(userId: string) {
   };
 
   for (const topicDoc of topicsSnapshot.docs) {
+    if (isTrashed(topicDoc.data())) continue;
     const questionsSnapshot = await getDocs(collection(db, "users", userId, "topics", topicDoc.id, "questions"));
     questionsSnapshot.forEach((questionDoc) => {
       const question = questionDoc.data() as TopicQuestion;
+      if (isTrashed(question)) return;
       if (question.status && allProblems[question.status]) {
         allProblems[question.status].push(question.title);
       }
@@ -316,9 +531,9 @@ export async function getTopics(userId: string): Promise<Topic[]> {
     orderBy("createdAt", "desc")
   );
   const querySnapshot = await getDocs(q);
-  const topics = querySnapshot.docs.map(
-    (doc) => ({ id: doc.id, ...doc.data() } as Topic)
-  );
+  const topics = querySnapshot.docs
+    .map((doc) => ({ id: doc.id, ...doc.data() } as Topic))
+    .filter((topic) => !isTrashed(topic));
   
   // Cache the result
   try {
@@ -340,7 +555,7 @@ export async function getTopicsWithStats(userId: string): Promise<import("@/lib/
   const querySnapshot = await getDocs(q);
   
   const topicsWithStats = await Promise.all(
-    querySnapshot.docs.map(async (topicDoc) => {
+    querySnapshot.docs.filter((topicDoc) => !isTrashed(topicDoc.data())).map(async (topicDoc) => {
       const topicData = { id: topicDoc.id, ...topicDoc.data() } as Topic;
       
       // Fetch questions for this topic
@@ -348,6 +563,7 @@ export async function getTopicsWithStats(userId: string): Promise<import("@/lib/
         collection(db, "users", userId, "topics", topicDoc.id, "questions")
       );
       
+      let totalQuestions = 0;
       let solvedCount = 0;
       let easyCount = 0;
       let mediumCount = 0;
@@ -355,6 +571,8 @@ export async function getTopicsWithStats(userId: string): Promise<import("@/lib/
       
       questionsSnapshot.forEach((questionDoc) => {
         const question = questionDoc.data() as TopicQuestion;
+        if (isTrashed(question)) return;
+        totalQuestions++;
         if (question.status === "Solved") solvedCount++;
         if (question.difficulty === "Easy") easyCount++;
         else if (question.difficulty === "Medium") mediumCount++;
@@ -364,7 +582,7 @@ export async function getTopicsWithStats(userId: string): Promise<import("@/lib/
       return {
         ...topicData,
         stats: {
-          totalQuestions: questionsSnapshot.size,
+          totalQuestions,
           solvedCount,
           easyCount,
           mediumCount,
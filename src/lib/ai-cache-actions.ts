@@ -0,0 +1,43 @@
+"use server";
+
+import { getDatabase } from "@/lib/mongodb";
+import { requireUser } from "@/lib/session";
+import { invalidateUserAICache, loadAICacheStats, type AICacheStats } from "@/lib/ai-cache";
+
+// Hit rate and tokens saved by the AI response cache over the last `days` days
+export async function getAICacheStats(
+  userId: string,
+  days: number = 30
+): Promise<{ success: boolean; stats?: AICacheStats; error?: string }> {
+  try {
+    await requireUser(userId);
+    const db = await getDatabase();
+    if (!db) {
+      return { success: false, error: "Database not available" };
+    }
+
+    return { success: true, stats: await loadAICacheStats(db, userId, days) };
+  } catch (error) {
+    console.error("Failed to get AI cache stats:", error);
+    return { success: false, error: "Failed to get AI cache stats" };
+  }
+}
+
+// Drop the user's cached AI answers so the next request goes to the provider
+export async function clearAICache(
+  userId: string
+): Promise<{ success: boolean; error?: string }> {
+  try {
+    await requireUser(userId);
+    const db = await getDatabase();
+    if (!db) {
+      return { success: false, error: "Database not available" };
+    }
+
+    await invalidateUserAICache(db, userId);
+    return { success: true };
+  } catch (error) {
+    console.error("Failed to clear AI cache:", error);
+    return { success: false, error: "Failed to clear AI cache" };
+  }
+}
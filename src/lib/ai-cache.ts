@@ -0,0 +1,259 @@
+import { createHash } from "crypto";
+import type { Db } from "mongodb";
+import { getDatabase, COLLECTIONS } from "@/lib/mongodb";
+import { countTokens } from "@/lib/context-budget";
+
+/**
+ * AI Cache - server-side cache for AI answers
+ *
+ * askAI and the suggestion flows look their answer up here before calling a
+ * provider. The key is a hash of:
+ * - the scope (which caller asked) and the user
+ * - the prompt, normalized so case, spacing and trailing punctuation don't matter
+ * - a fingerprint of everything else the answer depends on (the fitted user
+ *   context, requested count and difficulty, ...)
+ * - the provider and model expected to answer; answers from a fallback
+ *   provider are not cached, so a hit always comes from the keyed provider
+ *
+ * Entries expire after their scope's TTL (a Mongo TTL index removes them).
+ * Solved problems, reviews and restores call invalidateUserAICache(), since
+ * answers built on the old data would be stale even where the context text
+ * happens to match. Hits, misses and tokens per user, scope and day go to
+ * COLLECTIONS.AI_CACHE_STATS. Cache errors are logged and the call goes
+ * ahead uncached; AI_CACHE_DISABLED=true turns the cache off.
+ */
+
+export type AICacheScope = "ask" | "suggestions" | "genkit-suggestions";
+
+export const AI_CACHE_SCOPES: AICacheScope[] = ["ask", "suggestions", "genkit-suggestions"];
+
+export interface AICacheRequest {
+  scope: AICacheScope;
+  userId: string;
+  prompt: string;
+  context?: unknown; // anything besides the prompt the answer depends on
+  provider: string;
+  model?: string;
+}
+
+export interface AICacheScopeStats {
+  scope: AICacheScope;
+  hits: number;
+  misses: number;
+  hitRate: number; // 0-100
+  tokensSaved: number;
+  tokensSpent: number;
+}
+
+export interface AICacheStats {
+  days: number;
+  entries: number; // cached answers the user has now
+  total: Omit<AICacheScopeStats, "scope">;
+  scopes: AICacheScopeStats[];
+}
+
+// One document per user, scope and day in COLLECTIONS.AI_CACHE_STATS
+interface CacheStatsRow {
+  userId: string;
+  scope: AICacheScope;
+  day: string; // YYYY-MM-DD, UTC
+  hits?: number;
+  misses?: number;
+  tokensSaved?: number;
+  tokensSpent?: number;
+}
+
+// Coach answers change little day to day; suggestions should follow practice within a session or two
+const TTL_MINUTES: Record<AICacheScope, number> = {
+  ask: 12 * 60,
+  suggestions: 2 * 60,
+  "genkit-suggestions": 2 * 60,
+};
+
+let indexesReady: Promise<void> | null = null;
+
+function isCacheDisabled(): boolean {
+  return process.env.AI_CACHE_DISABLED === "true";
+}
+
+function ensureAICacheIndexes(db: Db): Promise<void> {
+  indexesReady ??= (async () => {
+    const cache = db.collection(COLLECTIONS.AI_CACHE);
+    await cache.createIndex({ key: 1 }, { unique: true });
+    await cache.createIndex({ userId: 1 });
+    await cache.createIndex({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+    await db.collection(COLLECTIONS.AI_CACHE_STATS).createIndex({ userId: 1, scope: 1, day: 1 }, { unique: true });
+  })().catch(error => {
+    indexesReady = null;
+    throw error;
+  });
+  return indexesReady;
+}
+
+export function normalizePrompt(prompt: string): string {
+  return prompt
+    .normalize("NFKC")
+    .toLowerCase()
+    .replace(/\s+/g, " ")
+    .replace(/[\s.!?]+$/, "")
+    .trim();
+}
+
+// JSON with sorted object keys, so equal values always serialize the same way
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(",")}]`;
+  if (value && typeof value === "object" && !(value instanceof Date)) {
+    return `{${Object.keys(value)
+      .filter(key => (value as Record<string, unknown>)[key] !== undefined)
+      .sort()
+      .map(key => `${JSON.stringify(key)}:${stableStringify((value as Record<string, unknown>)[key])}`)
+      .join(",")}}`;
+  }
+  return JSON.stringify(value) ?? "null";
+}
+
+function sha256(text: string): string {
+  return createHash("sha256").update(text).digest("hex");
+}
+
+export function contextFingerprint(context: unknown): string {
+  return sha256(stableStringify(context ?? null));
+}
+
+export function aiCacheKey(request: AICacheRequest): string {
+  return sha256(stableStringify([
+    request.scope,
+    request.userId,
+    normalizePrompt(request.prompt),
+    contextFingerprint(request.context),
+    request.provider,
+    request.model ?? "",
+  ]));
+}
+
+function dayKey(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+async function recordCacheStats(db: Db, request: AICacheRequest, counts: Record<string, number>, now: Date) {
+  await db.collection(COLLECTIONS.AI_CACHE_STATS).updateOne(
+    { userId: request.userId, scope: request.scope, day: dayKey(now) },
+    { $inc: counts },
+    { upsert: true }
+  );
+}
+
+async function cacheDatabase(): Promise<Db | null> {
+  if (isCacheDisabled()) return null;
+  const db = await getDatabase();
+  if (db) await ensureAICacheIndexes(db);
+  return db;
+}
+
+// The cached answer for `request`, if there is an unexpired one; counts a hit or a miss
+export async function lookupAICache<T>(request: AICacheRequest): Promise<{ value: T } | undefined> {
+  try {
+    const db = await cacheDatabase();
+    if (!db) return undefined;
+
+    const now = new Date();
+    const entry = await db.collection(COLLECTIONS.AI_CACHE).findOne({ key: aiCacheKey(request), expiresAt: { $gt: now } });
+    await recordCacheStats(db, request, entry ? { hits: 1, tokensSaved: entry.tokens ?? 0 } : { misses: 1 }, now);
+    return entry ? { value: entry.value as T } : undefined;
+  } catch (error) {
+    console.error("AI cache lookup failed:", error);
+    return undefined;
+  }
+}
+
+// Cache `value` for `request`; `tokensUsed` is what producing it cost, else the value's own size is counted
+export async function storeAICache<T>(request: AICacheRequest, value: T, tokensUsed?: number): Promise<void> {
+  try {
+    const db = await cacheDatabase();
+    if (!db) return;
+
+    const key = aiCacheKey(request);
+    const now = new Date();
+    const tokens = tokensUsed || countTokens(JSON.stringify(value));
+    await db.collection(COLLECTIONS.AI_CACHE).updateOne(
+      { key },
+      {
+        $set: {
+          key,
+          userId: request.userId,
+          scope: request.scope,
+          provider: request.provider,
+          model: request.model,
+          value,
+          tokens,
+          createdAt: now,
+          expiresAt: new Date(now.getTime() + TTL_MINUTES[request.scope] * 60 * 1000),
+        },
+      },
+      { upsert: true }
+    );
+    await recordCacheStats(db, request, { tokensSpent: tokens }, now);
+  } catch (error) {
+    console.error("AI cache write failed:", error);
+  }
+}
+
+/**
+ * Answer from the cache, or run `compute` and cache its value. Values
+ * `shouldCache` rejects (failed responses, fallbacks) are returned but not
+ * stored.
+ */
+export async function withAICache<T>(
+  request: AICacheRequest,
+  compute: () => Promise<T>,
+  options: { shouldCache?: (value: T) => boolean; tokensUsed?: (value: T) => number | undefined } = {}
+): Promise<{ value: T; cached: boolean }> {
+  const hit = await lookupAICache<T>(request);
+  if (hit) {
+    return { value: hit.value, cached: true };
+  }
+
+  const value = await compute();
+  if (!options.shouldCache || options.shouldCache(value)) {
+    await storeAICache(request, value, options.tokensUsed?.(value));
+  }
+  return { value, cached: false };
+}
+
+// Drop every cached answer for the user; called when their solved or review data changes
+export async function invalidateUserAICache(db: Db | null, userId: string): Promise<void> {
+  if (!db) return;
+  try {
+    await db.collection(COLLECTIONS.AI_CACHE).deleteMany({ userId });
+  } catch (error) {
+    console.error("AI cache invalidation failed:", error);
+  }
+}
+
+function scopeStats(rows: CacheStatsRow[]) {
+  const hits = rows.reduce((sum, row) => sum + (row.hits ?? 0), 0);
+  const misses = rows.reduce((sum, row) => sum + (row.misses ?? 0), 0);
+  return {
+    hits,
+    misses,
+    hitRate: hits + misses > 0 ? Math.round((hits / (hits + misses)) * 100) : 0,
+    tokensSaved: rows.reduce((sum, row) => sum + (row.tokensSaved ?? 0), 0),
+    tokensSpent: rows.reduce((sum, row) => sum + (row.tokensSpent ?? 0), 0),
+  };
+}
+
+// Hit rate and tokens over the last `days` days, per scope and overall
+export async function loadAICacheStats(db: Db, userId: string, days: number = 30, now: Date = new Date()): Promise<AICacheStats> {
+  const since = dayKey(new Date(now.getTime() - (days - 1) * 24 * 60 * 60 * 1000));
+  const [rows, entries] = await Promise.all([
+    db.collection<CacheStatsRow>(COLLECTIONS.AI_CACHE_STATS).find({ userId, day: { $gte: since } }).toArray(),
+    db.collection(COLLECTIONS.AI_CACHE).countDocuments({ userId, expiresAt: { $gt: now } }),
+  ]);
+
+  return {
+    days,
+    entries,
+    total: scopeStats(rows),
+    scopes: AI_CACHE_SCOPES.map(scope => ({ scope, ...scopeStats(rows.filter(row => row.scope === scope)) })),
+  };
+}
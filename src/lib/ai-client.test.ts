@@ -0,0 +1,164 @@
+import { after, before, beforeEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from "node:http";
+import type { AddressInfo } from "node:net";
+import { KEYLESS, requestCompletion, requestStream, resolveConfig } from "@/lib/ai-client";
+import { AIProviderError } from "@/lib/ai-errors";
+
+/**
+ * The "local" provider against a small OpenAI-compatible server, standing
+ * in for llama.cpp or Ollama. Each test sets `reply` to decide how the
+ * server answers and reads back what the client sent.
+ */
+
+interface Received {
+  method?: string;
+  url?: string;
+  headers: IncomingMessage["headers"];
+  body: any;
+}
+
+let server: Server;
+let received: Received[] = [];
+let reply: (res: ServerResponse) => void;
+
+function json(res: ServerResponse, status: number, body: unknown) {
+  res.writeHead(status, { "Content-Type": "application/json" });
+  res.end(JSON.stringify(body));
+}
+
+async function collect(stream: AsyncGenerator<string>): Promise<string[]> {
+  const chunks: string[] = [];
+  for await (const chunk of stream) chunks.push(chunk);
+  return chunks;
+}
+
+const config = () => resolveConfig("local", 0.2);
+const messages = [{ role: "user" as const, content: "Which problem next?" }];
+
+before(async () => {
+  server = createServer(async (req, res) => {
+    let raw = "";
+    for await (const chunk of req) raw += chunk;
+    received.push({ method: req.method, url: req.url, headers: req.headers, body: raw ? JSON.parse(raw) : undefined });
+    reply(res);
+  });
+  await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+  process.env.LOCAL_AI_BASE_URL = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1/`;
+  process.env.LOCAL_AI_MODEL = "test-model";
+});
+
+after(async () => {
+  await new Promise<void>(resolve => server.close(() => resolve()));
+});
+
+beforeEach(() => {
+  received = [];
+});
+
+describe("local provider: request shape", () => {
+  it("posts an OpenAI chat completion with the system prompt first and no key", async () => {
+    reply = res => json(res, 200, { choices: [{ message: { content: "Try Two Sum" } }], usage: { total_tokens: 42 } });
+
+    const result = await requestCompletion(config(), KEYLESS, "You are a coach", messages, { json: true, maxTokens: 100 });
+
+    assert.deepEqual(result, { content: "Try Two Sum", tokensUsed: 42 });
+    assert.equal(received.length, 1);
+    const [request] = received;
+    assert.equal(request.method, "POST");
+    assert.equal(request.url, "/v1/chat/completions");
+    assert.equal(request.headers.authorization, undefined);
+    assert.equal(request.headers["content-type"], "application/json");
+    assert.deepEqual(request.body, {
+      model: "test-model",
+      messages: [{ role: "system", content: "You are a coach" }, ...messages],
+      max_tokens: 100,
+      temperature: 0.2,
+      response_format: { type: "json_object" },
+    });
+  });
+
+  it("sends a bearer token when a key is configured", async () => {
+    reply = res => json(res, 200, { choices: [{ message: { content: "ok" } }] });
+
+    await requestCompletion(config(), "local-secret", "", messages);
+
+    assert.equal(received[0].headers.authorization, "Bearer local-secret");
+    assert.deepEqual(received[0].body.messages, messages);
+    assert.equal(received[0].body.stream, undefined);
+  });
+});
+
+describe("local provider: streaming", () => {
+  it("yields each delta, across split chunks, until [DONE]", async () => {
+    reply = res => {
+      res.writeHead(200, { "Content-Type": "text/event-stream" });
+      res.write('data: {"choices":[{"delta":{"role":"assistant"}}]}\n\n');
+      res.write('data: {"choices":[{"delta":{"content":"Two "}}]}\n\ndata: {"choices":[{"del');
+      res.write('ta":{"content":"Sum"}}]}\r\n\r\n');
+      res.write("data: [DONE]\n\n");
+      res.end('data: {"choices":[{"delta":{"content":"ignored"}}]}\n\n');
+    };
+
+    const chunks = await collect(requestStream(config(), KEYLESS, "You are a coach", messages));
+
+    assert.deepEqual(chunks, ["Two ", "Sum"]);
+    assert.equal(received[0].body.stream, true);
+  });
+
+  it("throws an AIProviderError when the stream breaks off mid-event", async () => {
+    reply = res => {
+      res.writeHead(200, { "Content-Type": "text/event-stream" });
+      res.write('data: {"choices":[{"delta":{"content":"Two "}}]}\n\n');
+      res.end('data: {"choices":[{"del');
+    };
+
+    const chunks: string[] = [];
+    await assert.rejects(
+      async () => {
+        for await (const chunk of requestStream(config(), KEYLESS, "", messages)) chunks.push(chunk);
+      },
+      (error: unknown) => error instanceof AIProviderError && error.provider === "local"
+    );
+    assert.deepEqual(chunks, ["Two "]);
+  });
+});
+
+describe("local provider: errors", () => {
+  it("maps a 429 to rate_limit with the server's message", async () => {
+    reply = res => json(res, 429, { error: { message: "Too many requests" } });
+
+    await assert.rejects(requestCompletion(config(), KEYLESS, "", messages), (error: unknown) => {
+      assert.ok(error instanceof AIProviderError);
+      assert.equal(error.category, "rate_limit");
+      assert.equal(error.status, 429);
+      assert.equal(error.message, "Too many requests");
+      return true;
+    });
+  });
+
+  it("maps a 500 without a JSON body to overloaded", async () => {
+    reply = res => {
+      res.writeHead(500);
+      res.end("model crashed");
+    };
+
+    await assert.rejects(
+      collect(requestStream(config(), KEYLESS, "", messages)),
+      (error: unknown) => error instanceof AIProviderError && error.category === "overloaded" && error.status === 500
+    );
+  });
+
+  it("reports a server that isn't running as a network error", async () => {
+    const baseUrl = process.env.LOCAL_AI_BASE_URL;
+    process.env.LOCAL_AI_BASE_URL = "http://127.0.0.1:1/v1";
+    try {
+      await assert.rejects(
+        requestCompletion(config(), KEYLESS, "", messages),
+        (error: unknown) => error instanceof AIProviderError && error.category === "network"
+      );
+    } finally {
+      process.env.LOCAL_AI_BASE_URL = baseUrl;
+    }
+  });
+});
@@ -0,0 +1,394 @@
+import { AIProviderError, categorizeError, categorizeResponse, type AIErrorCategory } from "@/lib/ai-errors";
+import type { ContextBudgetReport } from "@/lib/context-budget";
+
+/**
+ * AI Provider Clients - the HTTP calls behind askAI and the coach chat
+ *
+ * Each provider takes a system prompt plus the conversation so far and
+ * either returns the whole reply (requestCompletion) or yields it as it is
+ * generated (requestStream). Streaming uses each API's server-sent
+ * events: OpenAI chat deltas, Gemini streamGenerateContent, Anthropic
+ * content_block_delta.
+ *
+ * These make one call with one key and throw AIProviderError on failure;
+ * ai-router.ts picks keys and providers and retries.
+ *
+ * "local" is any OpenAI-compatible server (llama.cpp, Ollama, vLLM) at
+ * LOCAL_AI_BASE_URL. With AI_LOCAL_ONLY set nothing else is called, so
+ * prompts with the user's notes never leave the machine.
+ */
+
+export type AIProvider = "openai" | "google" | "anthropic" | "genkit" | "local";
+
+export interface AIProviderConfig {
+  provider: AIProvider;
+  model: string;
+  maxTokens: number;
+  temperature: number;
+}
+
+export interface AIResponse {
+  success: boolean;
+  content?: string;
+  provider?: AIProvider;
+  tokensUsed?: number;
+  error?: string;
+  errorCategory?: AIErrorCategory;
+  context?: ContextBudgetReport; // how the user context was fitted to the token budget
+  cached?: boolean; // answered from the server-side AI cache (see ai-cache.ts)
+}
+
+export type ChatRole = "user" | "assistant";
+
+export interface ChatMessage {
+  role: ChatRole;
+  content: string;
+}
+
+export interface CallOptions {
+  json?: boolean; // ask for a single JSON object (response_format, responseMimeType)
+  maxTokens?: number;
+  signal?: AbortSignal;
+}
+
+// Provider configurations
+export const PROVIDER_CONFIGS: Record<AIProvider, AIProviderConfig> = {
+  openai: {
+    provider: "openai",
+    model: "gpt-4-turbo-preview",
+    maxTokens: 4096,
+    temperature: 0.7
+  },
+  google: {
+    provider: "google",
+    model: "gemini-1.5-flash",
+    maxTokens: 4096,
+    temperature: 0.7
+  },
+  anthropic: {
+    provider: "anthropic",
+    model: "claude-3-sonnet-20240229",
+    maxTokens: 4096,
+    temperature: 0.7
+  },
+  genkit: {
+    provider: "genkit",
+    model: "googleai/gemini-1.5-flash",
+    maxTokens: 4096,
+    temperature: 0.7
+  },
+  local: {
+    provider: "local",
+    model: "llama3.1",
+    maxTokens: 2048,
+    temperature: 0.7
+  }
+};
+
+// Model name overrides, e.g. LOCAL_AI_MODEL=qwen2.5:14b
+const MODEL_ENV: Record<AIProvider, string> = {
+  openai: "OPENAI_MODEL",
+  google: "GOOGLE_AI_MODEL",
+  anthropic: "ANTHROPIC_MODEL",
+  genkit: "GOOGLE_AI_MODEL",
+  local: "LOCAL_AI_MODEL",
+};
+
+export function isLocalOnly(): boolean {
+  return process.env.AI_LOCAL_ONLY === "true" || process.env.AI_LOCAL_ONLY === "1";
+}
+
+// Get active provider from environment
+export function getActiveProvider(): AIProvider {
+  if (isLocalOnly()) return "local";
+  const provider = process.env.AI_PROVIDER as AIProvider;
+  return provider && PROVIDER_CONFIGS[provider] ? provider : "genkit";
+}
+
+// Genkit prompts go straight to the Gemini API (with the Genkit keys, see ai-health.ts)
+export function resolveConfig(provider: AIProvider, temperature?: number): AIProviderConfig {
+  const config = { ...PROVIDER_CONFIGS[provider === "genkit" ? "google" : provider], provider };
+  config.model = process.env[MODEL_ENV[provider]] || config.model;
+  if (temperature !== undefined) {
+    config.temperature = temperature;
+  }
+  return config;
+}
+
+// Build system prompt for LeetCode assistance
+export function buildSystemPrompt(context: string): string {
+  return `You are an expert coding interview coach helping users master LeetCode problems.
+
+USER CONTEXT (for personalization):
+${context}
+
+GUIDELINES:
+1. Personalize recommendations based on user's progress and weak areas
+2. Suggest problems that match their current skill level
+3. Reference their past memories/notes when relevant
+4. Provide clear, actionable advice
+5. Keep responses focused and practical
+
+When suggesting problems:
+- Prioritize topics the user is weak in
+- Consider their recent activity
+- Match difficulty to their success rate`;
+}
+
+// ============ Requests ============
+
+const REQUEST_TIMEOUT_MS = Number(process.env.AI_REQUEST_TIMEOUT_MS) || 60 * 1000;
+
+// Base URLs can point at a proxy or a local mock server
+const BASE_URLS = {
+  openai: () => process.env.OPENAI_BASE_URL || "https://api.openai.com/v1",
+  google: () => process.env.GOOGLE_AI_BASE_URL || "https://generativelanguage.googleapis.com/v1beta",
+  anthropic: () => process.env.ANTHROPIC_BASE_URL || "https://api.anthropic.com/v1",
+  local: () => (process.env.LOCAL_AI_BASE_URL || "http://localhost:11434/v1").replace(/\/$/, ""),
+};
+
+// Local servers may run without a key; ai-health.ts hands out this placeholder instead
+export const KEYLESS = "keyless";
+
+const JSON_INSTRUCTION = "Respond with a single JSON object and nothing else.";
+
+interface ProviderRequest {
+  url: string;
+  headers: Record<string, string>;
+  body: Record<string, unknown>;
+}
+
+function buildRequest(
+  config: AIProviderConfig,
+  apiKey: string,
+  systemPrompt: string,
+  messages: ChatMessage[],
+  stream: boolean,
+  options: CallOptions
+): ProviderRequest {
+  const maxTokens = options.maxTokens ?? config.maxTokens;
+
+  switch (config.provider) {
+    case "openai":
+    case "local":
+      return {
+        url: `${config.provider === "local" ? BASE_URLS.local() : BASE_URLS.openai()}/chat/completions`,
+        headers: apiKey === KEYLESS ? {} : { "Authorization": `Bearer ${apiKey}` },
+        body: {
+          model: config.model,
+          messages: systemPrompt ? [{ role: "system", content: systemPrompt }, ...messages] : messages,
+          max_tokens: maxTokens,
+          temperature: config.temperature,
+          ...(options.json ? { response_format: { type: "json_object" } } : {}),
+          ...(stream ? { stream: true } : {})
+        }
+      };
+    case "google":
+    case "genkit": {
+      const method = stream ? "streamGenerateContent?alt=sse&" : "generateContent?";
+      return {
+        url: `${BASE_URLS.google()}/models/${config.model}:${method}key=${apiKey}`,
+        headers: {},
+        body: {
+          ...(systemPrompt ? { systemInstruction: { parts: [{ text: systemPrompt }] } } : {}),
+          contents: messages.map(m => ({
+            role: m.role === "assistant" ? "model" : "user",
+            parts: [{ text: m.content }]
+          })),
+          generationConfig: {
+            maxOutputTokens: maxTokens,
+            temperature: config.temperature,
+            ...(options.json ? { responseMimeType: "application/json" } : {})
+          }
+        }
+      };
+    }
+    case "anthropic":
+      return {
+        url: `${BASE_URLS.anthropic()}/messages`,
+        headers: { "x-api-key": apiKey, "anthropic-version": "2023-06-01" },
+        body: {
+          model: config.model,
+          ...(systemPrompt || options.json
+            ? { system: options.json ? `${systemPrompt}\n\n${JSON_INSTRUCTION}`.trim() : systemPrompt }
+            : {}),
+          messages,
+          max_tokens: maxTokens,
+          temperature: config.temperature,
+          ...(stream ? { stream: true } : {})
+        }
+      };
+  }
+}
+
+// POST the request; times out if the provider hasn't started answering within REQUEST_TIMEOUT_MS
+async function send(provider: AIProvider, request: ProviderRequest, signal?: AbortSignal): Promise<Response> {
+  const controller = new AbortController();
+  const timer = setTimeout(
+    () => controller.abort(new DOMException("Provider timed out", "TimeoutError")),
+    REQUEST_TIMEOUT_MS
+  );
+  signal?.addEventListener("abort", () => controller.abort(signal.reason), { once: true });
+
+  let response: Response;
+  try {
+    response = await fetch(request.url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", ...request.headers },
+      body: JSON.stringify(request.body),
+      signal: controller.signal
+    });
+  } catch (error) {
+    throw categorizeError(provider, error, signal);
+  } finally {
+    clearTimeout(timer);
+  }
+
+  if (!response.ok) {
+    const body = await response.json().catch(() => null);
+    throw categorizeResponse(provider, response.status, body, response.headers);
+  }
+  return response;
+}
+
+// Gemini answers a blocked prompt with 200 and no text
+function checkBlocked(provider: AIProvider, data: any) {
+  const candidate = data.candidates?.[0];
+  const reason = data.promptFeedback?.blockReason || (candidate?.finishReason === "SAFETY" ? "SAFETY" : undefined);
+  if (reason) {
+    throw new AIProviderError(`Response blocked (${reason})`, "content_filter", provider);
+  }
+}
+
+// ============ Single-shot ============
+
+export async function requestCompletion(
+  config: AIProviderConfig,
+  apiKey: string,
+  systemPrompt: string,
+  messages: ChatMessage[],
+  options: CallOptions = {}
+): Promise<{ content: string; tokensUsed?: number }> {
+  const request = buildRequest(config, apiKey, systemPrompt, messages, false, options);
+  const response = await send(config.provider, request, options.signal);
+  const data = await response.json().catch(error => {
+    throw categorizeError(config.provider, error, options.signal);
+  });
+
+  switch (config.provider) {
+    case "openai":
+    case "local":
+      return {
+        content: data.choices?.[0]?.message?.content || "",
+        tokensUsed: data.usage?.total_tokens
+      };
+    case "google":
+    case "genkit":
+      checkBlocked(config.provider, data);
+      return {
+        content: data.candidates?.[0]?.content?.parts?.[0]?.text || "",
+        tokensUsed: data.usageMetadata?.totalTokenCount
+      };
+    case "anthropic":
+      return {
+        content: data.content?.[0]?.text || "",
+        tokensUsed: data.usage ? data.usage.input_tokens + data.usage.output_tokens : undefined
+      };
+  }
+}
+
+// ============ Streaming ============
+
+// The `data:` payload of each server-sent event in the body
+async function* readEvents(body: ReadableStream<Uint8Array>): AsyncGenerator<string> {
+  const reader = body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = "";
+  let data: string[] = [];
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += value;
+
+      const lines = buffer.split(/\r?\n/);
+      buffer = lines.pop() ?? "";
+      for (const line of lines) {
+        if (line === "") {
+          if (data.length) yield data.join("\n");
+          data = [];
+        } else if (line.startsWith("data:")) {
+          data.push(line.slice(5).trimStart());
+        }
+      }
+    }
+    if (buffer.startsWith("data:")) data.push(buffer.slice(5).trimStart());
+    if (data.length) yield data.join("\n");
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+// The text in one streamed event, if any
+function eventText(provider: AIProvider, payload: any): string {
+  switch (provider) {
+    case "openai":
+    case "local":
+      return payload.choices?.[0]?.delta?.content || "";
+    case "google":
+    case "genkit":
+      checkBlocked(provider, payload);
+      return (payload.candidates?.[0]?.content?.parts || []).map((p: { text?: string }) => p.text || "").join("");
+    case "anthropic":
+      if (payload.type === "error") {
+        const status = payload.error?.type === "overloaded_error" ? 529 : payload.error?.type === "rate_limit_error" ? 429 : 500;
+        throw categorizeResponse(provider, status, payload);
+      }
+      return payload.type === "content_block_delta" && payload.delta?.type === "text_delta"
+        ? payload.delta.text
+        : "";
+  }
+}
+
+/**
+ * Yield the reply as the provider generates it. Throws AIProviderError when
+ * the provider rejects the request or the stream breaks off; aborting
+ * `options.signal` cancels the upstream request.
+ */
+export async function* requestStream(
+  config: AIProviderConfig,
+  apiKey: string,
+  systemPrompt: string,
+  messages: ChatMessage[],
+  options: CallOptions = {}
+): AsyncGenerator<string> {
+  const { signal } = options;
+  const response = await send(config.provider, buildRequest(config, apiKey, systemPrompt, messages, true, options), signal);
+  if (!response.body) {
+    throw new AIProviderError("Provider returned an empty stream", "unknown", config.provider);
+  }
+
+  try {
+    for await (const data of readEvents(response.body)) {
+      if (data === "[DONE]") break;
+      const text = eventText(config.provider, JSON.parse(data));
+      if (text) yield text;
+    }
+  } catch (error) {
+    throw categorizeError(config.provider, error, signal);
+  }
+}
+
+// The JSON object in a reply; local models often wrap it in a code fence or a sentence
+export function extractJson(content: string): unknown {
+  const fenced = content.match(/```(?:json)?\s*([\s\S]*?)```/);
+  const text = (fenced ? fenced[1] : content).trim();
+  try {
+    return JSON.parse(text);
+  } catch {
+    const start = text.indexOf("{");
+    const end = text.lastIndexOf("}");
+    if (start === -1 || end <= start) throw new Error("No JSON object in AI response");
+    return JSON.parse(text.slice(start, end + 1));
+  }
+}
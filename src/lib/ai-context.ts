@@ -1,10 +1,23 @@
 "use server";
 
-import { getDatabase, COLLECTIONS } from "@/lib/mongodb";
+import { getDatabase, COLLECTIONS, NOT_TRASHED } from "@/lib/mongodb";
+import { requireUser } from "@/lib/session";
+import { resolveConfig, type AIProvider } from "@/lib/ai-client";
+import { getProviderChain } from "@/lib/ai-router";
+import { coachingPolicyLines, DEFAULT_COACHING_PROFILE, loadCoachingProfile, type CoachingProfile } from "@/lib/coaching-profile";
+import {
+  contextTokenLimit,
+  describeDropped,
+  fitSections,
+  queryOverlap,
+  type ContextBudgetReport,
+  type ContextSection,
+} from "@/lib/context-budget";
 
 /**
  * AI Context Builder - Provides only relevant data to AI models
- * Uses vector search and smart filtering to minimize token usage
+ * Uses vector search and smart filtering to minimize token usage; the
+ * formatted context is fitted to a token budget (see context-budget.ts)
  */
 
 export interface AIContext {
@@ -26,14 +39,22 @@ export interface AIContext {
     topics: string[];
     solved: boolean;
   }[];
+  coaching?: CoachingProfile; // compiled into the prompt's coaching policy
   currentTopic?: string;
+  query?: string; // what the user asked, for ranking sections
+}
+
+export interface ContextFormatOptions {
+  provider?: AIProvider; // preferred provider; the budget fits every provider in its chain
+  maxTokens?: number; // overrides the per-provider budget
 }
 
 // Get compact user summary for AI context
 export async function getUserSummaryForAI(
-  userId: string = "default-user"
+  userId: string
 ): Promise<AIContext["userSummary"] | null> {
   try {
+    await requireUser(userId);
     const db = await getDatabase();
     if (!db) return null;
 
@@ -107,11 +128,12 @@ export async function getUserSummaryForAI(
 
 // Get relevant memories using keyword matching (will upgrade to vector search)
 export async function getRelevantMemories(
-  userId: string = "default-user",
+  userId: string,
   context: string,
   limit: number = 5
 ): Promise<AIContext["relevantMemories"]> {
   try {
+    await requireUser(userId);
     const db = await getDatabase();
     if (!db) return [];
 
@@ -121,7 +143,7 @@ export async function getRelevantMemories(
     if (keywords.length === 0) {
       // Return recent memories if no keywords
       const recent = await db.collection(COLLECTIONS.MEMORIES)
-        .find({ userId })
+        .find({ userId, ...NOT_TRASHED })
         .sort({ createdAt: -1 })
         .limit(limit)
         .toArray();
@@ -136,6 +158,7 @@ export async function getRelevantMemories(
     // Search memories by keywords in content or tags
     const query = {
       userId,
+      ...NOT_TRASHED,
       $or: [
         { content: { $regex: keywords.join("|"), $options: "i" } },
         { tags: { $in: keywords } }
@@ -161,7 +184,7 @@ export async function getRelevantMemories(
 
 // Get relevant problems for suggestions
 export async function getRelevantProblems(
-  userId: string = "default-user",
+  userId: string,
   options: {
     topic?: string;
     difficulty?: string;
@@ -170,6 +193,7 @@ export async function getRelevantProblems(
   } = {}
 ): Promise<AIContext["relevantProblems"]> {
   try {
+    await requireUser(userId);
     const db = await getDatabase();
     if (!db) return [];
 
@@ -219,7 +243,7 @@ export async function getRelevantProblems(
 
 // Build optimized AI context
 export async function buildAIContext(
-  userId: string = "default-user",
+  userId: string,
   options: {
     includeMemories?: boolean;
     includeProblems?: boolean;
@@ -227,8 +251,11 @@ export async function buildAIContext(
     userQuery?: string;
   } = {}
 ): Promise<AIContext> {
-  const [userSummary, memories, problems] = await Promise.all([
+  await requireUser(userId);
+
+  const [userSummary, coaching, memories, problems] = await Promise.all([
     getUserSummaryForAI(userId),
+    getDatabase().then(db => loadCoachingProfile(db, userId)),
     options.includeMemories && options.userQuery
       ? getRelevantMemories(userId, options.userQuery, 5)
       : Promise.resolve([]),
@@ -251,7 +278,9 @@ export async function buildAIContext(
     },
     relevantMemories: memories,
     relevantProblems: problems,
-    currentTopic: options.topic
+    coaching,
+    currentTopic: options.topic,
+    query: options.userQuery
   };
 }
 
@@ -280,101 +309,112 @@ function extractKeywords(text: string): string[] {
   return [...new Set([...found, ...words.map(w => w.toLowerCase())])];
 }
 
-// Format context as detailed, actionable prompt
-export function formatContextForPrompt(context: AIContext): string {
-  const lines: string[] = [];
-
-  // Detailed user analysis
-  lines.push(`🧠 CODER PROFILE ANALYSIS:`);
-  lines.push(`📊 Total Solved: ${context.userSummary.totalSolved} problems`);
-  lines.push(`   • Easy: ${context.userSummary.byDifficulty.easy} ✅ | Medium: ${context.userSummary.byDifficulty.medium} 🟡 | Hard: ${context.userSummary.byDifficulty.hard} 🔴`);
-  
-  // Skill level assessment
-  const total = context.userSummary.totalSolved;
-  let skillLevel = "Beginner (0-50 problems)";
-  if (total > 200) skillLevel = "Expert (200+ problems)";
-  else if (total > 100) skillLevel = "Advanced (100-200 problems)";
-  else if (total > 50) skillLevel = "Intermediate (50-100 problems)";
-  
-  lines.push(`🎯 Skill Level: ${skillLevel}`);
-  
-  // Difficulty preference analysis
-  const easyRate = total > 0 ? Math.round((context.userSummary.byDifficulty.easy / total) * 100) : 0;
-  const mediumRate = total > 0 ? Math.round((context.userSummary.byDifficulty.medium / total) * 100) : 0;
-  const hardRate = total > 0 ? Math.round((context.userSummary.byDifficulty.hard / total) * 100) : 0;
-  
-  lines.push(`📈 Problem Distribution: ${easyRate}% Easy, ${mediumRate}% Medium, ${hardRate}% Hard`);
-  
-  if (hardRate < 10 && total > 20) {
-    lines.push(`✅ Smart Focus: User avoids Hard problems - this is good strategy for consistent progress`);
+// Profile lines, most important first
+function profileLines(summary: AIContext["userSummary"]): string[] {
+  const total = summary.totalSolved;
+  const { easy, medium, hard } = summary.byDifficulty;
+  const share = (count: number) => total > 0 ? Math.round((count / total) * 100) : 0;
+
+  const lines = [`Solved: ${total} (Easy ${easy}, Medium ${medium}, Hard ${hard})`];
+  if (summary.weakTopics.length > 0) {
+    lines.push(`Weak topics (high-impact to practise): ${summary.weakTopics.join(", ")}`);
+  } else if (summary.strongTopics.length === 0 && total < 10) {
+    lines.push("New to practice: start with fundamentals (Arrays, Strings, basic Math)");
   }
-  if (mediumRate < 30 && total > 10) {
-    lines.push(`📈 Growth Opportunity: Low Medium problem ratio - focus on Easy→Medium progression`);
-  }
-  
-  // Strengths analysis  
-  if (context.userSummary.strongTopics.length > 0) {
-    lines.push(`💪 MASTERED AREAS: ${context.userSummary.strongTopics.join(" • ")}`);
-    lines.push(`   Strategy: Build on these for advanced patterns and interview confidence`);
-  }
-  
-  // Weakness identification
-  if (context.userSummary.weakTopics.length > 0) {
-    lines.push(`🎯 GROWTH OPPORTUNITIES: ${context.userSummary.weakTopics.join(" • ")}`);
-    lines.push(`   Strategy: These are high-impact learning areas for skill development`);
-  } else if (context.userSummary.strongTopics.length === 0 && total < 10) {
-    lines.push(`🌱 NEW CODER: Focus on fundamentals - Arrays, Strings, Basic Math`);
+  if (summary.strongTopics.length > 0) {
+    lines.push(`Strong topics (build on these): ${summary.strongTopics.join(", ")}`);
   }
 
-  // Recent activity patterns
-  if (context.userSummary.recentActivity.length > 0) {
-    lines.push(`🔄 RECENT MOMENTUM:`);
-    context.userSummary.recentActivity.forEach((activity, i) => {
-      lines.push(`   ${i + 1}. ${activity}`);
-    });
-    
-    // Pattern analysis
-    const recentEasy = context.userSummary.recentActivity.filter(a => a.includes('EASY')).length;
-    const recentHard = context.userSummary.recentActivity.filter(a => a.includes('HARD')).length;
-    
-    if (recentEasy === context.userSummary.recentActivity.length) {
-      lines.push(`   📊 Pattern: Staying in comfort zone - ready for difficulty increase`);
-    } else if (recentHard > 0) {
-      lines.push(`   📊 Pattern: Challenging themselves - maintain momentum`);
+  if (summary.recentActivity.length > 0) {
+    lines.push(`Recently solved: ${summary.recentActivity.join("; ")}`);
+    const recentEasy = summary.recentActivity.filter(a => a.includes("EASY")).length;
+    if (recentEasy === summary.recentActivity.length) {
+      lines.push("Recent problems were all Easy: ready for more Medium problems");
+    } else if (summary.recentActivity.some(a => a.includes("HARD"))) {
+      lines.push("Recently taking on harder problems: keep the momentum");
     }
   } else {
-    lines.push(`😴 INACTIVE: No recent solving activity - suggest motivating starter problems`);
+    lines.push("No recent activity: suggest motivating starter problems");
   }
 
-  // Learning insights from notes
-  if (context.relevantMemories.length > 0) {
-    lines.push(`\n📝 USER'S LEARNING NOTES:`);
-    context.relevantMemories.forEach(m => {
-      lines.push(`• [${m.type.toUpperCase()}] ${m.content}`);
-      if (m.tags.length > 0) {
-        lines.push(`  Tags: ${m.tags.join(", ")}`);
-      }
-    });
+  lines.push(`Mix: ${share(easy)}% Easy, ${share(medium)}% Medium, ${share(hard)}% Hard`);
+  if (share(medium) < 30 && total > 10) {
+    lines.push("Few Medium problems so far: focus on the Easy to Medium step");
   }
+  return lines;
+}
 
-  // Contextual problems for reference
-  if (context.relevantProblems.length > 0) {
-    lines.push(`\n🔗 RELATED PROBLEMS CONTEXT:`);
-    context.relevantProblems.forEach(p => {
-      const status = p.solved ? "✅ SOLVED" : "⏳ UNSOLVED";
-      lines.push(`• ${status}: "${p.title}" [${p.difficulty}] - Topics: ${p.topics.slice(0, 3).join(", ")}`);
-    });
-  }
+// Sort lines by how much of the query they mention; ties keep their order
+function byQuery(lines: string[], query?: string): string[] {
+  return lines
+    .map((line, index) => ({ line, index, score: queryOverlap(query, line) }))
+    .sort((a, b) => b.score - a.score || a.index - b.index)
+    .map(({ line }) => line);
+}
 
-  // Focus area reminder
-  if (context.currentTopic) {
-    lines.push(`\n🎯 CURRENT LEARNING FOCUS: ${context.currentTopic}`);
-    lines.push(`   Tailor all suggestions to deepen understanding in this area`);
-  }
+function contextSections(context: AIContext): ContextSection[] {
+  const memories = context.relevantMemories.map(m =>
+    `- [${m.type}] ${m.content}${m.tags.length > 0 ? ` (tags: ${m.tags.join(", ")})` : ""}`
+  );
+  const problems = context.relevantProblems.map(p =>
+    `- ${p.solved ? "Solved" : "Unsolved"}: ${p.title} [${p.difficulty}] ${p.topics.slice(0, 3).join(", ")}`
+  );
+
+  return [
+    { id: "profile", heading: "PROFILE", lines: profileLines(context.userSummary), relevance: 1, required: true },
+    {
+      id: "coaching",
+      heading: "COACHING POLICY (set by the user; follow it)",
+      lines: coachingPolicyLines(context.coaching ?? DEFAULT_COACHING_PROFILE),
+      relevance: 1,
+      required: true
+    },
+    {
+      id: "memories",
+      heading: "USER'S NOTES",
+      lines: byQuery(memories, context.query),
+      relevance: 0.4 + 0.6 * queryOverlap(context.query, memories.join("\n"))
+    },
+    {
+      id: "problems",
+      heading: "RELATED PROBLEMS",
+      lines: byQuery(problems, context.query ?? context.currentTopic),
+      relevance: 0.3 + 0.5 * queryOverlap(context.query, problems.join("\n")) + (context.currentTopic ? 0.2 : 0)
+    },
+    {
+      id: "focus",
+      lines: context.currentTopic ? [`CURRENT FOCUS: ${context.currentTopic}; tailor suggestions to this area`] : [],
+      relevance: 0.9
+    },
+    {
+      id: "guidance",
+      lines: ["Use this profile for specific recommendations that address the user's actual gaps, within the coaching policy."],
+      relevance: 1,
+      required: true
+    },
+  ];
+}
+
+function fitContext(context: AIContext, options: ContextFormatOptions): { text: string; report: ContextBudgetReport } {
+  const chain = getProviderChain(options.provider);
+  const limit = options.maxTokens ?? contextTokenLimit(chain);
+  const result = fitSections(contextSections(context), limit, chain[0], resolveConfig(chain[0]).model);
 
-  lines.push(`\n💡 COACHING PRIORITY: Use this detailed profile to make specific, targeted recommendations that address actual skill gaps and learning patterns.
+  if (result.report.dropped.length > 0) {
+    console.info(`AI context trimmed to ${result.report.used}/${limit} tokens, dropped: ${describeDropped(result.report)}`);
+  }
+  return result;
+}
 
-⚠️  STRICT DIFFICULTY LIMIT: NEVER suggest Hard problems. This user focuses exclusively on Easy and Medium problems for sustainable progress and confidence building.`);
+// Format context as a compact prompt section that fits the provider's token budget
+export function formatContextForPrompt(context: AIContext, options: ContextFormatOptions = {}): string {
+  return fitContext(context, options).text;
+}
 
-  return lines.join("\n");
-}
\ No newline at end of file
+// Same as formatContextForPrompt, plus which sections were trimmed to fit
+export async function formatContextWithReport(
+  context: AIContext,
+  options: ContextFormatOptions = {}
+): Promise<{ text: string; report: ContextBudgetReport }> {
+  return fitContext(context, options);
+}
@@ -0,0 +1,134 @@
+/**
+ * AI Errors - what went wrong with a provider call, in categories the
+ * router can act on
+ *
+ * - rate_limit: too many requests on this key; cool it down and rotate
+ * - quota: the key is out of quota or credit; park it for a long time
+ * - auth: the key is invalid or revoked; stop using it
+ * - overloaded / timeout / network: transient; back off and retry
+ * - bad_request / content_filter: this provider won't answer this prompt
+ * - not_configured: no usable key; aborted: the caller cancelled
+ */
+
+export type AIErrorCategory =
+  | "rate_limit"
+  | "quota"
+  | "auth"
+  | "overloaded"
+  | "timeout"
+  | "network"
+  | "bad_request"
+  | "content_filter"
+  | "not_configured"
+  | "aborted"
+  | "unknown";
+
+export class AIProviderError extends Error {
+  constructor(
+    message: string,
+    public readonly category: AIErrorCategory,
+    public readonly provider?: string,
+    public readonly status?: number,
+    public readonly retryAfterMs?: number
+  ) {
+    super(message);
+    this.name = "AIProviderError";
+  }
+}
+
+// Worth another attempt on the same provider after a pause
+export const TRANSIENT_CATEGORIES: ReadonlySet<AIErrorCategory> = new Set([
+  "overloaded",
+  "timeout",
+  "network",
+  "unknown",
+]);
+
+// Tied to the key that was used; another key may work
+export const KEY_CATEGORIES: ReadonlySet<AIErrorCategory> = new Set(["rate_limit", "quota", "auth"]);
+
+const QUOTA_PATTERN = /insufficient_quota|exceeded your current quota|billing|credit balance|per.?day|daily limit/i;
+const AUTH_PATTERN = /api key not valid|invalid api key|incorrect api key|invalid x-api-key|api_key_invalid|permission denied/i;
+const CONTENT_PATTERN = /content_filter|content_policy|safety|blocked/i;
+
+// Seconds or an HTTP date in Retry-After; Gemini puts "30s" in the error details instead
+function retryAfter(headers: Headers | undefined, body: any): number | undefined {
+  const header = headers?.get("retry-after");
+  if (header) {
+    const seconds = Number(header);
+    if (!isNaN(seconds)) return seconds * 1000;
+    const date = Date.parse(header);
+    if (!isNaN(date)) return Math.max(0, date - Date.now());
+  }
+
+  const details: any[] = body?.error?.details ?? [];
+  const delay = details.find(d => typeof d?.retryDelay === "string")?.retryDelay;
+  const match = typeof delay === "string" ? delay.match(/^([\d.]+)s$/) : null;
+  return match ? Number(match[1]) * 1000 : undefined;
+}
+
+// Turn a non-2xx provider response into a categorized error
+export function categorizeResponse(
+  provider: string,
+  status: number,
+  body: any,
+  headers?: Headers
+): AIProviderError {
+  const message: string = body?.error?.message || body?.message || `HTTP ${status}`;
+  const code = [body?.error?.code, body?.error?.type, body?.error?.status].filter(Boolean).join(" ");
+  const text = `${code} ${message}`;
+
+  let category: AIErrorCategory;
+  if (status === 401 || status === 403 || AUTH_PATTERN.test(text)) {
+    category = "auth";
+  } else if (QUOTA_PATTERN.test(text) && (status === 429 || status === 400 || status === 402)) {
+    category = "quota";
+  } else if (status === 429) {
+    category = "rate_limit";
+  } else if (status === 408 || status === 504) {
+    category = "timeout";
+  } else if (status >= 500) {
+    category = "overloaded"; // includes Anthropic's 529
+  } else if (CONTENT_PATTERN.test(text)) {
+    category = "content_filter";
+  } else if (status >= 400) {
+    category = "bad_request";
+  } else {
+    category = "unknown";
+  }
+
+  return new AIProviderError(message, category, provider, status, retryAfter(headers, body));
+}
+
+// Categorize anything thrown while calling a provider (fetch failures, aborts, SDK errors)
+export function categorizeError(provider: string, error: unknown, signal?: AbortSignal): AIProviderError {
+  if (error instanceof AIProviderError) return error;
+
+  const err = error as { name?: string; message?: string; status?: number | string; code?: string };
+  const message = err?.message || String(error);
+
+  if (signal?.aborted) {
+    return new AIProviderError("Request cancelled", "aborted", provider);
+  }
+  if (err?.name === "TimeoutError" || err?.name === "AbortError") {
+    return new AIProviderError("Provider timed out", "timeout", provider);
+  }
+  if (err?.name === "TypeError" && /fetch failed|network|ECONNREFUSED|ENOTFOUND|ECONNRESET/i.test(`${message} ${(err as any).cause?.code ?? ""}`)) {
+    return new AIProviderError(message, "network", provider);
+  }
+
+  // Genkit and other SDKs: a numeric status, a gRPC-style status, or only the message
+  const status = typeof err?.status === "number" ? err.status
+    : err?.status === "RESOURCE_EXHAUSTED" || /\b429\b|rate limit/i.test(message) ? 429
+    : err?.status === "UNAUTHENTICATED" || err?.status === "PERMISSION_DENIED" ? 401
+    : err?.status === "UNAVAILABLE" ? 503
+    : undefined;
+  if (status) {
+    return categorizeResponse(provider, status, { error: { message, status: err?.status } });
+  }
+  if (AUTH_PATTERN.test(message)) {
+    return new AIProviderError(message, "auth", provider);
+  }
+
+  return new AIProviderError(message, "unknown", provider);
+}
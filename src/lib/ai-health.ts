@@ -0,0 +1,204 @@
+import { KEYLESS, isLocalOnly, type AIProvider } from "@/lib/ai-client";
+import type { AIErrorCategory, AIProviderError } from "@/lib/ai-errors";
+
+/**
+ * AI Health - API key rotation and circuit breaking per provider
+ *
+ * Every provider can have several keys (comma-separated in its env var);
+ * a local server without one gets the KEYLESS placeholder once configured.
+ * Keys are handed out round-robin, skipping keys that are cooling down
+ * after an error: a rate limit parks the key for Retry-After or an
+ * exponential backoff, a quota error for QUOTA_COOLDOWN_MS, a rejected key
+ * for AUTH_COOLDOWN_MS.
+ *
+ * The provider's circuit opens when all of its keys are parked or after
+ * CIRCUIT_THRESHOLD transient failures in a row; the router skips open
+ * providers until the circuit half-opens, and the next success closes it.
+ * State is per server process, like the key index in genkit.ts.
+ */
+
+const BACKOFF_BASE_MS = 1000;
+const BACKOFF_MAX_MS = 60 * 1000;
+const QUOTA_COOLDOWN_MS = 60 * 60 * 1000;
+const AUTH_COOLDOWN_MS = 24 * 60 * 60 * 1000;
+const CIRCUIT_THRESHOLD = 3;
+const CIRCUIT_BASE_MS = 30 * 1000;
+const CIRCUIT_MAX_MS = 10 * 60 * 1000;
+
+// Env vars holding each provider's keys, first non-empty wins; the Genkit list matches genkit.ts
+const KEY_ENV: Record<AIProvider, string[]> = {
+  openai: ["OPENAI_API_KEYS", "OPENAI_API_KEY"],
+  google: ["GOOGLE_AI_API_KEYS", "GOOGLE_AI_API_KEY"],
+  anthropic: ["ANTHROPIC_API_KEYS", "ANTHROPIC_API_KEY"],
+  genkit: ["GEMINI_API_KEYS", "GEMINI_API_KEY", "GOOGLE_GENKIT_API_KEY", "GOOGLE_API_KEY", "GOOGLE_GENAI_API_KEY"],
+  local: ["LOCAL_AI_API_KEYS", "LOCAL_AI_API_KEY"],
+};
+
+// The local provider counts as configured once a server or the provider itself is chosen
+function localConfigured(): boolean {
+  return !!process.env.LOCAL_AI_BASE_URL || process.env.AI_PROVIDER === "local" || isLocalOnly();
+}
+
+export type CircuitState = "closed" | "open" | "half-open";
+
+interface KeyState {
+  coolUntil: number;
+  failures: number;
+  lastError?: string;
+}
+
+interface ProviderState {
+  next: number;
+  failures: number; // transient failures in a row
+  openUntil: number;
+  opened: number; // times opened in a row, for the circuit backoff
+  lastError?: string;
+  lastCategory?: AIErrorCategory;
+}
+
+export interface ProviderHealth {
+  provider: AIProvider;
+  keys: number;
+  availableKeys: number;
+  circuit: CircuitState;
+  retryAt?: Date;
+  lastError?: string;
+  lastCategory?: AIErrorCategory;
+}
+
+const keyStates = new Map<string, KeyState>();
+const providerStates = new Map<AIProvider, ProviderState>();
+
+export function getProviderKeys(provider: AIProvider): string[] {
+  for (const name of KEY_ENV[provider]) {
+    const keys = (process.env[name] || "").split(",").map(key => key.trim()).filter(Boolean);
+    if (keys.length > 0) return keys;
+  }
+  return provider === "local" && localConfigured() ? [KEYLESS] : [];
+}
+
+function providerState(provider: AIProvider): ProviderState {
+  let state = providerStates.get(provider);
+  if (!state) {
+    state = { next: 0, failures: 0, openUntil: 0, opened: 0 };
+    providerStates.set(provider, state);
+  }
+  return state;
+}
+
+function keyState(provider: AIProvider, key: string): KeyState {
+  const id = `${provider}:${key}`;
+  let state = keyStates.get(id);
+  if (!state) {
+    state = { coolUntil: 0, failures: 0 };
+    keyStates.set(id, state);
+  }
+  return state;
+}
+
+// Exponential backoff with jitter: base * 2^(attempt-1), capped
+export function backoffDelay(attempt: number, base = BACKOFF_BASE_MS, max = BACKOFF_MAX_MS): number {
+  const delay = Math.min(max, base * 2 ** Math.max(0, attempt - 1));
+  return Math.round(delay * (0.75 + Math.random() * 0.5));
+}
+
+export function circuitState(provider: AIProvider, now = Date.now()): CircuitState {
+  const { openUntil } = providerState(provider);
+  if (openUntil === 0) return "closed";
+  return now < openUntil ? "open" : "half-open";
+}
+
+function openCircuit(provider: AIProvider, until: number, reason: string) {
+  const state = providerState(provider);
+  state.openUntil = Math.max(state.openUntil, until);
+  state.opened++;
+  state.failures = 0;
+  state.lastError = reason;
+  console.warn(`AI provider ${provider} unavailable until ${new Date(state.openUntil).toISOString()}: ${reason}`);
+}
+
+// The next key that isn't cooling down, or null when the provider can't take a request
+export function pickKey(provider: AIProvider, now = Date.now()): string | null {
+  if (circuitState(provider, now) === "open") return null;
+
+  const keys = getProviderKeys(provider);
+  const state = providerState(provider);
+  for (let i = 0; i < keys.length; i++) {
+    const index = (state.next + i) % keys.length;
+    if (keyState(provider, keys[index]).coolUntil <= now) {
+      state.next = (index + 1) % keys.length;
+      return keys[index];
+    }
+  }
+  return null;
+}
+
+export function reportSuccess(provider: AIProvider, key: string) {
+  const state = providerState(provider);
+  state.failures = 0;
+  state.openUntil = 0;
+  state.opened = 0;
+  state.lastError = undefined;
+  state.lastCategory = undefined;
+
+  const k = keyState(provider, key);
+  k.failures = 0;
+  k.coolUntil = 0;
+}
+
+/**
+ * Record a failed call. Key errors park the key; transient errors count
+ * towards opening the circuit. Returns how long to wait before retrying
+ * this provider.
+ */
+export function reportFailure(provider: AIProvider, key: string | null, error: AIProviderError, now = Date.now()): number {
+  const state = providerState(provider);
+  state.lastError = `${error.category}: ${error.message}`;
+  state.lastCategory = error.category;
+
+  if (key && (error.category === "rate_limit" || error.category === "quota" || error.category === "auth")) {
+    const k = keyState(provider, key);
+    k.failures++;
+    k.lastError = state.lastError;
+    k.coolUntil = now + (
+      error.category === "rate_limit" ? Math.max(BACKOFF_BASE_MS, error.retryAfterMs ?? backoffDelay(k.failures))
+      : error.category === "quota" ? Math.max(error.retryAfterMs ?? 0, QUOTA_COOLDOWN_MS)
+      : AUTH_COOLDOWN_MS
+    );
+
+    // Every key parked: the provider is out until the first one comes back
+    const keys = getProviderKeys(provider);
+    const coolUntil = Math.min(...keys.map(other => keyState(provider, other).coolUntil));
+    if (coolUntil > now) {
+      openCircuit(provider, coolUntil, state.lastError);
+    }
+    return 0;
+  }
+
+  state.failures++;
+  if (state.failures >= CIRCUIT_THRESHOLD || circuitState(provider, now) === "half-open") {
+    openCircuit(provider, now + backoffDelay(state.opened + 1, CIRCUIT_BASE_MS, CIRCUIT_MAX_MS), state.lastError);
+  }
+  return error.retryAfterMs ?? backoffDelay(state.failures);
+}
+
+export function getProviderHealth(provider: AIProvider, now = Date.now()): ProviderHealth {
+  const keys = getProviderKeys(provider);
+  const state = providerState(provider);
+  const circuit = circuitState(provider, now);
+  return {
+    provider,
+    keys: keys.length,
+    availableKeys: keys.filter(key => keyState(provider, key).coolUntil <= now).length,
+    circuit,
+    retryAt: circuit === "open" ? new Date(state.openUntil) : undefined,
+    lastError: state.lastError,
+    lastCategory: state.lastCategory,
+  };
+}
+
+// Forget every cooldown and circuit, so each test starts from a healthy provider
+export function resetProviderHealth() {
+  keyStates.clear();
+  providerStates.clear();
+}
@@ -1,7 +1,12 @@
 "use server";
 
-import { buildAIContext, formatContextForPrompt } from "@/lib/ai-context";
+import { buildAIContext, formatContextWithReport } from "@/lib/ai-context";
 import { searchMemoriesSemantic, findSimilarProblems } from "@/lib/vector-search";
+import { requireUser } from "@/lib/session";
+import { buildSystemPrompt, resolveConfig, type AIProvider, type AIResponse } from "@/lib/ai-client";
+import { completeWithFallback, getProviderChain } from "@/lib/ai-router";
+import { getProviderHealth, type CircuitState } from "@/lib/ai-health";
+import { withAICache } from "@/lib/ai-cache";
 
 /**
  * Multi-Provider AI Interface
@@ -11,215 +16,27 @@ import { searchMemoriesSemantic, findSimilarProblems } from "@/lib/vector-search
  * - Google (Gemini Pro, Gemini Flash)
  * - Anthropic (Claude)
  * - Genkit (for structured flows)
+ * - Local OpenAI-compatible servers (llama.cpp, Ollama, vLLM)
  * 
  * Features:
  * - Automatic context optimization (only sends relevant data)
  * - Provider-agnostic interface
  * - Token budget management
- * - Response caching
+ * - Response caching (server-side, see ai-cache.ts)
+ *
+ * Provider HTTP calls live in ai-client.ts; requests go down the fallback
+ * chain in ai-router.ts. Streamed multi-turn chat goes through
+ * /api/ai/chat (see coach-actions.ts for saved threads).
  */
 
-export type AIProvider = "openai" | "google" | "anthropic" | "genkit";
-
-export interface AIProviderConfig {
-  provider: AIProvider;
-  model: string;
-  maxTokens: number;
-  temperature: number;
-}
-
 export interface AIRequestOptions {
   provider?: AIProvider;
-  maxContextTokens?: number;
+  maxContextTokens?: number; // defaults to the smallest budget in the provider chain (see context-budget.ts)
   includeMemories?: boolean;
   includeProblems?: boolean;
   includeProgress?: boolean;
   temperature?: number;
-}
-
-export interface AIResponse {
-  success: boolean;
-  content?: string;
-  provider?: AIProvider;
-  tokensUsed?: number;
-  error?: string;
-}
-
-// Provider configurations
-const PROVIDER_CONFIGS: Record<AIProvider, AIProviderConfig> = {
-  openai: {
-    provider: "openai",
-    model: "gpt-4-turbo-preview",
-    maxTokens: 4096,
-    temperature: 0.7
-  },
-  google: {
-    provider: "google",
-    model: "gemini-1.5-flash",
-    maxTokens: 4096,
-    temperature: 0.7
-  },
-  anthropic: {
-    provider: "anthropic",
-    model: "claude-3-sonnet-20240229",
-    maxTokens: 4096,
-    temperature: 0.7
-  },
-  genkit: {
-    provider: "genkit",
-    model: "googleai/gemini-1.5-flash",
-    maxTokens: 4096,
-    temperature: 0.7
-  }
-};
-
-// Get active provider from environment
-function getActiveProvider(): AIProvider {
-  const provider = process.env.AI_PROVIDER as AIProvider;
-  return provider && PROVIDER_CONFIGS[provider] ? provider : "genkit";
-}
-
-// Build system prompt for LeetCode assistance
-export function buildSystemPrompt(context: string): string {
-  return `You are an expert coding interview coach helping users master LeetCode problems.
-
-USER CONTEXT (for personalization):
-${context}
-
-GUIDELINES:
-1. Personalize recommendations based on user's progress and weak areas
-2. Suggest problems that match their current skill level
-3. Reference their past memories/notes when relevant
-4. Provide clear, actionable advice
-5. Keep responses focused and practical
-
-When suggesting problems:
-- Prioritize topics the user is weak in
-- Consider their recent activity
-- Match difficulty to their success rate`;
-}
-
-// Call OpenAI API
-async function callOpenAI(prompt: string, systemPrompt: string, config: AIProviderConfig): Promise<AIResponse> {
-  const apiKey = process.env.OPENAI_API_KEY;
-  if (!apiKey) {
-    return { success: false, error: "OPENAI_API_KEY not configured" };
-  }
-
-  try {
-    const response = await fetch("https://api.openai.com/v1/chat/completions", {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-        "Authorization": `Bearer ${apiKey}`
-      },
-      body: JSON.stringify({
-        model: config.model,
-        messages: [
-          { role: "system", content: systemPrompt },
-          { role: "user", content: prompt }
-        ],
-        max_tokens: config.maxTokens,
-        temperature: config.temperature
-      })
-    });
-
-    if (!response.ok) {
-      const error = await response.json();
-      return { success: false, error: error.error?.message || response.statusText };
-    }
-
-    const data = await response.json();
-    return {
-      success: true,
-      content: data.choices[0]?.message?.content || "",
-      provider: "openai",
-      tokensUsed: data.usage?.total_tokens
-    };
-  } catch (error: any) {
-    return { success: false, error: error.message };
-  }
-}
-
-// Call Google Gemini API
-async function callGoogle(prompt: string, systemPrompt: string, config: AIProviderConfig): Promise<AIResponse> {
-  const apiKey = process.env.GOOGLE_AI_API_KEY;
-  if (!apiKey) {
-    return { success: false, error: "GOOGLE_AI_API_KEY not configured" };
-  }
-
-  try {
-    const response = await fetch(
-      `https://generativelanguage.googleapis.com/v1beta/models/${config.model}:generateContent?key=${apiKey}`,
-      {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({
-          contents: [{
-            parts: [{ text: `${systemPrompt}\n\nUser: ${prompt}` }]
-          }],
-          generationConfig: {
-            maxOutputTokens: config.maxTokens,
-            temperature: config.temperature
-          }
-        })
-      }
-    );
-
-    if (!response.ok) {
-      const error = await response.json();
-      return { success: false, error: error.error?.message || response.statusText };
-    }
-
-    const data = await response.json();
-    return {
-      success: true,
-      content: data.candidates?.[0]?.content?.parts?.[0]?.text || "",
-      provider: "google"
-    };
-  } catch (error: any) {
-    return { success: false, error: error.message };
-  }
-}
-
-// Call Anthropic Claude API
-async function callAnthropic(prompt: string, systemPrompt: string, config: AIProviderConfig): Promise<AIResponse> {
-  const apiKey = process.env.ANTHROPIC_API_KEY;
-  if (!apiKey) {
-    return { success: false, error: "ANTHROPIC_API_KEY not configured" };
-  }
-
-  try {
-    const response = await fetch("https://api.anthropic.com/v1/messages", {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-        "x-api-key": apiKey,
-        "anthropic-version": "2023-06-01"
-      },
-      body: JSON.stringify({
-        model: config.model,
-        system: systemPrompt,
-        messages: [{ role: "user", content: prompt }],
-        max_tokens: config.maxTokens
-      })
-    });
-
-    if (!response.ok) {
-      const error = await response.json();
-      return { success: false, error: error.error?.message || response.statusText };
-    }
-
-    const data = await response.json();
-    return {
-      success: true,
-      content: data.content?.[0]?.text || "",
-      provider: "anthropic",
-      tokensUsed: data.usage?.input_tokens + data.usage?.output_tokens
-    };
-  } catch (error: any) {
-    return { success: false, error: error.message };
-  }
+  skipCache?: boolean; // ask the provider even if a cached answer exists, and don't store this one
 }
 
 // Main AI request function - works with any provider
@@ -229,12 +46,7 @@ export async function askAI(
   options: AIRequestOptions = {}
 ): Promise<AIResponse> {
   try {
-    const provider = options.provider || getActiveProvider();
-    const config = { ...PROVIDER_CONFIGS[provider] };
-    
-    if (options.temperature !== undefined) {
-      config.temperature = options.temperature;
-    }
+    await requireUser(userId);
 
     // Build optimized context - only includes relevant data
     const contextOptions = {
@@ -244,27 +56,42 @@ export async function askAI(
     };
 
     const context = await buildAIContext(userId, contextOptions);
-    const contextStr = formatContextForPrompt(context);
+    const { text: contextStr, report } = await formatContextWithReport(context, {
+      provider: options.provider,
+      maxTokens: options.maxContextTokens
+    });
     const systemPrompt = buildSystemPrompt(contextStr);
 
-    // For Genkit, use the existing flow
-    if (provider === "genkit") {
-      // Use direct Google API call for Genkit compatibility
-      // Note: Genkit flows are structured differently, use direct API calls for custom prompts
-      return await callGoogle(prompt, systemPrompt, PROVIDER_CONFIGS.google);
+    // Same question, same context and same provider: reuse the earlier answer.
+    // Lookups are keyed on the first provider, so only its answers are stored
+    const provider = getProviderChain(options.provider)[0];
+    const ask = async (): Promise<AIResponse> => {
+      const response = await completeWithFallback(systemPrompt, [{ role: "user", content: prompt }], {
+        provider: options.provider,
+        temperature: options.temperature
+      });
+      return { ...response, context: report };
+    };
+    if (options.skipCache) {
+      return await ask();
     }
 
-    // Call the appropriate provider
-    switch (provider) {
-      case "openai":
-        return await callOpenAI(prompt, systemPrompt, config);
-      case "google":
-        return await callGoogle(prompt, systemPrompt, config);
-      case "anthropic":
-        return await callAnthropic(prompt, systemPrompt, config);
-      default:
-        return { success: false, error: `Unknown provider: ${provider}` };
-    }
+    const { value, cached } = await withAICache(
+      {
+        scope: "ask",
+        userId,
+        prompt,
+        context: { systemPrompt, temperature: options.temperature },
+        provider,
+        model: resolveConfig(provider).model
+      },
+      ask,
+      {
+        shouldCache: response => response.success && response.provider === provider,
+        tokensUsed: response => response.tokensUsed
+      }
+    );
+    return { ...value, cached };
   } catch (error: any) {
     return { success: false, error: error.message };
   }
@@ -316,7 +143,7 @@ export async function helpWithProblemAI(
   specificQuestion?: string
 ): Promise<AIResponse> {
   // Find similar problems for context
-  const similar = await findSimilarProblems(problemSlug, 3);
+  const similar = await findSimilarProblems(problemSlug, 3, userId);
   const similarContext = similar.success && similar.problems
     ? `\nSimilar problems you might know: ${similar.problems.map(p => p.title).join(", ")}`
     : "";
@@ -362,16 +189,27 @@ Base this on my learning history and current skill level.`;
   });
 }
 
-// Get available providers (for UI selection)
+// Get available providers (for UI selection), in fallback order first
 export async function getAvailableProviders(): Promise<{
   provider: AIProvider;
   name: string;
   available: boolean;
+  circuit: CircuitState;
+  inChain: boolean;
 }[]> {
-  return [
-    { provider: "openai", name: "OpenAI GPT-4", available: !!process.env.OPENAI_API_KEY },
-    { provider: "google", name: "Google Gemini", available: !!process.env.GOOGLE_AI_API_KEY },
-    { provider: "anthropic", name: "Anthropic Claude", available: !!process.env.ANTHROPIC_API_KEY },
-    { provider: "genkit", name: "Genkit (Default)", available: !!process.env.GOOGLE_GENAI_API_KEY }
+  const chain = getProviderChain();
+  const providers: { provider: AIProvider; name: string }[] = [
+    { provider: "openai", name: "OpenAI GPT-4" },
+    { provider: "google", name: "Google Gemini" },
+    { provider: "anthropic", name: "Anthropic Claude" },
+    { provider: "genkit", name: "Genkit (Default)" },
+    { provider: "local", name: `Local model (${resolveConfig("local").model})` }
   ];
+
+  return providers
+    .map(({ provider, name }) => {
+      const health = getProviderHealth(provider);
+      return { provider, name, available: health.keys > 0, circuit: health.circuit, inChain: chain.includes(provider) };
+    })
+    .sort((a, b) => (chain.indexOf(a.provider) + 1 || 99) - (chain.indexOf(b.provider) + 1 || 99));
 }
\ No newline at end of file
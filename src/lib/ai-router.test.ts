@@ -0,0 +1,204 @@
+import { after, before, beforeEach, describe, it, mock, type TestContext } from "node:test";
+import assert from "node:assert/strict";
+import { createServer, type Server, type ServerResponse } from "node:http";
+import type { AddressInfo } from "node:net";
+import { AIProviderError } from "@/lib/ai-errors";
+import { getProviderHealth, resetProviderHealth } from "@/lib/ai-health";
+import { completeWithFallback, openStreamWithFallback } from "@/lib/ai-router";
+
+/**
+ * The fallback chain "openai,local" against one in-process server that
+ * answers for both providers. Each test sets `reply` per provider and reads
+ * back which provider and key every request went to.
+ */
+
+type Provider = "openai" | "local";
+
+interface Received {
+  provider: Provider;
+  key?: string;
+}
+
+let server: Server;
+let received: Received[] = [];
+let reply: Record<Provider, (res: ServerResponse) => void>;
+
+function json(res: ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}) {
+  res.writeHead(status, { "Content-Type": "application/json", ...headers });
+  res.end(JSON.stringify(body));
+}
+
+const answer = (content: string) => (res: ServerResponse) =>
+  json(res, 200, { choices: [{ message: { content } }] });
+
+// Retry-After: 0 keeps the router from sleeping between attempts
+const overloaded = (res: ServerResponse) =>
+  json(res, 503, { error: { message: "Overloaded" } }, { "Retry-After": "0" });
+
+const rateLimited = (res: ServerResponse) =>
+  json(res, 429, { error: { message: "Too many requests" } }, { "Retry-After": "30" });
+
+function sse(res: ServerResponse, events: string[], ending = "data: [DONE]\n\n") {
+  res.writeHead(200, { "Content-Type": "text/event-stream" });
+  for (const event of events) res.write(`data: ${JSON.stringify({ choices: [{ delta: { content: event } }] })}\n\n`);
+  res.end(ending);
+}
+
+async function collect(stream: AsyncGenerator<string>): Promise<string[]> {
+  const chunks: string[] = [];
+  for await (const chunk of stream) chunks.push(chunk);
+  return chunks;
+}
+
+// Moves Date.now, which the health checks read, forward by `advance` calls
+const realNow = Date.now.bind(Date);
+function clock(t: TestContext) {
+  let offset = 0;
+  t.mock.method(Date, "now", () => realNow() + offset);
+  return { advance: (ms: number) => { offset += ms; } };
+}
+
+const messages = [{ role: "user" as const, content: "Which problem next?" }];
+const requestsTo = (provider: Provider) => received.filter(request => request.provider === provider);
+
+before(async () => {
+  server = createServer(async (req, res) => {
+    for await (const _ of req); // drain the body
+    const provider: Provider = req.url!.startsWith("/openai/") ? "openai" : "local";
+    received.push({ provider, key: req.headers.authorization?.replace(/^Bearer /, "") });
+    reply[provider](res);
+  });
+  await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+  const base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  process.env.OPENAI_BASE_URL = `${base}/openai/v1`;
+  process.env.LOCAL_AI_BASE_URL = `${base}/local/v1`;
+  process.env.AI_PROVIDER_CHAIN = "openai,local";
+  mock.method(console, "warn", () => {});
+});
+
+after(async () => {
+  await new Promise<void>(resolve => server.close(() => resolve()));
+});
+
+beforeEach(() => {
+  resetProviderHealth();
+  received = [];
+  process.env.OPENAI_API_KEYS = "sk-one";
+  reply = { openai: answer("from openai"), local: answer("from local") };
+});
+
+describe("router: completions", () => {
+  it("answers from the first provider in the chain", async () => {
+    const result = await completeWithFallback("", messages);
+
+    assert.equal(result.success, true);
+    assert.equal(result.provider, "openai");
+    assert.equal(result.content, "from openai");
+    assert.deepEqual(received, [{ provider: "openai", key: "sk-one" }]);
+  });
+
+  it("falls back when the primary's only key is rate limited", async () => {
+    reply.openai = rateLimited;
+
+    const result = await completeWithFallback("", messages);
+
+    assert.equal(result.provider, "local");
+    assert.equal(result.content, "from local");
+    assert.deepEqual(received.map(request => request.provider), ["openai", "local"]);
+    const health = getProviderHealth("openai");
+    assert.equal(health.availableKeys, 0);
+    assert.equal(health.circuit, "open");
+    assert.equal(health.lastCategory, "rate_limit");
+  });
+
+  it("cools a rate-limited key down and rotates to the next until it's back", async t => {
+    process.env.OPENAI_API_KEYS = "sk-one,sk-two";
+    const time = clock(t);
+    reply.openai = res => (received.length === 1 ? rateLimited(res) : answer("from openai")(res));
+
+    const first = await completeWithFallback("", messages);
+    const second = await completeWithFallback("", messages);
+    assert.equal(first.provider, "openai");
+    assert.equal(second.provider, "openai");
+    assert.deepEqual(received.map(request => request.key), ["sk-one", "sk-two", "sk-two"]);
+    assert.equal(getProviderHealth("openai").availableKeys, 1);
+
+    time.advance(31 * 1000); // past Retry-After
+    await completeWithFallback("", messages);
+
+    assert.equal(received[received.length - 1].key, "sk-one");
+    assert.equal(getProviderHealth("openai").availableKeys, 2);
+  });
+
+  it("reports the last error when every provider fails", async () => {
+    reply.openai = res => json(res, 400, { error: { message: "Bad model" } });
+    reply.local = res => json(res, 400, { error: { message: "Unknown model" } });
+
+    const result = await completeWithFallback("", messages);
+
+    assert.equal(result.success, false);
+    assert.equal(result.errorCategory, "bad_request");
+    assert.equal(result.error, "Unknown model");
+  });
+});
+
+describe("router: circuit breaker", () => {
+  it("opens after repeated transient failures, half-opens, and closes on success", async t => {
+    const time = clock(t);
+    reply.openai = overloaded;
+
+    await completeWithFallback("", messages); // two failed attempts, then local
+    await completeWithFallback("", messages); // the third failure opens the circuit
+    assert.equal(requestsTo("openai").length, 3);
+    assert.equal(getProviderHealth("openai").circuit, "open");
+
+    const skipped = await completeWithFallback("", messages);
+    assert.equal(skipped.provider, "local");
+    assert.equal(requestsTo("openai").length, 3);
+
+    // Half-open lets one request through; a failure opens the circuit again at once
+    time.advance(60 * 60 * 1000);
+    assert.equal(getProviderHealth("openai").circuit, "half-open");
+    await completeWithFallback("", messages);
+    assert.equal(requestsTo("openai").length, 4);
+    assert.equal(getProviderHealth("openai").circuit, "open");
+
+    time.advance(60 * 60 * 1000);
+    reply.openai = answer("from openai");
+    const recovered = await completeWithFallback("", messages);
+
+    assert.equal(recovered.provider, "openai");
+    assert.equal(getProviderHealth("openai").circuit, "closed");
+  });
+});
+
+describe("router: streams", () => {
+  it("falls back when a stream breaks off before its first token", async () => {
+    reply.openai = res => sse(res, [], 'data: {"choices":[{"del');
+    reply.local = res => sse(res, ["Two ", "Sum"]);
+
+    const { provider, tokens } = await openStreamWithFallback("", messages);
+
+    assert.equal(provider, "local");
+    assert.deepEqual(await collect(tokens), ["Two ", "Sum"]);
+    assert.deepEqual(received.map(request => request.provider), ["openai", "openai", "local"]);
+  });
+
+  it("keeps the provider once a token has arrived and throws later errors", async () => {
+    reply.openai = res => sse(res, ["Two "], 'data: {"choices":[{"del');
+
+    const { provider, tokens } = await openStreamWithFallback("", messages);
+    assert.equal(provider, "openai");
+
+    const chunks: string[] = [];
+    await assert.rejects(
+      async () => {
+        for await (const chunk of tokens) chunks.push(chunk);
+      },
+      (error: unknown) => error instanceof AIProviderError && error.provider === "openai"
+    );
+    assert.deepEqual(chunks, ["Two "]);
+    assert.equal(requestsTo("local").length, 0);
+    assert.equal(getProviderHealth("openai").lastCategory, "unknown");
+  });
+});
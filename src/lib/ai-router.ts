@@ -0,0 +1,160 @@
+import { AIProviderError, KEY_CATEGORIES, TRANSIENT_CATEGORIES, categorizeError } from "@/lib/ai-errors";
+import { getProviderHealth, pickKey, reportFailure, reportSuccess } from "@/lib/ai-health";
+import {
+  PROVIDER_CONFIGS,
+  getActiveProvider,
+  isLocalOnly,
+  requestCompletion,
+  requestStream,
+  resolveConfig,
+  type AIProvider,
+  type AIProviderConfig,
+  type AIResponse,
+  type CallOptions,
+  type ChatMessage,
+} from "@/lib/ai-client";
+
+/**
+ * AI Router - sends a request down the provider fallback chain
+ *
+ * The chain comes from AI_PROVIDER_CHAIN (e.g. "anthropic,openai,google"),
+ * or else AI_PROVIDER followed by every other provider with a key. Each
+ * provider is tried with its usable keys (see ai-health.ts): key errors
+ * rotate to the next key, transient errors are retried after a backoff up
+ * to MAX_ATTEMPTS times, anything else moves on to the next provider.
+ * Streams can only fall back until their first token arrives.
+ * AI_LOCAL_ONLY shrinks the chain to the local provider.
+ */
+
+const MAX_ATTEMPTS = 2;
+const MAX_WAIT_MS = 10 * 1000; // longer backoffs move on to the next provider instead
+
+export interface RouteOptions extends CallOptions {
+  provider?: AIProvider; // tried first, ahead of the chain
+  temperature?: number;
+}
+
+export function getProviderChain(preferred?: AIProvider): AIProvider[] {
+  if (isLocalOnly()) return ["local"];
+
+  const all = Object.keys(PROVIDER_CONFIGS) as AIProvider[];
+  const configured = (process.env.AI_PROVIDER_CHAIN || "")
+    .split(",")
+    .map(name => name.trim())
+    .filter((name): name is AIProvider => all.includes(name as AIProvider));
+
+  const active = getActiveProvider();
+  const chain = configured.length > 0
+    ? configured
+    : [active, ...all.filter(provider => provider !== active && getProviderHealth(provider).keys > 0)];
+
+  return [...new Set(preferred ? [preferred, ...chain] : chain)];
+}
+
+// Whether any provider in the chain has a key (or a local model); without one, callers skip AI entirely
+export function hasConfiguredProvider(preferred?: AIProvider): boolean {
+  return getProviderChain(preferred).some(provider => getProviderHealth(provider).keys > 0);
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener("abort", () => {
+      clearTimeout(timer);
+      reject(new AIProviderError("Request cancelled", "aborted"));
+    }, { once: true });
+  });
+}
+
+// Run `call` down the chain until one provider answers; throws the last error otherwise
+async function runChain<T>(
+  options: RouteOptions,
+  call: (config: AIProviderConfig, key: string) => Promise<T>
+): Promise<{ value: T; provider: AIProvider }> {
+  let lastError: AIProviderError | undefined;
+
+  for (const provider of getProviderChain(options.provider)) {
+    const config = resolveConfig(provider, options.temperature);
+    const health = getProviderHealth(provider);
+    const maxTries = health.keys + MAX_ATTEMPTS;
+    let transientFailures = 0;
+
+    for (let tries = 0; tries < maxTries; tries++) {
+      const key = pickKey(provider);
+      if (!key) {
+        lastError ??= health.keys === 0
+          ? new AIProviderError(`${provider} has no API key configured`, "not_configured", provider)
+          : new AIProviderError(`${provider} is paused after errors (${health.lastError})`, health.lastCategory ?? "unknown", provider);
+        break;
+      }
+
+      try {
+        const value = await call(config, key);
+        reportSuccess(provider, key);
+        return { value, provider };
+      } catch (error) {
+        const categorized = categorizeError(provider, error, options.signal);
+        if (categorized.category === "aborted") throw categorized;
+
+        lastError = categorized;
+        const wait = reportFailure(provider, key, categorized);
+        console.warn(`AI provider ${provider} failed (${categorized.category}): ${categorized.message}`);
+
+        if (KEY_CATEGORIES.has(categorized.category)) continue;
+        if (TRANSIENT_CATEGORIES.has(categorized.category) && ++transientFailures < MAX_ATTEMPTS && wait <= MAX_WAIT_MS) {
+          await sleep(wait, options.signal);
+          continue;
+        }
+        break;
+      }
+    }
+  }
+
+  throw lastError ?? new AIProviderError("No AI provider is configured", "not_configured");
+}
+
+export async function completeWithFallback(
+  systemPrompt: string,
+  messages: ChatMessage[],
+  options: RouteOptions = {}
+): Promise<AIResponse> {
+  try {
+    const { value, provider } = await runChain(options, (config, key) =>
+      requestCompletion(config, key, systemPrompt, messages, options)
+    );
+    return { success: true, content: value.content, provider, tokensUsed: value.tokensUsed };
+  } catch (error) {
+    const categorized = categorizeError("router", error, options.signal);
+    return { success: false, error: categorized.message, errorCategory: categorized.category };
+  }
+}
+
+/**
+ * Start a streamed reply. Resolves once a provider has produced its first
+ * token, so a failing provider can still be swapped for the next one;
+ * errors after that are thrown from `tokens`.
+ */
+export async function openStreamWithFallback(
+  systemPrompt: string,
+  messages: ChatMessage[],
+  options: RouteOptions = {}
+): Promise<{ provider: AIProvider; tokens: AsyncGenerator<string> }> {
+  const { value, provider } = await runChain(options, async (config, key) => {
+    const stream = requestStream(config, key, systemPrompt, messages, options);
+    const first = await stream.next();
+    return { stream, first, key };
+  });
+
+  async function* tokens(): AsyncGenerator<string> {
+    if (!value.first.done) yield value.first.value;
+    try {
+      yield* value.stream;
+    } catch (error) {
+      const categorized = categorizeError(provider, error, options.signal);
+      if (categorized.category !== "aborted") reportFailure(provider, value.key, categorized);
+      throw categorized;
+    }
+  }
+
+  return { provider, tokens: tokens() };
+}
@@ -0,0 +1,208 @@
+import { createHash } from "crypto";
+import initSqlJs from "sql.js";
+import { createZip } from "@/lib/zip";
+import type { AnkiNote } from "@/lib/export-formats";
+
+/**
+ * Anki Package (.apkg) writer
+ *
+ * An .apkg is a zip holding `collection.anki2` (an SQLite database in
+ * Anki's schema 11) and a `media` manifest. Notes use a two-field
+ * Front/Back model in a "LeetCode Mastery" deck. Cards that have been
+ * reviewed keep their interval and ease so Anki continues the schedule;
+ * the rest arrive as new cards.
+ */
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+const MODEL_ID = 1700000000001;
+const DECK_ID = 1700000000002;
+const FIELD_SEPARATOR = "\x1f";
+
+const SCHEMA = `
+CREATE TABLE col (id integer primary key, crt integer not null, mod integer not null, scm integer not null, ver integer not null, dty integer not null, usn integer not null, ls integer not null, conf text not null, models text not null, decks text not null, dconf text not null, tags text not null);
+CREATE TABLE notes (id integer primary key, guid text not null, mid integer not null, mod integer not null, usn integer not null, tags text not null, flds text not null, sfld integer not null, csum integer not null, flags integer not null, data text not null);
+CREATE TABLE cards (id integer primary key, nid integer not null, did integer not null, ord integer not null, mod integer not null, usn integer not null, type integer not null, queue integer not null, due integer not null, ivl integer not null, factor integer not null, reps integer not null, lapses integer not null, left integer not null, odue integer not null, odid integer not null, flags integer not null, data text not null);
+CREATE TABLE revlog (id integer primary key, cid integer not null, usn integer not null, ivl integer not null, lastIvl integer not null, factor integer not null, time integer not null, type integer not null, ease integer not null);
+CREATE TABLE graves (usn integer not null, oid integer not null, type integer not null);
+CREATE INDEX ix_notes_usn on notes (usn);
+CREATE INDEX ix_cards_usn on cards (usn);
+CREATE INDEX ix_revlog_usn on revlog (usn);
+CREATE INDEX ix_cards_nid on cards (nid);
+CREATE INDEX ix_cards_sched on cards (did, queue, due);
+CREATE INDEX ix_revlog_cid on revlog (cid);
+CREATE INDEX ix_notes_csum on notes (csum);
+`;
+
+function stripHtml(html: string): string {
+  return html.replace(/<[^>]*>/g, " ").replace(/\s+/g, " ").trim();
+}
+
+function sha1(text: string): string {
+  return createHash("sha1").update(text, "utf8").digest("hex");
+}
+
+// Anki's duplicate check: first 8 hex digits of the SHA-1 of the stripped sort field
+function fieldChecksum(field: string): number {
+  return parseInt(sha1(stripHtml(field)).slice(0, 8), 16);
+}
+
+function collectionJson(now: number) {
+  const seconds = Math.floor(now / 1000);
+
+  const model = {
+    id: MODEL_ID,
+    name: "LeetCode Mastery",
+    type: 0,
+    mod: seconds,
+    usn: -1,
+    sortf: 0,
+    did: DECK_ID,
+    tmpls: [
+      {
+        name: "Recall",
+        ord: 0,
+        qfmt: "{{Front}}",
+        afmt: "{{FrontSide}}<hr id=answer>{{Back}}",
+        bqfmt: "",
+        bafmt: "",
+        did: null,
+      },
+    ],
+    flds: ["Front", "Back"].map((name, ord) => ({
+      name,
+      ord,
+      sticky: false,
+      rtl: false,
+      font: "Arial",
+      size: 20,
+      media: [],
+    })),
+    css: ".card { font-family: arial; font-size: 18px; text-align: left; color: black; background-color: white; }",
+    latexPre: "\\documentclass[12pt]{article}\n\\special{papersize=3in,5in}\n\\usepackage{amssymb,amsmath}\n\\pagestyle{empty}\n\\begin{document}\n",
+    latexPost: "\\end{document}",
+    tags: [],
+    vers: [],
+    req: [[0, "any", [0]]],
+  };
+
+  const deck = (id: number, name: string) => ({
+    id,
+    name,
+    desc: "",
+    mod: seconds,
+    usn: -1,
+    collapsed: false,
+    dyn: 0,
+    conf: 1,
+    extendNew: 10,
+    extendRev: 50,
+    newToday: [0, 0],
+    revToday: [0, 0],
+    lrnToday: [0, 0],
+    timeToday: [0, 0],
+  });
+
+  const deckConfig = {
+    id: 1,
+    name: "Default",
+    mod: 0,
+    usn: 0,
+    maxTaken: 60,
+    autoplay: true,
+    timer: 0,
+    replayq: true,
+    dyn: false,
+    new: { delays: [1, 10], ints: [1, 4, 7], initialFactor: 2500, order: 1, perDay: 20, bury: true, separate: true },
+    rev: { perDay: 200, ease4: 1.3, fuzz: 0.05, ivlFct: 1, maxIvl: 36500, bury: true, minSpace: 1 },
+    lapse: { delays: [10], mult: 0, minInt: 1, leechFails: 8, leechAction: 0 },
+  };
+
+  const conf = {
+    activeDecks: [1],
+    curDeck: 1,
+    newSpread: 0,
+    collapseTime: 1200,
+    timeLim: 0,
+    estTimes: true,
+    dueCounts: true,
+    curModel: String(MODEL_ID),
+    nextPos: 1,
+    sortType: "noteFld",
+    sortBackwards: false,
+    addToCur: true,
+  };
+
+  return {
+    conf: JSON.stringify(conf),
+    models: JSON.stringify({ [MODEL_ID]: model }),
+    decks: JSON.stringify({ 1: deck(1, "Default"), [DECK_ID]: deck(DECK_ID, "LeetCode Mastery") }),
+    dconf: JSON.stringify({ 1: deckConfig }),
+  };
+}
+
+export async function buildAnkiPackage(notes: AnkiNote[], now: Date = new Date()): Promise<Buffer> {
+  const SQL = await initSqlJs();
+  const db = new SQL.Database();
+
+  try {
+    const nowMs = now.getTime();
+    const nowSeconds = Math.floor(nowMs / 1000);
+    // Collection creation time: review due dates count days from here
+    const created = new Date(now);
+    created.setHours(0, 0, 0, 0);
+    const createdSeconds = Math.floor(created.getTime() / 1000);
+
+    db.run(SCHEMA);
+    const json = collectionJson(nowMs);
+    db.run(
+      "INSERT INTO col VALUES (1, ?, ?, ?, 11, 0, 0, 0, ?, ?, ?, ?, '{}')",
+      [createdSeconds, nowMs, nowMs, json.conf, json.models, json.decks, json.dconf]
+    );
+
+    const insertNote = db.prepare("INSERT INTO notes VALUES (?, ?, ?, ?, -1, ?, ?, ?, ?, 0, '')");
+    const insertCard = db.prepare("INSERT INTO cards VALUES (?, ?, ?, 0, ?, -1, ?, ?, ?, ?, ?, ?, 0, 0, 0, 0, 0, '')");
+
+    notes.forEach((note, index) => {
+      const id = nowMs + index; // Anki ids are millisecond timestamps
+      const guid = sha1(`leetcode-mastery:${note.key}`).slice(0, 10);
+      const tags = note.tags.length ? ` ${note.tags.join(" ")} ` : "";
+      insertNote.run([
+        id,
+        guid,
+        MODEL_ID,
+        nowSeconds,
+        tags,
+        [note.front, note.back].join(FIELD_SEPARATOR),
+        stripHtml(note.front),
+        fieldChecksum(note.front),
+      ]);
+
+      const reviewed = note.repetitions > 0 && note.interval > 0;
+      const due = reviewed
+        ? Math.max(0, Math.round(((note.nextReviewDate?.getTime() ?? nowMs) - created.getTime()) / DAY_MS))
+        : index + 1; // new cards are due in order of position
+      insertCard.run([
+        id,
+        id,
+        DECK_ID,
+        nowSeconds,
+        reviewed ? 2 : 0, // type: review or new
+        reviewed ? 2 : 0, // queue
+        due,
+        reviewed ? Math.round(note.interval) : 0,
+        reviewed ? Math.round(note.easeFactor * 1000) : 0,
+        note.repetitions,
+      ]);
+    });
+
+    insertNote.free();
+    insertCard.free();
+
+    return createZip([
+      { name: "collection.anki2", data: db.export() },
+      { name: "media", data: "{}" },
+    ], now);
+  } finally {
+    db.close();
+  }
+}
@@ -0,0 +1,157 @@
+"use server";
+
+import { requireUser } from "@/lib/session";
+import { buildExportArchive } from "@/lib/export-archive";
+import { getBackupStore, type BackupMeta } from "@/lib/backup-store";
+import { diffArchives, type BackupDiff } from "@/lib/backup-diff";
+import {
+  isBackupDue,
+  readBackupSettings,
+  restoreArchive,
+  takeBackup,
+  writeBackupSettings,
+  applyRetention,
+  type BackupSettings,
+  type RestoreOptions,
+} from "@/lib/backups";
+
+/**
+ * Backup Actions - restore points for the signed-in user
+ *
+ * See backups.ts for scheduling, retention and how restores are written.
+ */
+
+// Restore points, newest first, with the user's schedule
+export async function listBackups(
+  userId: string
+): Promise<{ success: boolean; backups?: BackupMeta[]; settings?: BackupSettings; store?: string; error?: string }> {
+  try {
+    await requireUser(userId);
+    const store = getBackupStore();
+    const [backups, settings] = await Promise.all([store.list(userId), readBackupSettings(userId)]);
+    return { success: true, backups, settings, store: store.kind };
+  } catch (error) {
+    console.error("Failed to list backups:", error);
+    return { success: false, error: "Failed to list backups" };
+  }
+}
+
+export async function updateBackupSettings(
+  userId: string,
+  updates: Partial<Pick<BackupSettings, "enabled" | "intervalHours" | "retainCount" | "retainDays">>
+): Promise<{ success: boolean; error?: string }> {
+  try {
+    await requireUser(userId);
+
+    if (updates.intervalHours !== undefined && (updates.intervalHours < 1 || updates.intervalHours > 24 * 30)) {
+      return { success: false, error: "Interval must be between 1 hour and 30 days" };
+    }
+    if (updates.retainCount !== undefined && (updates.retainCount < 1 || updates.retainCount > 100)) {
+      return { success: false, error: "Keep between 1 and 100 backups" };
+    }
+    if (updates.retainDays !== undefined && (updates.retainDays < 1 || updates.retainDays > 365)) {
+      return { success: false, error: "Retention must be between 1 and 365 days" };
+    }
+
+    await writeBackupSettings(userId, updates);
+    await applyRetention(await readBackupSettings(userId));
+    return { success: true };
+  } catch (error) {
+    console.error("Failed to update backup settings:", error);
+    return { success: false, error: "Failed to update backup settings" };
+  }
+}
+
+// Take a backup now
+export async function createBackup(
+  userId: string,
+  trigger: "manual" | "pre-delete" | "pre-import" = "manual"
+): Promise<{ success: boolean; backup?: BackupMeta; error?: string }> {
+  try {
+    const user = await requireUser(userId);
+    const backup = await takeBackup(user, trigger);
+    return { success: true, backup };
+  } catch (error) {
+    console.error("Failed to create backup:", error);
+    return { success: false, error: error instanceof Error ? error.message : "Failed to create backup" };
+  }
+}
+
+// Called when the app opens: backs up if the last backup is older than the interval
+export async function runScheduledBackup(
+  userId: string
+): Promise<{ success: boolean; backup?: BackupMeta; error?: string }> {
+  try {
+    const user = await requireUser(userId);
+    const settings = await readBackupSettings(userId);
+    if (!isBackupDue(settings)) {
+      return { success: true };
+    }
+
+    const backup = await takeBackup(user, "scheduled");
+    return { success: true, backup };
+  } catch (error) {
+    console.error("Scheduled backup failed:", error);
+    return { success: false, error: "Scheduled backup failed" };
+  }
+}
+
+// What changed between a restore point and the current data
+export async function compareBackup(
+  userId: string,
+  backupId: string
+): Promise<{ success: boolean; diff?: BackupDiff; error?: string }> {
+  try {
+    const user = await requireUser(userId);
+    const snapshot = await getBackupStore().load(userId, backupId);
+    if (!snapshot) {
+      return { success: false, error: "Backup not found" };
+    }
+
+    // Round-trip through JSON so dates compare the way the snapshot stores them
+    const current = JSON.parse(JSON.stringify(await buildExportArchive(user, { includeTrashed: true })));
+    return { success: true, diff: diffArchives(snapshot, current) };
+  } catch (error) {
+    console.error("Failed to compare backup:", error);
+    return { success: false, error: "Failed to compare backup" };
+  }
+}
+
+/**
+ * Restore a backup. A full restore first saves the current data as a
+ * pre-restore backup so it can be undone.
+ */
+export async function restoreBackup(
+  userId: string,
+  backupId: string,
+  options: RestoreOptions = {}
+): Promise<{ success: boolean; restored?: { topics: number; records: number }; undoBackupId?: string; error?: string }> {
+  try {
+    const user = await requireUser(userId);
+    const snapshot = await getBackupStore().load(userId, backupId);
+    if (!snapshot) {
+      return { success: false, error: "Backup not found" };
+    }
+
+    const undo = options.topicIds ? undefined : await takeBackup(user, "pre-restore");
+    const restored = await restoreArchive(userId, snapshot, options);
+    return { success: true, restored, undoBackupId: undo?.id };
+  } catch (error) {
+    console.error("Failed to restore backup:", error);
+    return { success: false, error: error instanceof Error ? error.message : "Failed to restore backup" };
+  }
+}
+
+export async function deleteBackup(
+  userId: string,
+  backupId: string
+): Promise<{ success: boolean; error?: string }> {
+  try {
+    await requireUser(userId);
+    const removed = await getBackupStore().remove(userId, backupId);
+    return removed ? { success: true } : { success: false, error: "Backup not found" };
+  } catch (error) {
+    console.error("Failed to delete backup:", error);
+    return { success: false, error: "Failed to delete backup" };
+  }
+}
@@ -0,0 +1,150 @@
+import type { ExportData } from "@/lib/types";
+
+/**
+ * Backup Diff - compare a restore point with the current data
+ *
+ * Records are matched by id within each store. "removed" means the record
+ * is in the snapshot but gone now (restoring brings it back), "added"
+ * means it was created after the snapshot, "changed" means both have it
+ * with different contents. Both archives must be plain JSON (dates as
+ * strings) so equal records compare equal.
+ */
+
+export type DiffStoreName =
+  | "topics"
+  | "questions"
+  | "notes"
+  | "dailyQuestions"
+  | "snippets"
+  | "solved"
+  | "reviews"
+  | "memories";
+
+export interface DiffItem {
+  id: string;
+  label: string;
+}
+
+export interface StoreDiff {
+  store: DiffStoreName;
+  removed: DiffItem[];
+  added: DiffItem[];
+  changed: DiffItem[];
+}
+
+// A snapshot topic that can be restored on its own
+export interface RestorableTopic {
+  id: string;
+  name: string;
+  deleted: boolean; // the whole topic is gone
+  missingQuestions: number;
+  missingNotes: number;
+}
+
+export interface BackupDiff {
+  stores: StoreDiff[];
+  restorableTopics: RestorableTopic[];
+}
+
+type Labeled = { id: string; label: string; value: unknown };
+
+// Key order doesn't matter when comparing records
+function stableStringify(value: unknown): string {
+  if (value === null || typeof value !== "object") return JSON.stringify(value) ?? "null";
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(",")}]`;
+  const entries = Object.entries(value as Record<string, unknown>)
+    .filter(([, entry]) => entry !== undefined)
+    .sort(([a], [b]) => a.localeCompare(b));
+  return `{${entries.map(([key, entry]) => `${JSON.stringify(key)}:${stableStringify(entry)}`).join(",")}}`;
+}
+
+function excerpt(text: string, length: number = 60): string {
+  const flat = text.replace(/\s+/g, " ").trim();
+  return flat.length > length ? `${flat.slice(0, length - 1)}…` : flat;
+}
+
+function records(archive: ExportData, store: DiffStoreName): Labeled[] {
+  switch (store) {
+    case "topics":
+      return archive.topics.map(({ questions: _questions, notes: _notes, ...topic }) => ({
+        id: topic.id,
+        label: topic.name,
+        value: topic,
+      }));
+    case "questions":
+      return archive.topics.flatMap(topic =>
+        topic.questions.map(question => ({
+          id: `${topic.id}/${question.id}`,
+          label: `${topic.name} / ${question.title}`,
+          value: question,
+        }))
+      );
+    case "notes":
+      return archive.topics.flatMap(topic =>
+        topic.notes.map(note => ({
+          id: `${topic.id}/${note.id}`,
+          label: `${topic.name} / ${excerpt(note.content)}`,
+          value: note,
+        }))
+      );
+    case "dailyQuestions":
+      return archive.dailyQuestions.map(daily => ({ id: daily.id, label: `Daily #${daily.leetcodeId}`, value: daily }));
+    case "snippets":
+      return archive.snippets.map(snippet => ({ id: snippet.id, label: snippet.title, value: snippet }));
+    case "solved":
+      return (archive.solved ?? []).map(problem => ({ id: problem.id, label: problem.title, value: problem }));
+    case "reviews":
+      return (archive.reviews ?? []).map(card => ({ id: card.id, label: card.problemTitle, value: card }));
+    case "memories":
+      return (archive.memories ?? []).map(memory => ({ id: memory.id, label: excerpt(memory.content), value: memory }));
+  }
+}
+
+const STORES: DiffStoreName[] = [
+  "topics",
+  "questions",
+  "notes",
+  "dailyQuestions",
+  "snippets",
+  "solved",
+  "reviews",
+  "memories",
+];
+
+export function diffArchives(snapshot: ExportData, current: ExportData): BackupDiff {
+  const stores = STORES.map(store => {
+    const before = new Map(records(snapshot, store).map(record => [record.id, record]));
+    const after = new Map(records(current, store).map(record => [record.id, record]));
+    const diff: StoreDiff = { store, removed: [], added: [], changed: [] };
+
+    for (const [id, record] of before) {
+      const now = after.get(id);
+      if (!now) {
+        diff.removed.push({ id, label: record.label });
+      } else if (stableStringify(record.value) !== stableStringify(now.value)) {
+        diff.changed.push({ id, label: now.label });
+      }
+    }
+    for (const [id, record] of after) {
+      if (!before.has(id)) diff.added.push({ id, label: record.label });
+    }
+
+    return diff;
+  });
+
+  const currentTopics = new Map(current.topics.map(topic => [topic.id, topic]));
+  const restorableTopics: RestorableTopic[] = [];
+  for (const topic of snapshot.topics) {
+    const now = currentTopics.get(topic.id);
+    const questionIds = new Set(now?.questions.map(question => question.id) ?? []);
+    const noteIds = new Set(now?.notes.map(note => note.id) ?? []);
+    const missingQuestions = topic.questions.filter(question => !questionIds.has(question.id)).length;
+    const missingNotes = topic.notes.filter(note => !noteIds.has(note.id)).length;
+
+    if (!now || missingQuestions > 0 || missingNotes > 0) {
+      restorableTopics.push({ id: topic.id, name: topic.name, deleted: !now, missingQuestions, missingNotes });
+    }
+  }
+
+  return { stores, restorableTopics };
+}
@@ -0,0 +1,188 @@
+import { promises as fs } from "fs";
+import path from "path";
+import { gunzipSync, gzipSync } from "zlib";
+import { Binary, ObjectId } from "mongodb";
+import { getDatabase, COLLECTIONS } from "@/lib/mongodb";
+import type { ExportData } from "@/lib/types";
+
+/**
+ * Backup Store - where restore points are kept
+ *
+ * Each backup is a gzipped export archive plus a small metadata record.
+ * Two stores share one interface:
+ * - MongoDB (default): COLLECTIONS.BACKUPS, archive stored as binary
+ * - Filesystem: set BACKUP_DIR; archives are written to
+ *   BACKUP_DIR/<userId>/<backupId>.json.gz with a .meta.json next to them
+ */
+
+export type BackupTrigger = "scheduled" | "manual" | "pre-restore" | "pre-delete" | "pre-import";
+
+export interface BackupCounts {
+  topics: number;
+  questions: number;
+  notes: number;
+  dailyQuestions: number;
+  snippets: number;
+  solved: number;
+  reviews: number;
+  memories: number;
+}
+
+export interface BackupMeta {
+  id: string;
+  userId: string;
+  createdAt: Date;
+  trigger: BackupTrigger;
+  version: string;
+  counts: BackupCounts;
+  size: number; // compressed bytes
+}
+
+export interface BackupStore {
+  readonly kind: "mongodb" | "filesystem";
+  save(meta: Omit<BackupMeta, "id" | "size">, archive: ExportData): Promise<BackupMeta>;
+  list(userId: string): Promise<BackupMeta[]>; // newest first
+  load(userId: string, backupId: string): Promise<ExportData | null>;
+  remove(userId: string, backupId: string): Promise<boolean>;
+}
+
+export function countArchive(archive: ExportData): BackupCounts {
+  return {
+    topics: archive.topics.length,
+    questions: archive.topics.reduce((sum, topic) => sum + topic.questions.length, 0),
+    notes: archive.topics.reduce((sum, topic) => sum + topic.notes.length, 0),
+    dailyQuestions: archive.dailyQuestions.length,
+    snippets: archive.snippets.length,
+    solved: archive.solved?.length ?? 0,
+    reviews: archive.reviews?.length ?? 0,
+    memories: archive.memories?.length ?? 0,
+  };
+}
+
+function compress(archive: ExportData): Buffer {
+  return gzipSync(JSON.stringify(archive));
+}
+
+function decompress(data: Uint8Array): ExportData {
+  return JSON.parse(gunzipSync(data).toString("utf8"));
+}
+
+class MongoBackupStore implements BackupStore {
+  readonly kind = "mongodb" as const;
+
+  private async collection() {
+    const db = await getDatabase();
+    if (!db) {
+      throw new Error("Database not available");
+    }
+    return db.collection(COLLECTIONS.BACKUPS);
+  }
+
+  async save(meta: Omit<BackupMeta, "id" | "size">, archive: ExportData): Promise<BackupMeta> {
+    const collection = await this.collection();
+    const data = compress(archive);
+    const result = await collection.insertOne({ ...meta, size: data.length, data: new Binary(data) });
+    return { ...meta, id: result.insertedId.toString(), size: data.length };
+  }
+
+  async list(userId: string): Promise<BackupMeta[]> {
+    const collection = await this.collection();
+    const docs = await collection
+      .find({ userId }, { projection: { data: 0 } })
+      .sort({ createdAt: -1 })
+      .toArray();
+    return docs.map(({ _id, ...fields }) => ({ ...(fields as Omit<BackupMeta, "id">), id: _id.toString() }));
+  }
+
+  async load(userId: string, backupId: string): Promise<ExportData | null> {
+    if (!ObjectId.isValid(backupId)) return null;
+    const collection = await this.collection();
+    const doc = await collection.findOne({ _id: new ObjectId(backupId), userId });
+    return doc ? decompress((doc.data as Binary).buffer) : null;
+  }
+
+  async remove(userId: string, backupId: string): Promise<boolean> {
+    if (!ObjectId.isValid(backupId)) return false;
+    const collection = await this.collection();
+    const result = await collection.deleteOne({ _id: new ObjectId(backupId), userId });
+    return result.deletedCount > 0;
+  }
+}
+
+class FileBackupStore implements BackupStore {
+  readonly kind = "filesystem" as const;
+
+  constructor(private readonly root: string) {}
+
+  // User ids and backup ids become path segments; refuse anything that could escape the root
+  private userDir(userId: string): string {
+    if (!/^[A-Za-z0-9_-]+$/.test(userId)) {
+      throw new Error("Invalid user id for backup path");
+    }
+    return path.join(this.root, userId);
+  }
+
+  private files(userId: string, backupId: string) {
+    if (!/^[A-Za-z0-9_-]+$/.test(backupId)) return null;
+    const base = path.join(this.userDir(userId), backupId);
+    return { archive: `${base}.json.gz`, meta: `${base}.meta.json` };
+  }
+
+  async save(meta: Omit<BackupMeta, "id" | "size">, archive: ExportData): Promise<BackupMeta> {
+    const id = `${meta.createdAt.getTime()}-${new ObjectId().toString().slice(-6)}`;
+    const files = this.files(meta.userId, id)!;
+    const data = compress(archive);
+    const saved: BackupMeta = { ...meta, id, size: data.length };
+
+    await fs.mkdir(this.userDir(meta.userId), { recursive: true });
+    await fs.writeFile(files.archive, data);
+    await fs.writeFile(files.meta, JSON.stringify(saved));
+    return saved;
+  }
+
+  async list(userId: string): Promise<BackupMeta[]> {
+    let names: string[];
+    try {
+      names = await fs.readdir(this.userDir(userId));
+    } catch {
+      return [];
+    }
+
+    const metas = await Promise.all(
+      names
+        .filter(name => name.endsWith(".meta.json"))
+        .map(async name => {
+          const raw = JSON.parse(await fs.readFile(path.join(this.userDir(userId), name), "utf8"));
+          return { ...raw, createdAt: new Date(raw.createdAt) } as BackupMeta;
+        })
+    );
+    return metas.sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+
+  async load(userId: string, backupId: string): Promise<ExportData | null> {
+    const files = this.files(userId, backupId);
+    if (!files) return null;
+    try {
+      return decompress(await fs.readFile(files.archive));
+    } catch {
+      return null;
+    }
+  }
+
+  async remove(userId: string, backupId: string): Promise<boolean> {
+    const files = this.files(userId, backupId);
+    if (!files) return false;
+    try {
+      await fs.unlink(files.archive);
+      await fs.rm(files.meta, { force: true });
+      return true;
+    } catch {
+      return false;
+    }
+  }
+}
+
+export function getBackupStore(): BackupStore {
+  const dir = process.env.BACKUP_DIR;
+  return dir ? new FileBackupStore(path.resolve(dir)) : new MongoBackupStore();
+}
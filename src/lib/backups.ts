@@ -0,0 +1,288 @@
+import { ObjectId } from "mongodb";
+import type { DocumentReference, WriteBatch } from "firebase-admin/firestore";
+import { getAdminFirestore } from "@/lib/firebase-admin";
+import { getDatabase, COLLECTIONS } from "@/lib/mongodb";
+import { buildExportArchive } from "@/lib/export-archive";
+import { indexTopicNotes, syncUserEmbeddings } from "@/lib/embedding-index";
+import { invalidateUserAICache } from "@/lib/ai-cache";
+import { countArchive, getBackupStore, type BackupMeta, type BackupTrigger } from "@/lib/backup-store";
+import type { SessionUser } from "@/lib/session";
+import type { ExportData } from "@/lib/types";
+
+/**
+ * Backups - scheduled snapshots of a user's full dataset
+ *
+ * A backup is the export archive (see export-archive.ts) saved to the
+ * backup store. Users are backed up when they open the app and the last
+ * backup is older than their interval; /api/backups/run does the same for
+ * every enabled user so an external scheduler can drive it. Retention
+ * keeps the newest `retainCount` backups younger than `retainDays`, and
+ * never removes the latest one.
+ *
+ * Restores go through the Admin SDK: a whole snapshot (after taking a
+ * pre-restore backup) or selected topics with their questions and notes.
+ */
+
+export interface BackupSettings {
+  userId: string;
+  email?: string;
+  enabled: boolean;
+  intervalHours: number;
+  retainCount: number;
+  retainDays: number;
+  lastBackupAt?: Date;
+  lastError?: string;
+  updatedAt?: Date;
+}
+
+export const DEFAULT_BACKUP_SETTINGS = {
+  enabled: true,
+  intervalHours: 24,
+  retainCount: 14,
+  retainDays: 30,
+};
+
+export interface RestoreOptions {
+  topicIds?: string[]; // restore only these topics, merged into the current data
+}
+
+const HOUR_MS = 1000 * 60 * 60;
+const DAY_MS = HOUR_MS * 24;
+const BATCH_LIMIT = 400; // Firestore allows 500 writes per batch
+
+async function settingsCollection() {
+  const db = await getDatabase();
+  if (!db) {
+    throw new Error("Database not available");
+  }
+  return db.collection(COLLECTIONS.BACKUP_SETTINGS);
+}
+
+export async function readBackupSettings(userId: string): Promise<BackupSettings> {
+  const doc = await (await settingsCollection()).findOne({ userId });
+  return {
+    ...DEFAULT_BACKUP_SETTINGS,
+    ...(doc ? (({ _id, ...fields }) => fields)(doc) : {}),
+    userId,
+  } as BackupSettings;
+}
+
+// Fields passed as undefined are cleared
+export async function writeBackupSettings(userId: string, updates: Partial<Omit<BackupSettings, "userId">>) {
+  const set = Object.fromEntries(Object.entries(updates).filter(([, value]) => value !== undefined));
+  const unset = Object.fromEntries(Object.entries(updates).filter(([, value]) => value === undefined).map(([key]) => [key, ""]));
+
+  await (await settingsCollection()).updateOne(
+    { userId },
+    { $set: { ...set, userId, updatedAt: new Date() }, ...(Object.keys(unset).length ? { $unset: unset } : {}) },
+    { upsert: true }
+  );
+}
+
+export function isBackupDue(settings: BackupSettings, now: Date = new Date()): boolean {
+  if (!settings.enabled) return false;
+  if (!settings.lastBackupAt) return true;
+  return now.getTime() - new Date(settings.lastBackupAt).getTime() >= settings.intervalHours * HOUR_MS;
+}
+
+// Delete backups outside the retention window; the newest one always stays
+export async function applyRetention(settings: BackupSettings, now: Date = new Date()): Promise<number> {
+  const store = getBackupStore();
+  const backups = await store.list(settings.userId);
+  const cutoff = now.getTime() - settings.retainDays * DAY_MS;
+
+  let removed = 0;
+  for (const [index, backup] of backups.entries()) {
+    if (index === 0) continue;
+    if (index >= settings.retainCount || new Date(backup.createdAt).getTime() < cutoff) {
+      if (await store.remove(settings.userId, backup.id)) removed++;
+    }
+  }
+  return removed;
+}
+
+export async function takeBackup(user: SessionUser, trigger: BackupTrigger): Promise<BackupMeta> {
+  const archive = await buildExportArchive(user, { includeTrashed: true });
+  const createdAt = new Date(archive.exportedAt);
+
+  const meta = await getBackupStore().save(
+    { userId: user.uid, createdAt, trigger, version: archive.version, counts: countArchive(archive) },
+    archive
+  );
+
+  await writeBackupSettings(user.uid, { lastBackupAt: createdAt, lastError: undefined, ...(user.email ? { email: user.email } : {}) });
+  await applyRetention(await readBackupSettings(user.uid), createdAt);
+  return meta;
+}
+
+// Back up every enabled user whose last backup is older than their interval
+export async function runDueBackups(now: Date = new Date()): Promise<{ checked: number; created: number; failed: number }> {
+  const docs = await (await settingsCollection()).find({ enabled: { $ne: false } }).toArray();
+  const summary = { checked: docs.length, created: 0, failed: 0 };
+
+  for (const doc of docs) {
+    const settings = await readBackupSettings(doc.userId);
+    if (!isBackupDue(settings, now)) continue;
+
+    try {
+      await takeBackup({ uid: settings.userId, email: settings.email }, "scheduled");
+      summary.created++;
+    } catch (error) {
+      console.error(`Scheduled backup failed for ${settings.userId}:`, error);
+      await writeBackupSettings(settings.userId, {
+        lastError: error instanceof Error ? error.message : "Backup failed",
+      });
+      summary.failed++;
+    }
+  }
+
+  return summary;
+}
+
+// ============ Restore ============
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?Z$/;
+
+// Archives hold dates as ISO strings; turn them back into Dates (Timestamps in Firestore)
+function reviveDates<T>(value: T): T {
+  if (typeof value === "string" && ISO_DATE.test(value)) return new Date(value) as T;
+  if (Array.isArray(value)) return value.map(reviveDates) as T;
+  if (value && typeof value === "object" && !(value instanceof Date)) {
+    return Object.fromEntries(
+      Object.entries(value as Record<string, unknown>).map(([key, entry]) => [key, reviveDates(entry)])
+    ) as T;
+  }
+  return value;
+}
+
+async function commitInBatches(writes: ((batch: WriteBatch) => void)[]) {
+  const firestore = getAdminFirestore();
+  for (let i = 0; i < writes.length; i += BATCH_LIMIT) {
+    const batch = firestore.batch();
+    writes.slice(i, i + BATCH_LIMIT).forEach(write => write(batch));
+    await batch.commit();
+  }
+}
+
+interface ExistingTopic {
+  exists: boolean;
+  questionIds: Set<string>;
+  noteIds: Set<string>;
+}
+
+// Writes recreating a topic; records the topic still has are left as they are
+function topicWrites(userRef: DocumentReference, topic: ExportData["topics"][number], existing?: ExistingTopic) {
+  const { id, questions, notes, ...fields } = reviveDates(topic);
+  const topicRef = userRef.collection("topics").doc(id);
+  const writes: ((batch: WriteBatch) => void)[] = [];
+
+  if (!existing?.exists) {
+    writes.push(batch => batch.set(topicRef, fields));
+  }
+  for (const { id: questionId, ...question } of questions) {
+    if (existing?.questionIds.has(questionId)) continue;
+    writes.push(batch => batch.set(topicRef.collection("questions").doc(questionId), question));
+  }
+  for (const { id: noteId, ...note } of notes) {
+    if (existing?.noteIds.has(noteId)) continue;
+    writes.push(batch => batch.set(topicRef.collection("notes").doc(noteId), note));
+  }
+  return writes;
+}
+
+async function readExistingTopic(topicRef: DocumentReference): Promise<ExistingTopic> {
+  const [snapshot, questions, notes] = await Promise.all([
+    topicRef.get(),
+    topicRef.collection("questions").listDocuments(),
+    topicRef.collection("notes").listDocuments(),
+  ]);
+  return {
+    exists: snapshot.exists,
+    questionIds: new Set(questions.map(ref => ref.id)),
+    noteIds: new Set(notes.map(ref => ref.id)),
+  };
+}
+
+const MONGO_STORES = [
+  ["snippets", COLLECTIONS.SNIPPETS],
+  ["solved", COLLECTIONS.SOLVED],
+  ["reviews", COLLECTIONS.REVIEWS],
+  ["reviewLogs", COLLECTIONS.REVIEW_LOGS],
+  ["memories", COLLECTIONS.MEMORIES],
+] as const;
+
+async function restoreMongo(userId: string, archive: ExportData) {
+  const db = await getDatabase();
+  if (!db) {
+    throw new Error("Database not available");
+  }
+
+  for (const [key, name] of MONGO_STORES) {
+    const docs = (archive[key] ?? []) as { id: string }[];
+    await db.collection(name).deleteMany({ userId });
+    if (docs.length === 0) continue;
+
+    await db.collection(name).insertMany(
+      docs.map(({ id, ...fields }) => ({
+        ...reviveDates(fields),
+        _id: ObjectId.isValid(id) ? new ObjectId(id) : new ObjectId(),
+        userId,
+      }))
+    );
+  }
+}
+
+/**
+ * Write a snapshot back. With topicIds, the missing parts of those topics
+ * (the topic itself, deleted questions and notes) are recreated with their
+ * original ids and everything else is left alone; otherwise the snapshot
+ * replaces all stores.
+ */
+export async function restoreArchive(
+  userId: string,
+  archive: ExportData,
+  options: RestoreOptions = {}
+): Promise<{ topics: number; records: number }> {
+  const firestore = getAdminFirestore();
+  const userRef = firestore.collection("users").doc(userId);
+
+  if (options.topicIds) {
+    const wanted = new Set(options.topicIds);
+    const topics = archive.topics.filter(topic => wanted.has(topic.id));
+    const writes: ((batch: WriteBatch) => void)[] = [];
+    for (const topic of topics) {
+      const existing = await readExistingTopic(userRef.collection("topics").doc(topic.id));
+      writes.push(...topicWrites(userRef, topic, existing));
+    }
+    await commitInBatches(writes);
+
+    const db = await getDatabase();
+    if (db) {
+      for (const topic of topics) await indexTopicNotes(db, userId, topic.id);
+    }
+    return { topics: topics.length, records: writes.length };
+  }
+
+  const currentTopics = await userRef.collection("topics").listDocuments();
+  for (const topicRef of currentTopics) {
+    await firestore.recursiveDelete(topicRef);
+  }
+  const currentDaily = await userRef.collection("dailyQuestions").listDocuments();
+  await commitInBatches(currentDaily.map(ref => batch => batch.delete(ref)));
+
+  await commitInBatches([
+    ...archive.topics.flatMap(topic => topicWrites(userRef, topic)),
+    ...archive.dailyQuestions.map(daily => {
+      const { id, ...fields } = reviveDates(daily);
+      return (batch: WriteBatch) => batch.set(userRef.collection("dailyQuestions").doc(id), fields);
+    }),
+  ]);
+
+  await restoreMongo(userId, archive);
+  const db = await getDatabase();
+  if (db) await syncUserEmbeddings(db, userId);
+  await invalidateUserAICache(db, userId);
+
+  const records = Object.values(countArchive(archive)).reduce((sum, count) => sum + count, 0);
+  return { topics: archive.topics.length, records };
+}
@@ -0,0 +1,158 @@
+import { after, before, beforeEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { createServer, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { runCatalogImport } from "@/lib/catalog-import-job";
+import { COLLECTIONS } from "@/lib/mongodb";
+import { MemoryDb } from "@/lib/testing/memory-db";
+
+/**
+ * The catalog import job against a fixture GraphQL server and an in-memory
+ * database. `catalog` is what the server lists; each test sets it.
+ */
+
+interface FixtureProblem {
+  title: string;
+  titleSlug: string;
+  difficulty: string;
+  topicTags: { name: string }[];
+  frontendQuestionId: string;
+}
+
+const problem = (id: number, titleSlug: string): FixtureProblem => ({
+  title: titleSlug.replace(/-/g, " "),
+  titleSlug,
+  difficulty: "EASY",
+  topicTags: [{ name: "Array" }],
+  frontendQuestionId: String(id),
+});
+
+let server: Server;
+let endpoint: string;
+let catalog: FixtureProblem[] = [];
+let paidOnly = new Set<string>(); // slugs served without content
+let descriptionRequests: string[][] = [];
+
+before(async () => {
+  server = createServer(async (req, res) => {
+    let raw = "";
+    for await (const chunk of req) raw += chunk;
+    const { query, variables } = JSON.parse(raw);
+
+    let data: Record<string, unknown>;
+    if (query.includes("problemsetQuestionListV2")) {
+      const questions = catalog.slice(variables.skip, variables.skip + variables.limit);
+      data = {
+        problemsetQuestionListV2: {
+          questions,
+          totalLength: catalog.length,
+          hasMore: variables.skip + variables.limit < catalog.length,
+        },
+      };
+    } else {
+      // Descriptions: one aliased question field per requested slug
+      const slugs = Object.entries(variables as Record<string, string>);
+      descriptionRequests.push(slugs.map(([, slug]) => slug));
+      data = Object.fromEntries(
+        slugs.map(([name, slug]) => [
+          name.replace(/^slug/, "q"),
+          { content: paidOnly.has(slug) ? null : `<p>Description of <code>${slug}</code></p>` },
+        ])
+      );
+    }
+
+    res.writeHead(200, { "Content-Type": "application/json" });
+    res.end(JSON.stringify({ data }));
+  });
+  await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+  endpoint = `http://127.0.0.1:${(server.address() as AddressInfo).port}/graphql`;
+});
+
+after(async () => {
+  await new Promise<void>(resolve => server.close(() => resolve()));
+});
+
+let db: MemoryDb;
+const options = () => ({ endpoint, pageSize: 1, delayMs: 0 });
+
+beforeEach(() => {
+  db = new MemoryDb();
+  catalog = [problem(1, "two-sum"), problem(2, "add-two-numbers"), problem(3, "valid-parentheses")];
+  paidOnly = new Set();
+  descriptionRequests = [];
+});
+
+describe("catalog import job: runs", () => {
+  it("imports every page and completes", async () => {
+    const result = await runCatalogImport(db.asDb(), options());
+
+    assert.equal(result.success, true);
+    assert.equal(result.run?.status, "completed");
+    assert.equal(await db.collection(COLLECTIONS.PROBLEMS).countDocuments(), 3);
+  });
+
+  it("removes problems that left the catalog once a run completes", async () => {
+    await runCatalogImport(db.asDb(), options());
+    catalog = catalog.slice(0, 2);
+
+    const result = await runCatalogImport(db.asDb(), options());
+
+    assert.equal(result.run?.counts.removed, 1);
+    assert.equal(await db.collection(COLLECTIONS.PROBLEMS).countDocuments(), 2);
+  });
+
+  it("never resumes a run abandoned by a restart", async () => {
+    const first = await runCatalogImport(db.asDb(), { ...options(), maxPages: 1 });
+    assert.equal(first.run?.status, "running");
+
+    const restarted = await runCatalogImport(db.asDb(), { ...options(), restart: true });
+    assert.equal(restarted.run?.status, "completed");
+
+    const next = await runCatalogImport(db.asDb(), options());
+    assert.equal(next.run?.status, "completed");
+    assert.notEqual(next.run?._id, first.run?._id);
+
+    const abandoned = await db.collection(COLLECTIONS.IMPORT_RUNS).findOne({ status: "abandoned" });
+    assert.equal(String(abandoned?._id), first.run?._id);
+    assert.equal(await db.collection(COLLECTIONS.PROBLEMS).countDocuments(), 3);
+    assert.equal(await db.collection(COLLECTIONS.IMPORT_CHANGES).countDocuments({ kind: "removed" }), 0);
+  });
+
+  it("resumes the newest unfinished run", async () => {
+    await runCatalogImport(db.asDb(), { ...options(), maxPages: 1 });
+    const restarted = await runCatalogImport(db.asDb(), { ...options(), restart: true, maxPages: 1 });
+
+    const resumed = await runCatalogImport(db.asDb(), options());
+
+    assert.equal(resumed.run?._id, restarted.run?._id);
+    assert.equal(resumed.run?.status, "completed");
+    assert.equal(resumed.run?.fetched, 3);
+    assert.equal(await db.collection(COLLECTIONS.IMPORT_CHANGES).countDocuments({ kind: "removed" }), 0);
+  });
+});
+
+describe("catalog import job: descriptions", () => {
+  it("fetches a page's descriptions in batches", async () => {
+    catalog = Array.from({ length: 45 }, (_, i) => problem(i + 1, `problem-${i + 1}`));
+
+    await runCatalogImport(db.asDb(), { ...options(), pageSize: 50 });
+
+    assert.deepEqual(descriptionRequests.map(slugs => slugs.length), [20, 20, 5]);
+    const stored = await db.collection(COLLECTIONS.PROBLEMS).findOne({ titleSlug: "problem-7" });
+    assert.equal(stored?.description, "Description of problem-7");
+  });
+
+  it("asks once per problem, also when there is no description", async () => {
+    paidOnly = new Set(["add-two-numbers"]);
+    await runCatalogImport(db.asDb(), options());
+    assert.equal(descriptionRequests.length, 3);
+
+    descriptionRequests = [];
+    await runCatalogImport(db.asDb(), options());
+
+    assert.deepEqual(descriptionRequests, []);
+    const paid = await db.collection(COLLECTIONS.PROBLEMS).findOne({ titleSlug: "add-two-numbers" });
+    assert.equal(paid?.description, undefined);
+    assert.ok(paid?.descriptionCheckedAt instanceof Date);
+  });
+});
@@ -0,0 +1,289 @@
+import { COLLECTIONS } from "@/lib/mongodb";
+import {
+  countChanges,
+  diffCatalogProblem,
+  emptyRunCounts,
+  fetchCatalogPage,
+  fetchProblemDescriptions,
+  DESCRIPTION_BATCH_SIZE,
+  type CatalogChange,
+  type CatalogFetchOptions,
+  type CatalogProblem,
+  type ImportRun,
+} from "@/lib/catalog-import";
+
+import { Db, ObjectId } from "mongodb";
+
+/**
+ * Catalog Import Job - the resumable import behind importLeetCodeProblems
+ *
+ * Runs against the database it is given; leetcode-import.ts checks the
+ * caller and passes the app database. Only the newest run is ever resumed:
+ * an older unfinished run was superseded and would mark every problem the
+ * newer runs saw as removed.
+ */
+
+// A problem as stored in COLLECTIONS.PROBLEMS; problem-catalog.ts merges it
+// with the bundled data into the app-wide LeetCodeProblem shape
+export interface ProblemDocument {
+  _id?: ObjectId;
+  title: string;
+  titleSlug: string;
+  difficulty: "Easy" | "Medium" | "Hard";
+  topicTags: string[];
+  problemId?: number;
+  description?: string; // plain text; fetched once, when the import first sees the problem
+  descriptionCheckedAt?: Date; // when the description was fetched; set even when there was none
+  importedAt: Date;
+  updatedAt?: Date;
+  lastSeenRunId?: ObjectId;
+}
+
+const MAX_CATALOG_SIZE = 10000; // safety limit against a misbehaving endpoint
+
+export interface ImportLeetCodeOptions extends CatalogFetchOptions {
+  restart?: boolean; // abandon an unfinished run and start over
+  maxPages?: number; // stop after this many pages; call again to continue
+  pageSize?: number;
+  delayMs?: number; // between catalog pages and between description batches
+}
+
+export function serializeRun(run: any): ImportRun {
+  return { ...run, _id: run._id?.toString() };
+}
+
+async function ensureProblemIndexes(db: Db) {
+  const collection = db.collection(COLLECTIONS.PROBLEMS);
+  await collection.createIndex({ titleSlug: 1 }, { unique: true });
+  await collection.createIndex({ problemId: 1 });
+  await collection.createIndex({ difficulty: 1 });
+  await collection.createIndex({ topicTags: 1 });
+  await db.collection(COLLECTIONS.IMPORT_CHANGES).createIndex({ runId: 1, kind: 1 });
+}
+
+// Descriptions for the problems on a page that were never checked, in
+// batches spaced `delayMs` apart. Only slugs in the result were checked; a
+// failed batch is logged and retried by the next run
+async function fetchMissingDescriptions(
+  problems: CatalogProblem[],
+  stored: Map<string, Pick<CatalogProblem, "descriptionCheckedAt">>,
+  options: CatalogFetchOptions,
+  delayMs: number
+): Promise<Map<string, string | undefined>> {
+  const missing = problems.filter(problem => !stored.get(problem.titleSlug)?.descriptionCheckedAt).map(p => p.titleSlug);
+  const descriptions = new Map<string, string | undefined>();
+
+  for (let i = 0; i < missing.length; i += DESCRIPTION_BATCH_SIZE) {
+    if (i > 0 && delayMs > 0) {
+      await new Promise(resolve => setTimeout(resolve, delayMs));
+    }
+    const batch = missing.slice(i, i + DESCRIPTION_BATCH_SIZE);
+    try {
+      for (const [slug, description] of await fetchProblemDescriptions(batch, options)) {
+        descriptions.set(slug, description);
+      }
+    } catch (error) {
+      console.error(`Failed to fetch descriptions for ${batch.join(", ")}:`, error);
+    }
+  }
+  return descriptions;
+}
+
+// Upsert one page by titleSlug and record what changed
+async function importCatalogPage(
+  db: Db,
+  runId: ObjectId,
+  problems: CatalogProblem[],
+  now: Date,
+  options: CatalogFetchOptions,
+  delayMs: number
+) {
+  const collection = db.collection(COLLECTIONS.PROBLEMS);
+  const existing = await collection
+    .find({ titleSlug: { $in: problems.map(p => p.titleSlug) } })
+    .project<Pick<CatalogProblem, "titleSlug" | "title" | "difficulty" | "topicTags" | "descriptionCheckedAt">>(
+      { titleSlug: 1, title: 1, difficulty: 1, topicTags: 1, descriptionCheckedAt: 1 }
+    )
+    .toArray();
+  const bySlug = new Map(existing.map(p => [p.titleSlug, p]));
+  const descriptions = await fetchMissingDescriptions(problems, bySlug, options, delayMs);
+
+  const changes: CatalogChange[] = [];
+  let unchanged = 0;
+  for (const problem of problems) {
+    const diff = diffCatalogProblem(bySlug.get(problem.titleSlug), problem);
+    if (diff.length === 0) unchanged++;
+    changes.push(...diff);
+  }
+
+  if (problems.length > 0) {
+    await collection.bulkWrite(
+      problems.map(problem => ({
+        updateOne: {
+          filter: { titleSlug: problem.titleSlug },
+          update: {
+            $set: {
+              title: problem.title,
+              difficulty: problem.difficulty,
+              topicTags: problem.topicTags,
+              ...(problem.problemId !== undefined && { problemId: problem.problemId }),
+              ...(descriptions.has(problem.titleSlug) && {
+                descriptionCheckedAt: now,
+                ...(descriptions.get(problem.titleSlug) && { description: descriptions.get(problem.titleSlug) }),
+              }),
+              lastSeenRunId: runId,
+              updatedAt: now,
+            },
+            $setOnInsert: { importedAt: now },
+          },
+          upsert: true,
+        },
+      })),
+      { ordered: false }
+    );
+  }
+
+  if (changes.length > 0) {
+    await db.collection(COLLECTIONS.IMPORT_CHANGES).insertMany(
+      changes.map(change => ({ ...change, runId, at: now }))
+    );
+  }
+
+  return countChanges(changes, unchanged);
+}
+
+// Problems the finished run never saw are gone from the catalog
+async function removeUnseenProblems(db: Db, runId: ObjectId, now: Date): Promise<number> {
+  const collection = db.collection(COLLECTIONS.PROBLEMS);
+  const unseen = await collection
+    .find({ lastSeenRunId: { $ne: runId } })
+    .project({ titleSlug: 1, title: 1 })
+    .toArray();
+  if (unseen.length === 0) return 0;
+
+  await db.collection(COLLECTIONS.IMPORT_CHANGES).insertMany(
+    unseen.map(p => ({ kind: "removed", titleSlug: p.titleSlug, before: p.title, runId, at: now }))
+  );
+  await collection.deleteMany({ _id: { $in: unseen.map(p => p._id) } });
+
+  return unseen.length;
+}
+
+/**
+ * Import the LeetCode catalog as a resumable job. Progress is stored on an
+ * import run after every page, so a failed or interrupted import picks up
+ * from its cursor on the next call. Re-running is idempotent: problems are
+ * upserted by titleSlug and only real differences land in the changelog.
+ */
+export async function runCatalogImport(db: Db, options: ImportLeetCodeOptions = {}): Promise<{
+  success: boolean;
+  run?: ImportRun;
+  imported?: number;
+  total?: number;
+  error?: string
+}> {
+  const runs = db.collection(COLLECTIONS.IMPORT_RUNS);
+  const pageSize = options.pageSize ?? 100;
+  const delayMs = options.delayMs ?? 1000;
+  let runId: ObjectId | null = null;
+
+  try {
+    // Only the newest run is resumed; once a later run exists, older ones stay as they are
+    const latest = await runs.findOne({}, { sort: { startedAt: -1, _id: -1 } });
+    const unfinished = latest && (latest.status === "running" || latest.status === "failed") ? latest : null;
+
+    if (unfinished && options.restart) {
+      await runs.updateOne(
+        { _id: unfinished._id },
+        { $set: { status: "abandoned", error: "Abandoned by a restarted import", updatedAt: new Date() } }
+      );
+    }
+
+    if (unfinished && !options.restart) {
+      runId = unfinished._id;
+      await runs.updateOne({ _id: runId }, { $set: { status: "running", updatedAt: new Date() }, $unset: { error: "" } });
+      console.log(`Resuming LeetCode import at offset ${unfinished.cursor}`);
+    } else {
+      const now = new Date();
+      const run: Omit<ImportRun, "_id"> = {
+        status: "running",
+        cursor: 0,
+        pageSize,
+        fetched: 0,
+        counts: emptyRunCounts(),
+        startedAt: now,
+        updatedAt: now,
+      };
+      runId = (await runs.insertOne(run)).insertedId;
+      console.log("Starting LeetCode problems import...");
+    }
+
+    await ensureProblemIndexes(db);
+
+    let run = (await runs.findOne({ _id: runId }))!;
+    let pages = 0;
+
+    while (run.status === "running" && pages < (options.maxPages ?? Infinity)) {
+      console.log(`Fetching batch: skip=${run.cursor}, limit=${run.pageSize}`);
+      const page = await fetchCatalogPage(run.pageSize, run.cursor, options);
+      const now = new Date();
+
+      const counts = await importCatalogPage(db, runId, page.problems, now, options, delayMs);
+      const inc: Record<string, number> = { fetched: page.problems.length };
+      for (const [key, value] of Object.entries(counts)) {
+        inc[`counts.${key}`] = value;
+      }
+
+      const hitSafetyLimit = page.hasMore && run.cursor + run.pageSize >= MAX_CATALOG_SIZE;
+      const done = !page.hasMore || hitSafetyLimit;
+      if (hitSafetyLimit) {
+        console.warn(`Reached safety limit of ${MAX_CATALOG_SIZE} problems`);
+      }
+
+      const set: Record<string, unknown> = { cursor: run.cursor + run.pageSize, updatedAt: now };
+      if (page.total !== undefined) set.total = page.total;
+
+      // Only a run that reached the end of the catalog has seen every problem;
+      // one stopped by the safety limit would mark the rest as removed
+      if (done && !hitSafetyLimit && run.fetched + page.problems.length > 0) {
+        inc["counts.removed"] = await removeUnseenProblems(db, runId, now);
+      }
+      if (done) {
+        set.status = "completed";
+        set.finishedAt = now;
+      }
+
+      await runs.updateOne({ _id: runId }, { $set: set, $inc: inc });
+      run = (await runs.findOne({ _id: runId }))!;
+      pages++;
+
+      if (!done && delayMs > 0) {
+        // Add delay to be respectful to LeetCode servers
+        await new Promise(resolve => setTimeout(resolve, delayMs));
+      }
+    }
+
+    if (run.status === "completed") {
+      console.log("Import completed successfully");
+    }
+
+    return {
+      success: true,
+      run: serializeRun(run),
+      imported: run.fetched,
+      total: run.total ?? run.fetched,
+    };
+  } catch (error) {
+    console.error("Failed to import LeetCode problems:", error);
+    const message = error instanceof Error ? error.message : "Import failed";
+
+    if (runId) {
+      await runs.updateOne(
+        { _id: runId },
+        { $set: { status: "failed", error: message, updatedAt: new Date() } }
+      ).catch(() => {});
+    }
+
+    return { success: false, error: message };
+  }
+}
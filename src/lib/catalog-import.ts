@@ -0,0 +1,279 @@
+import type { FetchLike } from "@/lib/leetcode-sync";
+
+/**
+ * Catalog Import - fetch and diff pages of the LeetCode problem catalog
+ *
+ * The import job in leetcode-import.ts walks the catalog one page at a
+ * time, keeping its position in an import run so an interrupted import
+ * resumes where it stopped. Each incoming problem is compared with the
+ * stored one to build the run's changelog. Descriptions aren't in the page
+ * query; they are fetched in batches with fetchProblemDescriptions.
+ *
+ * Nothing here touches the database, and the fetch layer is injectable so
+ * an import can be pointed at a local fixture server.
+ */
+
+export type CatalogDifficulty = "Easy" | "Medium" | "Hard";
+
+export interface CatalogProblem {
+  title: string;
+  titleSlug: string;
+  difficulty: CatalogDifficulty;
+  topicTags: string[];
+  problemId?: number;
+  description?: string; // plain text, see fetchProblemDescriptions
+  descriptionCheckedAt?: Date; // set once LeetCode was asked, even when it had no description
+}
+
+export interface CatalogPage {
+  problems: CatalogProblem[];
+  total?: number;
+  hasMore: boolean;
+}
+
+export type CatalogChangeKind = "added" | "retitled" | "retagged" | "difficulty-changed" | "removed";
+
+export interface CatalogChange {
+  kind: CatalogChangeKind;
+  titleSlug: string;
+  before?: string | string[];
+  after?: string | string[];
+}
+
+export type ImportRunStatus = "running" | "completed" | "failed" | "abandoned"; // abandoned runs are never resumed
+
+export interface ImportRunCounts {
+  added: number;
+  retitled: number;
+  retagged: number;
+  difficultyChanged: number;
+  removed: number;
+  unchanged: number;
+}
+
+export interface ImportRun {
+  _id?: string;
+  status: ImportRunStatus;
+  cursor: number; // catalog offset of the next page to fetch
+  pageSize: number;
+  fetched: number;
+  total?: number;
+  counts: ImportRunCounts;
+  startedAt: Date;
+  updatedAt: Date;
+  finishedAt?: Date;
+  error?: string;
+}
+
+export interface CatalogFetchOptions {
+  endpoint?: string;
+  fetchImpl?: FetchLike;
+}
+
+export const DEFAULT_CATALOG_ENDPOINT = "https://leetcode.com/graphql";
+
+export function emptyRunCounts(): ImportRunCounts {
+  return { added: 0, retitled: 0, retagged: 0, difficultyChanged: 0, removed: 0, unchanged: 0 };
+}
+
+const CATALOG_PAGE_QUERY = `
+  query problemsetQuestionListV2($limit: Int!, $skip: Int!) {
+    problemsetQuestionListV2(limit: $limit, skip: $skip) {
+      questions {
+        title
+        titleSlug
+        difficulty
+        topicTags {
+          name
+        }
+        frontendQuestionId
+      }
+      totalLength
+      hasMore
+    }
+  }
+`;
+
+function toDifficulty(value: unknown): CatalogDifficulty {
+  const lower = String(value ?? "").toLowerCase();
+  if (lower === "easy") return "Easy";
+  if (lower === "hard") return "Hard";
+  return "Medium";
+}
+
+/**
+ * Fetch one page of the catalog. The endpoint defaults to
+ * LEETCODE_GRAPHQL_URL when set, so a whole import can run against a
+ * fixture server without code changes.
+ */
+export async function fetchCatalogPage(
+  limit: number,
+  skip: number,
+  options: CatalogFetchOptions = {}
+): Promise<CatalogPage> {
+  const fetchImpl = options.fetchImpl ?? fetch;
+  const endpoint = options.endpoint ?? process.env.LEETCODE_GRAPHQL_URL ?? DEFAULT_CATALOG_ENDPOINT;
+
+  const response = await fetchImpl(endpoint, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      "Referer": "https://leetcode.com/problems"
+    },
+    body: JSON.stringify({
+      query: CATALOG_PAGE_QUERY,
+      variables: { limit, skip }
+    })
+  });
+
+  if (!response.ok) {
+    throw new Error(`HTTP error! status: ${response.status}`);
+  }
+
+  const data = await response.json();
+
+  if (data.errors) {
+    throw new Error(`GraphQL error: ${JSON.stringify(data.errors)}`);
+  }
+
+  const list = data.data?.problemsetQuestionListV2 ?? {};
+  const questions: any[] = list.questions || [];
+
+  const problems = questions
+    .filter(q => q?.titleSlug)
+    .map(q => ({
+      title: q.title,
+      titleSlug: q.titleSlug,
+      difficulty: toDifficulty(q.difficulty),
+      topicTags: (q.topicTags || []).map((tag: any) => tag.name),
+      problemId: q.frontendQuestionId ? parseInt(q.frontendQuestionId) : undefined,
+    }));
+
+  return {
+    problems,
+    total: typeof list.totalLength === "number" ? list.totalLength : undefined,
+    hasMore: typeof list.hasMore === "boolean" ? list.hasMore && problems.length > 0 : problems.length === limit,
+  };
+}
+
+// Descriptions are requested for several problems at once, one aliased field each
+export const DESCRIPTION_BATCH_SIZE = 20;
+
+function questionContentQuery(count: number): string {
+  const params = Array.from({ length: count }, (_, i) => `$slug${i}: String!`).join(", ");
+  const fields = Array.from({ length: count }, (_, i) => `q${i}: question(titleSlug: $slug${i}) { content }`).join("\n    ");
+  return `
+  query questionContents(${params}) {
+    ${fields}
+  }
+`;
+}
+
+const MAX_DESCRIPTION_CHARS = 2000;
+
+const HTML_ENTITIES: Record<string, string> = { nbsp: " ", lt: "<", gt: ">", quot: '"', "#39": "'", amp: "&" };
+
+// LeetCode descriptions are HTML; keep the text, capped for embedding
+export function descriptionText(html: string): string {
+  return html
+    .replace(/<sup>/gi, "^")
+    .replace(/<[^>]+>/g, " ")
+    .replace(/&(nbsp|lt|gt|quot|#39|amp);/g, (_, name: string) => HTML_ENTITIES[name])
+    .replace(/\s+/g, " ")
+    .trim()
+    .slice(0, MAX_DESCRIPTION_CHARS);
+}
+
+/**
+ * Plain-text descriptions for up to DESCRIPTION_BATCH_SIZE problems in one
+ * request. Every slug asked for is in the result; undefined means LeetCode
+ * has no description to give (paid-only problems come back without content).
+ */
+export async function fetchProblemDescriptions(
+  titleSlugs: string[],
+  options: CatalogFetchOptions = {}
+): Promise<Map<string, string | undefined>> {
+  if (titleSlugs.length > DESCRIPTION_BATCH_SIZE) {
+    throw new Error(`At most ${DESCRIPTION_BATCH_SIZE} descriptions per request`);
+  }
+  const fetchImpl = options.fetchImpl ?? fetch;
+  const endpoint = options.endpoint ?? process.env.LEETCODE_GRAPHQL_URL ?? DEFAULT_CATALOG_ENDPOINT;
+
+  const response = await fetchImpl(endpoint, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      "Referer": "https://leetcode.com/problems"
+    },
+    body: JSON.stringify({
+      query: questionContentQuery(titleSlugs.length),
+      variables: Object.fromEntries(titleSlugs.map((slug, i) => [`slug${i}`, slug]))
+    })
+  });
+
+  if (!response.ok) {
+    throw new Error(`HTTP error! status: ${response.status}`);
+  }
+
+  const data = await response.json();
+
+  if (data.errors) {
+    throw new Error(`GraphQL error: ${JSON.stringify(data.errors)}`);
+  }
+
+  return new Map(titleSlugs.map((slug, i) => {
+    const content = data.data?.[`q${i}`]?.content;
+    return [slug, typeof content === "string" ? descriptionText(content) || undefined : undefined];
+  }));
+}
+
+function sameTags(a: string[] = [], b: string[] = []): boolean {
+  if (a.length !== b.length) return false;
+  const sorted = [...b].sort();
+  return [...a].sort().every((tag, i) => tag === sorted[i]);
+}
+
+/**
+ * What changed between the stored problem and the incoming one. An empty
+ * list means the problem is unchanged.
+ */
+export function diffCatalogProblem(
+  existing: Pick<CatalogProblem, "title" | "difficulty" | "topicTags"> | null | undefined,
+  incoming: CatalogProblem
+): CatalogChange[] {
+  const { titleSlug } = incoming;
+  if (!existing) {
+    return [{ kind: "added", titleSlug, after: incoming.title }];
+  }
+
+  const changes: CatalogChange[] = [];
+  if (existing.title !== incoming.title) {
+    changes.push({ kind: "retitled", titleSlug, before: existing.title, after: incoming.title });
+  }
+  if (!sameTags(existing.topicTags, incoming.topicTags)) {
+    changes.push({ kind: "retagged", titleSlug, before: existing.topicTags ?? [], after: incoming.topicTags });
+  }
+  if (existing.difficulty !== incoming.difficulty) {
+    changes.push({ kind: "difficulty-changed", titleSlug, before: existing.difficulty, after: incoming.difficulty });
+  }
+  return changes;
+}
+
+const COUNT_KEYS: Record<CatalogChangeKind, keyof ImportRunCounts> = {
+  "added": "added",
+  "retitled": "retitled",
+  "retagged": "retagged",
+  "difficulty-changed": "difficultyChanged",
+  "removed": "removed",
+};
+
+// Per-kind counts for a batch of changes, as a $inc document for the run
+export function countChanges(changes: CatalogChange[], unchanged: number = 0): Partial<ImportRunCounts> {
+  const counts: Partial<ImportRunCounts> = {};
+  for (const change of changes) {
+    const key = COUNT_KEYS[change.kind];
+    counts[key] = (counts[key] ?? 0) + 1;
+  }
+  if (unchanged) counts.unchanged = unchanged;
+  return counts;
+}
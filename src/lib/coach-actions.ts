@@ -0,0 +1,104 @@
+"use server";
+
+import { requireUser } from "@/lib/session";
+import {
+  deleteConversationFor,
+  findConversation,
+  listConversationsFor,
+  renameConversationFor,
+  type ConversationMessage,
+} from "@/lib/conversations";
+
+/**
+ * Coach Actions - the signed-in user's saved AI coach threads
+ *
+ * Messages are sent through POST /api/ai/chat, which streams the reply
+ * and saves both sides of the turn; these read and manage the threads.
+ */
+
+export interface ConversationSummary {
+  id: string;
+  title: string;
+  updatedAt: Date;
+  messageCount: number;
+}
+
+export async function listConversations(
+  userId: string
+): Promise<{ success: boolean; conversations?: ConversationSummary[]; error?: string }> {
+  try {
+    await requireUser(userId);
+    const docs = await listConversationsFor(userId);
+    return {
+      success: true,
+      conversations: docs.map(doc => ({
+        id: doc._id.toString(),
+        title: doc.title,
+        updatedAt: doc.updatedAt,
+        messageCount: doc.messageCount,
+      })),
+    };
+  } catch (error) {
+    console.error("Failed to list conversations:", error);
+    return { success: false, error: "Failed to list conversations" };
+  }
+}
+
+export async function getConversation(
+  userId: string,
+  conversationId: string
+): Promise<{ success: boolean; conversation?: { id: string; title: string; messages: ConversationMessage[] }; error?: string }> {
+  try {
+    await requireUser(userId);
+    const conversation = await findConversation(userId, conversationId);
+    if (!conversation) {
+      return { success: false, error: "Conversation not found" };
+    }
+
+    return {
+      success: true,
+      conversation: {
+        id: conversation._id!.toString(),
+        title: conversation.title,
+        messages: conversation.messages,
+      },
+    };
+  } catch (error) {
+    console.error("Failed to get conversation:", error);
+    return { success: false, error: "Failed to get conversation" };
+  }
+}
+
+export async function renameConversation(
+  userId: string,
+  conversationId: string,
+  title: string
+): Promise<{ success: boolean; error?: string }> {
+  try {
+    await requireUser(userId);
+    const trimmed = title.trim();
+    if (!trimmed) {
+      return { success: false, error: "Title can't be empty" };
+    }
+
+    const renamed = await renameConversationFor(userId, conversationId, trimmed.slice(0, 120));
+    return renamed ? { success: true } : { success: false, error: "Conversation not found" };
+  } catch (error) {
+    console.error("Failed to rename conversation:", error);
+    return { success: false, error: "Failed to rename conversation" };
+  }
+}
+
+export async function deleteConversation(
+  userId: string,
+  conversationId: string
+): Promise<{ success: boolean; error?: string }> {
+  try {
+    await requireUser(userId);
+    const deleted = await deleteConversationFor(userId, conversationId);
+    return deleted ? { success: true } : { success: false, error: "Conversation not found" };
+  } catch (error) {
+    console.error("Failed to delete conversation:", error);
+    return { success: false, error: "Failed to delete conversation" };
+  }
+}
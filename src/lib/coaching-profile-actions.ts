@@ -0,0 +1,80 @@
+"use server";
+
+import { getDatabase, COLLECTIONS } from "@/lib/mongodb";
+import { requireUser } from "@/lib/session";
+import {
+  compileCoachingPolicy,
+  loadCoachingProfile,
+  validateCoachingProfile,
+  type CoachingProfile,
+  type CoachingProfileUpdate,
+} from "@/lib/coaching-profile";
+
+// Get the user's coaching profile; defaults when they haven't set one
+export async function getCoachingProfile(
+  userId: string
+): Promise<{ success: boolean; profile?: CoachingProfile; error?: string }> {
+  try {
+    await requireUser(userId);
+    const db = await getDatabase();
+    if (!db) {
+      return { success: false, error: "Database not available" };
+    }
+
+    return { success: true, profile: await loadCoachingProfile(db, userId) };
+  } catch (error) {
+    console.error("Failed to get coaching profile:", error);
+    return { success: false, error: "Failed to get coaching profile" };
+  }
+}
+
+// Update the coaching profile; applies to the next prompt
+export async function updateCoachingProfile(
+  userId: string,
+  updates: CoachingProfileUpdate
+): Promise<{ success: boolean; profile?: CoachingProfile; error?: string }> {
+  try {
+    await requireUser(userId);
+    const db = await getDatabase();
+    if (!db) {
+      return { success: false, error: "Database not available" };
+    }
+
+    const { profile, error } = validateCoachingProfile(updates);
+    if (error) {
+      return { success: false, error };
+    }
+
+    // Cleared optional fields are stored as null so they don't fall back to an old value
+    await db.collection(COLLECTIONS.COACHING_PROFILES).updateOne(
+      { userId },
+      {
+        $set: {
+          ...Object.fromEntries(Object.keys(profile!).map(key => [key, profile![key as keyof CoachingProfileUpdate] ?? null])),
+          userId,
+          updatedAt: new Date(),
+        },
+      },
+      { upsert: true }
+    );
+
+    return { success: true, profile: await loadCoachingProfile(db, userId) };
+  } catch (error) {
+    console.error("Failed to update coaching profile:", error);
+    return { success: false, error: "Failed to update coaching profile" };
+  }
+}
+
+// The profile compiled into prompt instructions, for flows that build their own prompt
+export async function getCoachingPolicy(
+  userId: string
+): Promise<{ success: boolean; policy?: string; error?: string }> {
+  try {
+    await requireUser(userId);
+    const db = await getDatabase();
+    return { success: true, policy: compileCoachingPolicy(await loadCoachingProfile(db, userId)) };
+  } catch (error) {
+    console.error("Failed to get coaching policy:", error);
+    return { success: false, error: "Failed to get coaching policy" };
+  }
+}
@@ -0,0 +1,180 @@
+import type { Db } from "mongodb";
+import { COLLECTIONS } from "@/lib/mongodb";
+import { difficulties, type Difficulty } from "@/lib/types";
+
+/**
+ * Coaching Profile - what the user is preparing for
+ *
+ * Stored per user and compiled into a short policy that goes into every
+ * suggestion prompt: which difficulties to suggest, how close the interview
+ * is, which companies to aim at, how much time a day there is and which
+ * languages to write examples in. The same profile filters the problem pool
+ * the AI picks from, so a model that ignores the policy still can't suggest
+ * a difficulty the user ruled out.
+ */
+
+export const EXPERIENCE_LEVELS = ["student", "junior", "mid", "senior", "staff"] as const;
+export type ExperienceLevel = (typeof EXPERIENCE_LEVELS)[number];
+
+export const EXPERIENCE_LEVEL_LABELS: Record<ExperienceLevel, string> = {
+  student: "Student / new grad",
+  junior: "Junior engineer",
+  mid: "Mid-level engineer",
+  senior: "Senior engineer",
+  staff: "Staff+ engineer",
+};
+
+export interface CoachingProfile {
+  targetCompanies: string[];
+  interviewDate?: string; // YYYY-MM-DD
+  allowedDifficulties: Difficulty[];
+  dailyMinutes?: number;
+  preferredLanguages: string[];
+  experienceLevel?: ExperienceLevel; // self-described; the solved counts are shown alongside
+  updatedAt?: Date;
+}
+
+// An empty date, zero minutes or empty level clears that field
+export type CoachingProfileUpdate = Partial<Omit<CoachingProfile, "updatedAt" | "experienceLevel">> & {
+  experienceLevel?: ExperienceLevel | "";
+};
+
+// Easy and Medium until the user says otherwise, as before profiles existed
+export const DEFAULT_COACHING_PROFILE: CoachingProfile = {
+  targetCompanies: [],
+  allowedDifficulties: ["Easy", "Medium"],
+  preferredLanguages: [],
+};
+
+const MAX_LIST_ITEMS = 10;
+const MAX_DAILY_MINUTES = 600;
+
+// Rough time to work through one problem, for sizing plans to the daily budget
+const MINUTES_PER_PROBLEM: Record<Difficulty, number> = { Easy: 20, Medium: 40, Hard: 60 };
+
+function cleanList(values: string[] | undefined): string[] {
+  const seen = new Set<string>();
+  return (values ?? [])
+    .map(value => value.trim())
+    .filter(value => value && !seen.has(value.toLowerCase()) && seen.add(value.toLowerCase()))
+    .slice(0, MAX_LIST_ITEMS);
+}
+
+export async function loadCoachingProfile(db: Db | null, userId: string): Promise<CoachingProfile> {
+  const doc = db ? await db.collection(COLLECTIONS.COACHING_PROFILES).findOne({ userId }) : null;
+  if (!doc) return { ...DEFAULT_COACHING_PROFILE };
+
+  const allowed = (doc.allowedDifficulties ?? []).filter((d: string) => difficulties.includes(d as Difficulty));
+  return {
+    targetCompanies: doc.targetCompanies ?? [],
+    interviewDate: doc.interviewDate || undefined,
+    allowedDifficulties: allowed.length > 0 ? allowed : DEFAULT_COACHING_PROFILE.allowedDifficulties,
+    dailyMinutes: doc.dailyMinutes || undefined,
+    preferredLanguages: doc.preferredLanguages ?? [],
+    experienceLevel: doc.experienceLevel || undefined,
+    updatedAt: doc.updatedAt,
+  };
+}
+
+/**
+ * Check and normalise an update. Returns the fields to store, or an error
+ * message for the first invalid one.
+ */
+export function validateCoachingProfile(
+  updates: CoachingProfileUpdate
+): { profile: CoachingProfileUpdate; error?: undefined } | { profile?: undefined; error: string } {
+  const profile: CoachingProfileUpdate = {};
+
+  if (updates.allowedDifficulties !== undefined) {
+    const allowed = difficulties.filter(d => updates.allowedDifficulties!.includes(d));
+    if (allowed.length === 0 || allowed.length !== new Set(updates.allowedDifficulties).size) {
+      return { error: "Choose at least one of Easy, Medium and Hard" };
+    }
+    profile.allowedDifficulties = allowed;
+  }
+
+  if (updates.interviewDate !== undefined) {
+    if (updates.interviewDate && (!/^\d{4}-\d{2}-\d{2}$/.test(updates.interviewDate) || isNaN(Date.parse(updates.interviewDate)))) {
+      return { error: "Interview date must be a valid date" };
+    }
+    profile.interviewDate = updates.interviewDate || undefined;
+  }
+
+  if (updates.dailyMinutes !== undefined) {
+    if (updates.dailyMinutes && (!Number.isInteger(updates.dailyMinutes) || updates.dailyMinutes < 10 || updates.dailyMinutes > MAX_DAILY_MINUTES)) {
+      return { error: `Daily time must be between 10 and ${MAX_DAILY_MINUTES} minutes` };
+    }
+    profile.dailyMinutes = updates.dailyMinutes || undefined;
+  }
+
+  if (updates.experienceLevel !== undefined) {
+    if (updates.experienceLevel && !EXPERIENCE_LEVELS.includes(updates.experienceLevel as ExperienceLevel)) {
+      return { error: "Unknown experience level" };
+    }
+    profile.experienceLevel = updates.experienceLevel || undefined;
+  }
+
+  if (updates.targetCompanies !== undefined) profile.targetCompanies = cleanList(updates.targetCompanies);
+  if (updates.preferredLanguages !== undefined) profile.preferredLanguages = cleanList(updates.preferredLanguages);
+
+  return { profile };
+}
+
+export function allowsDifficulty(profile: CoachingProfile, difficulty: string): boolean {
+  return profile.allowedDifficulties.some(d => d.toLowerCase() === difficulty.toLowerCase());
+}
+
+// Whole days from today until the interview; undefined when unset or past
+export function daysUntilInterview(profile: CoachingProfile, now: Date = new Date()): number | undefined {
+  if (!profile.interviewDate) return undefined;
+  const today = Date.UTC(now.getFullYear(), now.getMonth(), now.getDate());
+  const days = Math.round((Date.parse(profile.interviewDate) - today) / 86_400_000);
+  return days >= 0 ? days : undefined;
+}
+
+/**
+ * The profile as prompt instructions, most important first. The difficulty
+ * line is always there; the rest only when the user filled them in.
+ */
+export function coachingPolicyLines(profile: CoachingProfile, now: Date = new Date()): string[] {
+  const allowed = profile.allowedDifficulties;
+  const excluded = difficulties.filter(d => !allowed.includes(d));
+  const lines = [
+    excluded.length === 0
+      ? "Difficulties: any, including Hard; pick what stretches the user"
+      : `Difficulties: only suggest ${allowed.join(" and ")} problems; never ${excluded.join(" or ")}`,
+  ];
+
+  if (profile.experienceLevel) {
+    lines.push(`Experience: ${EXPERIENCE_LEVEL_LABELS[profile.experienceLevel].toLowerCase()}; pitch explanations at that level`);
+  }
+
+  const days = daysUntilInterview(profile, now);
+  if (days !== undefined) {
+    const pace = days <= 14
+      ? "prioritise the most frequently asked problems and revisiting known patterns over new topics"
+      : days <= 60
+        ? "cover the core interview patterns first, then widen"
+        : "build breadth steadily across topics";
+    lines.push(`Interview in ${days} day${days === 1 ? "" : "s"} (${profile.interviewDate}): ${pace}`);
+  }
+
+  if (profile.targetCompanies.length > 0) {
+    lines.push(`Target companies: ${profile.targetCompanies.join(", ")}; favour problems and patterns they are known to ask`);
+  }
+
+  if (profile.dailyMinutes) {
+    const perProblem = allowed.map(d => `${d} ~${MINUTES_PER_PROBLEM[d]}`).join(", ");
+    lines.push(`Daily time: ${profile.dailyMinutes} minutes; size plans to fit (minutes per problem: ${perProblem})`);
+  }
+
+  if (profile.preferredLanguages.length > 0) {
+    lines.push(`Languages: ${profile.preferredLanguages.join(", ")}; write code in ${profile.preferredLanguages[0]}`);
+  }
+
+  return lines;
+}
+
+export function compileCoachingPolicy(profile: CoachingProfile, now: Date = new Date()): string {
+  return coachingPolicyLines(profile, now).map(line => `- ${line}`).join("\n");
+}
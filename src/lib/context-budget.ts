@@ -0,0 +1,161 @@
+import { Tiktoken } from "js-tiktoken/lite";
+import cl100k_base from "js-tiktoken/ranks/cl100k_base";
+import o200k_base from "js-tiktoken/ranks/o200k_base";
+import type { AIProvider } from "@/lib/ai-client";
+
+/**
+ * Context Budget - fits the user context into a token budget
+ *
+ * The context is split into sections (profile, coaching policy, notes,
+ * related problems, focus), each a list of lines in priority order. Sections are ranked by
+ * relevance to the user's query and get a share of the budget to match;
+ * whatever doesn't fit is dropped and listed in the report. Sections are
+ * printed in their usual order regardless.
+ *
+ * Tokens are counted with the OpenAI tokenizers. Other providers use
+ * different vocabularies, so their counts are scaled by a safety factor
+ * rather than trusted exactly.
+ */
+
+export type ContextSectionId = "profile" | "coaching" | "memories" | "problems" | "focus" | "guidance";
+
+export interface ContextSection {
+  id: ContextSectionId;
+  heading?: string;
+  lines: string[]; // most important first
+  relevance: number; // 0-1; `required` sections go first regardless
+  required?: boolean;
+}
+
+export interface DroppedContext {
+  section: ContextSectionId;
+  lines: number; // lines left out
+  total: number; // lines the section had
+}
+
+export interface ContextBudgetReport {
+  limit: number;
+  used: number;
+  dropped: DroppedContext[];
+}
+
+// Tokens of user context per provider; the system prompt's own instructions come on top
+export const CONTEXT_TOKEN_LIMITS: Record<AIProvider, number> = {
+  openai: 1500,
+  google: 1500,
+  anthropic: 1500,
+  genkit: 1500,
+  local: 800, // small context windows, and every token is slow on a CPU
+};
+
+// Other vocabularies split text into more pieces than cl100k_base
+const TOKEN_FACTORS: Record<AIProvider, number> = {
+  openai: 1,
+  google: 1.1,
+  anthropic: 1.2,
+  genkit: 1.1,
+  local: 1.2,
+};
+
+const SECTION_ORDER: ContextSectionId[] = ["profile", "coaching", "memories", "problems", "focus", "guidance"];
+
+const encoders = new Map<string, Tiktoken>();
+
+function encoderFor(provider: AIProvider, model?: string): Tiktoken {
+  const name = provider === "openai" && model && /^(gpt-4o|gpt-4\.1|gpt-5|o\d)/.test(model) ? "o200k_base" : "cl100k_base";
+  if (!encoders.has(name)) {
+    encoders.set(name, new Tiktoken(name === "o200k_base" ? o200k_base : cl100k_base));
+  }
+  return encoders.get(name)!;
+}
+
+export function countTokens(text: string, provider: AIProvider = "openai", model?: string): number {
+  if (!text) return 0;
+  return Math.ceil(encoderFor(provider, model).encode(text).length * TOKEN_FACTORS[provider]);
+}
+
+// Budget for a request that may go to any provider in `chain`: the smallest one's
+export function contextTokenLimit(chain: AIProvider[]): number {
+  const fromEnv = Number(process.env.AI_CONTEXT_MAX_TOKENS);
+  if (fromEnv > 0) return fromEnv;
+  return Math.min(...chain.map(provider => CONTEXT_TOKEN_LIMITS[provider]));
+}
+
+// Share of the query's words that appear in `text`, 0-1
+export function queryOverlap(query: string | undefined, text: string): number {
+  const words = new Set((query ?? "").toLowerCase().match(/[a-z0-9]{3,}/g) ?? []);
+  if (words.size === 0) return 0;
+
+  const lower = text.toLowerCase();
+  return [...words].filter(word => lower.includes(word)).length / words.size;
+}
+
+/**
+ * Fill `sections` into `limit` tokens. Required sections go in first; the
+ * rest of the budget is shared out by relevance, and whatever a section
+ * leaves unused goes to the next most relevant one. Lines are kept whole:
+ * a line that doesn't fit is dropped and shorter lines after it may still
+ * go in.
+ */
+export function fitSections(
+  sections: ContextSection[],
+  limit: number,
+  provider: AIProvider = "openai",
+  model?: string
+): { text: string; report: ContextBudgetReport } {
+  const ranked = sections
+    .filter(section => section.lines.length > 0)
+    .sort((a, b) => Number(b.required ?? false) - Number(a.required ?? false) || b.relevance - a.relevance);
+
+  const costs = new Map(ranked.map(section => [section.id, section.lines.map(line => countTokens(`${line}\n`, provider, model))]));
+  const kept = new Map(ranked.map(section => [section.id, section.lines.map(() => false)]));
+  let used = 0;
+
+  // Add the section's remaining lines, in order, while they fit in `allowance`
+  const fill = (section: ContextSection, allowance: number) => {
+    const lineCosts = costs.get(section.id)!;
+    const flags = kept.get(section.id)!;
+    const headingCost = section.heading ? countTokens(`\n${section.heading}\n`, provider, model) : 0;
+    let spent = 0;
+    lineCosts.forEach((lineCost, index) => {
+      if (flags[index]) return;
+      const cost = lineCost + (flags.some(Boolean) ? 0 : headingCost);
+      if (spent + cost > allowance || used + cost > limit) return;
+      flags[index] = true;
+      spent += cost;
+      used += cost;
+    });
+  };
+
+  const required = ranked.filter(section => section.required);
+  const optional = ranked.filter(section => !section.required);
+  required.forEach(section => fill(section, limit));
+
+  const shared = limit - used;
+  const totalRelevance = optional.reduce((sum, section) => sum + section.relevance, 0) || 1;
+  optional.forEach(section => fill(section, Math.floor(shared * section.relevance / totalRelevance)));
+  optional.forEach(section => fill(section, limit));
+
+  const dropped: DroppedContext[] = [];
+  for (const section of ranked) {
+    const missing = kept.get(section.id)!.filter(flag => !flag).length;
+    if (missing > 0) dropped.push({ section: section.id, lines: missing, total: section.lines.length });
+  }
+
+  const text = SECTION_ORDER
+    .flatMap(id => ranked.filter(section => section.id === id))
+    .map(section => {
+      const lines = section.lines.filter((_, index) => kept.get(section.id)![index]);
+      return lines.length > 0 ? [section.heading, ...lines].filter(Boolean).join("\n") : "";
+    })
+    .filter(Boolean)
+    .join("\n\n");
+
+  return { text, report: { limit, used, dropped } };
+}
+
+export function describeDropped(report: ContextBudgetReport): string {
+  return report.dropped
+    .map(d => d.lines === d.total ? `${d.section} (all ${d.total})` : `${d.section} (${d.lines} of ${d.total})`)
+    .join(", ");
+}
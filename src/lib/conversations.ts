@@ -0,0 +1,103 @@
+import { ObjectId } from "mongodb";
+import { getDatabase, COLLECTIONS } from "@/lib/mongodb";
+import type { AIProvider, ChatMessage } from "@/lib/ai-client";
+
+/**
+ * Conversations - saved AI coach threads
+ *
+ * One document per thread holding its messages in order. The chat route
+ * saves the user's message and the reply together once the stream ends,
+ * creating the thread with its first turn, so a failed request leaves
+ * nothing behind; only the last MAX_HISTORY_MESSAGES are sent back to the
+ * provider on each turn.
+ */
+
+export const MAX_HISTORY_MESSAGES = 20;
+
+const TITLE_LENGTH = 60;
+
+export interface ConversationMessage extends ChatMessage {
+  createdAt: Date;
+  provider?: AIProvider; // who wrote an assistant reply
+  interrupted?: boolean; // the stream stopped before the reply was finished
+}
+
+export interface Conversation {
+  _id?: ObjectId;
+  userId: string;
+  title: string;
+  messages: ConversationMessage[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+async function conversations() {
+  const db = await getDatabase();
+  if (!db) {
+    throw new Error("Database not available");
+  }
+  return db.collection<Conversation>(COLLECTIONS.AI_CONVERSATIONS);
+}
+
+// The first line of the opening message, shortened
+export function conversationTitle(message: string): string {
+  const line = message.trim().split("\n")[0].replace(/\s+/g, " ");
+  return line.length > TITLE_LENGTH ? `${line.slice(0, TITLE_LENGTH - 1)}…` : line || "New conversation";
+}
+
+// What the provider sees of the thread: the latest messages, starting with a user turn
+export function historyForPrompt(messages: ConversationMessage[]): ChatMessage[] {
+  const recent = messages.slice(-MAX_HISTORY_MESSAGES);
+  const start = recent.findIndex(m => m.role === "user");
+  return start === -1 ? [] : recent.slice(start).map(({ role, content }) => ({ role, content }));
+}
+
+export async function findConversation(userId: string, conversationId: string): Promise<Conversation | null> {
+  if (!ObjectId.isValid(conversationId)) return null;
+  return (await conversations()).findOne({ _id: new ObjectId(conversationId), userId });
+}
+
+// Add messages to a thread; with a `title`, a thread that doesn't exist yet is created
+export async function appendMessages(
+  userId: string,
+  conversationId: ObjectId,
+  messages: ConversationMessage[],
+  title?: string
+) {
+  const now = new Date();
+  await (await conversations()).updateOne(
+    { _id: conversationId, userId },
+    {
+      $push: { messages: { $each: messages } },
+      $set: { updatedAt: now },
+      ...(title ? { $setOnInsert: { title, createdAt: now } } : {}),
+    },
+    { upsert: !!title }
+  );
+}
+
+export async function listConversationsFor(userId: string, limit = 50) {
+  return (await conversations())
+    .aggregate<{ _id: ObjectId; title: string; updatedAt: Date; messageCount: number }>([
+      { $match: { userId } },
+      { $sort: { updatedAt: -1 } },
+      { $limit: limit },
+      { $project: { title: 1, updatedAt: 1, messageCount: { $size: "$messages" } } },
+    ])
+    .toArray();
+}
+
+export async function renameConversationFor(userId: string, conversationId: string, title: string): Promise<boolean> {
+  if (!ObjectId.isValid(conversationId)) return false;
+  const result = await (await conversations()).updateOne(
+    { _id: new ObjectId(conversationId), userId },
+    { $set: { title, updatedAt: new Date() } }
+  );
+  return result.matchedCount > 0;
+}
+
+export async function deleteConversationFor(userId: string, conversationId: string): Promise<boolean> {
+  if (!ObjectId.isValid(conversationId)) return false;
+  const result = await (await conversations()).deleteOne({ _id: new ObjectId(conversationId), userId });
+  return result.deletedCount > 0;
+}
@@ -0,0 +1,526 @@
+"use client";
+
+import { z } from "zod";
+import { db } from "@/lib/firebase";
+import { collection, doc, getDocs, orderBy, query, writeBatch } from "firebase/firestore";
+import { CacheUtils } from "@/lib/cache";
+import { isTrashed } from "@/lib/trash";
+import { parseLeetCodeUrl } from "@/lib/problem-lookup";
+import { createSnippet, deleteSnippet, getUserSnippets } from "@/lib/snippet-actions";
+import { createBackup } from "@/lib/backup-actions";
+import {
+  difficulties,
+  programmingLanguages,
+  questionStatuses,
+  type DailyQuestion,
+  type ExportData,
+  type Topic,
+  type TopicNote,
+  type TopicQuestion,
+} from "@/lib/types";
+
+/**
+ * Data Transfer - export a user's data and load it back
+ *
+ * Import runs in three steps so nothing is written before the user has
+ * seen what will happen:
+ * 1. parseExportData validates the file against the export schema
+ * 2. planImport compares it with the current data and produces a plan
+ *    (the dry-run preview): new ids, skipped duplicates, deletions
+ * 3. applyImportPlan writes the plan; replace backs up the current data
+ *    first and deletes it only once everything new is written
+ *
+ * Of the Mongo stores in a 2.0 archive only snippets are imported. Solved
+ * problems, review cards, the review log and memories are counted in the
+ * plan as not imported; restoring a backup brings those back.
+ */
+
+// 1.0: Firestore data only; 2.0: the server-side archive with Mongo stores (see export-archive.ts)
+export const SUPPORTED_EXPORT_VERSIONS = ["1.0", "2.0"];
+
+// 2.0 stores an import can't write, with how the preview names them
+const UNSUPPORTED_STORES = {
+  solved: "solved problems",
+  reviews: "review cards",
+  reviewLogs: "review log entries",
+  memories: "memories",
+} as const;
+
+export type ImportMode = "merge" | "replace";
+
+// ============ Export ============
+
+// The stores an import writes to, read from the browser: Firestore data and
+// snippets. Full backups come from /api/export, which adds the rest.
+export async function fetchExportData(user: {
+  uid: string;
+  email?: string | null;
+  displayName?: string | null;
+}): Promise<ExportData> {
+  // Fetch topics with their questions and notes
+  const topicsRef = collection(db, "users", user.uid, "topics");
+  const topicsSnapshot = await getDocs(query(topicsRef, orderBy("createdAt", "desc")));
+
+  const topics: (Topic & { questions: TopicQuestion[]; notes: TopicNote[] })[] = [];
+
+  for (const topicDoc of topicsSnapshot.docs) {
+    const topicData = { id: topicDoc.id, ...topicDoc.data() } as Topic;
+    if (isTrashed(topicData)) continue;
+
+    // Fetch questions for this topic
+    const questionsRef = collection(db, "users", user.uid, "topics", topicDoc.id, "questions");
+    const questionsSnapshot = await getDocs(questionsRef);
+    const questions = (questionsSnapshot.docs.map(doc => ({
+      id: doc.id,
+      ...doc.data()
+    })) as TopicQuestion[]).filter(question => !isTrashed(question));
+
+    // Fetch notes for this topic
+    const notesRef = collection(db, "users", user.uid, "topics", topicDoc.id, "notes");
+    const notesSnapshot = await getDocs(notesRef);
+    const notes = (notesSnapshot.docs.map(doc => ({
+      id: doc.id,
+      ...doc.data()
+    })) as TopicNote[]).filter(note => !isTrashed(note));
+
+    topics.push({ ...topicData, questions, notes });
+  }
+
+  // Fetch daily questions
+  const dailyRef = collection(db, "users", user.uid, "dailyQuestions");
+  const dailySnapshot = await getDocs(query(dailyRef, orderBy("createdAt", "desc")));
+  const dailyQuestions = dailySnapshot.docs.map(doc => ({
+    id: doc.id,
+    ...doc.data()
+  })) as DailyQuestion[];
+
+  // Fetch snippets
+  const snippetsResult = await getUserSnippets(user.uid);
+  const snippets = (snippetsResult.snippets || []).map(({ _id, ...snippet }) => ({
+    ...snippet,
+    id: snippet.id ?? String(_id),
+  }));
+
+  return {
+    exportedAt: new Date().toISOString(),
+    version: "1.0",
+    user: {
+      uid: user.uid,
+      email: user.email || undefined,
+      displayName: user.displayName || undefined,
+    },
+    topics,
+    dailyQuestions,
+    snippets,
+  };
+}
+
+// ============ Validation ============
+
+// Firestore Timestamps serialize as { seconds, nanoseconds }; accept ISO strings and millis too
+const timestampSchema = z.preprocess(value => {
+  if (value === null || value === undefined || value === "") return undefined;
+  if (typeof value === "string" || typeof value === "number") return new Date(value);
+  if (typeof value === "object") {
+    const raw = value as { seconds?: number; _seconds?: number };
+    const seconds = raw.seconds ?? raw._seconds;
+    if (typeof seconds === "number") return new Date(seconds * 1000);
+  }
+  return value;
+}, z.date().refine(date => !isNaN(date.getTime()), "Invalid date").optional());
+
+const questionSchema = z.object({
+  id: z.string().optional(),
+  title: z.string().min(1),
+  link: z.string().optional(),
+  leetcodeNumber: z.number().optional(),
+  difficulty: z.enum(difficulties),
+  status: z.enum(questionStatuses),
+  confidence: z.number().min(1).max(5).optional(),
+  patterns: z.array(z.string()).optional(),
+  topicTags: z.array(z.string()).optional(),
+  companies: z.array(z.string()).optional(),
+  timeComplexity: z.string().optional(),
+  spaceComplexity: z.string().optional(),
+  personalNotes: z.string().optional(),
+  approach: z.string().optional(),
+  keyInsights: z.string().optional(),
+  attemptCount: z.number().optional(),
+  lastSolved: timestampSchema,
+  nextReviewDate: timestampSchema,
+  reviewInterval: z.number().optional(),
+  createdAt: timestampSchema,
+});
+
+const noteSchema = z.object({
+  id: z.string().optional(),
+  content: z.string().min(1),
+  type: z.enum(["text", "code"]).default("text"),
+  createdAt: timestampSchema,
+});
+
+const topicSchema = z.object({
+  id: z.string().optional(),
+  name: z.string().min(1),
+  description: z.string().default(""),
+  createdAt: timestampSchema,
+  questions: z.array(questionSchema).default([]),
+  notes: z.array(noteSchema).default([]),
+});
+
+const dailyQuestionSchema = z.object({
+  id: z.string().optional(),
+  leetcodeId: z.number(),
+  title: z.string().optional(),
+  difficulty: z.string().optional(),
+  titleSlug: z.string().optional(),
+  link: z.string().optional(),
+  topicRef: z.string().optional(),
+  note: z.string().optional(),
+  source: z.string().optional(),
+  createdAt: timestampSchema,
+});
+
+const snippetSchema = z.object({
+  id: z.string().optional(),
+  title: z.string().min(1),
+  description: z.string().optional(),
+  code: z.string().min(1),
+  language: z.enum(programmingLanguages),
+  tags: z.array(z.string()).default([]),
+  // Mongo snippet fields, present from version 2.0
+  relatedProblems: z.array(z.string()).default([]),
+  difficulty: z.enum(difficulties).optional(),
+  category: z.enum(["algorithm", "data-structure", "pattern", "utility", "template"]).default("algorithm"),
+  isPublic: z.boolean().default(false),
+  createdAt: timestampSchema,
+  updatedAt: timestampSchema,
+});
+
+export const exportDataSchema = z.object({
+  exportedAt: z.string(),
+  version: z.string().refine(
+    version => SUPPORTED_EXPORT_VERSIONS.includes(version),
+    version => ({ message: `Unsupported export version "${version}"` })
+  ),
+  user: z.object({
+    uid: z.string(),
+    email: z.string().optional(),
+    displayName: z.string().optional(),
+  }),
+  topics: z.array(topicSchema).default([]),
+  dailyQuestions: z.array(dailyQuestionSchema).default([]),
+  snippets: z.array(snippetSchema).default([]),
+  // Not imported; kept only to report what the file holds (see UNSUPPORTED_STORES)
+  solved: z.array(z.unknown()).default([]),
+  reviews: z.array(z.unknown()).default([]),
+  reviewLogs: z.array(z.unknown()).default([]),
+  memories: z.array(z.unknown()).default([]),
+});
+
+export type ParsedExport = z.infer<typeof exportDataSchema>;
+
+export function parseExportData(
+  raw: unknown
+): { success: true; data: ParsedExport } | { success: false; errors: string[] } {
+  const result = exportDataSchema.safeParse(raw);
+  if (result.success) {
+    return { success: true, data: result.data };
+  }
+  return {
+    success: false,
+    errors: result.error.issues.slice(0, 10).map(issue =>
+      issue.path.length ? `${issue.path.join(".")}: ${issue.message}` : issue.message
+    ),
+  };
+}
+
+// ============ Planning (dry run) ============
+
+type FirestoreCreate = {
+  path: string; // collection path
+  docId: string;
+  data: Record<string, unknown>;
+};
+
+export interface ImportPlan {
+  mode: ImportMode;
+  topics: { name: string; action: "create" | "merge"; questions: number; notes: number }[];
+  creates: FirestoreCreate[];
+  snippets: Omit<ParsedExport["snippets"][number], "id" | "createdAt" | "updatedAt">[];
+  deletes: {
+    topics: { id: string; cascade: string[] }[];
+    dailyQuestions: string[];
+    snippets: string[];
+  };
+  skipped: { label: string; reason: string }[];
+  unsupported: { store: keyof typeof UNSUPPORTED_STORES; label: string; count: number }[]; // in the file, not imported
+  idMap: Record<string, string>; // exported topic id -> id in this account
+  summary: {
+    topicsCreated: number;
+    topicsMerged: number;
+    questions: number;
+    notes: number;
+    dailyQuestions: number;
+    snippets: number;
+    duplicatesSkipped: number;
+  };
+}
+
+export interface ExistingData {
+  data: ExportData;
+  snippets: { id?: string; title: string; code: string }[];
+}
+
+// Questions are the same problem when their LeetCode slugs match
+export function questionKey(question: { link?: string; title: string }): string {
+  const slug = question.link ? parseLeetCodeUrl(question.link).slug : undefined;
+  return slug || question.title.trim().toLowerCase().replace(/[^a-z0-9]+/g, "-");
+}
+
+function snippetKey(snippet: { title: string; code: string }): string {
+  return `${snippet.title.trim().toLowerCase()}\n${snippet.code.trim()}`;
+}
+
+function withoutUndefined(data: Record<string, unknown>) {
+  return Object.fromEntries(Object.entries(data).filter(([, value]) => value !== undefined));
+}
+
+/**
+ * Work out every write an import would make, without writing anything.
+ * Merge keeps current data, joins topics by name and skips duplicates;
+ * replace swaps the current data out.
+ */
+export function planImport(
+  userId: string,
+  incoming: ParsedExport,
+  existing: ExistingData,
+  mode: ImportMode,
+  newId: (path: string) => string
+): ImportPlan {
+  const plan: ImportPlan = {
+    mode,
+    topics: [],
+    creates: [],
+    snippets: [],
+    deletes: { topics: [], dailyQuestions: [], snippets: [] },
+    skipped: [],
+    unsupported: (Object.keys(UNSUPPORTED_STORES) as (keyof typeof UNSUPPORTED_STORES)[])
+      .map(store => ({ store, label: UNSUPPORTED_STORES[store], count: incoming[store].length }))
+      .filter(entry => entry.count > 0),
+    idMap: {},
+    summary: {
+      topicsCreated: 0,
+      topicsMerged: 0,
+      questions: 0,
+      notes: 0,
+      dailyQuestions: 0,
+      snippets: 0,
+      duplicatesSkipped: 0,
+    },
+  };
+
+  const skip = (label: string, reason: string) => {
+    plan.skipped.push({ label, reason });
+    plan.summary.duplicatesSkipped++;
+  };
+
+  const kept = mode === "merge" ? existing.data : { ...existing.data, topics: [], dailyQuestions: [] };
+  if (mode === "replace") {
+    plan.deletes.topics = existing.data.topics.map(t => ({ id: t.id, cascade: ["questions", "notes"] }));
+    plan.deletes.dailyQuestions = existing.data.dailyQuestions.map(d => d.id);
+    plan.deletes.snippets = existing.snippets.map(s => s.id).filter((id): id is string => !!id);
+  }
+
+  const topicsByName = new Map(kept.topics.map(t => [t.name.trim().toLowerCase(), t]));
+  const topicsPath = `users/${userId}/topics`;
+
+  for (const topic of incoming.topics) {
+    const match = topicsByName.get(topic.name.trim().toLowerCase());
+    const topicId = match?.id ?? newId(topicsPath);
+    if (topic.id) plan.idMap[topic.id] = topicId;
+
+    if (!match) {
+      plan.creates.push({
+        path: topicsPath,
+        docId: topicId,
+        data: { name: topic.name, description: topic.description, createdAt: topic.createdAt ?? new Date() },
+      });
+      plan.summary.topicsCreated++;
+    } else {
+      plan.summary.topicsMerged++;
+    }
+
+    const questionKeys = new Set((match?.questions ?? []).map(questionKey));
+    const noteContents = new Set((match?.notes ?? []).map(n => n.content.trim()));
+    const questionsPath = `${topicsPath}/${topicId}/questions`;
+    const notesPath = `${topicsPath}/${topicId}/notes`;
+    let questionCount = 0;
+    let noteCount = 0;
+
+    for (const question of topic.questions) {
+      const key = questionKey(question);
+      if (questionKeys.has(key)) {
+        skip(`${topic.name} / ${question.title}`, "Question already in topic");
+        continue;
+      }
+      questionKeys.add(key);
+
+      const { id: _id, ...fields } = question;
+      plan.creates.push({
+        path: questionsPath,
+        docId: newId(questionsPath),
+        data: withoutUndefined({ ...fields, createdAt: question.createdAt ?? new Date() }),
+      });
+      questionCount++;
+    }
+
+    for (const note of topic.notes) {
+      const content = note.content.trim();
+      if (noteContents.has(content)) {
+        skip(`${topic.name} / note`, "Identical note already in topic");
+        continue;
+      }
+      noteContents.add(content);
+
+      plan.creates.push({
+        path: notesPath,
+        docId: newId(notesPath),
+        data: { content: note.content, type: note.type, createdAt: note.createdAt ?? new Date() },
+      });
+      noteCount++;
+    }
+
+    plan.topics.push({ name: topic.name, action: match ? "merge" : "create", questions: questionCount, notes: noteCount });
+    plan.summary.questions += questionCount;
+    plan.summary.notes += noteCount;
+  }
+
+  const dailyPath = `users/${userId}/dailyQuestions`;
+  const dailyIds = new Set(kept.dailyQuestions.map(d => d.leetcodeId));
+  for (const daily of incoming.dailyQuestions) {
+    if (dailyIds.has(daily.leetcodeId)) {
+      skip(`Daily #${daily.leetcodeId}`, "Already a daily question");
+      continue;
+    }
+    dailyIds.add(daily.leetcodeId);
+
+    const { id: _id, topicRef, ...fields } = daily;
+    const remappedTopic = topicRef ? plan.idMap[topicRef] : undefined;
+    plan.creates.push({
+      path: dailyPath,
+      docId: newId(dailyPath),
+      data: withoutUndefined({ ...fields, topicRef: remappedTopic, createdAt: daily.createdAt ?? new Date() }),
+    });
+    plan.summary.dailyQuestions++;
+  }
+
+  const snippetKeys = new Set(mode === "merge" ? existing.snippets.map(snippetKey) : []);
+  for (const snippet of incoming.snippets) {
+    const key = snippetKey(snippet);
+    if (snippetKeys.has(key)) {
+      skip(`Snippet "${snippet.title}"`, "Identical snippet exists");
+      continue;
+    }
+    snippetKeys.add(key);
+
+    const { id: _id, createdAt: _createdAt, updatedAt: _updatedAt, ...fields } = snippet;
+    plan.snippets.push(fields);
+    plan.summary.snippets++;
+  }
+
+  return plan;
+}
+
+// ============ Applying ============
+
+const BATCH_LIMIT = 400; // Firestore allows 500 writes per batch
+
+async function commitInBatches(writes: ((batch: ReturnType<typeof writeBatch>) => void)[]) {
+  for (let i = 0; i < writes.length; i += BATCH_LIMIT) {
+    const batch = writeBatch(db);
+    writes.slice(i, i + BATCH_LIMIT).forEach(write => write(batch));
+    await batch.commit();
+  }
+}
+
+// Current data to plan against: Firestore export plus Mongo snippets
+export async function loadExistingData(user: { uid: string; email?: string | null; displayName?: string | null }): Promise<ExistingData> {
+  const data = await fetchExportData(user);
+  return {
+    data,
+    snippets: data.snippets.map(s => ({ id: s.id, title: s.title, code: s.code })),
+  };
+}
+
+export async function applyImportPlan(
+  userId: string,
+  plan: ImportPlan,
+  onProgress?: (message: string) => void
+): Promise<{ success: boolean; error?: string; notImported?: ImportPlan["unsupported"] }> {
+  try {
+    if (plan.mode === "replace") {
+      onProgress?.("Backing up current data...");
+      const backup = await createBackup(userId, "pre-import");
+      if (!backup.success) {
+        return { success: false, error: `Couldn't back up current data, nothing was changed: ${backup.error}` };
+      }
+    }
+
+    onProgress?.(`Writing ${plan.creates.length} records...`);
+    await commitInBatches(
+      plan.creates.map(create => batch => batch.set(doc(db, create.path, create.docId), create.data))
+    );
+
+    for (const [index, snippet] of plan.snippets.entries()) {
+      onProgress?.(`Importing snippets (${index + 1}/${plan.snippets.length})...`);
+      const result = await createSnippet(userId, {
+        title: snippet.title,
+        description: snippet.description,
+        code: snippet.code,
+        language: snippet.language,
+        tags: snippet.tags,
+        relatedProblems: snippet.relatedProblems,
+        difficulty: snippet.difficulty,
+        category: snippet.category,
+        isPublic: snippet.isPublic,
+      });
+      if (!result.success) {
+        throw new Error(result.error || `Failed to import snippet "${snippet.title}"`);
+      }
+    }
+
+    // Replaced data goes last, so a failed write leaves it in place
+    if (plan.mode === "replace") {
+      onProgress?.("Removing replaced data...");
+      const deletes: ((batch: ReturnType<typeof writeBatch>) => void)[] = [];
+      for (const topic of plan.deletes.topics) {
+        const topicRef = doc(db, "users", userId, "topics", topic.id);
+        for (const child of topic.cascade) {
+          const children = await getDocs(collection(topicRef, child));
+          children.forEach(childDoc => deletes.push(batch => batch.delete(childDoc.ref)));
+        }
+        deletes.push(batch => batch.delete(topicRef));
+      }
+      for (const id of plan.deletes.dailyQuestions) {
+        deletes.push(batch => batch.delete(doc(db, "users", userId, "dailyQuestions", id)));
+      }
+      await commitInBatches(deletes);
+
+      for (const id of plan.deletes.snippets) {
+        await deleteSnippet(userId, id);
+      }
+    }
+
+    try {
+      await CacheUtils.invalidateUserCache(userId);
+    } catch (error) {
+      console.error("Failed to invalidate cache after import:", error);
+    }
+
+    return { success: true, notImported: plan.unsupported };
+  } catch (error) {
+    console.error("Import failed:", error);
+    return { success: false, error: error instanceof Error ? error.message : "Import failed" };
+  }
+}
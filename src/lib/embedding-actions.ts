@@ -0,0 +1,34 @@
+"use server";
+
+import { getDatabase } from "@/lib/mongodb";
+import { requireUser } from "@/lib/session";
+import { indexTopicNotes } from "@/lib/embedding-index";
+
+/**
+ * Embedding Actions - index upkeep for Firestore notes
+ *
+ * Notes are written from the browser, so the outbox calls this once a note
+ * or topic write has reached Firestore; the server re-reads the notes and
+ * updates their vectors (see embedding-index.ts).
+ */
+
+// Re-index one note, or every note of a topic after the topic was trashed, restored or deleted
+export async function refreshNoteEmbeddings(
+  userId: string,
+  topicId: string,
+  noteId?: string
+): Promise<{ success: boolean; error?: string }> {
+  try {
+    await requireUser(userId);
+    const db = await getDatabase();
+    if (!db) {
+      return { success: false, error: "Database not available" };
+    }
+
+    await indexTopicNotes(db, userId, topicId, noteId);
+    return { success: true };
+  } catch (error) {
+    console.error("Failed to refresh note embeddings:", error);
+    return { success: false, error: "Failed to refresh note embeddings" };
+  }
+}
@@ -0,0 +1,504 @@
+import { createHash } from "crypto";
+import { ObjectId, type Db } from "mongodb";
+import { getDatabase, COLLECTIONS, NOT_TRASHED } from "@/lib/mongodb";
+import { getAdminFirestore } from "@/lib/firebase-admin";
+import { queryCatalog } from "@/lib/problem-catalog";
+import { EMBEDDING_VERSION, embedText, embeddingFields, embeddingModelId, getEmbeddingConfig } from "@/lib/embeddings";
+import { isTrashed } from "@/lib/trash";
+import type { LeetCodeProblem } from "@/lib/types";
+
+/**
+ * Embedding Index - keeps COLLECTIONS.EMBEDDINGS in step with the content
+ * it was built from
+ *
+ * Every searchable item (memory, snippet, note, catalog problem) has one
+ * vector document keyed by { type, sourceId }. Writes call the index*
+ * functions, which store the item's text and mark the vector stale when
+ * the text changed; deletes remove the vector. A background drain embeds
+ * stale vectors, user content before catalog problems. Vectors from
+ * another model or EMBEDDING_VERSION count as stale too.
+ *
+ * Searches only use FRESH_VECTORS and look the source up again, so an
+ * edit, delete or model switch never surfaces an outdated match.
+ * syncEmbeddingSources() reconciles everything with the sources for
+ * writes that bypassed these hooks (imports, restores) and removes
+ * orphaned vectors; the admin Search Index page runs it.
+ */
+
+export type EmbeddingSourceType = "memory" | "snippet" | "note" | "problem";
+
+export const EMBEDDING_SOURCE_TYPES: EmbeddingSourceType[] = ["memory", "snippet", "note", "problem"];
+
+interface EmbeddingSource {
+  type: EmbeddingSourceType;
+  sourceId: string;
+  userId?: string; // unset for catalog problems
+  content: string;
+  metadata?: Record<string, any>;
+}
+
+export interface EmbeddingFreshness {
+  type: EmbeddingSourceType;
+  total: number;
+  fresh: number;
+  pending: number; // waiting to be embedded
+  failed: number; // gave up after MAX_ATTEMPTS
+  orphaned: number; // source deleted or trashed (memories and snippets)
+  lastEmbeddedAt?: Date;
+  oldestPendingAt?: Date;
+}
+
+export interface IndexFreshness {
+  model: string;
+  version: number;
+  dimensions: number;
+  draining: boolean;
+  types: EmbeddingFreshness[];
+}
+
+// Only these vectors are searched; the model is matched separately (see vector-index.ts)
+export const FRESH_VECTORS = { stale: false, embeddingVersion: EMBEDDING_VERSION };
+
+const MAX_ATTEMPTS = 5;
+const MAX_CODE_CHARS = 2000;
+
+const SOURCE_COLLECTIONS: Partial<Record<EmbeddingSourceType, string>> = {
+  memory: COLLECTIONS.MEMORIES,
+  snippet: COLLECTIONS.SNIPPETS,
+};
+
+// ============ Source text ============
+
+function memoryText(memory: any): string {
+  const tags: string[] = memory.tags ?? [];
+  return [memory.content, tags.length > 0 ? `Tags: ${tags.join(", ")}` : ""].filter(Boolean).join("\n");
+}
+
+function snippetText(snippet: any): string {
+  const tags: string[] = snippet.tags ?? [];
+  return [
+    snippet.title,
+    snippet.description,
+    `Language: ${snippet.language}`,
+    tags.length > 0 ? `Tags: ${tags.join(", ")}` : "",
+    String(snippet.code ?? "").slice(0, MAX_CODE_CHARS)
+  ].filter(Boolean).join("\n");
+}
+
+export function problemText(problem: LeetCodeProblem): string {
+  return [
+    problem.title,
+    `Difficulty: ${problem.difficulty}`,
+    problem.topics.length > 0 ? `Topics: ${problem.topics.join(", ")}` : "",
+    problem.patterns.length > 0 ? `Patterns: ${problem.patterns.join(", ")}` : "",
+    problem.description ?? ""
+  ].filter(Boolean).join(". ");
+}
+
+function memorySource(memory: any): EmbeddingSource {
+  return { type: "memory", sourceId: memory._id.toString(), userId: memory.userId, content: memoryText(memory) };
+}
+
+function snippetSource(snippet: any): EmbeddingSource {
+  return {
+    type: "snippet",
+    sourceId: snippet._id.toString(),
+    userId: snippet.userId,
+    content: snippetText(snippet),
+    metadata: { title: snippet.title, language: snippet.language }
+  };
+}
+
+// Note ids are only unique within their topic
+function noteSourceId(userId: string, topicId: string, noteId: string): string {
+  return `${userId}/${topicId}/${noteId}`;
+}
+
+function noteSource(userId: string, topicId: string, noteId: string, note: any): EmbeddingSource {
+  return { type: "note", sourceId: noteSourceId(userId, topicId, noteId), userId, content: note.content ?? "", metadata: { topicId, noteId } };
+}
+
+function problemSource(problem: LeetCodeProblem): EmbeddingSource {
+  return { type: "problem", sourceId: problem.slug, content: problemText(problem), metadata: { slug: problem.slug, title: problem.title } };
+}
+
+function hashContent(content: string): string {
+  return createHash("sha256").update(content).digest("hex");
+}
+
+// ============ Queue ============
+
+// Vectors that need (re-)embedding with the current model
+function staleFilter(model: string) {
+  return {
+    attempts: { $lt: MAX_ATTEMPTS },
+    $or: [
+      { stale: true },
+      { embeddingModel: { $ne: model } },
+      { embeddingVersion: { $ne: EMBEDDING_VERSION } }
+    ]
+  };
+}
+
+/**
+ * Store an item's current text; a changed text marks the vector stale and
+ * wakes the drain. Unchanged text is left alone. Never throws: a failed
+ * index write must not fail the user's edit, and the next sync repairs it.
+ */
+async function indexSources(db: Db, sources: EmbeddingSource[]) {
+  if (sources.length === 0) return;
+
+  // Nothing left to embed, e.g. a note edited down to nothing
+  const [type] = sources.map(source => source.type);
+  await removeEmbeddings(db, type, sources.filter(source => !source.content.trim()).map(source => source.sourceId));
+
+  try {
+    const collection = db.collection(COLLECTIONS.EMBEDDINGS);
+    const existing = new Map(
+      (await collection
+        .find(
+          { type, sourceId: { $in: sources.map(s => s.sourceId) } },
+          { projection: { sourceId: 1, contentHash: 1 } }
+        )
+        .toArray()
+      ).map(doc => [doc.sourceId, doc.contentHash])
+    );
+
+    const now = new Date();
+    const changed = sources
+      .filter(source => source.content.trim())
+      .map(source => ({ source, contentHash: hashContent(source.content) }))
+      .filter(({ source, contentHash }) => existing.get(source.sourceId) !== contentHash);
+    if (changed.length === 0) return;
+
+    await collection.bulkWrite(changed.map(({ source, contentHash }) => ({
+      updateOne: {
+        filter: { type: source.type, sourceId: source.sourceId },
+        update: {
+          $set: {
+            userId: source.userId ?? null,
+            content: source.content,
+            contentHash,
+            metadata: source.metadata ?? {},
+            stale: true,
+            attempts: 0,
+            queuedAt: now
+          },
+          $unset: { lastError: "" },
+          $setOnInsert: { createdAt: now }
+        },
+        upsert: true
+      }
+    })));
+    scheduleEmbeddingQueue();
+  } catch (error) {
+    console.error("Failed to queue embeddings:", error);
+  }
+}
+
+export async function removeEmbeddings(db: Db, type: EmbeddingSourceType, sourceIds: string[]) {
+  if (sourceIds.length === 0) return;
+  try {
+    await db.collection(COLLECTIONS.EMBEDDINGS).deleteMany({ type, sourceId: { $in: sourceIds } });
+  } catch (error) {
+    console.error("Failed to remove embeddings:", error);
+  }
+}
+
+export async function indexMemory(db: Db, memory: any) {
+  if (isTrashed(memory)) return await removeEmbeddings(db, "memory", [memory._id.toString()]);
+  await indexSources(db, [memorySource(memory)]);
+}
+
+export async function indexSnippet(db: Db, snippet: any) {
+  if (isTrashed(snippet)) return await removeEmbeddings(db, "snippet", [snippet._id.toString()]);
+  await indexSources(db, [snippetSource(snippet)]);
+}
+
+/**
+ * Embed a batch of stale vectors. A failure is recorded on the vector and
+ * retried on later runs, up to MAX_ATTEMPTS.
+ */
+export async function processEmbeddingQueue(
+  db: Db,
+  batchSize: number = 50,
+  userId?: string // only this user's vectors; otherwise everyone's and the catalog's
+): Promise<{ processed: number; failed: number; remaining: number }> {
+  const config = getEmbeddingConfig();
+  const model = embeddingModelId(config);
+  const collection = db.collection(COLLECTIONS.EMBEDDINGS);
+  const filter = userId ? { ...staleFilter(model), userId } : staleFilter(model);
+
+  // userId sorts null (catalog problems) last
+  const batch = await collection
+    .find(filter, { projection: { content: 1, contentHash: 1 } })
+    .sort({ userId: -1, queuedAt: 1 })
+    .limit(batchSize)
+    .toArray();
+
+  let processed = 0;
+  let failed = 0;
+
+  for (const doc of batch) {
+    try {
+      const embedding = await embedText(doc.content);
+      // Skip the write if the text changed while embedding; the newer text is queued
+      await collection.updateOne(
+        { _id: doc._id, contentHash: doc.contentHash },
+        { $set: { ...embeddingFields(config, embedding), stale: false, attempts: 0 }, $unset: { lastError: "" } }
+      );
+      processed++;
+    } catch (error) {
+      failed++;
+      await collection.updateOne(
+        { _id: doc._id },
+        { $set: { lastError: error instanceof Error ? error.message : String(error) }, $inc: { attempts: 1 } }
+      );
+    }
+
+    // Add delay to respect rate limits
+    if (config.provider !== "local") {
+      await new Promise(resolve => setTimeout(resolve, 100));
+    }
+  }
+
+  const remaining = await collection.countDocuments(filter);
+  return { processed, failed, remaining };
+}
+
+let draining: Promise<void> | null = null;
+let drainRequested = false;
+
+// Work through the queue in the background; later requests extend a running drain
+export function scheduleEmbeddingQueue() {
+  drainRequested = true;
+  if (draining) return;
+
+  draining = (async () => {
+    const db = await getDatabase();
+    if (!db) return;
+
+    while (drainRequested) {
+      drainRequested = false;
+      for (;;) {
+        const { processed, remaining } = await processEmbeddingQueue(db);
+        if (processed === 0 || remaining === 0) break;
+      }
+    }
+  })()
+    .catch(error => console.error("Embedding queue failed:", error))
+    .finally(() => {
+      draining = null;
+    });
+}
+
+export function isEmbeddingQueueDraining(): boolean {
+  return draining !== null;
+}
+
+// ============ Notes (Firestore) ============
+
+/**
+ * Re-read a topic's notes, or one note, with the Admin SDK and index them.
+ * Notes that are gone, trashed or under a trashed topic lose their vector.
+ */
+export async function indexTopicNotes(db: Db, userId: string, topicId: string, noteId?: string) {
+  const topicRef = getAdminFirestore().doc(`users/${userId}/topics/${topicId}`);
+  const topic = await topicRef.get();
+  const visible = topic.exists && !isTrashed(topic.data()!);
+
+  const notes = noteId
+    ? [await topicRef.collection("notes").doc(noteId).get()]
+    : (await topicRef.collection("notes").get()).docs;
+
+  const live = visible ? notes.filter(note => note.exists && !isTrashed(note.data()!)) : [];
+  await indexSources(db, live.map(note => noteSource(userId, topicId, note.id, note.data())));
+
+  const liveIds = new Set(live.map(note => noteSourceId(userId, topicId, note.id)));
+  const removed = noteId
+    ? [noteSourceId(userId, topicId, noteId)].filter(id => !liveIds.has(id))
+    : (await db.collection(COLLECTIONS.EMBEDDINGS)
+        .find({ type: "note", userId, "metadata.topicId": topicId }, { projection: { sourceId: 1 } })
+        .toArray()
+      ).map(doc => doc.sourceId as string).filter(id => !liveIds.has(id));
+  await removeEmbeddings(db, "note", removed);
+}
+
+// ============ Reconciliation ============
+
+// Remove vectors of a type (within `scope`) whose source isn't in `live`
+async function removeOrphans(
+  db: Db,
+  type: EmbeddingSourceType,
+  live: Set<string>,
+  scope: Record<string, unknown> = {}
+): Promise<number> {
+  const collection = db.collection(COLLECTIONS.EMBEDDINGS);
+  const vectors = await collection.find({ ...scope, type }, { projection: { sourceId: 1 } }).toArray();
+  const orphaned = vectors.filter(doc => !live.has(doc.sourceId));
+  if (orphaned.length > 0) {
+    await collection.deleteMany({ _id: { $in: orphaned.map(doc => doc._id) } });
+  }
+  return orphaned.length;
+}
+
+// Index every live source of a Mongo-backed type and drop vectors whose source is gone
+async function syncMongoSources(db: Db, type: "memory" | "snippet", userId?: string): Promise<number> {
+  const scope = userId ? { userId } : {};
+  const docs = await db.collection(SOURCE_COLLECTIONS[type]!).find({ ...scope, ...NOT_TRASHED }).toArray();
+  await indexSources(db, docs.map(type === "memory" ? memorySource : snippetSource));
+
+  return await removeOrphans(db, type, new Set(docs.map(doc => doc._id.toString())), scope);
+}
+
+async function syncNotes(db: Db): Promise<number> {
+  const firestore = getAdminFirestore();
+  const [topics, notes] = await Promise.all([
+    firestore.collectionGroup("topics").get(),
+    firestore.collectionGroup("notes").get(),
+  ]);
+
+  // Paths are users/{uid}/topics/{topicId}/notes/{noteId}
+  const visibleTopics = new Set(topics.docs.filter(t => !isTrashed(t.data())).map(t => t.ref.path));
+  const liveNotes = notes.docs.filter(note => !isTrashed(note.data()) && visibleTopics.has(note.ref.parent.parent!.path));
+  const sources = liveNotes.map(note => {
+    const [, userId, , topicId] = note.ref.path.split("/");
+    return noteSource(userId, topicId, note.id, note.data());
+  });
+  for (let i = 0; i < sources.length; i += 500) {
+    await indexSources(db, sources.slice(i, i + 500));
+  }
+
+  return await removeOrphans(db, "note", new Set(sources.map(source => source.sourceId)));
+}
+
+async function syncProblems(db: Db): Promise<number> {
+  const problems = await queryCatalog({ limit: 10000 });
+  for (let i = 0; i < problems.length; i += 500) {
+    await indexSources(db, problems.slice(i, i + 500).map(problemSource));
+  }
+
+  return await removeOrphans(db, "problem", new Set(problems.map(problem => problem.slug)));
+}
+
+/**
+ * Queue every source whose text changed since it was embedded and remove
+ * orphaned vectors. Returns how many vectors were removed per type; notes
+ * are skipped (null) when the Admin SDK can't read Firestore.
+ */
+export async function syncEmbeddingSources(db: Db): Promise<Record<EmbeddingSourceType, number | null>> {
+  const removed: Record<EmbeddingSourceType, number | null> = {
+    memory: await syncMongoSources(db, "memory"),
+    snippet: await syncMongoSources(db, "snippet"),
+    note: null,
+    problem: await syncProblems(db),
+  };
+
+  try {
+    removed.note = await syncNotes(db);
+  } catch (error) {
+    console.error("Failed to sync note embeddings:", error);
+  }
+
+  return removed;
+}
+
+// Reconcile one user's vectors after their data was replaced, e.g. by restoring a backup
+export async function syncUserEmbeddings(db: Db, userId: string) {
+  await syncMongoSources(db, "memory", userId);
+  await syncMongoSources(db, "snippet", userId);
+
+  const topics = await getAdminFirestore().collection(`users/${userId}/topics`).listDocuments();
+  for (const topic of topics) {
+    await indexTopicNotes(db, userId, topic.id);
+  }
+  const topicIds = new Set(topics.map(topic => topic.id));
+  const vectors = await db.collection(COLLECTIONS.EMBEDDINGS)
+    .find({ type: "note", userId }, { projection: { sourceId: 1, "metadata.topicId": 1 } })
+    .toArray();
+  await removeEmbeddings(db, "note", vectors.filter(doc => !topicIds.has(doc.metadata?.topicId)).map(doc => doc.sourceId));
+}
+
+// Mark every vector stale, e.g. after changing how a source's text is built without bumping EMBEDDING_VERSION
+export async function reindexAllEmbeddings(db: Db, type?: EmbeddingSourceType): Promise<number> {
+  const result = await db.collection(COLLECTIONS.EMBEDDINGS).updateMany(
+    type ? { type } : {},
+    { $set: { stale: true, attempts: 0, queuedAt: new Date() }, $unset: { lastError: "" } }
+  );
+  scheduleEmbeddingQueue();
+  return result.modifiedCount;
+}
+
+// ============ Search ============
+
+// Ids of the given sources that still exist and aren't trashed, for dropping orphaned matches
+export async function liveSourceIds(db: Db, type: "memory" | "snippet", userId: string, sourceIds: string[]): Promise<Set<string>> {
+  const ids = sourceIds.filter(id => ObjectId.isValid(id)).map(id => new ObjectId(id));
+  const docs = await db.collection(SOURCE_COLLECTIONS[type]!)
+    .find({ _id: { $in: ids }, userId, ...NOT_TRASHED }, { projection: { _id: 1 } })
+    .toArray();
+  return new Set(docs.map(doc => doc._id.toString()));
+}
+
+// ============ Freshness ============
+
+async function countOrphans(db: Db, type: "memory" | "snippet"): Promise<number> {
+  const [result] = await db.collection(COLLECTIONS.EMBEDDINGS).aggregate([
+    { $match: { type } },
+    { $lookup: {
+      from: SOURCE_COLLECTIONS[type]!,
+      let: { sourceId: "$sourceId" },
+      pipeline: [
+        { $match: { $expr: { $eq: [{ $toString: "$_id" }, "$$sourceId"] }, ...NOT_TRASHED } },
+        { $project: { _id: 1 } }
+      ],
+      as: "source"
+    } },
+    { $match: { source: { $size: 0 } } },
+    { $count: "orphaned" }
+  ]).toArray();
+  return result?.orphaned ?? 0;
+}
+
+export async function getIndexFreshness(db: Db): Promise<IndexFreshness> {
+  const config = getEmbeddingConfig();
+  const model = embeddingModelId(config);
+
+  const stats = await db.collection(COLLECTIONS.EMBEDDINGS).aggregate([
+    { $addFields: {
+      isFresh: { $and: [
+        { $eq: ["$stale", false] },
+        { $eq: ["$embeddingModel", model] },
+        { $eq: ["$embeddingVersion", EMBEDDING_VERSION] }
+      ] },
+      hasFailed: { $gte: [{ $ifNull: ["$attempts", 0] }, MAX_ATTEMPTS] }
+    } },
+    { $group: {
+      _id: "$type",
+      total: { $sum: 1 },
+      fresh: { $sum: { $cond: ["$isFresh", 1, 0] } },
+      failed: { $sum: { $cond: [{ $and: [{ $not: ["$isFresh"] }, "$hasFailed"] }, 1, 0] } },
+      lastEmbeddedAt: { $max: "$embeddedAt" },
+      oldestPendingAt: { $min: { $cond: [{ $or: ["$isFresh", "$hasFailed"] }, null, "$queuedAt"] } }
+    } }
+  ]).toArray();
+
+  const types = await Promise.all(EMBEDDING_SOURCE_TYPES.map(async type => {
+    const row = stats.find(s => s._id === type);
+    const total = row?.total ?? 0;
+    const fresh = row?.fresh ?? 0;
+    const failed = row?.failed ?? 0;
+    return {
+      type,
+      total,
+      fresh,
+      pending: total - fresh - failed,
+      failed,
+      orphaned: type === "memory" || type === "snippet" ? await countOrphans(db, type) : 0,
+      lastEmbeddedAt: row?.lastEmbeddedAt ?? undefined,
+      oldestPendingAt: row?.oldestPendingAt ?? undefined,
+    };
+  }));
+
+  return { model, version: EMBEDDING_VERSION, dimensions: config.dimensions, draining: isEmbeddingQueueDraining(), types };
+}
@@ -0,0 +1,136 @@
+import { isLocalOnly } from "@/lib/ai-client";
+import { embedLocally, LOCAL_EMBEDDING_DIMENSIONS, LOCAL_EMBEDDING_MODEL } from "@/lib/local-embeddings";
+
+/**
+ * Embeddings - turn text into vectors with the configured provider
+ *
+ * Every stored vector records the model that produced it (embeddingModel)
+ * and the EMBEDDING_VERSION of the text it was built from; vectors that
+ * don't match both are re-embedded (see embedding-index.ts) and never
+ * searched.
+ */
+
+// Bump when the text built for a source changes (embedding-index.ts), so every vector is rebuilt
+export const EMBEDDING_VERSION = 1;
+
+// Supported embedding providers
+export type EmbeddingProvider = "openai" | "google" | "local";
+
+export interface EmbeddingConfig {
+  provider: EmbeddingProvider;
+  model: string;
+  dimensions: number;
+}
+
+// Configuration for different providers
+const EMBEDDING_CONFIGS: Record<EmbeddingProvider, EmbeddingConfig> = {
+  openai: {
+    provider: "openai",
+    model: "text-embedding-3-small",
+    dimensions: 1536
+  },
+  google: {
+    provider: "google",
+    model: "text-embedding-004",
+    dimensions: 768
+  },
+  local: {
+    provider: "local",
+    model: LOCAL_EMBEDDING_MODEL,
+    dimensions: LOCAL_EMBEDDING_DIMENSIONS
+  }
+};
+
+// Get current embedding config; without EMBEDDING_PROVIDER, use whichever key is set or embed locally
+export function getEmbeddingConfig(): EmbeddingConfig {
+  if (isLocalOnly()) return EMBEDDING_CONFIGS.local;
+
+  const provider = process.env.EMBEDDING_PROVIDER as EmbeddingProvider | undefined;
+  if (provider && EMBEDDING_CONFIGS[provider]) return EMBEDDING_CONFIGS[provider];
+  if (process.env.OPENAI_API_KEY) return EMBEDDING_CONFIGS.openai;
+  if (process.env.GOOGLE_AI_API_KEY) return EMBEDDING_CONFIGS.google;
+  return EMBEDDING_CONFIGS.local;
+}
+
+// Identifies the vector space a stored embedding belongs to
+export function embeddingModelId(config: EmbeddingConfig = getEmbeddingConfig()): string {
+  return `${config.provider}:${config.model}`;
+}
+
+// The fields stored next to a document's vector
+export function embeddingFields(config: EmbeddingConfig, embedding: number[]) {
+  return {
+    embedding,
+    embeddingModel: embeddingModelId(config),
+    embeddingVersion: EMBEDDING_VERSION,
+    embeddingDimensions: embedding.length,
+    embeddedAt: new Date()
+  };
+}
+
+// Generate embedding using OpenAI
+async function generateOpenAIEmbedding(text: string): Promise<number[]> {
+  const apiKey = process.env.OPENAI_API_KEY;
+  if (!apiKey) {
+    throw new Error("OPENAI_API_KEY not configured");
+  }
+
+  const response = await fetch("https://api.openai.com/v1/embeddings", {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      "Authorization": `Bearer ${apiKey}`
+    },
+    body: JSON.stringify({
+      model: "text-embedding-3-small",
+      input: text.substring(0, 8000) // Limit input length
+    })
+  });
+
+  if (!response.ok) {
+    throw new Error(`OpenAI API error: ${response.statusText}`);
+  }
+
+  const data = await response.json();
+  return data.data[0].embedding;
+}
+
+// Generate embedding using Google
+async function generateGoogleEmbedding(text: string): Promise<number[]> {
+  const apiKey = process.env.GOOGLE_AI_API_KEY;
+  if (!apiKey) {
+    throw new Error("GOOGLE_AI_API_KEY not configured");
+  }
+
+  const response = await fetch(
+    `https://generativelanguage.googleapis.com/v1beta/models/text-embedding-004:embedContent?key=${apiKey}`,
+    {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        content: { parts: [{ text: text.substring(0, 8000) }] }
+      })
+    }
+  );
+
+  if (!response.ok) {
+    throw new Error(`Google API error: ${response.statusText}`);
+  }
+
+  const data = await response.json();
+  return data.embedding.values;
+}
+
+// Embed text with the configured provider; throws when the provider fails
+export async function embedText(text: string): Promise<number[]> {
+  const config = getEmbeddingConfig();
+
+  switch (config.provider) {
+    case "openai":
+      return await generateOpenAIEmbedding(text);
+    case "google":
+      return await generateGoogleEmbedding(text);
+    case "local":
+      return (await embedLocally([text]))[0];
+  }
+}
@@ -5,15 +5,33 @@
  * 
  * This module provides AI suggestions using:
  * - MongoDB-backed user progress data
+ * - The deterministic recommender (recommender.ts), whose ranking the model
+ *   re-ranks and explains, and which answers on its own without AI
  * - Vector search for semantic relevance
  * - Smart context building (only sends relevant data)
  * - Multi-provider AI support
+ * - Server-side caching of checked answers (ai-cache.ts)
  */
 
 import { z } from "zod";
 import { buildAIContext, formatContextForPrompt } from "@/lib/ai-context";
-import { getDatabase, COLLECTIONS } from "@/lib/mongodb";
-import { getUserProgress, getTopicProgress } from "@/lib/progress-actions";
+import { resolveConfig, type ChatMessage } from "@/lib/ai-client";
+import { completeWithFallback, getProviderChain, hasConfiguredProvider } from "@/lib/ai-router";
+import { withAICache } from "@/lib/ai-cache";
+import { getDatabase } from "@/lib/mongodb";
+import { requireUser } from "@/lib/session";
+import { buildLeetCodeUrl } from "@/lib/problem-lookup";
+import { loadSuggestionRules, validateSuggestionOutput, type SuggestionShape } from "@/lib/suggestion-output";
+import { allowsDifficulty, type CoachingProfile } from "@/lib/coaching-profile";
+import {
+  describeRecommendation,
+  nextDifficultyFor,
+  recommendProblems,
+  weakestTopics,
+  type Recommendation,
+} from "@/lib/recommender";
+
+const CANDIDATE_POOL_SIZE = 20; // ranked candidates the model chooses from
 
 // Input schema with MongoDB user ID
 const EnhancedSuggestionInputSchema = z.object({
@@ -44,89 +62,52 @@ const EnhancedSuggestionOutputSchema = z.object({
 
 export type EnhancedSuggestionOutput = z.infer<typeof EnhancedSuggestionOutputSchema>;
 
-// Get unsolved problems from database, filtered by criteria
-async function getUnsolvedProblems(
-  userId: string,
-  options: { topic?: string; difficulty?: string; limit?: number }
-): Promise<any[]> {
-  try {
-    const db = await getDatabase();
-    if (!db) return [];
-
-    // Get user's solved problem slugs
-    const solved = await db.collection(COLLECTIONS.SOLVED)
-      .find({ userId })
-      .project({ titleSlug: 1 })
-      .toArray();
-    
-    const solvedSlugs = new Set(solved.map(s => s.titleSlug));
-
-    // Build query for unsolved problems
-    const query: any = {};
-    if (options.topic) {
-      query.topicTags = options.topic;
-    }
-    if (options.difficulty) {
-      query.difficulty = options.difficulty;
-    }
-
-    // Get problems not in solved list
-    const problems = await db.collection(COLLECTIONS.PROBLEMS)
-      .find(query)
-      .limit(options.limit || 100)
-      .toArray();
-
-    // Filter out solved problems
-    return problems.filter(p => !solvedSlugs.has(p.titleSlug));
-  } catch (error) {
-    console.error("Failed to get unsolved problems:", error);
-    return [];
-  }
-}
-
 // Build optimized prompt with minimal data
 function buildSuggestionPrompt(
   context: ReturnType<typeof formatContextForPrompt>,
   input: EnhancedSuggestionInput,
-  unsolvedProblems: any[]
+  candidates: Recommendation[]
 ): string {
-  // Only include a sample of relevant unsolved problems (not all!)
-  const problemSample = unsolvedProblems.slice(0, 20).map(p => ({
-    slug: p.titleSlug,
+  // The recommender's top candidates with their scores and reasons, for the model to re-rank
+  const problemSample = candidates.map(p => ({
+    slug: p.slug,
     title: p.title,
     difficulty: p.difficulty,
-    topics: (p.topicTags || []).slice(0, 3)
+    topics: p.topics.slice(0, 3),
+    ...(p.patterns.length > 0 && { patterns: p.patterns.slice(0, 2) }),
+    score: p.score,
+    why: p.reasons.map(r => r.label)
   }));
 
-  return `🧠 You are a personalized LeetCode coach analyzing this user's specific coding journey.
+  return `You are a personalized LeetCode coach analyzing this user's specific coding journey.
 
-📊 DETAILED USER ANALYSIS:
+USER ANALYSIS
 ${context}
 
-🎯 CURATED PROBLEM POOL (${unsolvedProblems.length} available):
+RANKED CANDIDATES (scored from the user's reviews, topic coverage, pattern gaps and target companies)
 ${JSON.stringify(problemSample, null, 2)}
 
-📝 COACHING REQUEST:
-✅ Recommend ${input.numberOfProblems} strategic problems
-${input.topic ? `🎯 Focus mastery area: ${input.topic}` : ""}
-${input.difficulty ? `📈 Target difficulty: ${input.difficulty}` : ""}
-${input.additionalContext ? `💭 User's specific goal: ${input.additionalContext}` : ""}
-
-🎯 COACHING METHODOLOGY:
-1. **Gap Analysis**: Identify specific weak patterns from user data
-2. **Progressive Learning**: Build from user's current skill level
-3. **Strategic Selection**: Choose problems that address real gaps, not random practice
-4. **Motivation Alignment**: Match problem interest to user's stated goals
-5. **Success Indicators**: Select problems where user can see clear progress
-6. **DIFFICULTY LIMIT**: NEVER suggest Hard problems. Stick to Easy and Medium only.
-
-💡 COACHING INSIGHTS TO APPLY:
+COACHING REQUEST
+Recommend ${input.numberOfProblems} strategic problems
+${input.topic ? `Focus area: ${input.topic}` : ""}
+${input.difficulty ? `Target difficulty: ${input.difficulty}` : ""}
+${input.additionalContext ? `User's goal: ${input.additionalContext}` : ""}
+
+METHOD
+1. Gap analysis: Identify specific weak patterns from user data
+2. Progressive learning: Build from user's current skill level
+3. Strategic selection: Choose problems that address real gaps, not random practice
+4. Motivation: Match problem interest to user's stated goals
+5. Visible progress: Select problems where user can see clear progress
+6. Coaching policy: Follow the COACHING POLICY above: only the difficulties it allows, paced to the interview date, companies and daily time it gives
+
+GUIDELINES
 - If user struggles with [specific topic]: Start with Easy pattern recognition, build to Medium applications
-- If user avoids [difficulty]: Bridge with intermediate Easy problems before Medium challenges  
+- If user avoids [difficulty]: Bridge with intermediate Easy problems before Medium challenges
 - If user repeatedly fails [concept]: Target foundational Easy understanding first
 - If user masters [area]: Challenge with advanced Medium applications and edge cases
 
-📋 SELECT ONLY FROM AVAILABLE UNSOLVED PROBLEMS ABOVE
+Select only from the ranked candidates above. Start from their order and move a problem up or down only when the user's goal, notes or profile justify it; build each reason on its "why" entries
 
 Respond with this EXACT JSON structure:
 {
@@ -137,11 +118,11 @@ Respond with this EXACT JSON structure:
       "difficulty": "Easy",
       "url": "https://leetcode.com/problems/two-sum/",
       "topics": ["Array", "Hash Table"],
-      "reason": "🎯 SPECIFIC COACHING REASON: Based on your [specific weakness/pattern], this problem [specific benefit]. Next logical step after mastering this: [next problem type].",
+      "reason": "Based on your [specific weakness/pattern], this problem [specific benefit]. Next logical step after mastering this: [next problem type].",
       "priorityScore": 9
     }
   ],
-  "analysisInsights": "🔍 Personalized insight: Your current focus should be [specific area] because [specific reason from their data]. This will unlock [specific next level skill]."
+  "analysisInsights": "Your current focus should be [specific area] because [specific reason from their data]. This will unlock [specific next level skill]."
 }
 
 Make every recommendation laser-focused on their actual performance patterns, not generic advice.`;
@@ -151,7 +132,14 @@ Make every recommendation laser-focused on their actual performance patterns, no
 export async function getEnhancedSuggestions(
   input: EnhancedSuggestionInput
 ): Promise<EnhancedSuggestionOutput> {
+  // Auth failures go to the caller; only AI failures fall back to the recommender
+  await requireUser(input.userId);
+
   try {
+    if (!hasConfiguredProvider()) {
+      return await getFallbackSuggestions(input);
+    }
+
     // 1. Build optimized AI context (only relevant data)
     const aiContext = await buildAIContext(input.userId, {
       includeMemories: true,
@@ -160,56 +148,71 @@ export async function getEnhancedSuggestions(
     });
     
     const contextStr = formatContextForPrompt(aiContext);
-
-    // 2. Get filtered unsolved problems
-    const unsolvedProblems = await getUnsolvedProblems(input.userId, {
-      topic: input.topic,
-      difficulty: input.difficulty,
-      limit: 50
+    const coaching = aiContext.coaching!;
+    const request = withinPolicy(input, coaching);
+
+    // 2. Rank unsolved problems without AI; the model re-ranks and explains the top ones
+    const { recommendations } = await recommendProblems(input.userId, {
+      topic: request.topic,
+      difficulty: request.difficulty,
+      limit: CANDIDATE_POOL_SIZE
     });
 
     // 3. Build optimized prompt
-    const prompt = buildSuggestionPrompt(contextStr, input, unsolvedProblems);
-
-    // 4. Call AI (using Google Gemini via environment)
-    const apiKey = process.env.GOOGLE_GENAI_API_KEY || process.env.GOOGLE_AI_API_KEY;
-    if (!apiKey) {
-      throw new Error("No AI API key configured");
-    }
+    const prompt = buildSuggestionPrompt(contextStr, request, recommendations);
+
+    // 4. Call AI down the provider chain, in JSON mode (works with a local model too);
+    // follow-ups continue the same conversation
+    const messages: ChatMessage[] = [{ role: "user", content: prompt }];
+    const provider = getProviderChain()[0];
+    let tokensUsed = 0;
+    let answeredByFallback = false;
+    const complete = async () => {
+      const result = await completeWithFallback("", messages, {
+        json: true,
+        temperature: 0.7,
+        maxTokens: 2048
+      });
+      if (!result.success || !result.content) {
+        throw new Error(result.error || "No content in AI response");
+      }
+      tokensUsed += result.tokensUsed ?? 0;
+      answeredByFallback ||= result.provider !== provider;
+      messages.push({ role: "assistant", content: result.content });
+      return result.content;
+    };
 
-    const response = await fetch(
-      `https://generativelanguage.googleapis.com/v1beta/models/gemini-1.5-flash:generateContent?key=${apiKey}`,
+    // 5. Parse, check against the catalog and re-ask if too few suggestions hold up;
+    // the checked answer is cached for the same prompt, so dashboard reloads don't call the AI again.
+    // The key names the first provider in the chain; a fallback provider's answer isn't cached under it
+    const { value } = await withAICache(
       {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({
-          contents: [{ parts: [{ text: prompt }] }],
-          generationConfig: {
-            temperature: 0.7,
-            maxOutputTokens: 2048,
-            responseMimeType: "application/json"
-          }
-        })
+        scope: "suggestions",
+        userId: input.userId,
+        prompt,
+        context: { numberOfProblems: input.numberOfProblems, difficulty: request.difficulty },
+        provider,
+        model: resolveConfig(provider).model
+      },
+      async () => (await validateSuggestionOutput({
+        schema: EnhancedSuggestionOutputSchema,
+        raw: await complete(),
+        retry: feedback => {
+          messages.push({ role: "user", content: feedback });
+          return complete();
+        },
+        items: output => output.suggestedProblems,
+        withItems: (output, suggestedProblems) => ({ ...output, suggestedProblems }),
+        shape: ENHANCED_SUGGESTION_SHAPE,
+        rules: await loadSuggestionRules(await getDatabase(), input.userId, { difficulty: request.difficulty }),
+        wanted: input.numberOfProblems
+      })).output,
+      {
+        shouldCache: output => !answeredByFallback && output.suggestedProblems.length > 0,
+        tokensUsed: () => tokensUsed
       }
     );
-
-    if (!response.ok) {
-      const error = await response.json();
-      throw new Error(error.error?.message || "AI request failed");
-    }
-
-    const data = await response.json();
-    const content = data.candidates?.[0]?.content?.parts?.[0]?.text;
-
-    if (!content) {
-      throw new Error("No content in AI response");
-    }
-
-    // Parse JSON response
-    const parsed = JSON.parse(content);
-    
-    // Validate and return
-    return EnhancedSuggestionOutputSchema.parse(parsed);
+    return value;
 
   } catch (error: any) {
     console.error("Enhanced suggestion error:", error);
@@ -219,69 +222,52 @@ export async function getEnhancedSuggestions(
   }
 }
 
-// Fallback suggestions without AI (based on weak areas)
+type SuggestedProblem = z.infer<typeof SuggestedProblemSchema>;
+
+const ENHANCED_SUGGESTION_SHAPE: SuggestionShape<SuggestedProblem> = {
+  ref: p => ({ slug: p.titleSlug, title: p.title, url: p.url }),
+  fromCatalog: (p, problem) => ({
+    ...p,
+    titleSlug: problem.slug,
+    title: problem.title,
+    difficulty: problem.difficulty,
+    url: buildLeetCodeUrl(problem.slug),
+    topics: problem.topics
+  })
+};
+
+// A requested difficulty the coaching profile rules out is dropped rather than honoured
+function withinPolicy(input: EnhancedSuggestionInput, coaching: CoachingProfile): EnhancedSuggestionInput {
+  if (!input.difficulty || allowsDifficulty(coaching, input.difficulty)) return input;
+  return { ...input, difficulty: undefined };
+}
+
+// Fallback suggestions without AI: the recommender's ranking as is
 async function getFallbackSuggestions(
   input: EnhancedSuggestionInput
 ): Promise<EnhancedSuggestionOutput> {
   try {
-    const db = await getDatabase();
-    if (!db) {
-      return { suggestedProblems: [], analysisInsights: "Unable to connect to database" };
-    }
-
-    // Get user's topic progress
-    const topicProgressResult = await getTopicProgress(input.userId);
-    
-    if (!topicProgressResult.success || !topicProgressResult.topics) {
-      return { suggestedProblems: [], analysisInsights: "Unable to analyze progress data" };
-    }
-    
-    // Sort by completion percentage (ascending) to find weak topics
-    const weakTopics = topicProgressResult.topics
-      .sort((a, b) => a.percentage - b.percentage)
-      .slice(0, 3)
-      .map(t => t.name);
-
-    // Get user's solved problems
-    const solved = await db.collection(COLLECTIONS.SOLVED)
-      .find({ userId: input.userId })
-      .project({ titleSlug: 1 })
-      .toArray();
-    
-    const solvedSlugs = new Set(solved.map(s => s.titleSlug));
-
-    // Query for problems in weak topics
-    const query: any = {
-      topicTags: { $in: weakTopics }
-    };
-    
-    if (input.difficulty) {
-      query.difficulty = input.difficulty;
-    }
-
-    const problems = await db.collection(COLLECTIONS.PROBLEMS)
-      .find(query)
-      .limit(50)
-      .toArray();
-
-    // Filter out solved and take required count
-    const unsolved = problems
-      .filter(p => !solvedSlugs.has(p.titleSlug))
-      .slice(0, input.numberOfProblems);
+    const { recommendations, input: signals } = await recommendProblems(input.userId, {
+      topic: input.topic,
+      difficulty: input.difficulty,
+      limit: input.numberOfProblems
+    });
 
-    const suggestedProblems = unsolved.map((p, i) => ({
-      titleSlug: p.titleSlug,
+    const suggestedProblems = recommendations.map(p => ({
+      titleSlug: p.slug,
       title: p.title,
       difficulty: p.difficulty,
-      url: `https://leetcode.com/problems/${p.titleSlug}/`,
-      topics: p.topicTags || [],
-      reason: `Practice for ${p.topicTags?.[0] || "algorithms"} - one of your areas for improvement`,
-      priorityScore: 10 - i
+      url: buildLeetCodeUrl(p.slug),
+      topics: p.topics,
+      reason: describeRecommendation(p),
+      priorityScore: Math.max(1, Math.round(p.score * 10))
     }));
 
+    const focus = weakestTopics(signals, 3);
     return {
       suggestedProblems,
-      analysisInsights: `Based on your progress, focus on: ${weakTopics.join(", ")}`
+      analysisInsights: `Ranked from your reviews, topic coverage and pattern gaps. Next step: ${nextDifficultyFor(signals.byDifficulty, signals.coaching)} problems` +
+        (focus.length > 0 ? `; focus on ${focus.join(", ")}` : "")
     };
   } catch (error) {
     console.error("Fallback suggestion error:", error);
@@ -294,57 +280,44 @@ export async function getQuickRecommendations(userId: string): Promise<{
   weakTopics: string[];
   nextDifficulty: string;
   focusAreas: string[];
+  recommendations: Recommendation[];
 }> {
   try {
-    const progressResult = await getUserProgress(userId);
-    const topicProgressResult = await getTopicProgress(userId);
-
-    if (!progressResult.success || !progressResult.progress) {
-      return {
-        weakTopics: ["Array", "String", "Hash Table"],
-        nextDifficulty: "Easy",
-        focusAreas: ["Start with fundamentals"]
-      };
-    }
+    await requireUser(userId);
+    const { recommendations, input } = await recommendProblems(userId, { limit: 5 });
+    const { easy, medium, hard } = input.byDifficulty;
+    const totalSolved = easy + medium + hard;
 
-    const progress = progressResult.progress;
-    const topics = topicProgressResult.success ? topicProgressResult.topics || [] : [];
-
-    // Find weak topics (below 30% completion)
-    const weakTopics = topics
-      .filter(t => t.percentage < 30 && t.total >= 5)
-      .sort((a, b) => a.percentage - b.percentage)
-      .slice(0, 5)
-      .map(t => t.name);
-
-    // Determine next difficulty based on success rates
-    let nextDifficulty = "Easy";
-    if (progress.byDifficulty.easy > 50) {
-      nextDifficulty = "Medium";
-    }
-    if (progress.byDifficulty.medium > 100) {
-      nextDifficulty = "Hard";
-    }
+    const weakTopics = weakestTopics(input, 5);
+    const nextDifficulty = nextDifficultyFor(input.byDifficulty, input.coaching);
 
     // Focus areas based on patterns
     const focusAreas: string[] = [];
-    if (progress.byDifficulty.hard < 5) {
+    if (totalSolved === 0) {
+      focusAreas.push("Start with fundamentals");
+    }
+    if (hard < 5 && allowsDifficulty(input.coaching, "Hard")) {
       focusAreas.push("Start attempting Hard problems");
     }
     if (weakTopics.length > 0) {
       focusAreas.push(`Improve weak topics: ${weakTopics.slice(0, 2).join(", ")}`);
     }
-    if (progress.totalSolved < 50) {
+    const newPatterns = [...new Set(recommendations.flatMap(r => r.patterns))].filter(p => !input.solvedPatterns.has(p));
+    if (newPatterns.length > 0) {
+      focusAreas.push(`Learn new patterns: ${newPatterns.slice(0, 2).join(", ")}`);
+    }
+    if (totalSolved < 50) {
       focusAreas.push("Build problem-solving volume");
     }
 
-    return { weakTopics, nextDifficulty, focusAreas };
+    return { weakTopics, nextDifficulty, focusAreas, recommendations };
   } catch (error) {
     console.error("Quick recommendations error:", error);
     return {
       weakTopics: ["Array", "String", "Hash Table"],
       nextDifficulty: "Easy",
-      focusAreas: ["Start with fundamentals"]
+      focusAreas: ["Start with fundamentals"],
+      recommendations: []
     };
   }
 }
\ No newline at end of file
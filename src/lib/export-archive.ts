@@ -0,0 +1,114 @@
+import type { QuerySnapshot } from "firebase-admin/firestore";
+import { getAdminFirestore } from "@/lib/firebase-admin";
+import { getDatabase, COLLECTIONS, NOT_TRASHED } from "@/lib/mongodb";
+import { EXPORT_VERSION } from "@/lib/export-formats";
+import { isTrashed } from "@/lib/trash";
+import type { SessionUser } from "@/lib/session";
+import type { ExportData } from "@/lib/types";
+
+/**
+ * Export Archive - every store a user owns, read on the server
+ *
+ * Firestore holds topics, questions, notes and daily questions; MongoDB
+ * holds snippets, solved problems, review cards, the review log and
+ * memories. The archive puts both into one versioned document that
+ * parseExportData can read back.
+ *
+ * Trashed records are left out unless `includeTrashed` is set; backups
+ * keep them so a purge can still be undone from a restore point.
+ */
+
+export interface ArchiveOptions {
+  includeTrashed?: boolean;
+}
+
+// Firestore Timestamps become ISO strings so the archive is plain JSON
+function serializeFirestore(value: unknown): unknown {
+  if (value === null || typeof value !== "object") return value;
+  if (typeof (value as { toDate?: unknown }).toDate === "function") {
+    return (value as { toDate: () => Date }).toDate().toISOString();
+  }
+  if (Array.isArray(value)) return value.map(serializeFirestore);
+  return Object.fromEntries(
+    Object.entries(value as Record<string, unknown>).map(([key, entry]) => [key, serializeFirestore(entry)])
+  );
+}
+
+function fromSnapshot(snapshot: QuerySnapshot, includeTrashed = true) {
+  return snapshot.docs
+    .filter(doc => includeTrashed || !isTrashed(doc.data()))
+    .map(doc => ({ id: doc.id, ...(serializeFirestore(doc.data()) as Record<string, unknown>) }));
+}
+
+async function readFirestore(uid: string, { includeTrashed }: ArchiveOptions): Promise<Pick<ExportData, "topics" | "dailyQuestions">> {
+  const firestore = getAdminFirestore();
+  const userRef = firestore.collection("users").doc(uid);
+
+  const topicsSnapshot = await userRef.collection("topics").orderBy("createdAt", "desc").get();
+  const topicDocs = topicsSnapshot.docs.filter(doc => includeTrashed || !isTrashed(doc.data()));
+  const topics = await Promise.all(
+    topicDocs.map(async topicDoc => {
+      const [questions, notes] = await Promise.all([
+        topicDoc.ref.collection("questions").get(),
+        topicDoc.ref.collection("notes").get(),
+      ]);
+      return {
+        id: topicDoc.id,
+        ...(serializeFirestore(topicDoc.data()) as Record<string, unknown>),
+        questions: fromSnapshot(questions, includeTrashed),
+        notes: fromSnapshot(notes, includeTrashed),
+      };
+    })
+  );
+
+  const dailySnapshot = await userRef.collection("dailyQuestions").orderBy("createdAt", "desc").get();
+
+  return {
+    topics: topics as unknown as ExportData["topics"],
+    dailyQuestions: fromSnapshot(dailySnapshot) as unknown as ExportData["dailyQuestions"],
+  };
+}
+
+async function readMongo(uid: string, { includeTrashed }: ArchiveOptions): Promise<Pick<ExportData, "snippets" | "solved" | "reviews" | "reviewLogs" | "memories">> {
+  const db = await getDatabase();
+  if (!db) {
+    throw new Error("Database not available");
+  }
+
+  const read = async (name: string, sort: Record<string, 1 | -1>) => {
+    const filter = includeTrashed ? { userId: uid } : { userId: uid, ...NOT_TRASHED };
+    const docs = await db.collection(name).find(filter).sort(sort).toArray();
+    return docs.map(({ _id, ...fields }) => ({ ...fields, id: _id.toString() }));
+  };
+
+  const [snippets, solved, reviews, reviewLogs, memories] = await Promise.all([
+    read(COLLECTIONS.SNIPPETS, { createdAt: 1 }),
+    read(COLLECTIONS.SOLVED, { solvedAt: 1 }),
+    read(COLLECTIONS.REVIEWS, { createdAt: 1 }),
+    read(COLLECTIONS.REVIEW_LOGS, { reviewedAt: 1 }),
+    read(COLLECTIONS.MEMORIES, { createdAt: 1 }),
+  ]);
+
+  return {
+    snippets: snippets as ExportData["snippets"],
+    solved: solved as ExportData["solved"],
+    reviews: reviews as ExportData["reviews"],
+    reviewLogs: reviewLogs as ExportData["reviewLogs"],
+    memories: memories as ExportData["memories"],
+  };
+}
+
+export async function buildExportArchive(user: SessionUser, options: ArchiveOptions = {}): Promise<ExportData> {
+  const [firestore, mongo] = await Promise.all([readFirestore(user.uid, options), readMongo(user.uid, options)]);
+
+  return {
+    exportedAt: new Date().toISOString(),
+    version: EXPORT_VERSION,
+    user: {
+      uid: user.uid,
+      email: user.email,
+    },
+    ...firestore,
+    ...mongo,
+  };
+}
@@ -0,0 +1,207 @@
+import { parseLeetCodeUrl } from "@/lib/problem-lookup";
+import type { ExportData, TopicQuestion } from "@/lib/types";
+
+/**
+ * Export Formats - alternative renderings of an export archive
+ *
+ * - Markdown: one file per topic with its notes and each question's
+ *   approach, insights and complexity
+ * - Anki: one note per review card; the front names the problem, the back
+ *   collects everything written about it. toAnkiCsv produces a file for
+ *   Anki's text importer; anki-package.ts turns the same notes into .apkg
+ */
+
+export const EXPORT_VERSION = "2.0";
+
+export interface ExportFile {
+  name: string;
+  content: string;
+}
+
+export interface AnkiNote {
+  key: string; // stable per problem, so re-importing updates instead of duplicating
+  front: string; // HTML
+  back: string; // HTML
+  tags: string[];
+  // Scheduling state carried over from the review card
+  interval: number;
+  easeFactor: number;
+  repetitions: number;
+  nextReviewDate?: Date;
+}
+
+type ExportedTopic = ExportData["topics"][number];
+
+// Archive dates are ISO strings, Date objects or serialized Firestore Timestamps
+export function toDate(value: unknown): Date | undefined {
+  if (!value) return undefined;
+  if (value instanceof Date) return value;
+  if (typeof value === "string" || typeof value === "number") {
+    const date = new Date(value);
+    return isNaN(date.getTime()) ? undefined : date;
+  }
+  if (typeof value === "object") {
+    const raw = value as { seconds?: number; _seconds?: number; toDate?: () => Date };
+    if (typeof raw.toDate === "function") return raw.toDate();
+    const seconds = raw.seconds ?? raw._seconds;
+    if (typeof seconds === "number") return new Date(seconds * 1000);
+  }
+  return undefined;
+}
+
+function formatDay(value: unknown): string | undefined {
+  return toDate(value)?.toISOString().split("T")[0];
+}
+
+function fileSlug(name: string): string {
+  return name.trim().toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-+|-+$/g, "") || "topic";
+}
+
+// ============ Markdown ============
+
+function questionMarkdown(question: TopicQuestion): string {
+  const lines: string[] = [];
+  const heading = question.link ? `[${question.title}](${question.link})` : question.title;
+  lines.push(`### ${heading}`, "");
+
+  const facts: string[] = [`**Difficulty:** ${question.difficulty}`, `**Status:** ${question.status}`];
+  if (question.confidence) facts.push(`**Confidence:** ${question.confidence}/5`);
+  if (question.patterns?.length) facts.push(`**Patterns:** ${question.patterns.join(", ")}`);
+  if (question.timeComplexity || question.spaceComplexity) {
+    facts.push(`**Complexity:** time ${question.timeComplexity || "?"}, space ${question.spaceComplexity || "?"}`);
+  }
+  const lastSolved = formatDay(question.lastSolved);
+  if (lastSolved) facts.push(`**Last solved:** ${lastSolved}`);
+  lines.push(...facts.map(fact => `- ${fact}`), "");
+
+  const sections: [string, string | undefined][] = [
+    ["Approach", question.approach],
+    ["Key insights", question.keyInsights],
+    ["Notes", question.personalNotes],
+  ];
+  for (const [title, text] of sections) {
+    if (text?.trim()) lines.push(`**${title}**`, "", text.trim(), "");
+  }
+
+  return lines.join("\n");
+}
+
+export function topicMarkdown(topic: ExportedTopic): string {
+  const lines: string[] = [`# ${topic.name}`, ""];
+  if (topic.description?.trim()) lines.push(topic.description.trim(), "");
+
+  if (topic.notes.length > 0) {
+    lines.push("## Notes", "");
+    for (const note of topic.notes) {
+      lines.push(note.type === "code" ? "```\n" + note.content.trim() + "\n```" : note.content.trim(), "");
+    }
+  }
+
+  lines.push(`## Questions (${topic.questions.length})`, "");
+  if (topic.questions.length === 0) {
+    lines.push("_No questions yet._", "");
+  }
+  for (const question of topic.questions) {
+    lines.push(questionMarkdown(question));
+  }
+
+  return lines.join("\n").trimEnd() + "\n";
+}
+
+// One file per topic; names are unique within the export
+export function buildMarkdownFiles(data: ExportData): ExportFile[] {
+  const used = new Map<string, number>();
+
+  return data.topics.map(topic => {
+    const base = fileSlug(topic.name);
+    const count = used.get(base) ?? 0;
+    used.set(base, count + 1);
+    return {
+      name: `${count ? `${base}-${count + 1}` : base}.md`,
+      content: topicMarkdown(topic),
+    };
+  });
+}
+
+// ============ Anki ============
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+function htmlParagraph(title: string, text: string): string {
+  return `<b>${escapeHtml(title)}</b><br>${escapeHtml(text.trim()).replace(/\n/g, "<br>")}`;
+}
+
+function ankiTag(value: string): string {
+  return value.trim().replace(/\s+/g, "_");
+}
+
+/**
+ * One Anki note per review card. Topic questions for the same problem
+ * (matched by origin, then by LeetCode slug) contribute their approach
+ * and insights to the back.
+ */
+export function buildAnkiNotes(data: ExportData): AnkiNote[] {
+  const questionsById = new Map<string, TopicQuestion>();
+  const questionsBySlug = new Map<string, TopicQuestion>();
+  for (const topic of data.topics) {
+    for (const question of topic.questions) {
+      questionsById.set(`${topic.id}/${question.id}`, question);
+      const slug = question.link ? parseLeetCodeUrl(question.link).slug : undefined;
+      if (slug && !questionsBySlug.has(slug)) questionsBySlug.set(slug, question);
+    }
+  }
+
+  return (data.reviews ?? []).map(card => {
+    const question =
+      (card.topicId && card.questionId ? questionsById.get(`${card.topicId}/${card.questionId}`) : undefined) ??
+      questionsBySlug.get(card.problemSlug);
+
+    const link = `https://leetcode.com/problems/${card.problemSlug}/`;
+    const front = [
+      `<a href="${link}">${escapeHtml(card.problemTitle)}</a>`,
+      `<small>${escapeHtml([card.difficulty, ...card.topics].join(" · "))}</small>`,
+    ].join("<br>");
+
+    const back: string[] = [];
+    if (question?.approach?.trim()) back.push(htmlParagraph("Approach", question.approach));
+    if (question?.timeComplexity || question?.spaceComplexity) {
+      back.push(htmlParagraph("Complexity", `time ${question.timeComplexity || "?"}, space ${question.spaceComplexity || "?"}`));
+    }
+    const insights = [...(card.keyInsights ?? []), ...(question?.keyInsights?.trim() ? [question.keyInsights] : [])];
+    if (insights.length) back.push(htmlParagraph("Key insights", insights.join("\n")));
+    if (card.mistakePatterns?.length) back.push(htmlParagraph("Mistakes to avoid", card.mistakePatterns.join("\n")));
+    const notes = [card.notes, question?.personalNotes].filter((text): text is string => !!text?.trim());
+    if (notes.length) back.push(htmlParagraph("Notes", notes.join("\n\n")));
+    if (back.length === 0) back.push("<i>No notes yet - solve it again and write down the key idea.</i>");
+
+    return {
+      key: card.problemSlug,
+      front,
+      back: back.join("<br><br>"),
+      tags: ["leetcode", ankiTag(card.difficulty), ankiTag(card.masteryLevel), ...card.topics.map(ankiTag)],
+      interval: card.interval,
+      easeFactor: card.easeFactor,
+      repetitions: card.repetitions,
+      nextReviewDate: toDate(card.nextReviewDate),
+    };
+  });
+}
+
+function csvField(value: string): string {
+  return `"${value.replace(/"/g, '""')}"`;
+}
+
+// Text file for Anki's importer; the header lines preset separator, HTML and tag column
+export function toAnkiCsv(notes: AnkiNote[]): string {
+  const lines = ["#separator:Comma", "#html:true", "#tags column:3"];
+  for (const note of notes) {
+    lines.push([csvField(note.front), csvField(note.back), csvField(note.tags.join(" "))].join(","));
+  }
+  return lines.join("\n") + "\n";
+}
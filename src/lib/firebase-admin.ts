@@ -0,0 +1,28 @@
+import { initializeApp, getApps, getApp, cert, type App } from "firebase-admin/app";
+import { getAuth } from "firebase-admin/auth";
+import { getFirestore } from "firebase-admin/firestore";
+
+// Server-side Firebase. Uses a service account when FIREBASE_SERVICE_ACCOUNT_KEY
+// is set; otherwise falls back to application default credentials. Token
+// verification only needs the project id, and FIREBASE_AUTH_EMULATOR_HOST
+// switches it to the Auth emulator. Firestore reads (server-side export)
+// need real credentials.
+function getAdminApp(): App {
+  if (getApps().length) return getApp();
+
+  const projectId = process.env.FIREBASE_PROJECT_ID || process.env.NEXT_PUBLIC_FIREBASE_PROJECT_ID;
+  const serviceAccount = process.env.FIREBASE_SERVICE_ACCOUNT_KEY;
+
+  return initializeApp({
+    projectId,
+    ...(serviceAccount ? { credential: cert(JSON.parse(serviceAccount)) } : {}),
+  });
+}
+
+export function getAdminAuth() {
+  return getAuth(getAdminApp());
+}
+
+export function getAdminFirestore() {
+  return getFirestore(getAdminApp());
+}
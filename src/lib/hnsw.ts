@@ -0,0 +1,145 @@
+/**
+ * HNSW - approximate nearest-neighbour graph over unit vectors
+ *
+ * Hierarchical Navigable Small World (Malkov & Yashunin): every node lives
+ * on layer 0 and, with exponentially falling probability, on higher layers.
+ * A search descends greedily from the top layer's entry point and runs a
+ * best-first search with `ef` candidates on layer 0. Distance is
+ * 1 - dot(a, b), i.e. cosine distance for normalized vectors.
+ *
+ * The graph only stores node numbers; vectors stay with the caller, so a
+ * serialized graph is small enough to persist next to the data.
+ */
+
+const M = 16; // neighbours per node on upper layers
+const M0 = 2 * M; // neighbours per node on layer 0
+const EF_CONSTRUCTION = 64;
+const LEVEL_FACTOR = 1 / Math.log(M);
+
+export interface HnswGraph {
+  entry: number; // -1 while empty
+  maxLevel: number;
+  neighbors: number[][][]; // neighbors[node][layer]
+}
+
+interface Candidate {
+  node: number;
+  distance: number;
+}
+
+export function distance(a: Float32Array, b: Float32Array): number {
+  let dot = 0;
+  for (let i = 0; i < a.length; i++) dot += a[i] * b[i];
+  return 1 - dot;
+}
+
+// Insert keeping ascending distance order
+function insertSorted(list: Candidate[], item: Candidate) {
+  let lo = 0;
+  let hi = list.length;
+  while (lo < hi) {
+    const mid = (lo + hi) >> 1;
+    if (list[mid].distance < item.distance) lo = mid + 1;
+    else hi = mid;
+  }
+  list.splice(lo, 0, item);
+}
+
+function searchLayer(
+  graph: HnswGraph,
+  vectors: Float32Array[],
+  query: Float32Array,
+  entryPoints: Candidate[],
+  ef: number,
+  layer: number
+): Candidate[] {
+  const visited = new Set(entryPoints.map(c => c.node));
+  const candidates = [...entryPoints].sort((a, b) => a.distance - b.distance);
+  const results = [...candidates];
+
+  while (candidates.length > 0) {
+    const closest = candidates.shift()!;
+    if (results.length >= ef && closest.distance > results[results.length - 1].distance) break;
+
+    for (const neighbor of graph.neighbors[closest.node][layer] ?? []) {
+      if (visited.has(neighbor)) continue;
+      visited.add(neighbor);
+
+      const d = distance(query, vectors[neighbor]);
+      if (results.length < ef || d < results[results.length - 1].distance) {
+        insertSorted(candidates, { node: neighbor, distance: d });
+        insertSorted(results, { node: neighbor, distance: d });
+        if (results.length > ef) results.pop();
+      }
+    }
+  }
+
+  return results;
+}
+
+function descend(graph: HnswGraph, vectors: Float32Array[], query: Float32Array, toLayer: number): Candidate {
+  let best = { node: graph.entry, distance: distance(query, vectors[graph.entry]) };
+  for (let layer = graph.maxLevel; layer > toLayer; layer--) {
+    best = searchLayer(graph, vectors, query, [best], 1, layer)[0];
+  }
+  return best;
+}
+
+function insert(graph: HnswGraph, vectors: Float32Array[], node: number) {
+  const level = Math.floor(-Math.log(1 - Math.random()) * LEVEL_FACTOR);
+  graph.neighbors[node] = Array.from({ length: level + 1 }, () => []);
+
+  if (graph.entry < 0) {
+    graph.entry = node;
+    graph.maxLevel = level;
+    return;
+  }
+
+  const query = vectors[node];
+  let entryPoints = [descend(graph, vectors, query, level)];
+
+  for (let layer = Math.min(level, graph.maxLevel); layer >= 0; layer--) {
+    const found = searchLayer(graph, vectors, query, entryPoints, EF_CONSTRUCTION, layer);
+    const maxNeighbors = layer === 0 ? M0 : M;
+    graph.neighbors[node][layer] = found.slice(0, M).map(c => c.node);
+
+    for (const neighbor of graph.neighbors[node][layer]) {
+      const links = graph.neighbors[neighbor][layer];
+      links.push(node);
+      if (links.length > maxNeighbors) {
+        // Keep the neighbour's closest links
+        const sorted = links
+          .map(other => ({ node: other, distance: distance(vectors[neighbor], vectors[other]) }))
+          .sort((a, b) => a.distance - b.distance);
+        graph.neighbors[neighbor][layer] = sorted.slice(0, maxNeighbors).map(c => c.node);
+      }
+    }
+    entryPoints = found;
+  }
+
+  if (level > graph.maxLevel) {
+    graph.entry = node;
+    graph.maxLevel = level;
+  }
+}
+
+export function buildGraph(vectors: Float32Array[]): HnswGraph {
+  const graph: HnswGraph = { entry: -1, maxLevel: 0, neighbors: [] };
+  for (let node = 0; node < vectors.length; node++) {
+    insert(graph, vectors, node);
+  }
+  return graph;
+}
+
+// The `limit` nearest nodes to `query`, closest first
+export function searchGraph(
+  graph: HnswGraph,
+  vectors: Float32Array[],
+  query: Float32Array,
+  limit: number,
+  ef: number = Math.max(64, limit * 4)
+): Candidate[] {
+  if (graph.entry < 0) return [];
+  const entry = descend(graph, vectors, query, 0);
+  return searchLayer(graph, vectors, query, [entry], Math.max(ef, limit), 0).slice(0, limit);
+}
@@ -1,149 +1,95 @@
 "use server";
 
 import { getDatabase, COLLECTIONS } from "@/lib/mongodb";
+import { requireAdmin, requireSession } from "@/lib/session";
+import type { CatalogChange, CatalogChangeKind, ImportRun } from "@/lib/catalog-import";
+import {
+  runCatalogImport,
+  serializeRun,
+  type ImportLeetCodeOptions,
+  type ProblemDocument,
+} from "@/lib/catalog-import-job";
 
 import { ObjectId } from "mongodb";
 
-export interface LeetCodeProblem {
-  _id?: ObjectId;
-  title: string;
-  titleSlug: string;
-  difficulty: "Easy" | "Medium" | "Hard";
-  topicTags: string[];
-  problemId?: number;
-  importedAt: Date;
-}
+/**
+ * Import the LeetCode catalog as a resumable job (see catalog-import-job.ts).
+ * The catalog is shared by every user, so only admins may run it.
+ */
+export async function importLeetCodeProblems(options: ImportLeetCodeOptions = {}): Promise<{
+  success: boolean;
+  run?: ImportRun;
+  imported?: number;
+  total?: number;
+  error?: string
+}> {
+  try {
+    await requireAdmin();
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : "Admin access required" };
+  }
 
-// GraphQL query to fetch problems from LeetCode
-const LEETCODE_GRAPHQL_QUERY = `
-  query problemsetQuestionListV2($limit: Int!, $skip: Int!) {
-    problemsetQuestionListV2(limit: $limit, skip: $skip) {
-      questions {
-        title
-        titleSlug
-        difficulty
-        topicTags {
-          name
-        }
-        frontendQuestionId
-      }
-    }
+  const db = await getDatabase();
+  if (!db) {
+    return { success: false, error: "Database not available" };
   }
-`;
 
-// Fetch problems from LeetCode API
-async function fetchProblemsFromLeetCode(limit: number = 100, skip: number = 0): Promise<LeetCodeProblem[]> {
-  try {
-    const response = await fetch("https://leetcode.com/graphql", {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-        "Referer": "https://leetcode.com/problems"
-      },
-      body: JSON.stringify({
-        query: LEETCODE_GRAPHQL_QUERY,
-        variables: { limit, skip }
-      })
-    });
+  return await runCatalogImport(db, options);
+}
 
-    if (!response.ok) {
-      throw new Error(`HTTP error! status: ${response.status}`);
+// Recent import runs, newest first
+export async function getImportRuns(
+  limit: number = 10
+): Promise<{ success: boolean; runs?: ImportRun[]; error?: string }> {
+  try {
+    await requireSession();
+    const db = await getDatabase();
+    if (!db) {
+      return { success: false, error: "Database not available" };
     }
 
-    const data = await response.json();
-    
-    if (data.errors) {
-      throw new Error(`GraphQL error: ${JSON.stringify(data.errors)}`);
-    }
+    const runs = await db.collection(COLLECTIONS.IMPORT_RUNS)
+      .find({})
+      .sort({ startedAt: -1 })
+      .limit(limit)
+      .toArray();
 
-    const questions = data.data?.problemsetQuestionListV2?.questions || [];
-    
-    return questions.map((q: any) => ({
-      title: q.title,
-      titleSlug: q.titleSlug,
-      difficulty: q.difficulty,
-      topicTags: q.topicTags.map((tag: any) => tag.name),
-      problemId: q.frontendQuestionId ? parseInt(q.frontendQuestionId) : undefined,
-      importedAt: new Date(),
-    }));
+    return { success: true, runs: runs.map(serializeRun) };
   } catch (error) {
-    console.error("Failed to fetch from LeetCode API:", error);
-    throw error;
+    console.error("Failed to get import runs:", error);
+    return { success: false, error: "Failed to get import runs" };
   }
 }
 
-// Import all problems from LeetCode
-export async function importLeetCodeProblems(): Promise<{ 
-  success: boolean; 
-  imported?: number; 
-  total?: number; 
-  error?: string 
-}> {
+// Changelog of one import run, optionally filtered by kind
+export async function getImportChangelog(
+  runId: string,
+  options: { kind?: CatalogChangeKind; limit?: number } = {}
+): Promise<{ success: boolean; changes?: (CatalogChange & { at: Date })[]; error?: string }> {
   try {
+    await requireSession();
     const db = await getDatabase();
     if (!db) {
       return { success: false, error: "Database not available" };
     }
-
-    console.log("Starting LeetCode problems import...");
-    
-    let allProblems: LeetCodeProblem[] = [];
-    let skip = 0;
-    const limit = 100;
-    let hasMore = true;
-
-    // Fetch all problems in batches
-    while (hasMore) {
-      console.log(`Fetching batch: skip=${skip}, limit=${limit}`);
-      
-      const problems = await fetchProblemsFromLeetCode(limit, skip);
-      
-      if (problems.length === 0) {
-        hasMore = false;
-      } else {
-        allProblems.push(...problems);
-        skip += limit;
-        
-        // Add delay to be respectful to LeetCode servers
-        await new Promise(resolve => setTimeout(resolve, 1000));
-      }
-
-      // Safety break to prevent infinite loops
-      if (skip > 5000) {
-        console.warn("Reached safety limit of 5000 problems");
-        break;
-      }
-    }
-
-    console.log(`Fetched ${allProblems.length} problems from LeetCode`);
-
-    // Clear existing problems and insert new ones
-    const collection = db.collection(COLLECTIONS.PROBLEMS);
-    await collection.deleteMany({});
-    
-    if (allProblems.length > 0) {
-      await collection.insertMany(allProblems as any);
+    if (!ObjectId.isValid(runId)) {
+      return { success: false, error: "Invalid run id" };
     }
 
-    // Create indexes for better performance
-    await collection.createIndex({ titleSlug: 1 }, { unique: true });
-    await collection.createIndex({ problemId: 1 });
-    await collection.createIndex({ difficulty: 1 });
-    await collection.createIndex({ topicTags: 1 });
+    const query: any = { runId: new ObjectId(runId) };
+    if (options.kind) query.kind = options.kind;
 
-    console.log("Import completed successfully");
+    const changes = await db.collection(COLLECTIONS.IMPORT_CHANGES)
+      .find(query)
+      .project({ _id: 0, runId: 0 })
+      .sort({ at: 1 })
+      .limit(options.limit ?? 200)
+      .toArray();
 
-    return { 
-      success: true, 
-      imported: allProblems.length, 
-      total: allProblems.length 
-    };
+    return { success: true, changes: changes as unknown as (CatalogChange & { at: Date })[] };
   } catch (error) {
-    console.error("Failed to import LeetCode problems:", error);
-    return { 
-      success: false, 
-      error: error instanceof Error ? error.message : "Import failed" 
-    };
+    console.error("Failed to get import changelog:", error);
+    return { success: false, error: "Failed to get import changelog" };
   }
 }
 
@@ -151,7 +97,7 @@ export async function importLeetCodeProblems(): Promise<{
 export async function searchProblems(
   query: string,
   limit: number = 10
-): Promise<{ success: boolean; problems?: LeetCodeProblem[]; error?: string }> {
+): Promise<{ success: boolean; problems?: ProblemDocument[]; error?: string }> {
   try {
     const db = await getDatabase();
     if (!db) {
@@ -171,7 +117,7 @@ export async function searchProblems(
       .limit(limit)
       .toArray();
 
-    return { success: true, problems: problems as unknown as LeetCodeProblem[] };
+    return { success: true, problems: problems as unknown as ProblemDocument[] };
   } catch (error) {
     console.error("Failed to search problems:", error);
     return { success: false, error: "Search failed" };
@@ -181,7 +127,7 @@ export async function searchProblems(
 // Get problem by slug or ID
 export async function getProblem(
   identifier: string | number
-): Promise<{ success: boolean; problem?: LeetCodeProblem; error?: string }> {
+): Promise<{ success: boolean; problem?: ProblemDocument; error?: string }> {
   try {
     const db = await getDatabase();
     if (!db) {
@@ -210,7 +156,7 @@ export async function getProblem(
       return { success: false, error: "Problem not found" };
     }
 
-    return { success: true, problem: problem as unknown as LeetCodeProblem };
+    return { success: true, problem: problem as unknown as ProblemDocument };
   } catch (error) {
     console.error("Failed to get problem:", error);
     return { success: false, error: "Failed to get problem" };
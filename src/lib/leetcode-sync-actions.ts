@@ -0,0 +1,90 @@
+"use server";
+
+import { getDatabase, COLLECTIONS } from "@/lib/mongodb";
+import { requireUser } from "@/lib/session";
+import { invalidateUserAICache } from "@/lib/ai-cache";
+import { fetchRecentAcceptedSubmissions, LeetCodeSyncError } from "@/lib/leetcode-sync";
+import { applyLeetCodeSync, type LeetCodeSyncResult } from "@/lib/leetcode-sync-store";
+
+export type { LeetCodeSyncResult };
+
+export interface LeetCodeSyncStatus {
+  username?: string;
+  lastSyncedAt?: Date;
+  lastSubmissionAt?: Date;
+  lastResult?: LeetCodeSyncResult;
+}
+
+// Ingest a LeetCode progress or submissions payload into the solved collection
+export async function syncSolvedFromPayload(
+  userId: string,
+  payload: unknown,
+  username?: string
+): Promise<{ success: boolean; result?: LeetCodeSyncResult; error?: string }> {
+  try {
+    await requireUser(userId);
+    const db = await getDatabase();
+    if (!db) {
+      return { success: false, error: "Database not available" };
+    }
+
+    const result = await applyLeetCodeSync(db, userId, payload, { username });
+    if (result.added + result.updated > 0) {
+      await invalidateUserAICache(db, userId);
+    }
+
+    return { success: true, result };
+  } catch (error) {
+    console.error("Failed to sync solved problems:", error);
+    return {
+      success: false,
+      error: error instanceof LeetCodeSyncError ? error.message : "Failed to sync solved problems"
+    };
+  }
+}
+
+// Pull recent accepted submissions from a public LeetCode profile
+export async function syncSolvedFromLeetCode(
+  userId: string,
+  username: string
+): Promise<{ success: boolean; result?: LeetCodeSyncResult; error?: string }> {
+  try {
+    await requireUser(userId);
+    const payload = await fetchRecentAcceptedSubmissions(username.trim());
+    return await syncSolvedFromPayload(userId, payload, username.trim());
+  } catch (error) {
+    console.error("Failed to sync from LeetCode profile:", error);
+    return {
+      success: false,
+      error: error instanceof LeetCodeSyncError ? error.message : "Failed to reach LeetCode"
+    };
+  }
+}
+
+// Get the last sync cursor and result
+export async function getLeetCodeSyncStatus(
+  userId: string
+): Promise<{ success: boolean; status?: LeetCodeSyncStatus; error?: string }> {
+  try {
+    await requireUser(userId);
+    const db = await getDatabase();
+    if (!db) {
+      return { success: false, error: "Database not available" };
+    }
+
+    const state = await db.collection(COLLECTIONS.LEETCODE_SYNC).findOne({ userId });
+
+    return {
+      success: true,
+      status: {
+        username: state?.username,
+        lastSyncedAt: state?.lastSyncedAt,
+        lastSubmissionAt: state?.lastSubmissionAt,
+        lastResult: state?.lastResult,
+      },
+    };
+  } catch (error) {
+    console.error("Failed to get LeetCode sync status:", error);
+    return { success: false, error: "Failed to get LeetCode sync status" };
+  }
+}
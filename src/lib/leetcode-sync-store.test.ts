@@ -0,0 +1,89 @@
+import { beforeEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { applyLeetCodeSync } from "@/lib/leetcode-sync-store";
+import { COLLECTIONS } from "@/lib/mongodb";
+import { MemoryDb } from "@/lib/testing/memory-db";
+import progressFixture from "@/lib/testing/fixtures/leetcode-progress.json";
+import recentAcFixture from "@/lib/testing/fixtures/leetcode-recent-ac.json";
+import submissionsFixture from "@/lib/testing/fixtures/leetcode-submissions.json";
+
+/**
+ * Incremental syncs against an in-memory database: replays of recorded
+ * payloads must add each submission to the counts exactly once.
+ */
+
+const userId = "user-1";
+const at = (seconds: number) => new Date(seconds * 1000);
+
+let db: MemoryDb;
+
+const solved = (titleSlug: string) => db.collection(COLLECTIONS.SOLVED).findOne({ userId, titleSlug });
+const cursor = async () => (await db.collection(COLLECTIONS.LEETCODE_SYNC).findOne({ userId }))?.lastSubmissionAt;
+
+beforeEach(() => {
+  db = new MemoryDb();
+});
+
+describe("leetcode sync store: submission feeds", () => {
+  it("adds solved problems and moves the cursor", async () => {
+    const result = await applyLeetCodeSync(db.asDb(), userId, submissionsFixture, { username: "octocat" });
+
+    assert.deepEqual(result, { kind: "submissions", added: 2, updated: 0, skipped: 1 });
+    const twoSum = await solved("two-sum");
+    assert.equal(twoSum?.acceptedCount, 2);
+    assert.equal(twoSum?.submissionCount, 3);
+    assert.deepEqual(twoSum?.solvedAt, at(1708819200));
+    assert.deepEqual(await cursor(), at(1709078400));
+  });
+
+  it("counts nothing twice when the same payload is synced again", async () => {
+    await applyLeetCodeSync(db.asDb(), userId, submissionsFixture);
+    const result = await applyLeetCodeSync(db.asDb(), userId, submissionsFixture);
+
+    assert.equal(result.added + result.updated, 0);
+    assert.equal((await solved("two-sum"))?.acceptedCount, 2);
+    // The wrong answer after the cursor was counted the first time
+    assert.equal((await solved("valid-parentheses"))?.submissionCount, 2);
+  });
+
+  it("counts nothing twice when a retry follows a failed cursor write", async () => {
+    const state = db.collection(COLLECTIONS.LEETCODE_SYNC);
+    const updateOne = state.updateOne.bind(state);
+    state.updateOne = async () => {
+      throw new Error("connection reset");
+    };
+    await assert.rejects(applyLeetCodeSync(db.asDb(), userId, submissionsFixture), /connection reset/);
+    state.updateOne = updateOne;
+
+    await applyLeetCodeSync(db.asDb(), userId, submissionsFixture);
+
+    const twoSum = await solved("two-sum");
+    assert.equal(twoSum?.acceptedCount, 2);
+    assert.equal(twoSum?.submissionCount, 3);
+    assert.deepEqual(await cursor(), at(1709078400));
+  });
+
+  it("adds only the new part of an overlapping feed", async () => {
+    await applyLeetCodeSync(db.asDb(), userId, submissionsFixture);
+    const result = await applyLeetCodeSync(db.asDb(), userId, recentAcFixture);
+
+    assert.deepEqual(result, { kind: "recent-accepted", added: 1, updated: 1, skipped: 0 });
+    assert.equal((await solved("two-sum"))?.acceptedCount, 3);
+    assert.equal((await solved("valid-parentheses"))?.acceptedCount, 1);
+    assert.deepEqual(await cursor(), at(1709251200));
+  });
+});
+
+describe("leetcode sync store: progress lists", () => {
+  it("keeps snapshot totals and leaves the cursor alone", async () => {
+    await applyLeetCodeSync(db.asDb(), userId, progressFixture);
+    await applyLeetCodeSync(db.asDb(), userId, progressFixture);
+
+    const twoSum = await solved("two-sum");
+    assert.equal(twoSum?.submissionCount, 3);
+    assert.equal(twoSum?.acceptedCount, 1);
+    assert.deepEqual(twoSum?.topicTags, ["Array", "Hash Table"]);
+    assert.equal(await solved("merge-intervals"), null);
+    assert.equal(await cursor(), undefined);
+  });
+});
@@ -0,0 +1,156 @@
+import type { Db } from "mongodb";
+import { COLLECTIONS } from "@/lib/mongodb";
+import { parseLeetCodeSyncPayload, type SyncedProblem } from "@/lib/leetcode-sync";
+
+/**
+ * LeetCode Sync Store - writes a parsed payload into the solved collection
+ *
+ * Submission feeds add to each problem's counts, so a sync must never count
+ * the same submission twice. The user's cursor (LEETCODE_SYNC
+ * lastSubmissionAt) lives in another collection and is only moved after
+ * every problem is written, so each solved document also keeps its own
+ * `countedThrough`: the latest submission already in its counts, set in
+ * the same update as the counts. A sync retried after a failure skips what
+ * the first attempt counted, whatever the cursor says.
+ */
+
+export interface LeetCodeSyncResult {
+  kind: "progress" | "recent-accepted" | "submissions";
+  added: number;
+  updated: number;
+  skipped: number;
+}
+
+function buildSolvedUpdate(userId: string, problem: SyncedProblem, now: Date) {
+  const set: Record<string, unknown> = {
+    title: problem.title,
+    status: "SOLVED",
+    lastSyncedAt: now,
+  };
+  if (problem.difficulty) set.difficulty = problem.difficulty;
+  if (problem.topicTags) set.topicTags = problem.topicTags;
+  if (problem.questionFrontendId) set.questionFrontendId = problem.questionFrontendId;
+  if (problem.odId !== undefined) set.odId = problem.odId;
+  if (problem.paidOnly !== undefined) set.paidOnly = problem.paidOnly;
+  if (problem.acRate !== undefined) set.acRate = problem.acRate;
+
+  const update: Record<string, Record<string, unknown>> = {
+    $set: set,
+    $setOnInsert: { userId, titleSlug: problem.titleSlug },
+  };
+
+  // solvedAt keeps the earliest accepted timestamp ever seen
+  const solvedAt = problem.firstAcceptedAt ?? problem.lastAcceptedAt;
+  if (solvedAt) {
+    update.$min = { solvedAt };
+  } else {
+    update.$setOnInsert.solvedAt = now;
+  }
+  if (problem.lastAcceptedAt) {
+    update.$max = { lastAcceptedAt: problem.lastAcceptedAt };
+  }
+
+  // Snapshot counts never lower what is stored; windows of new submissions add to it
+  if (problem.countsAreTotals) {
+    update.$max = {
+      ...update.$max,
+      submissionCount: problem.submissionCount,
+      acceptedCount: problem.acceptedCount,
+    };
+  } else {
+    update.$inc = { submissionCount: problem.submissionCount, acceptedCount: problem.acceptedCount };
+    if (problem.lastSubmittedAt) {
+      update.$max = { ...update.$max, countedThrough: problem.lastSubmittedAt };
+    }
+  }
+
+  return update;
+}
+
+// Each problem's countedThrough, for the problems a submission feed mentions
+async function loadCountedThrough(db: Db, userId: string, problems: SyncedProblem[]): Promise<Map<string, Date>> {
+  const slugs = problems.filter(p => !p.countsAreTotals).map(p => p.titleSlug);
+  if (slugs.length === 0) return new Map();
+
+  const docs = await db.collection(COLLECTIONS.SOLVED)
+    .find({ userId, titleSlug: { $in: slugs }, countedThrough: { $exists: true } })
+    .project({ titleSlug: 1, countedThrough: 1 })
+    .toArray();
+  return new Map(docs.map(doc => [doc.titleSlug as string, doc.countedThrough as Date]));
+}
+
+/**
+ * Ingest a LeetCode progress or submissions payload for `userId`. Throws
+ * LeetCodeSyncError for payloads that can't be read.
+ */
+export async function applyLeetCodeSync(
+  db: Db,
+  userId: string,
+  payload: unknown,
+  options: { username?: string; now?: Date } = {}
+): Promise<LeetCodeSyncResult> {
+  const syncState = await db.collection(COLLECTIONS.LEETCODE_SYNC).findOne({ userId });
+  const sinceCursor = parseLeetCodeSyncPayload(payload, syncState?.lastSubmissionAt);
+  const countedThrough = await loadCountedThrough(db, userId, sinceCursor.problems);
+  const parsed = countedThrough.size > 0
+    ? parseLeetCodeSyncPayload(payload, syncState?.lastSubmissionAt, countedThrough)
+    : sinceCursor;
+
+  const solvedCollection = db.collection(COLLECTIONS.SOLVED);
+  const now = options.now ?? new Date();
+  const result: LeetCodeSyncResult = { kind: parsed.kind, added: 0, updated: 0, skipped: 0 };
+
+  for (const problem of parsed.problems) {
+    if (!problem.solved) {
+      result.skipped++;
+      continue;
+    }
+
+    // Fill gaps (recent submissions carry no difficulty or tags) from the catalog
+    if (!problem.difficulty || !problem.topicTags) {
+      const catalogEntry = await db.collection(COLLECTIONS.PROBLEMS).findOne({ titleSlug: problem.titleSlug });
+      if (catalogEntry) {
+        problem.difficulty ??= catalogEntry.difficulty?.toUpperCase();
+        problem.topicTags ??= catalogEntry.topicTags;
+        problem.questionFrontendId ??= catalogEntry.problemId ? String(catalogEntry.problemId) : undefined;
+      }
+    }
+
+    const upsert = await solvedCollection.updateOne(
+      { userId, titleSlug: problem.titleSlug },
+      buildSolvedUpdate(userId, problem, now),
+      { upsert: true }
+    );
+    if (upsert.upsertedCount > 0) {
+      result.added++;
+    } else {
+      result.updated++;
+    }
+  }
+
+  // Only submission feeds advance the cursor, and only past accepted submissions;
+  // progress lists are full snapshots. Everything in the window is counted by
+  // now, including what an earlier attempt counted.
+  const latestSubmissionAt =
+    sinceCursor.kind !== "progress" &&
+    sinceCursor.latestSubmissionAt &&
+    (!syncState?.lastSubmissionAt || sinceCursor.latestSubmissionAt > syncState.lastSubmissionAt)
+      ? sinceCursor.latestSubmissionAt
+      : syncState?.lastSubmissionAt;
+
+  await db.collection(COLLECTIONS.LEETCODE_SYNC).updateOne(
+    { userId },
+    {
+      $set: {
+        userId,
+        lastSyncedAt: now,
+        lastResult: result,
+        ...(latestSubmissionAt ? { lastSubmissionAt: latestSubmissionAt } : {}),
+        ...(options.username ? { username: options.username } : {}),
+      },
+    },
+    { upsert: true }
+  );
+
+  return result;
+}
@@ -0,0 +1,147 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  fetchRecentAcceptedSubmissions,
+  LeetCodeSyncError,
+  parseLeetCodeSyncPayload,
+  type SyncedProblem,
+} from "@/lib/leetcode-sync";
+import progressFixture from "@/lib/testing/fixtures/leetcode-progress.json";
+import recentAcFixture from "@/lib/testing/fixtures/leetcode-recent-ac.json";
+import submissionsFixture from "@/lib/testing/fixtures/leetcode-submissions.json";
+
+/**
+ * The payload parser against GraphQL responses recorded from LeetCode: the
+ * progress list, a public profile's recent accepted submissions and the
+ * full submission list.
+ */
+
+const at = (seconds: number) => new Date(seconds * 1000);
+
+function bySlug(problems: SyncedProblem[]): Map<string, SyncedProblem> {
+  return new Map(problems.map(problem => [problem.titleSlug, problem]));
+}
+
+describe("leetcode sync: progress list", () => {
+  it("reads solved status, metadata and totals", () => {
+    const parsed = parseLeetCodeSyncPayload(progressFixture);
+    const problems = bySlug(parsed.problems);
+
+    assert.equal(parsed.kind, "progress");
+    assert.equal(parsed.problems.length, 3);
+    assert.deepEqual(problems.get("two-sum"), {
+      titleSlug: "two-sum",
+      title: "Two Sum",
+      odId: undefined,
+      questionFrontendId: "1",
+      difficulty: "EASY",
+      topicTags: ["Array", "Hash Table"],
+      paidOnly: undefined,
+      acRate: undefined,
+      solved: true,
+      lastAcceptedAt: new Date("2024-02-27T00:00:00Z"),
+      acceptedCount: 1,
+      submissionCount: 3,
+      countsAreTotals: true,
+    });
+    assert.equal(problems.get("merge-intervals")?.solved, false);
+    assert.equal(problems.get("merge-intervals")?.lastAcceptedAt, undefined);
+  });
+
+  it("takes the latest solve as the latest submission", () => {
+    const parsed = parseLeetCodeSyncPayload(progressFixture);
+    assert.deepEqual(parsed.latestSubmissionAt, new Date("2024-02-29T00:00:00Z"));
+  });
+});
+
+describe("leetcode sync: recent accepted submissions", () => {
+  it("folds repeated solves of a problem into one record", () => {
+    const parsed = parseLeetCodeSyncPayload(recentAcFixture);
+    const twoSum = bySlug(parsed.problems).get("two-sum");
+
+    assert.equal(parsed.kind, "recent-accepted");
+    assert.deepEqual(parsed.problems.map(p => p.titleSlug), ["two-sum", "climbing-stairs", "valid-parentheses"]);
+    assert.equal(twoSum?.acceptedCount, 2);
+    assert.equal(twoSum?.countsAreTotals, false);
+    assert.deepEqual(twoSum?.firstAcceptedAt, at(1708992000));
+    assert.deepEqual(twoSum?.lastAcceptedAt, at(1709251200));
+    assert.deepEqual(parsed.latestSubmissionAt, at(1709251200));
+  });
+
+  it("skips submissions at or before the cursor", () => {
+    const parsed = parseLeetCodeSyncPayload(recentAcFixture, at(1709078400));
+
+    assert.deepEqual(parsed.problems.map(p => p.titleSlug), ["two-sum", "climbing-stairs"]);
+    assert.equal(bySlug(parsed.problems).get("two-sum")?.acceptedCount, 1);
+  });
+
+  it("fetches a public profile's list", async () => {
+    const requests: { url: string; body: any }[] = [];
+    const payload = await fetchRecentAcceptedSubmissions("octocat", {
+      limit: 4,
+      endpoint: "https://leetcode.test/graphql",
+      fetchImpl: async (url, init) => {
+        requests.push({ url, body: JSON.parse(String(init?.body)) });
+        return Response.json(recentAcFixture);
+      },
+    });
+
+    assert.deepEqual(payload, recentAcFixture);
+    assert.equal(requests[0].url, "https://leetcode.test/graphql");
+    assert.deepEqual(requests[0].body.variables, { username: "octocat", limit: 4 });
+  });
+
+  it("reports a profile without public submissions", async () => {
+    await assert.rejects(
+      fetchRecentAcceptedSubmissions("nobody", { fetchImpl: async () => Response.json({ data: { recentAcSubmissionList: null } }) }),
+      LeetCodeSyncError
+    );
+  });
+});
+
+describe("leetcode sync: submission list", () => {
+  it("counts every submission and only accepted ones as solves", () => {
+    const parsed = parseLeetCodeSyncPayload(submissionsFixture);
+    const problems = bySlug(parsed.problems);
+
+    assert.equal(parsed.kind, "submissions");
+    assert.deepEqual(
+      { ...problems.get("two-sum") },
+      {
+        titleSlug: "two-sum",
+        title: "Two Sum",
+        solved: true,
+        acceptedCount: 2,
+        submissionCount: 3,
+        countsAreTotals: false,
+        firstAcceptedAt: at(1708819200),
+        lastAcceptedAt: at(1708992000),
+        lastSubmittedAt: at(1708992000),
+      }
+    );
+    assert.equal(problems.get("merge-intervals")?.solved, false);
+    assert.deepEqual(problems.get("valid-parentheses")?.lastSubmittedAt, at(1709164800));
+  });
+
+  it("moves the cursor only past accepted submissions", () => {
+    const parsed = parseLeetCodeSyncPayload(submissionsFixture);
+    // The newest submission is a wrong answer; the cursor stops at the solve before it
+    assert.deepEqual(parsed.latestSubmissionAt, at(1709078400));
+  });
+
+  it("skips what a problem has already counted", () => {
+    const parsed = parseLeetCodeSyncPayload(submissionsFixture, undefined, new Map([["two-sum", at(1708905600)]]));
+    const twoSum = bySlug(parsed.problems).get("two-sum");
+
+    assert.equal(twoSum?.submissionCount, 1);
+    assert.equal(twoSum?.acceptedCount, 1);
+    assert.equal(bySlug(parsed.problems).get("valid-parentheses")?.submissionCount, 2);
+  });
+});
+
+describe("leetcode sync: unknown payloads", () => {
+  it("rejects anything that isn't a question list or submissions", () => {
+    assert.throws(() => parseLeetCodeSyncPayload({ data: { matchedUser: {} } }), LeetCodeSyncError);
+    assert.throws(() => parseLeetCodeSyncPayload("not json"), LeetCodeSyncError);
+  });
+});
@@ -0,0 +1,262 @@
+/**
+ * LeetCode Sync - normalize LeetCode payloads into solved-problem records
+ *
+ * Accepts the GraphQL responses users can fetch or save from LeetCode:
+ * - favoriteQuestionList / userProgressQuestionList (solved list with status)
+ * - recentAcSubmissionList (public, by username)
+ * - submissionList / submissions_dump (full submission history)
+ *
+ * Everything here is pure so recorded payloads can be replayed in tests;
+ * persistence lives in leetcode-sync-store.ts.
+ */
+
+export type SolvedDifficulty = "EASY" | "MEDIUM" | "HARD";
+
+export interface SyncedProblem {
+  titleSlug: string;
+  title: string;
+  odId?: number;
+  questionFrontendId?: string;
+  difficulty?: SolvedDifficulty;
+  topicTags?: string[];
+  paidOnly?: boolean;
+  acRate?: number;
+  solved: boolean;
+  firstAcceptedAt?: Date;
+  lastAcceptedAt?: Date;
+  lastSubmittedAt?: Date; // latest submission in the counts, for windows of new submissions
+  acceptedCount: number;
+  submissionCount: number;
+  // true for snapshots (progress lists), false for a window of new submissions
+  countsAreTotals: boolean;
+}
+
+export interface ParsedSyncPayload {
+  kind: "progress" | "recent-accepted" | "submissions";
+  problems: SyncedProblem[];
+  latestSubmissionAt?: Date; // latest accepted submission, where the sync cursor moves to
+}
+
+export class LeetCodeSyncError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "LeetCodeSyncError";
+  }
+}
+
+function toDifficulty(value: unknown): SolvedDifficulty | undefined {
+  const upper = typeof value === "string" ? value.toUpperCase() : "";
+  return upper === "EASY" || upper === "MEDIUM" || upper === "HARD" ? upper : undefined;
+}
+
+// LeetCode timestamps are unix seconds (as number or string) or ISO strings
+function toDate(value: unknown): Date | undefined {
+  if (value === null || value === undefined || value === "") return undefined;
+  if (typeof value === "number" || /^\d+$/.test(String(value))) {
+    const seconds = Number(value);
+    return new Date(seconds < 1e12 ? seconds * 1000 : seconds);
+  }
+  const date = new Date(String(value));
+  return isNaN(date.getTime()) ? undefined : date;
+}
+
+function tagNames(tags: unknown): string[] | undefined {
+  if (!Array.isArray(tags)) return undefined;
+  return tags.map(tag => (typeof tag === "string" ? tag : tag?.name)).filter(Boolean);
+}
+
+function isAccepted(status: unknown): boolean {
+  return status === 10 || status === "10" || status === "Accepted" || status === "AC";
+}
+
+function parseProgressQuestions(questions: any[]): SyncedProblem[] {
+  return questions
+    .filter(q => q?.titleSlug)
+    .map(q => {
+      const status = String(q.status ?? q.questionStatus ?? "").toUpperCase();
+      const solved = status === "SOLVED" || status === "AC" || status === "ACCEPTED";
+      const lastSubmittedAt = toDate(q.lastSubmittedAt ?? q.lastAcceptedAt);
+
+      return {
+        titleSlug: q.titleSlug,
+        title: q.title ?? q.translatedTitle ?? q.titleSlug,
+        odId: typeof q.id === "number" ? q.id : undefined,
+        questionFrontendId: q.questionFrontendId ?? q.frontendId ?? undefined,
+        difficulty: toDifficulty(q.difficulty),
+        topicTags: tagNames(q.topicTags),
+        paidOnly: q.paidOnly,
+        acRate: typeof q.acRate === "number" ? q.acRate : undefined,
+        solved,
+        lastAcceptedAt: solved ? lastSubmittedAt : undefined,
+        acceptedCount: solved ? 1 : 0,
+        submissionCount: Number(q.numSubmitted ?? 0),
+        countsAreTotals: true,
+      };
+    });
+}
+
+// Fold individual submissions into one record per problem
+function aggregateSubmissions(
+  submissions: { titleSlug: string; title?: string; accepted: boolean; at?: Date }[]
+): SyncedProblem[] {
+  const byProblem = new Map<string, SyncedProblem>();
+
+  for (const submission of submissions) {
+    const problem = byProblem.get(submission.titleSlug) ?? {
+      titleSlug: submission.titleSlug,
+      title: submission.title ?? submission.titleSlug,
+      solved: false,
+      acceptedCount: 0,
+      submissionCount: 0,
+      countsAreTotals: false,
+    };
+
+    problem.submissionCount++;
+    if (submission.at && (!problem.lastSubmittedAt || submission.at > problem.lastSubmittedAt)) {
+      problem.lastSubmittedAt = submission.at;
+    }
+    if (submission.accepted) {
+      problem.solved = true;
+      problem.acceptedCount++;
+      if (submission.at) {
+        if (!problem.firstAcceptedAt || submission.at < problem.firstAcceptedAt) {
+          problem.firstAcceptedAt = submission.at;
+        }
+        if (!problem.lastAcceptedAt || submission.at > problem.lastAcceptedAt) {
+          problem.lastAcceptedAt = submission.at;
+        }
+      }
+    }
+
+    byProblem.set(submission.titleSlug, problem);
+  }
+
+  return Array.from(byProblem.values());
+}
+
+function latestOf(dates: (Date | undefined)[]): Date | undefined {
+  const times = dates.filter((d): d is Date => !!d).map(d => d.getTime());
+  return times.length ? new Date(Math.max(...times)) : undefined;
+}
+
+// The sync cursor only moves past accepted submissions: a problem that is
+// skipped as unsolved stays inside the next sync's window
+function latestAccepted(submissions: { accepted: boolean; at?: Date }[]): Date | undefined {
+  return latestOf(submissions.filter(s => s.accepted).map(s => s.at));
+}
+
+/**
+ * Recognize and normalize a LeetCode payload. Submissions at or before
+ * `since`, or at or before their problem's entry in `countedThrough`, are
+ * skipped so repeated syncs only count new activity.
+ */
+export function parseLeetCodeSyncPayload(
+  payload: unknown,
+  since?: Date,
+  countedThrough: Map<string, Date> = new Map()
+): ParsedSyncPayload {
+  const root: any = (payload as any)?.data ?? payload;
+  if (!root || typeof root !== "object") {
+    throw new LeetCodeSyncError("Payload is not a JSON object");
+  }
+
+  const progressQuestions =
+    root.favoriteQuestionList?.questions ??
+    root.userProgressQuestionList?.questions ??
+    root.problemsetQuestionList?.questions;
+  if (Array.isArray(progressQuestions)) {
+    const problems = parseProgressQuestions(progressQuestions);
+    return {
+      kind: "progress",
+      problems,
+      latestSubmissionAt: latestOf(problems.map(p => p.lastAcceptedAt)),
+    };
+  }
+
+  const isNew = (titleSlug: string, at?: Date) => {
+    const counted = countedThrough.get(titleSlug);
+    return !at || ((!since || at > since) && (!counted || at > counted));
+  };
+
+  const recent = root.recentAcSubmissionList ?? root.recentAcSubmissions;
+  if (Array.isArray(recent)) {
+    const submissions = recent
+      .filter((s: any) => s?.titleSlug)
+      .map((s: any) => ({ titleSlug: s.titleSlug, title: s.title, accepted: true, at: toDate(s.timestamp) }));
+    const fresh = submissions.filter((s: { titleSlug: string; at?: Date }) => isNew(s.titleSlug, s.at));
+    return {
+      kind: "recent-accepted",
+      problems: aggregateSubmissions(fresh),
+      latestSubmissionAt: latestAccepted(fresh),
+    };
+  }
+
+  const submissionList = root.submissionList?.submissions ?? root.submissions_dump;
+  if (Array.isArray(submissionList)) {
+    const submissions = submissionList
+      .filter((s: any) => s?.titleSlug ?? s?.title_slug)
+      .map((s: any) => ({
+        titleSlug: s.titleSlug ?? s.title_slug,
+        title: s.title,
+        accepted: isAccepted(s.status ?? s.statusDisplay ?? s.status_display),
+        at: toDate(s.timestamp),
+      }));
+    const fresh = submissions.filter((s: { titleSlug: string; at?: Date }) => isNew(s.titleSlug, s.at));
+    return {
+      kind: "submissions",
+      problems: aggregateSubmissions(fresh),
+      latestSubmissionAt: latestAccepted(fresh),
+    };
+  }
+
+  throw new LeetCodeSyncError("Unrecognized LeetCode payload: expected a question list or submissions");
+}
+
+const RECENT_AC_QUERY = `
+  query recentAcSubmissions($username: String!, $limit: Int!) {
+    recentAcSubmissionList(username: $username, limit: $limit) {
+      id
+      title
+      titleSlug
+      timestamp
+    }
+  }
+`;
+
+export type FetchLike = (input: string, init?: RequestInit) => Promise<Response>;
+
+/**
+ * Fetch a user's public recent accepted submissions. `fetchImpl` can be
+ * swapped for a fixture server in tests.
+ */
+export async function fetchRecentAcceptedSubmissions(
+  username: string,
+  options: { limit?: number; endpoint?: string; fetchImpl?: FetchLike } = {}
+): Promise<unknown> {
+  const fetchImpl = options.fetchImpl ?? fetch;
+  const response = await fetchImpl(options.endpoint ?? "https://leetcode.com/graphql", {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      "Referer": `https://leetcode.com/u/${username}/`
+    },
+    body: JSON.stringify({
+      query: RECENT_AC_QUERY,
+      variables: { username, limit: options.limit ?? 20 }
+    })
+  });
+
+  if (!response.ok) {
+    throw new LeetCodeSyncError(`LeetCode responded with HTTP ${response.status}`);
+  }
+
+  const data = await response.json();
+  if (data.errors) {
+    throw new LeetCodeSyncError(`GraphQL error: ${JSON.stringify(data.errors)}`);
+  }
+  if (!data.data?.recentAcSubmissionList) {
+    throw new LeetCodeSyncError(`No public submissions found for "${username}"`);
+  }
+
+  return data;
+}
@@ -0,0 +1,144 @@
+"use server";
+
+import { getDatabase, COLLECTIONS } from "@/lib/mongodb";
+import { requireUser, type SessionUser } from "@/lib/session";
+import { invalidateUserAICache } from "@/lib/ai-cache";
+
+/**
+ * Legacy Data Claim - one-time handover of single-user data
+ *
+ * Before sign-in existed, solved problems, reviews, memories and snippets
+ * (and their search vectors) were written under the placeholder id
+ * "default-user". The account whose verified email matches
+ * LEGACY_DATA_OWNER_EMAIL can claim that data once; afterwards it belongs
+ * to their uid and the placeholder is never read.
+ */
+
+const LEGACY_USER_ID = "default-user";
+
+// Collections holding per-user documents, with the field that must stay unique per user
+// and, where only some documents move, which ones. Derived documents move but aren't
+// counted as the user's records.
+const CLAIMABLE_COLLECTIONS: { name: string; uniqueKey?: string; filter?: Record<string, unknown>; derived?: boolean }[] = [
+  { name: COLLECTIONS.SOLVED, uniqueKey: "titleSlug" },
+  { name: COLLECTIONS.REVIEWS, uniqueKey: "problemSlug" },
+  { name: COLLECTIONS.REVIEW_LOGS },
+  { name: COLLECTIONS.REVIEW_SETTINGS, uniqueKey: "userId" },
+  { name: COLLECTIONS.MEMORIES },
+  { name: COLLECTIONS.SNIPPETS },
+  // Vectors follow the memories and snippets they embed; note vectors stay with
+  // the Firestore notes, which aren't part of the claim
+  { name: COLLECTIONS.EMBEDDINGS, filter: { type: { $in: ["memory", "snippet"] } }, derived: true },
+];
+
+export interface LegacyDataStatus {
+  claimable: boolean;
+  claimedBy?: string;
+  counts: Record<string, number>;
+}
+
+// Anyone can register an unverified account with the owner's address, so the email must be verified
+function isLegacyOwner(user: SessionUser): boolean {
+  const ownerEmail = process.env.LEGACY_DATA_OWNER_EMAIL;
+  return !!ownerEmail && user.emailVerified === true && !!user.email && user.email.toLowerCase() === ownerEmail.toLowerCase();
+}
+
+// Check whether there is unclaimed legacy data this user may take over
+export async function getLegacyDataStatus(
+  userId: string
+): Promise<{ success: boolean; status?: LegacyDataStatus; error?: string }> {
+  try {
+    const sessionUser = await requireUser(userId);
+    const db = await getDatabase();
+    if (!db) {
+      return { success: false, error: "Database not available" };
+    }
+
+    const claim = await db.collection(COLLECTIONS.LEGACY_CLAIMS).findOne({ legacyUserId: LEGACY_USER_ID });
+
+    const counts: Record<string, number> = {};
+    for (const { name, derived } of CLAIMABLE_COLLECTIONS) {
+      if (derived) continue;
+      counts[name] = await db.collection(name).countDocuments({ userId: LEGACY_USER_ID });
+    }
+    const hasData = Object.values(counts).some(count => count > 0);
+
+    return {
+      success: true,
+      status: {
+        claimable: hasData && !claim && isLegacyOwner(sessionUser),
+        claimedBy: claim?.claimedBy === userId ? userId : undefined,
+        counts,
+      },
+    };
+  } catch (error) {
+    console.error("Failed to get legacy data status:", error);
+    return { success: false, error: "Failed to get legacy data status" };
+  }
+}
+
+// Reassign every "default-user" document to the signed-in account
+export async function claimLegacyData(
+  userId: string
+): Promise<{ success: boolean; claimed?: Record<string, number>; error?: string }> {
+  try {
+    const sessionUser = await requireUser(userId);
+    if (!isLegacyOwner(sessionUser)) {
+      return { success: false, error: "This account is not allowed to claim legacy data" };
+    }
+
+    const db = await getDatabase();
+    if (!db) {
+      return { success: false, error: "Database not available" };
+    }
+
+    // Reserve the claim first so two sessions can't split the data between them
+    const reservation = await db.collection(COLLECTIONS.LEGACY_CLAIMS).updateOne(
+      { legacyUserId: LEGACY_USER_ID },
+      { $setOnInsert: { legacyUserId: LEGACY_USER_ID, claimedBy: userId, startedAt: new Date() } },
+      { upsert: true }
+    );
+    if (reservation.upsertedCount === 0) {
+      const existing = await db.collection(COLLECTIONS.LEGACY_CLAIMS).findOne({ legacyUserId: LEGACY_USER_ID });
+      if (existing?.claimedBy !== userId || existing?.completedAt) {
+        return { success: false, error: "Legacy data has already been claimed" };
+      }
+      // Same user resuming an interrupted claim
+    }
+
+    const claimed: Record<string, number> = {};
+
+    for (const { name, uniqueKey, filter } of CLAIMABLE_COLLECTIONS) {
+      const collection = db.collection(name);
+
+      // The account's own documents win over legacy duplicates
+      if (uniqueKey === "userId") {
+        if (await collection.findOne({ userId })) {
+          await collection.deleteMany({ userId: LEGACY_USER_ID });
+        }
+      } else if (uniqueKey) {
+        const ownKeys = await collection.distinct(uniqueKey, { userId });
+        if (ownKeys.length > 0) {
+          await collection.deleteMany({ userId: LEGACY_USER_ID, [uniqueKey]: { $in: ownKeys } });
+        }
+      }
+
+      const result = await collection.updateMany(
+        { ...filter, userId: LEGACY_USER_ID },
+        { $set: { userId } }
+      );
+      claimed[name] = result.modifiedCount;
+    }
+
+    await db.collection(COLLECTIONS.LEGACY_CLAIMS).updateOne(
+      { legacyUserId: LEGACY_USER_ID },
+      { $set: { completedAt: new Date(), claimed } }
+    );
+    await invalidateUserAICache(db, userId);
+
+    return { success: true, claimed };
+  } catch (error) {
+    console.error("Failed to claim legacy data:", error);
+    return { success: false, error: "Failed to claim legacy data" };
+  }
+}
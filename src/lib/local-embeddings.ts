@@ -0,0 +1,53 @@
+import type { FeatureExtractionPipeline } from "@huggingface/transformers";
+
+/**
+ * Local Embeddings - sentence embeddings computed in-process on the CPU
+ *
+ * Runs the ONNX export of all-MiniLM-L6-v2 through transformers.js, so
+ * semantic search works without an API key. The model (~23 MB) is
+ * downloaded from the Hugging Face Hub on first use and cached in
+ * LOCAL_EMBEDDING_CACHE_DIR; set LOCAL_EMBEDDING_MODEL_PATH to a directory
+ * holding the model to run fully offline.
+ *
+ * Vectors are mean-pooled and normalized, 384 dimensions.
+ */
+
+export const LOCAL_EMBEDDING_MODEL = "Xenova/all-MiniLM-L6-v2";
+export const LOCAL_EMBEDDING_DIMENSIONS = 384;
+
+// One pipeline per server process; loading the model takes a few seconds
+let extractor: Promise<FeatureExtractionPipeline> | null = null;
+
+async function loadExtractor(): Promise<FeatureExtractionPipeline> {
+  const { pipeline, env } = await import("@huggingface/transformers");
+
+  if (process.env.LOCAL_EMBEDDING_CACHE_DIR) {
+    env.cacheDir = process.env.LOCAL_EMBEDDING_CACHE_DIR;
+  }
+  if (process.env.LOCAL_EMBEDDING_MODEL_PATH) {
+    env.localModelPath = process.env.LOCAL_EMBEDDING_MODEL_PATH;
+    env.allowRemoteModels = false;
+  }
+
+  // pipeline()'s overloads are too large for the compiler to infer; only one task is used here
+  const createPipeline = pipeline as (task: "feature-extraction", model: string, options: { dtype: "fp32" }) => Promise<FeatureExtractionPipeline>;
+  return await createPipeline("feature-extraction", LOCAL_EMBEDDING_MODEL, { dtype: "fp32" });
+}
+
+function getExtractor(): Promise<FeatureExtractionPipeline> {
+  if (!extractor) {
+    extractor = loadExtractor().catch(error => {
+      extractor = null; // let the next call retry, e.g. after a failed download
+      throw error;
+    });
+  }
+  return extractor;
+}
+
+export async function embedLocally(texts: string[]): Promise<number[][]> {
+  if (texts.length === 0) return [];
+
+  const model = await getExtractor();
+  const output = await model(texts, { pooling: "mean", normalize: true });
+  return output.tolist() as number[][];
+}
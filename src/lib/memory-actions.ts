@@ -1,8 +1,11 @@
 "use server";
 
-import { getDatabase, COLLECTIONS } from "@/lib/mongodb";
+import { getDatabase, COLLECTIONS, NOT_TRASHED, unmodifiedSinceFilter } from "@/lib/mongodb";
+import { requireUser } from "@/lib/session";
 import { ObjectId } from "mongodb";
-import { patterns, topicTags } from "@/lib/types";
+import { patterns, topicTags, type ReplayOptions } from "@/lib/types";
+import { findCatalogProblemByTitle, getCatalogProblem, getCatalogTopics } from "@/lib/problem-catalog";
+import { indexMemory, removeEmbeddings } from "@/lib/embedding-index";
 
 export type MemoryType = 'insight' | 'mistake' | 'pattern' | 'tip';
 
@@ -15,16 +18,16 @@ export interface MongoMemory {
   relatedProblems?: string[];
   createdAt: Date;
   updatedAt?: Date;
+  deletedAt?: Date | null; // in the trash (see trash.ts)
+  clientId?: string; // outbox entry that created it (offline writes)
 }
 
-// Enhanced tag extraction using MongoDB problems database
+// Enhanced tag extraction using the problem catalog
 async function extractTags(content: string): Promise<string[]> {
   const foundTags: string[] = [];
   const lowerContent = content.toLowerCase();
   
   try {
-    const db = await getDatabase();
-    
     // Check for pattern matches (static patterns)
     for (const pattern of patterns) {
       if (lowerContent.includes(pattern.toLowerCase())) {
@@ -32,52 +35,34 @@ async function extractTags(content: string): Promise<string[]> {
       }
     }
     
-    // Check for topic matches from MongoDB problems
-    if (db) {
-      // Get all unique topic tags from MongoDB
-      const mongoTopics = await db.collection(COLLECTIONS.PROBLEMS)
-        .distinct('topicTags');
-      
-      // Check for topic matches
-      for (const topic of mongoTopics) {
-        if (lowerContent.includes(topic.toLowerCase())) {
-          foundTags.push(topic);
-        }
-      }
-    } else {
-      // Fallback to static topic tags if DB not available
-      for (const topic of topicTags) {
-        if (lowerContent.includes(topic.toLowerCase())) {
-          foundTags.push(topic);
-        }
+    // Check for topic matches against every topic the catalog knows
+    for (const topic of await getCatalogTopics()) {
+      if (lowerContent.includes(topic.toLowerCase())) {
+        foundTags.push(topic);
       }
     }
     
     // Check for problem references by title or number
-    if (db) {
-      const problemRegex = /(?:problem\s*#?(\d+)|leetcode\s*(\d+)|(\d+)\.\s*([a-zA-Z\s]+))/gi;
-      let match;
+    const problemRegex = /(?:problem\s*#?(\d+)|leetcode\s*(\d+)|(\d+)\.\s*([a-zA-Z\s]+))/gi;
+    let match;
+    
+    while ((match = problemRegex.exec(content)) !== null) {
+      const problemId = match[1] || match[2];
+      const problemTitle = match[4];
       
-      while ((match = problemRegex.exec(content)) !== null) {
-        const problemId = match[1] || match[2];
-        const problemTitle = match[4];
+      if (problemId) {
+        const problem = await getCatalogProblem(parseInt(problemId));
         
-        if (problemId) {
-          const problem = await db.collection(COLLECTIONS.PROBLEMS)
-            .findOne({ problemId: parseInt(problemId) });
-          
-          if (problem) {
-            foundTags.push(...problem.topicTags.slice(0, 3)); // Add first 3 topics from the problem
-          }
+        if (problem) {
+          foundTags.push(...problem.topics.slice(0, 3)); // Add first 3 topics from the problem
         }
+      }
+      
+      if (problemTitle) {
+        const problem = await findCatalogProblemByTitle(problemTitle);
         
-        if (problemTitle) {
-          const problem = await db.collection(COLLECTIONS.PROBLEMS)
-            .findOne({ title: { $regex: problemTitle.trim(), $options: 'i' } });
-          
-          if (problem) {
-            foundTags.push(...problem.topicTags.slice(0, 3));
-          }
+        if (problem) {
+          foundTags.push(...problem.topics.slice(0, 3));
         }
       }
     }
@@ -95,19 +80,35 @@ async function extractTags(content: string): Promise<string[]> {
   return [...new Set(foundTags)].slice(0, 8);
 }
 
+async function memoryExists(memoryId: string, userId: string): Promise<boolean> {
+  const db = await getDatabase();
+  if (!db) return false;
+  return !!(await db.collection(COLLECTIONS.MEMORIES).findOne({ _id: new ObjectId(memoryId), userId }, { projection: { _id: 1 } }));
+}
+
 // Add a new memory
 export async function addMemory(
   userId: string,
   content: string,
   type: MemoryType,
-  customTags?: string[]
+  customTags?: string[],
+  options: ReplayOptions = {}
 ): Promise<{ success: boolean; id?: string; error?: string }> {
   try {
+    await requireUser(userId);
     const db = await getDatabase();
     if (!db) {
       return { success: false, error: "Database not available" };
     }
 
+    // A replayed offline create may already have been applied
+    if (options.clientId) {
+      const existing = await db.collection(COLLECTIONS.MEMORIES).findOne({ userId, clientId: options.clientId });
+      if (existing) {
+        return { success: true, id: existing._id.toString() };
+      }
+    }
+
     const autoTags = await extractTags(content);
     const tags = customTags && customTags.length > 0 ? customTags : autoTags;
 
@@ -118,8 +119,10 @@ export async function addMemory(
       tags,
       createdAt: new Date(),
     };
+    if (options.clientId) memory.clientId = options.clientId;
 
     const result = await db.collection(COLLECTIONS.MEMORIES).insertOne(memory);
+    await indexMemory(db, { ...memory, _id: result.insertedId });
     
     return { success: true, id: result.insertedId.toString() };
   } catch (error) {
@@ -140,12 +143,13 @@ export async function getMemories(
   }
 ): Promise<{ success: boolean; memories?: MongoMemory[]; error?: string }> {
   try {
+    await requireUser(userId);
     const db = await getDatabase();
     if (!db) {
       return { success: false, error: "Database not available" };
     }
 
-    const query: any = { userId };
+    const query: any = { userId, ...NOT_TRASHED };
     
     if (options?.type) {
       query.type = options.type;
@@ -188,16 +192,18 @@ export async function getMemories(
 export async function updateMemory(
   userId: string,
   memoryId: string,
-  updates: Partial<Pick<MongoMemory, 'content' | 'type' | 'tags'>>
-): Promise<{ success: boolean; error?: string }> {
+  updates: Partial<Pick<MongoMemory, 'content' | 'type' | 'tags'>>,
+  options: ReplayOptions = {}
+): Promise<{ success: boolean; conflict?: boolean; error?: string }> {
   try {
+    await requireUser(userId);
     const db = await getDatabase();
     if (!db) {
       return { success: false, error: "Database not available" };
     }
 
     const result = await db.collection(COLLECTIONS.MEMORIES).updateOne(
-      { _id: new ObjectId(memoryId), userId },
+      { _id: new ObjectId(memoryId), userId, ...unmodifiedSinceFilter(options.ifUnmodifiedSince) },
       { 
         $set: {
           ...updates,
@@ -207,9 +213,15 @@ export async function updateMemory(
     );
 
     if (result.matchedCount === 0) {
+      if (options.ifUnmodifiedSince && await memoryExists(memoryId, userId)) {
+        return { success: false, conflict: true, error: "Memory was changed on another device" };
+      }
       return { success: false, error: "Memory not found" };
     }
 
+    const updated = await db.collection(COLLECTIONS.MEMORIES).findOne({ _id: new ObjectId(memoryId), userId });
+    if (updated) await indexMemory(db, updated);
+
     return { success: true };
   } catch (error) {
     console.error("Failed to update memory:", error);
@@ -217,26 +229,42 @@ export async function updateMemory(
   }
 }
 
-// Delete a memory
+// Move a memory to the trash
 export async function deleteMemory(
   userId: string,
-  memoryId: string
-): Promise<{ success: boolean; error?: string }> {
+  memoryId: string,
+  options: ReplayOptions = {}
+): Promise<{ success: boolean; conflict?: boolean; error?: string }> {
   try {
+    await requireUser(userId);
     const db = await getDatabase();
     if (!db) {
       return { success: false, error: "Database not available" };
     }
 
-    const result = await db.collection(COLLECTIONS.MEMORIES).deleteOne({
-      _id: new ObjectId(memoryId),
-      userId,
-    });
+    const result = await db.collection(COLLECTIONS.MEMORIES).updateOne(
+      {
+        _id: new ObjectId(memoryId),
+        userId,
+        ...NOT_TRASHED,
+        ...unmodifiedSinceFilter(options.ifUnmodifiedSince),
+      },
+      { $set: { deletedAt: new Date() } }
+    );
 
-    if (result.deletedCount === 0) {
+    if (result.matchedCount === 0) {
+      const current = await db.collection(COLLECTIONS.MEMORIES)
+        .findOne({ _id: new ObjectId(memoryId), userId }, { projection: { deletedAt: 1 } });
+      if (current?.deletedAt) {
+        return { success: true }; // already in the trash
+      }
+      if (current && options.ifUnmodifiedSince) {
+        return { success: false, conflict: true, error: "Memory was changed on another device" };
+      }
       return { success: false, error: "Memory not found" };
     }
 
+    await removeEmbeddings(db, "memory", [memoryId]);
     return { success: true };
   } catch (error) {
     console.error("Failed to delete memory:", error);
@@ -249,13 +277,14 @@ export async function getMemoryStats(
   userId: string
 ): Promise<{ success: boolean; stats?: Record<MemoryType, number>; total?: number; error?: string }> {
   try {
+    await requireUser(userId);
     const db = await getDatabase();
     if (!db) {
       return { success: false, error: "Database not available" };
     }
 
     const pipeline = [
-      { $match: { userId } },
+      { $match: { userId, ...NOT_TRASHED } },
       { $group: { _id: '$type', count: { $sum: 1 } } },
     ];
 
@@ -303,13 +332,14 @@ export async function getUserTags(userId: string): Promise<{
   error?: string;
 }> {
   try {
+    await requireUser(userId);
     const db = await getDatabase();
     if (!db) {
       return { success: false, error: "Database not available" };
     }
 
     const tags = await db.collection(COLLECTIONS.MEMORIES)
-      .distinct('tags', { userId });
+      .distinct('tags', { userId, ...NOT_TRASHED });
 
     return { success: true, tags: tags.sort() };
   } catch (error) {
@@ -325,6 +355,7 @@ export async function searchRelevantMemories(
   limit: number = 5
 ): Promise<{ success: boolean; memories?: MongoMemory[]; error?: string }> {
   try {
+    await requireUser(userId);
     const db = await getDatabase();
     if (!db) {
       return { success: false, error: "Database not available" };
@@ -340,6 +371,7 @@ export async function searchRelevantMemories(
 
     const query: any = {
       userId,
+      ...NOT_TRASHED,
       $or: orConditions,
     };
 
@@ -44,11 +44,42 @@ export async function getDatabase(dbName: string = 'leetcode-mastery'): Promise<
 // Collection names
 export const COLLECTIONS = {
   PROBLEMS: 'problems',
+  IMPORT_RUNS: 'import_runs',
+  IMPORT_CHANGES: 'import_changes',
   MEMORIES: 'memories',
   REVIEWS: 'reviews',
+  REVIEW_SETTINGS: 'review_settings',
+  COACHING_PROFILES: 'coaching_profiles',
+  REVIEW_LOGS: 'review_logs',
+  LEGACY_CLAIMS: 'legacy_claims',
+  LEETCODE_SYNC: 'leetcode_sync',
   SOLVED: 'solved',
   EMBEDDINGS: 'embeddings',
+  VECTOR_INDEXES: 'vector_indexes',
+  PROBLEM_COOCCURRENCE: 'problem_cooccurrence',
   SNIPPETS: 'snippets',
+  BACKUPS: 'backups',
+  BACKUP_SETTINGS: 'backup_settings',
+  AI_CONVERSATIONS: 'ai_conversations',
+  AI_CACHE: 'ai_cache',
+  AI_CACHE_STATS: 'ai_cache_stats',
 } as const;
 
+// Filter clause excluding soft-deleted records (see trash.ts); matches a missing or null deletedAt
+export const NOT_TRASHED = { deletedAt: null };
+
+/**
+ * Filter clause matching documents not updated after `since`. Replayed
+ * offline writes use it to detect edits made on another device meanwhile.
+ */
+export function unmodifiedSinceFilter(since?: Date) {
+  if (!since) return {};
+  return {
+    $or: [
+      { updatedAt: { $exists: false } },
+      { updatedAt: { $lte: new Date(since) } },
+    ],
+  };
+}
+
 export default clientPromise;
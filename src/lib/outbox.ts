@@ -0,0 +1,535 @@
+"use client";
+
+import Dexie, { type Table } from "dexie";
+import { db as firestore } from "@/lib/firebase";
+import {
+  collection,
+  doc,
+  getDoc,
+  getDocs,
+  setDoc,
+  updateDoc,
+  writeBatch,
+} from "firebase/firestore";
+import { createSnippet, updateSnippet, deleteSnippet, type CodeSnippet } from "@/lib/snippet-actions";
+import { addMemory, updateMemory, deleteMemory, type MemoryType, type MongoMemory } from "@/lib/memory-actions";
+import { refreshNoteEmbeddings } from "@/lib/embedding-actions";
+import type { SyncAction } from "@/lib/types";
+
+/**
+ * Offline Outbox - persistent write queue in IndexedDB
+ *
+ * Firestore writes from actions.ts and Mongo writes to snippets and
+ * memories are recorded here first and replayed in order when the app is
+ * online. Entries survive reloads, so edits made on a flight are sent when
+ * connectivity returns.
+ *
+ * - Several queued writes to the same record are coalesced into one, unless
+ *   the earlier one is already being sent; then the new write queues after it
+ * - Transient failures back off and retry; other failures stop at "failed"
+ * - An update or delete of a record changed elsewhere after the local edit
+ *   stops at "conflict" until the user keeps their version or discards it
+ */
+
+export type OutboxTarget = "firestore" | "snippets" | "memories";
+export type OutboxStatus = "pending" | "failed" | "conflict";
+
+export interface OutboxEntry extends SyncAction {
+  userId: string;
+  target: OutboxTarget;
+  label: string; // shown in the pending changes list
+  status: OutboxStatus;
+  attempts: number;
+  nextAttemptAt: number;
+  lastError?: string;
+  force?: boolean; // user chose to keep their version over a conflict
+  inFlight?: boolean; // being sent right now; later writes must not merge into it
+  cascade?: string[]; // Firestore subcollections deleted along with the doc
+}
+
+export interface WriteRequest {
+  userId: string;
+  target: OutboxTarget;
+  action: SyncAction["action"];
+  collection: string; // Firestore collection path, or the Mongo collection
+  docId: string;
+  data?: any;
+  label: string;
+  cascade?: string[];
+}
+
+export interface WriteOutcome {
+  success: boolean;
+  queued: boolean; // saved locally, not yet on the server
+  error?: string;
+}
+
+class OutboxDatabase extends Dexie {
+  actions!: Table<OutboxEntry, string>;
+
+  constructor() {
+    super("LeetCodeMasteryOutbox");
+    this.version(1).stores({
+      actions: "id, userId, status, timestamp, [collection+docId]",
+    });
+  }
+}
+
+const MAX_ATTEMPTS = 10;
+const BASE_RETRY_MS = 2000;
+const MAX_RETRY_MS = 5 * 60 * 1000;
+const FIRESTORE_TIMEOUT_MS = 15000;
+
+let outboxDb: OutboxDatabase | null = null;
+
+export function getOutboxDb(): OutboxDatabase {
+  if (!outboxDb) {
+    outboxDb = new OutboxDatabase();
+  }
+  return outboxDb;
+}
+
+class OutboxReplayError extends Error {
+  constructor(
+    message: string,
+    public readonly kind: "retry" | "conflict" | "fatal"
+  ) {
+    super(message);
+    this.name = "OutboxReplayError";
+  }
+}
+
+function isOnline(): boolean {
+  return typeof navigator === "undefined" || navigator.onLine !== false;
+}
+
+// Id for a Mongo record created offline; replaced by the server id on replay
+export function newLocalId(): string {
+  return `local-${crypto.randomUUID()}`;
+}
+
+// ============ Queueing ============
+
+/**
+ * Record a write and try to send it straight away. Resolves once the write
+ * is safely stored locally, whether or not it reached the server.
+ */
+export async function enqueueWrite(request: WriteRequest): Promise<WriteOutcome> {
+  const outbox = getOutboxDb();
+
+  const entryId = await outbox.transaction("rw", outbox.actions, async () => {
+    const queued = await outbox.actions
+      .where("[collection+docId]")
+      .equals([request.collection, request.docId])
+      .filter(entry => entry.status === "pending" && !entry.inFlight)
+      .sortBy("timestamp");
+    const previous = queued[queued.length - 1];
+
+    if (previous && previous.action !== "delete") {
+      if (request.action === "update") {
+        await outbox.actions.update(previous.id, {
+          data: { ...previous.data, ...request.data },
+          label: previous.action === "create" ? previous.label : request.label,
+        });
+        return previous.id;
+      }
+
+      if (request.action === "delete" && previous.action === "create") {
+        // Never reached the server, so there is nothing to delete there
+        await outbox.actions.delete(previous.id);
+        const childPrefix = `${request.collection}/${request.docId}/`;
+        await outbox.actions.filter(entry => entry.collection.startsWith(childPrefix)).delete();
+        return null;
+      }
+
+      if (request.action === "delete") {
+        await outbox.actions.update(previous.id, {
+          action: "delete",
+          data: undefined,
+          label: request.label,
+          cascade: request.cascade,
+        });
+        return previous.id;
+      }
+    }
+
+    const entry: OutboxEntry = {
+      ...request,
+      id: crypto.randomUUID(),
+      timestamp: new Date(),
+      synced: false,
+      status: "pending",
+      attempts: 0,
+      nextAttemptAt: 0,
+    };
+    await outbox.actions.add(entry);
+    return entry.id;
+  });
+
+  if (!entryId) {
+    return { success: true, queued: false };
+  }
+
+  await flushOutbox();
+
+  const remaining = await outbox.actions.get(entryId);
+  if (!remaining) {
+    return { success: true, queued: false };
+  }
+  if (remaining.status === "pending") {
+    return { success: true, queued: true };
+  }
+  return { success: false, queued: true, error: remaining.lastError };
+}
+
+// ============ Replay ============
+
+function withTimeout<T>(promise: Promise<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(
+      () => reject(new OutboxReplayError("Timed out waiting for Firestore", "retry")),
+      FIRESTORE_TIMEOUT_MS
+    );
+    promise.then(
+      value => {
+        clearTimeout(timer);
+        resolve(value);
+      },
+      error => {
+        clearTimeout(timer);
+        reject(error);
+      }
+    );
+  });
+}
+
+// Firestore rejects undefined field values
+function withoutUndefined(data: Record<string, unknown> = {}) {
+  return Object.fromEntries(Object.entries(data).filter(([, value]) => value !== undefined));
+}
+
+function classifyFirestoreError(error: any): OutboxReplayError {
+  if (error instanceof OutboxReplayError) return error;
+  const code: string = error?.code || "";
+  const fatal = ["permission-denied", "invalid-argument", "failed-precondition", "unauthenticated"];
+  return new OutboxReplayError(
+    error?.message || "Firestore write failed",
+    fatal.includes(code) ? "fatal" : "retry"
+  );
+}
+
+async function replayFirestore(entry: OutboxEntry): Promise<void> {
+  const ref = doc(firestore, entry.collection, entry.docId);
+  const writtenAt = new Date(entry.timestamp);
+
+  try {
+    if (entry.action === "create") {
+      // Fixed id, so replaying a create that already landed is harmless
+      await withTimeout(setDoc(ref, { ...withoutUndefined(entry.data), createdAt: writtenAt, updatedAt: writtenAt }));
+      return;
+    }
+
+    if (!entry.force) {
+      const snapshot = await withTimeout(getDoc(ref));
+      if (!snapshot.exists()) {
+        if (entry.action === "delete") return;
+        throw new OutboxReplayError("Deleted on another device", "conflict");
+      }
+      const remoteUpdatedAt: Date | undefined = snapshot.data().updatedAt?.toDate?.();
+      if (remoteUpdatedAt && remoteUpdatedAt > writtenAt) {
+        throw new OutboxReplayError("Changed on another device", "conflict");
+      }
+    }
+
+    if (entry.action === "update") {
+      const data = { ...withoutUndefined(entry.data), updatedAt: writtenAt };
+      await withTimeout(entry.force ? setDoc(ref, data, { merge: true }) : updateDoc(ref, data));
+      return;
+    }
+
+    const batch = writeBatch(firestore);
+    for (const child of entry.cascade || []) {
+      const children = await withTimeout(getDocs(collection(ref, child)));
+      children.forEach(childDoc => batch.delete(childDoc.ref));
+    }
+    batch.delete(ref);
+    await withTimeout(batch.commit());
+  } catch (error) {
+    throw classifyFirestoreError(error);
+  }
+}
+
+function checkActionResult(result: { success: boolean; conflict?: boolean; error?: string }) {
+  if (result.success) return;
+  if (result.conflict) {
+    throw new OutboxReplayError(result.error || "Changed on another device", "conflict");
+  }
+  throw new OutboxReplayError(
+    result.error || "Write rejected by the server",
+    result.error === "Database not available" ? "retry" : "fatal"
+  );
+}
+
+// Point writes queued against a local id at the record the server created
+async function remapLocalId(entry: OutboxEntry, serverId: string) {
+  await getOutboxDb().actions
+    .where("[collection+docId]")
+    .equals([entry.collection, entry.docId])
+    .modify({ docId: serverId });
+}
+
+// Resolves with the server's id for a created Mongo record
+async function replayMongo(entry: OutboxEntry): Promise<string | undefined> {
+  const replay = entry.force ? {} : { ifUnmodifiedSince: new Date(entry.timestamp) };
+
+  let result: { success: boolean; id?: string; conflict?: boolean; error?: string };
+  try {
+    if (entry.target === "snippets") {
+      result =
+        entry.action === "create" ? await createSnippet(entry.userId, entry.data, { clientId: entry.id }) :
+        entry.action === "update" ? await updateSnippet(entry.userId, entry.docId, entry.data, replay) :
+        await deleteSnippet(entry.userId, entry.docId, replay);
+    } else {
+      const { content, type, tags } = entry.data || {};
+      result =
+        entry.action === "create" ? await addMemory(entry.userId, content, type, tags, { clientId: entry.id }) :
+        entry.action === "update" ? await updateMemory(entry.userId, entry.docId, entry.data, replay) :
+        await deleteMemory(entry.userId, entry.docId, replay);
+    }
+  } catch (error) {
+    // The server action request itself failed: offline or server unreachable
+    throw new OutboxReplayError(error instanceof Error ? error.message : "Server unreachable", "retry");
+  }
+
+  checkActionResult(result);
+  return entry.action === "create" ? result.id : undefined;
+}
+
+// Note vectors follow note writes, and topic trash/restore/delete; indexing is best effort
+function reindexNotes(entry: OutboxEntry) {
+  const match = entry.collection.match(/^users\/[^/]+\/topics(?:\/([^/]+)\/notes)?$/);
+  if (!match) return;
+
+  const noteWrite = match[1] !== undefined;
+  if (!noteWrite && entry.action !== "delete" && !(entry.data && "deletedAt" in entry.data)) return;
+
+  const [topicId, noteId] = noteWrite ? [match[1], entry.docId] : [entry.docId, undefined];
+  refreshNoteEmbeddings(entry.userId, topicId, noteId).catch(error => {
+    console.warn("Failed to refresh note embeddings:", error);
+  });
+}
+
+async function replayEntry(entry: OutboxEntry): Promise<string | undefined> {
+  if (entry.target === "firestore") {
+    await replayFirestore(entry);
+    reindexNotes(entry);
+    return undefined;
+  }
+  return await replayMongo(entry);
+}
+
+let flushing: Promise<void> | null = null;
+
+/**
+ * Replay queued writes oldest first. A transient failure stops the flush so
+ * later writes keep their order; a conflict or failure only holds back
+ * later writes to the same record.
+ */
+export function flushOutbox(): Promise<void> {
+  if (!flushing) {
+    flushing = runFlush().finally(() => {
+      flushing = null;
+    });
+  }
+  return flushing;
+}
+
+async function runFlush(): Promise<void> {
+  if (!isOnline()) return;
+  const outbox = getOutboxDb();
+
+  for (;;) {
+    const now = Date.now();
+    const entries = await outbox.actions.orderBy("timestamp").toArray();
+    const blocked = new Set<string>();
+    let applied = 0;
+
+    for (const entry of entries) {
+      const key = `${entry.collection}/${entry.docId}`;
+      if (entry.status !== "pending" || blocked.has(key)) {
+        blocked.add(key);
+        continue;
+      }
+      if (entry.nextAttemptAt > now) return;
+
+      // Take the entry as it is now (a write may have merged into it since the list was read)
+      // and mark it, so writes queued from here on go into a new entry
+      const current = await outbox.transaction("rw", outbox.actions, async () => {
+        const latest = await outbox.actions.get(entry.id);
+        if (latest?.status !== "pending") return undefined;
+        await outbox.actions.update(entry.id, { inFlight: true });
+        return latest;
+      });
+      if (!current) {
+        blocked.add(key);
+        continue;
+      }
+
+      try {
+        const serverId = await replayEntry(current);
+        // Remap in the same transaction, so a write queued against the local id meanwhile can't miss it
+        await outbox.transaction("rw", outbox.actions, async () => {
+          await outbox.actions.delete(entry.id);
+          if (serverId) await remapLocalId(current, serverId);
+        });
+        applied++;
+      } catch (error) {
+        const replayError = error instanceof OutboxReplayError
+          ? error
+          : new OutboxReplayError(error instanceof Error ? error.message : "Replay failed", "retry");
+        const attempts = entry.attempts + 1;
+
+        if (replayError.kind === "retry" && attempts < MAX_ATTEMPTS) {
+          await outbox.actions.update(entry.id, {
+            attempts,
+            inFlight: false,
+            lastError: replayError.message,
+            nextAttemptAt: Date.now() + Math.min(BASE_RETRY_MS * 2 ** attempts, MAX_RETRY_MS),
+          });
+          return;
+        }
+
+        await outbox.actions.update(entry.id, {
+          attempts,
+          inFlight: false,
+          lastError: replayError.message,
+          status: replayError.kind === "conflict" ? "conflict" : "failed",
+        });
+        blocked.add(key);
+      }
+    }
+
+    // Writes queued while this pass ran are picked up by the next one
+    if (applied === 0) return;
+  }
+}
+
+// ============ Resolution ============
+
+// Send a failed write again from scratch
+export async function retryOutboxEntry(id: string): Promise<void> {
+  await getOutboxDb().actions.update(id, { status: "pending", attempts: 0, nextAttemptAt: 0 });
+  await flushOutbox();
+}
+
+// Settle a conflict by overwriting the other device's change, or dropping ours
+export async function resolveOutboxConflict(id: string, resolution: "keep-mine" | "discard"): Promise<void> {
+  if (resolution === "discard") {
+    await discardOutboxEntry(id);
+    return;
+  }
+  await getOutboxDb().actions.update(id, { status: "pending", force: true, attempts: 0, nextAttemptAt: 0 });
+  await flushOutbox();
+}
+
+export async function discardOutboxEntry(id: string): Promise<void> {
+  await getOutboxDb().actions.delete(id);
+  await flushOutbox();
+}
+
+/**
+ * Flush whenever connectivity returns and periodically for backed-off
+ * entries. Returns a cleanup function.
+ */
+export function startOutboxSync(intervalMs: number = 30000): () => void {
+  const onOnline = () => {
+    flushOutbox().catch(error => console.error("Outbox flush failed:", error));
+  };
+
+  window.addEventListener("online", onOnline);
+  const timer = setInterval(onOnline, intervalMs);
+  onOnline();
+
+  return () => {
+    window.removeEventListener("online", onOnline);
+    clearInterval(timer);
+  };
+}
+
+// ============ Snippet and memory writes ============
+
+type SnippetInput = Omit<CodeSnippet, "_id" | "id" | "userId" | "createdAt" | "updatedAt" | "usageCount" | "clientId">;
+
+export async function queueCreateSnippet(userId: string, snippet: SnippetInput): Promise<WriteOutcome> {
+  return enqueueWrite({
+    userId,
+    target: "snippets",
+    action: "create",
+    collection: "snippets",
+    docId: newLocalId(),
+    data: snippet,
+    label: `Add snippet "${snippet.title}"`,
+  });
+}
+
+export async function queueUpdateSnippet(userId: string, snippetId: string, updates: Partial<SnippetInput>): Promise<WriteOutcome> {
+  return enqueueWrite({
+    userId,
+    target: "snippets",
+    action: "update",
+    collection: "snippets",
+    docId: snippetId,
+    data: updates,
+    label: `Edit snippet${updates.title ? ` "${updates.title}"` : ""}`,
+  });
+}
+
+export async function queueDeleteSnippet(userId: string, snippetId: string): Promise<WriteOutcome> {
+  return enqueueWrite({
+    userId,
+    target: "snippets",
+    action: "delete",
+    collection: "snippets",
+    docId: snippetId,
+    label: "Delete snippet",
+  });
+}
+
+export async function queueAddMemory(userId: string, content: string, type: MemoryType, tags?: string[]): Promise<WriteOutcome> {
+  return enqueueWrite({
+    userId,
+    target: "memories",
+    action: "create",
+    collection: "memories",
+    docId: newLocalId(),
+    data: { content, type, tags },
+    label: `Add ${type}: ${content.slice(0, 40)}`,
+  });
+}
+
+export async function queueUpdateMemory(
+  userId: string,
+  memoryId: string,
+  updates: Partial<Pick<MongoMemory, "content" | "type" | "tags">>
+): Promise<WriteOutcome> {
+  return enqueueWrite({
+    userId,
+    target: "memories",
+    action: "update",
+    collection: "memories",
+    docId: memoryId,
+    data: updates,
+    label: "Edit memory",
+  });
+}
+
+export async function queueDeleteMemory(userId: string, memoryId: string): Promise<WriteOutcome> {
+  return enqueueWrite({
+    userId,
+    target: "memories",
+    action: "delete",
+    collection: "memories",
+    docId: memoryId,
+    label: "Delete memory",
+  });
+}
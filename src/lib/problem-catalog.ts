@@ -0,0 +1,250 @@
+"use server";
+
+import { getDatabase, COLLECTIONS } from "@/lib/mongodb";
+import {
+  getAllProblems,
+  getProblemById,
+  getProblemBySlug,
+  parseLeetCodeUrl,
+} from "@/lib/problem-lookup";
+import type { ProblemDocument } from "@/lib/catalog-import-job";
+import type { Difficulty, LeetCodeProblem } from "@/lib/types";
+
+/**
+ * Problem Catalog - the single lookup path for problem metadata
+ *
+ * Two sources are merged by slug:
+ * 1. COLLECTIONS.PROBLEMS, filled by the catalog import: current titles,
+ *    difficulty, topic tags, problem numbers and descriptions for every problem
+ * 2. The bundled leetcode-problems.json: curated patterns, companies and
+ *    frequency for the most common problems
+ *
+ * The imported record wins for fields both sources have. When the database
+ * is unavailable or doesn't know a problem, lookups fall back to the
+ * bundled data.
+ */
+
+export interface CatalogQuery {
+  slugs?: string[]; // match any
+  curated?: boolean; // only problems in the bundled data, which carry patterns and companies
+  topics?: string[]; // match any
+  difficulty?: string;
+  difficulties?: string[]; // match any; narrows `difficulty` further
+  excludeSlugs?: string[];
+  limit?: number;
+}
+
+function normalizeDifficulty(value: unknown): Difficulty {
+  const lower = String(value ?? "").toLowerCase();
+  if (lower === "easy") return "Easy";
+  if (lower === "hard") return "Hard";
+  return "Medium";
+}
+
+function mergeProblem(doc: ProblemDocument | null | undefined, bundled: LeetCodeProblem | undefined): LeetCodeProblem | undefined {
+  if (!doc) {
+    return bundled ? { ...bundled, sources: ["bundled"] } : undefined;
+  }
+
+  return {
+    id: doc.problemId ?? bundled?.id ?? 0,
+    slug: doc.titleSlug,
+    title: doc.title,
+    difficulty: normalizeDifficulty(doc.difficulty),
+    topics: doc.topicTags?.length ? doc.topicTags : bundled?.topics ?? [],
+    patterns: bundled?.patterns ?? [],
+    companies: bundled?.companies ?? [],
+    isPremium: bundled?.isPremium,
+    acceptance: bundled?.acceptance,
+    frequency: bundled?.frequency,
+    description: doc.description,
+    sources: bundled ? ["catalog", "bundled"] : ["catalog"],
+  };
+}
+
+function fromDocument(doc: any): LeetCodeProblem {
+  const problem = doc as ProblemDocument;
+  return mergeProblem(problem, getProblemBySlug(problem.titleSlug))!;
+}
+
+// Imported problems collection, or null when the database can't be used
+async function catalogCollection() {
+  try {
+    const db = await getDatabase();
+    return db ? db.collection(COLLECTIONS.PROBLEMS) : null;
+  } catch (error) {
+    console.error("Problem catalog unavailable, using bundled data:", error);
+    return null;
+  }
+}
+
+async function findDocument(query: Record<string, unknown>): Promise<ProblemDocument | null> {
+  const collection = await catalogCollection();
+  if (!collection) return null;
+
+  try {
+    return (await collection.findOne(query)) as unknown as ProblemDocument | null;
+  } catch (error) {
+    console.error("Problem catalog lookup failed:", error);
+    return null;
+  }
+}
+
+// Get a problem by LeetCode number or slug
+export async function getCatalogProblem(idOrSlug: number | string): Promise<LeetCodeProblem | undefined> {
+  if (typeof idOrSlug === "number") {
+    const bundled = getProblemById(idOrSlug);
+    const doc = await findDocument({ problemId: idOrSlug });
+    return mergeProblem(doc, doc ? getProblemBySlug(doc.titleSlug) : bundled);
+  }
+
+  const slug = idOrSlug.toLowerCase();
+  return mergeProblem(await findDocument({ titleSlug: slug }), getProblemBySlug(slug));
+}
+
+// Resolve a LeetCode URL, slug or problem number
+export async function lookupCatalogProblem(input: string): Promise<LeetCodeProblem | undefined> {
+  const parsed = parseLeetCodeUrl(input);
+
+  if (parsed.id) {
+    return getCatalogProblem(parsed.id);
+  }
+
+  if (parsed.slug) {
+    return getCatalogProblem(parsed.slug);
+  }
+
+  return undefined;
+}
+
+// Find the problem whose title best matches free text (exact title first)
+export async function findCatalogProblemByTitle(title: string): Promise<LeetCodeProblem | undefined> {
+  const trimmed = title.trim();
+  if (!trimmed) return undefined;
+
+  const escaped = trimmed.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  const doc =
+    (await findDocument({ title: { $regex: `^${escaped}$`, $options: "i" } })) ??
+    (await findDocument({ title: { $regex: escaped, $options: "i" } }));
+  if (doc) return fromDocument(doc);
+
+  const lower = trimmed.toLowerCase();
+  const bundled = getAllProblems();
+  const match =
+    bundled.find(p => p.title.toLowerCase() === lower) ??
+    bundled.find(p => p.title.toLowerCase().includes(lower));
+  return mergeProblem(null, match);
+}
+
+function matchesQuery(problem: LeetCodeProblem, query: CatalogQuery, excluded: Set<string>): boolean {
+  if (excluded.has(problem.slug)) return false;
+  if (query.slugs && !query.slugs.includes(problem.slug)) return false;
+  if (query.difficulty && problem.difficulty !== normalizeDifficulty(query.difficulty)) return false;
+  if (query.difficulties && !query.difficulties.map(normalizeDifficulty).includes(problem.difficulty)) return false;
+  if (query.topics?.length) {
+    const wanted = new Set(query.topics.map(t => t.toLowerCase()));
+    if (!problem.topics.some(t => wanted.has(t.toLowerCase()))) return false;
+  }
+  return true;
+}
+
+/**
+ * Problems matching a filter. Imported problems come first; bundled
+ * problems fill the rest of the limit.
+ */
+export async function queryCatalog(query: CatalogQuery = {}): Promise<LeetCodeProblem[]> {
+  const limit = query.limit ?? 100;
+  const excluded = new Set(query.excludeSlugs ?? []);
+  const results: LeetCodeProblem[] = [];
+
+  if (query.curated) {
+    const curated = getAllProblems().map(p => p.slug);
+    query = { ...query, slugs: query.slugs ? curated.filter(slug => query.slugs!.includes(slug)) : curated };
+  }
+
+  const collection = await catalogCollection();
+  if (collection) {
+    const mongoQuery: any = {};
+    if (excluded.size > 0) mongoQuery.titleSlug = { $nin: Array.from(excluded) };
+    if (query.slugs) mongoQuery.titleSlug = { ...mongoQuery.titleSlug, $in: query.slugs };
+    if (query.topics?.length) mongoQuery.topicTags = { $in: query.topics };
+    if (query.difficulty) mongoQuery.difficulty = normalizeDifficulty(query.difficulty);
+    if (query.difficulties) {
+      mongoQuery.$and = [{ difficulty: { $in: query.difficulties.map(normalizeDifficulty) } }];
+    }
+
+    try {
+      const docs = await collection.find(mongoQuery).limit(limit).toArray();
+      results.push(...docs.map(fromDocument));
+    } catch (error) {
+      console.error("Problem catalog query failed, using bundled data:", error);
+    }
+  }
+
+  if (results.length < limit) {
+    const seen = new Set(results.map(p => p.slug));
+    for (const problem of getAllProblems()) {
+      if (results.length >= limit) break;
+      if (seen.has(problem.slug) || !matchesQuery(problem, query, excluded)) continue;
+      results.push({ ...problem, sources: ["bundled"] });
+    }
+  }
+
+  return results;
+}
+
+// Search problems by title, slug or number
+export async function searchCatalog(query: string, limit: number = 10): Promise<LeetCodeProblem[]> {
+  const trimmed = query.trim();
+  if (!trimmed) return [];
+
+  const results: LeetCodeProblem[] = [];
+  const collection = await catalogCollection();
+  if (collection) {
+    const escaped = trimmed.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+    const or: any[] = [
+      { title: { $regex: escaped, $options: "i" } },
+      { titleSlug: { $regex: escaped, $options: "i" } },
+    ];
+    if (/^\d+$/.test(trimmed)) or.push({ problemId: parseInt(trimmed, 10) });
+
+    try {
+      const docs = await collection.find({ $or: or }).limit(limit).toArray();
+      results.push(...docs.map(fromDocument));
+    } catch (error) {
+      console.error("Problem catalog search failed, using bundled data:", error);
+    }
+  }
+
+  if (results.length < limit) {
+    const lower = trimmed.toLowerCase();
+    const seen = new Set(results.map(p => p.slug));
+    for (const problem of getAllProblems()) {
+      if (results.length >= limit) break;
+      if (seen.has(problem.slug)) continue;
+      if (problem.title.toLowerCase().includes(lower) || problem.slug.includes(lower) || problem.id.toString() === trimmed) {
+        results.push({ ...problem, sources: ["bundled"] });
+      }
+    }
+  }
+
+  return results;
+}
+
+// Every topic tag known to either source
+export async function getCatalogTopics(): Promise<string[]> {
+  const topics = new Set<string>();
+  getAllProblems().forEach(p => p.topics.forEach(t => topics.add(t)));
+
+  const collection = await catalogCollection();
+  if (collection) {
+    try {
+      const tags = await collection.distinct("topicTags");
+      tags.forEach((tag: string) => topics.add(tag));
+    } catch (error) {
+      console.error("Failed to read catalog topics:", error);
+    }
+  }
+
+  return Array.from(topics).sort();
+}
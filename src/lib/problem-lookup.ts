@@ -1,6 +1,14 @@
 import problemsData from './leetcode-problems.json';
 import type { LeetCodeProblem, Difficulty } from './types';
 
+/**
+ * Bundled problem data - the curated leetcode-problems.json
+ *
+ * This is the last link of the catalog fallback chain and works without a
+ * database. Lookups that should see the imported catalog go through
+ * problem-catalog.ts instead.
+ */
+
 // Type the imported data
 const problems: LeetCodeProblem[] = problemsData.problems as LeetCodeProblem[];
 
@@ -48,31 +56,29 @@ export function parseLeetCodeUrl(input: string): { id?: number; slug?: string }
 /**
  * Get problem by ID
  */
-export async function getProblemById(id: number): Promise<LeetCodeProblem | undefined> {
-  await initializeProblemMaps();
-  return problemById?.get(id);
+export function getProblemById(id: number): LeetCodeProblem | undefined {
+  return problemById.get(id);
 }
 
 /**
  * Get problem by slug
  */
-export async function getProblemBySlug(slug: string): Promise<LeetCodeProblem | undefined> {
-  await initializeProblemMaps();
-  return problemBySlug?.get(slug.toLowerCase());
+export function getProblemBySlug(slug: string): LeetCodeProblem | undefined {
+  return problemBySlug.get(slug.toLowerCase());
 }
 
 /**
  * Auto-detect problem from URL or ID input
  */
-export async function lookupProblem(input: string): Promise<LeetCodeProblem | undefined> {
+export function lookupProblem(input: string): LeetCodeProblem | undefined {
   const parsed = parseLeetCodeUrl(input);
   
   if (parsed.id) {
-    return await getProblemById(parsed.id);
+    return getProblemById(parsed.id);
   }
   
   if (parsed.slug) {
-    return await getProblemBySlug(parsed.slug);
+    return getProblemBySlug(parsed.slug);
   }
   
   return undefined;
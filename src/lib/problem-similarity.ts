@@ -0,0 +1,466 @@
+import type { Db } from "mongodb";
+import { getDatabase, COLLECTIONS, NOT_TRASHED } from "@/lib/mongodb";
+import { getAdminFirestore } from "@/lib/firebase-admin";
+import { queryCatalog } from "@/lib/problem-catalog";
+import { getAllProblems, parseLeetCodeUrl } from "@/lib/problem-lookup";
+import { embedText, embeddingModelId, getEmbeddingConfig } from "@/lib/embeddings";
+import { FRESH_VECTORS, problemText } from "@/lib/embedding-index";
+import { searchVectors } from "@/lib/vector-index";
+import { isTrashed } from "@/lib/trash";
+import type { LeetCodeProblem } from "@/lib/types";
+
+/**
+ * Problem Similarity - "similar problems" ranked from several signals
+ *
+ * - semantic: cosine similarity of the problems' embeddings (title,
+ *   difficulty, tags, patterns and description; see problemText in
+ *   embedding-index.ts)
+ * - patterns: overlap of the curated patterns in leetcode-problems.json
+ * - cooccurrence: how often both problems sit in the same topic list,
+ *   across every user's topics; rebuilt in the background once a day
+ * - notes: the user's memories, snippets and notes that mention both
+ * - topics: overlap of LeetCode topic tags, the weakest signal
+ *
+ * The score is the weighted mean of the signals available for the source
+ * problem, so a problem without patterns or co-occurrence data isn't
+ * penalised for it. Every result carries the reasons it was picked.
+ */
+
+export type SimilaritySignal = "semantic" | "patterns" | "cooccurrence" | "notes" | "topics";
+
+export interface SimilarityReason {
+  signal: SimilaritySignal;
+  label: string; // e.g. "Same pattern: Sliding Window"
+}
+
+export interface SimilarProblem extends LeetCodeProblem {
+  similarity: number; // 0-1, higher is closer
+  reasons: SimilarityReason[];
+}
+
+const WEIGHTS: Record<SimilaritySignal, number> = {
+  semantic: 0.4,
+  patterns: 0.25,
+  cooccurrence: 0.2,
+  notes: 0.1,
+  topics: 0.05,
+};
+
+const MIN_SEMANTIC = 0.5; // cosine below this isn't a useful neighbour
+const COOCCURRENCE_TTL_MS = 24 * 60 * 60 * 1000;
+const CATALOG_INDEX_TTL_MS = 60 * 60 * 1000;
+const QUESTION_NOTES_TTL_MS = 5 * 60 * 1000;
+const MAX_LIST_SIZE = 300; // larger topic lists are dumps, not curated groups
+const MAX_RELATED = 50;
+const MIN_TITLE_LENGTH = 8; // shorter titles ("Candy") match ordinary words
+
+// ============ Catalog index ============
+
+interface CatalogIndex {
+  byId: Map<number, string>;
+  byTitle: Map<string, string>; // normalized title -> slug
+}
+
+let catalogIndex: { index: CatalogIndex; loadedAt: number } | null = null;
+
+function normalizeText(text: string): string {
+  return text.toLowerCase().replace(/[^a-z0-9]+/g, " ").trim();
+}
+
+// Slug, number and title of every known problem, for resolving free-form references
+async function loadCatalogIndex(db: Db | null): Promise<CatalogIndex> {
+  if (catalogIndex && Date.now() - catalogIndex.loadedAt < CATALOG_INDEX_TTL_MS) {
+    return catalogIndex.index;
+  }
+
+  const index: CatalogIndex = { byId: new Map(), byTitle: new Map() };
+  for (const problem of getAllProblems()) {
+    index.byId.set(problem.id, problem.slug);
+    index.byTitle.set(normalizeText(problem.title), problem.slug);
+  }
+  if (db) {
+    const docs = await db.collection(COLLECTIONS.PROBLEMS)
+      .find({}, { projection: { titleSlug: 1, title: 1, problemId: 1 } })
+      .toArray();
+    for (const doc of docs) {
+      if (doc.problemId) index.byId.set(doc.problemId, doc.titleSlug);
+      index.byTitle.set(normalizeText(doc.title ?? ""), doc.titleSlug);
+    }
+  }
+
+  catalogIndex = { index, loadedAt: Date.now() };
+  return index;
+}
+
+// The problem a topic-list question refers to: its link, then its number, then its title
+function questionSlug(question: any, index: CatalogIndex): string | undefined {
+  const fromLink = question.link ? parseLeetCodeUrl(question.link).slug : undefined;
+  if (fromLink) return fromLink;
+  if (question.leetcodeNumber && index.byId.has(question.leetcodeNumber)) {
+    return index.byId.get(question.leetcodeNumber);
+  }
+  return question.title ? index.byTitle.get(normalizeText(question.title)) : undefined;
+}
+
+// Problems a text refers to by LeetCode link or full title
+function mentionedSlugs(text: string, index: CatalogIndex): Set<string> {
+  const slugs = new Set<string>();
+  for (const match of text.matchAll(/leetcode\.com\/problems\/([a-z0-9-]+)/gi)) {
+    slugs.add(match[1].toLowerCase());
+  }
+
+  const padded = ` ${normalizeText(text)} `;
+  for (const [title, slug] of index.byTitle) {
+    if (title.length >= MIN_TITLE_LENGTH && padded.includes(` ${title} `)) slugs.add(slug);
+  }
+  return slugs;
+}
+
+// ============ Co-occurrence ============
+
+interface CooccurrenceDocument {
+  _id: string; // problem slug
+  lists: number; // topic lists containing the problem
+  related: { slug: string; count: number; lists: number }[];
+  computedAt: Date;
+}
+
+let rebuilding: Promise<void> | null = null;
+let lastRebuildAt = 0; // an empty table has no computedAt to go by
+
+// Count, for every pair of problems, the topic lists (across all users) that contain both
+async function rebuildCooccurrence(db: Db) {
+  const index = await loadCatalogIndex(db);
+  const firestore = getAdminFirestore();
+  const [topics, questions] = await Promise.all([
+    firestore.collectionGroup("topics").select("deletedAt").get(),
+    firestore.collectionGroup("questions").select("link", "leetcodeNumber", "title", "deletedAt").get(),
+  ]);
+
+  const trashedTopics = new Set(topics.docs.filter(topic => isTrashed(topic.data())).map(topic => topic.ref.path));
+  const lists = new Map<string, Set<string>>();
+  for (const question of questions.docs) {
+    const topicPath = question.ref.parent.parent?.path;
+    if (!topicPath || trashedTopics.has(topicPath) || isTrashed(question.data())) continue;
+
+    const slug = questionSlug(question.data(), index);
+    if (!slug) continue;
+    if (!lists.has(topicPath)) lists.set(topicPath, new Set());
+    lists.get(topicPath)!.add(slug);
+  }
+
+  const listCounts = new Map<string, number>();
+  const pairs = new Map<string, Map<string, number>>();
+  for (const list of lists.values()) {
+    const slugs = [...list].slice(0, MAX_LIST_SIZE);
+    for (const slug of slugs) listCounts.set(slug, (listCounts.get(slug) ?? 0) + 1);
+
+    for (let i = 0; i < slugs.length; i++) {
+      for (let j = i + 1; j < slugs.length; j++) {
+        for (const [a, b] of [[slugs[i], slugs[j]], [slugs[j], slugs[i]]]) {
+          if (!pairs.has(a)) pairs.set(a, new Map());
+          pairs.get(a)!.set(b, (pairs.get(a)!.get(b) ?? 0) + 1);
+        }
+      }
+    }
+  }
+
+  const computedAt = new Date();
+  const docs: CooccurrenceDocument[] = [...pairs].map(([slug, related]) => ({
+    _id: slug,
+    lists: listCounts.get(slug) ?? 0,
+    related: [...related]
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, MAX_RELATED)
+      .map(([other, count]) => ({ slug: other, count, lists: listCounts.get(other) ?? 0 })),
+    computedAt,
+  }));
+
+  const collection = db.collection<CooccurrenceDocument>(COLLECTIONS.PROBLEM_COOCCURRENCE);
+  for (let i = 0; i < docs.length; i += 500) {
+    await collection.bulkWrite(docs.slice(i, i + 500).map(doc => ({
+      replaceOne: { filter: { _id: doc._id }, replacement: doc, upsert: true }
+    })));
+  }
+  await collection.deleteMany({ computedAt: { $lt: computedAt } });
+}
+
+// Rebuild in the background when the table is missing or older than a day
+async function refreshCooccurrenceIfStale(db: Db) {
+  if (rebuilding || Date.now() - lastRebuildAt < COOCCURRENCE_TTL_MS) return;
+
+  const newest = await db.collection(COLLECTIONS.PROBLEM_COOCCURRENCE).findOne(
+    {},
+    { sort: { computedAt: -1 }, projection: { computedAt: 1 } }
+  );
+  if (newest && Date.now() - new Date(newest.computedAt).getTime() < COOCCURRENCE_TTL_MS) return;
+
+  lastRebuildAt = Date.now();
+  rebuilding = rebuildCooccurrence(db)
+    .catch(error => console.error("Failed to rebuild problem co-occurrence:", error))
+    .finally(() => {
+      rebuilding = null;
+    });
+}
+
+// ============ Signals ============
+
+interface Candidate {
+  slug: string;
+  signals: Partial<Record<SimilaritySignal, number>>;
+  reasons: SimilarityReason[];
+}
+
+function overlap(a: string[], b: string[]): { shared: string[]; score: number } {
+  const other = new Set(b.map(value => value.toLowerCase()));
+  const shared = a.filter(value => other.has(value.toLowerCase()));
+  const union = new Set([...a, ...b].map(value => value.toLowerCase())).size;
+  return { shared, score: union > 0 ? shared.length / union : 0 };
+}
+
+// Cosine similarity of the source problem's nearest embedded problems
+async function semanticNeighbours(db: Db, source: LeetCodeProblem, limit: number): Promise<Map<string, number>> {
+  const model = embeddingModelId(getEmbeddingConfig());
+  const stored = await db.collection(COLLECTIONS.EMBEDDINGS).findOne(
+    { type: "problem", sourceId: source.slug, embeddingModel: model, ...FRESH_VECTORS },
+    { projection: { embedding: 1 } }
+  );
+  const vector: number[] | null = stored?.embedding ?? await embedText(problemText(source)).catch(() => null);
+  if (!vector) return new Map();
+
+  const matches = await searchVectors(db, COLLECTIONS.EMBEDDINGS, {
+    vector,
+    model,
+    filter: { type: "problem", ...FRESH_VECTORS },
+    limit: limit + 1, // one extra for the source problem itself
+    minScore: (1 + MIN_SEMANTIC) / 2
+  });
+  // Scores are (1 + cosine) / 2 (see vector-index.ts)
+  return new Map(matches.filter(m => m.sourceId !== source.slug).map(m => [m.sourceId as string, 2 * m.score - 1]));
+}
+
+async function cooccurring(db: Db, slug: string): Promise<CooccurrenceDocument | null> {
+  await refreshCooccurrenceIfStale(db);
+  return await db.collection<CooccurrenceDocument>(COLLECTIONS.PROBLEM_COOCCURRENCE).findOne({ _id: slug });
+}
+
+interface UserNote {
+  label: string; // how the note is named in a reason, e.g. "memory"
+  text: string;
+  slugs: string[]; // problems the note is attached to
+}
+
+const questionNotesCache = new Map<string, { notes: UserNote[]; loadedAt: number }>();
+
+// Notes on the questions in the user's topic lists. That takes a read per
+// topic, so each user's are kept for a few minutes
+async function questionNotes(userId: string, index: CatalogIndex): Promise<UserNote[]> {
+  const cached = questionNotesCache.get(userId);
+  if (cached && Date.now() - cached.loadedAt < QUESTION_NOTES_TTL_MS) {
+    return cached.notes;
+  }
+
+  const topics = await getAdminFirestore().collection(`users/${userId}/topics`).get();
+  const questionLists = await Promise.all(
+    topics.docs
+      .filter(topic => !isTrashed(topic.data()))
+      .map(topic => topic.ref.collection("questions")
+        .select("link", "leetcodeNumber", "title", "personalNotes", "approach", "keyInsights", "deletedAt")
+        .get())
+  );
+
+  const notes: UserNote[] = [];
+  for (const question of questionLists.flatMap(questions => questions.docs)) {
+    const data = question.data();
+    const text = [data.personalNotes, data.approach, data.keyInsights].filter(Boolean).join("\n");
+    const slug = questionSlug(data, index);
+    if (text && slug && !isTrashed(data)) {
+      notes.push({ label: `notes on "${data.title}"`, text, slugs: [slug] });
+    }
+  }
+
+  const now = Date.now();
+  for (const [key, entry] of questionNotesCache) {
+    if (now - entry.loadedAt >= QUESTION_NOTES_TTL_MS) questionNotesCache.delete(key);
+  }
+  questionNotesCache.set(userId, { notes, loadedAt: now });
+  return notes;
+}
+
+// Everything the user wrote that can link problems: memories, snippets, topic notes and question notes
+async function userNotes(db: Db, userId: string, index: CatalogIndex): Promise<UserNote[]> {
+  const [memories, snippets, topicNotes] = await Promise.all([
+    db.collection(COLLECTIONS.MEMORIES)
+      .find({ userId, ...NOT_TRASHED }, { projection: { content: 1, relatedProblems: 1 } })
+      .toArray(),
+    db.collection(COLLECTIONS.SNIPPETS)
+      .find({ userId, ...NOT_TRASHED, "relatedProblems.0": { $exists: true } }, { projection: { title: 1, relatedProblems: 1 } })
+      .toArray(),
+    // Indexed note text; trashed notes have no vector
+    db.collection(COLLECTIONS.EMBEDDINGS)
+      .find({ type: "note", userId }, { projection: { content: 1 } })
+      .toArray(),
+  ]);
+
+  const notes: UserNote[] = [
+    ...memories.map(memory => ({ label: "memory", text: memory.content ?? "", slugs: memory.relatedProblems ?? [] })),
+    ...snippets.map(snippet => ({ label: `snippet "${snippet.title}"`, text: "", slugs: snippet.relatedProblems })),
+    ...topicNotes.map(note => ({ label: "topic notes", text: note.content ?? "", slugs: [] })),
+  ];
+
+  try {
+    notes.push(...await questionNotes(userId, index));
+  } catch (error) {
+    console.error("Failed to read question notes for similarity:", error);
+  }
+
+  return notes;
+}
+
+// How often each problem is mentioned together with the source, and where
+async function coMentions(db: Db, userId: string, source: LeetCodeProblem): Promise<Map<string, string[]>> {
+  const index = await loadCatalogIndex(db);
+  const sourceTitle = ` ${normalizeText(source.title)} `;
+  const mentions = new Map<string, string[]>();
+
+  for (const note of await userNotes(db, userId, index)) {
+    const mentionsSource =
+      note.slugs.includes(source.slug) ||
+      note.text.includes(`/problems/${source.slug}`) ||
+      ` ${normalizeText(note.text)} `.includes(sourceTitle);
+    if (!mentionsSource) continue;
+
+    const slugs = new Set([...note.slugs, ...mentionedSlugs(note.text, index)]);
+    slugs.delete(source.slug);
+    for (const slug of slugs) {
+      mentions.set(slug, [...(mentions.get(slug) ?? []), note.label]);
+    }
+  }
+  return mentions;
+}
+
+// ============ Ranking ============
+
+function describeMentions(labels: string[]): string {
+  const unique = [...new Set(labels)];
+  const more = unique.length > 1 ? ` and ${unique.length - 1} more` : "";
+  return `Mentioned together in your ${unique[0]}${more}`;
+}
+
+/**
+ * The `limit` problems most similar to `source`, best first. With a
+ * userId, the user's own notes count as a signal too. Signals whose data
+ * can't be read (no database, no Firestore access) are left out.
+ */
+export async function rankSimilarProblems(
+  source: LeetCodeProblem,
+  options: { userId?: string; limit: number }
+): Promise<SimilarProblem[]> {
+  const { userId, limit } = options;
+  const db = await getDatabase();
+  const candidates = new Map<string, Candidate>();
+  const available = new Set<SimilaritySignal>(["topics"]);
+
+  const candidate = (slug: string) => {
+    if (!candidates.has(slug)) candidates.set(slug, { slug, signals: {}, reasons: [] });
+    return candidates.get(slug)!;
+  };
+
+  if (db) {
+    const [semantic, cooccurrence, mentions] = await Promise.all([
+      semanticNeighbours(db, source, limit * 5).catch(error => {
+        console.error("Semantic similarity unavailable:", error);
+        return new Map<string, number>();
+      }),
+      cooccurring(db, source.slug).catch(error => {
+        console.error("Problem co-occurrence unavailable:", error);
+        return null;
+      }),
+      userId
+        ? coMentions(db, userId, source).catch(error => {
+            console.error("Note similarity unavailable:", error);
+            return null;
+          })
+        : null,
+    ]);
+
+    if (semantic.size > 0) available.add("semantic");
+    for (const [slug, cosine] of semantic) {
+      const entry = candidate(slug);
+      entry.signals.semantic = cosine;
+      entry.reasons.push({ signal: "semantic", label: `Semantically similar (${Math.round(cosine * 100)}%)` });
+    }
+
+    if (cooccurrence && cooccurrence.related.length > 0) {
+      available.add("cooccurrence");
+      for (const related of cooccurrence.related) {
+        const entry = candidate(related.slug);
+        entry.signals.cooccurrence = related.count / Math.sqrt(cooccurrence.lists * related.lists);
+        entry.reasons.push({
+          signal: "cooccurrence",
+          label: `Listed together in ${related.count} topic list${related.count === 1 ? "" : "s"}`
+        });
+      }
+    }
+
+    if (mentions && mentions.size > 0) {
+      available.add("notes");
+      for (const [slug, labels] of mentions) {
+        const entry = candidate(slug);
+        entry.signals.notes = Math.min(1, labels.length / 2);
+        entry.reasons.push({ signal: "notes", label: describeMentions(labels) });
+      }
+    }
+  }
+
+  if (source.patterns.length > 0) {
+    available.add("patterns");
+    for (const problem of getAllProblems()) {
+      if (problem.slug !== source.slug && overlap(source.patterns, problem.patterns).shared.length > 0) {
+        candidate(problem.slug);
+      }
+    }
+  }
+
+  // Tag neighbours keep the list full before anything is embedded or listed
+  const byTopic = await queryCatalog({ topics: source.topics, excludeSlugs: [source.slug], limit: limit * 10 });
+  byTopic.forEach(problem => candidate(problem.slug));
+
+  candidates.delete(source.slug);
+  if (candidates.size === 0) return [];
+  const problems = await queryCatalog({ slugs: [...candidates.keys()], limit: candidates.size });
+  const totalWeight = [...available].reduce((sum, signal) => sum + WEIGHTS[signal], 0);
+
+  const ranked = problems.map(problem => {
+    const entry = candidates.get(problem.slug)!;
+
+    const patterns = overlap(source.patterns, problem.patterns);
+    if (patterns.shared.length > 0) {
+      entry.signals.patterns = patterns.score;
+      entry.reasons.push({ signal: "patterns", label: `Same pattern: ${patterns.shared.join(", ")}` });
+    }
+
+    const topics = overlap(source.topics, problem.topics);
+    entry.signals.topics = topics.score;
+    if (topics.shared.length >= 2 || (entry.reasons.length === 0 && topics.shared.length > 0)) {
+      entry.reasons.push({ signal: "topics", label: `Shared tags: ${topics.shared.join(", ")}` });
+    }
+
+    const score = [...available].reduce((sum, signal) => sum + WEIGHTS[signal] * (entry.signals[signal] ?? 0), 0);
+    // Same difficulty only breaks ties
+    const tieBreak = problem.difficulty === source.difficulty ? 0.001 : 0;
+
+    return {
+      ...problem,
+      similarity: Math.min(1, score / totalWeight),
+      reasons: entry.reasons.sort((a, b) => WEIGHTS[b.signal] - WEIGHTS[a.signal]),
+      rank: score + tieBreak,
+    };
+  });
+
+  return ranked
+    .filter(problem => problem.similarity > 0)
+    .sort((a, b) => b.rank - a.rank)
+    .slice(0, limit)
+    .map(({ rank, ...problem }) => problem);
+}
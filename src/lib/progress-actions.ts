@@ -1,6 +1,8 @@
 "use server";
 
 import { getDatabase, COLLECTIONS } from "@/lib/mongodb";
+import { requireUser } from "@/lib/session";
+import { invalidateUserAICache } from "@/lib/ai-cache";
 
 export interface SolvedProblem {
   _id?: string;
@@ -15,6 +17,12 @@ export interface SolvedProblem {
   solvedAt: Date;
   userId: string;
   topicTags?: string[];
+
+  // Filled by LeetCode profile sync
+  lastAcceptedAt?: Date;
+  acceptedCount?: number;
+  submissionCount?: number;
+  lastSyncedAt?: Date;
 }
 
 export interface UserProgress {
@@ -32,7 +40,7 @@ export interface UserProgress {
 
 // Get all solved problems for a user
 export async function getSolvedProblems(
-  userId: string = "default-user",
+  userId: string,
   options?: {
     difficulty?: "EASY" | "MEDIUM" | "HARD";
     topic?: string;
@@ -41,6 +49,7 @@ export async function getSolvedProblems(
   }
 ): Promise<{ success: boolean; problems?: SolvedProblem[]; total?: number; error?: string }> {
   try {
+    await requireUser(userId);
     const db = await getDatabase();
     if (!db) {
       return { success: false, error: "Database not available" };
@@ -86,9 +95,10 @@ export async function getSolvedProblems(
 // Check if a specific problem is solved
 export async function isProblemSolved(
   titleSlug: string,
-  userId: string = "default-user"
+  userId: string
 ): Promise<{ success: boolean; solved?: boolean; error?: string }> {
   try {
+    await requireUser(userId);
     const db = await getDatabase();
     if (!db) {
       return { success: false, error: "Database not available" };
@@ -105,9 +115,10 @@ export async function isProblemSolved(
 
 // Get user progress statistics
 export async function getUserProgress(
-  userId: string = "default-user"
+  userId: string
 ): Promise<{ success: boolean; progress?: UserProgress; error?: string }> {
   try {
+    await requireUser(userId);
     const db = await getDatabase();
     if (!db) {
       return { success: false, error: "Database not available" };
@@ -176,7 +187,7 @@ export async function getUserProgress(
 
 // Get topic-wise progress
 export async function getTopicProgress(
-  userId: string = "default-user"
+  userId: string
 ): Promise<{ 
   success: boolean; 
   topics?: { 
@@ -188,6 +199,7 @@ export async function getTopicProgress(
   error?: string 
 }> {
   try {
+    await requireUser(userId);
     const db = await getDatabase();
     if (!db) {
       return { success: false, error: "Database not available" };
@@ -227,9 +239,10 @@ export async function getTopicProgress(
 // Mark a problem as solved (for manual tracking)
 export async function markProblemSolved(
   titleSlug: string,
-  userId: string = "default-user"
+  userId: string
 ): Promise<{ success: boolean; error?: string }> {
   try {
+    await requireUser(userId);
     const db = await getDatabase();
     if (!db) {
       return { success: false, error: "Database not available" };
@@ -260,6 +273,7 @@ export async function markProblemSolved(
       },
       { upsert: true }
     );
+    await invalidateUserAICache(db, userId);
 
     return { success: true };
   } catch (error) {
@@ -271,15 +285,17 @@ export async function markProblemSolved(
 // Unmark a problem (remove from solved)
 export async function unmarkProblemSolved(
   titleSlug: string,
-  userId: string = "default-user"
+  userId: string
 ): Promise<{ success: boolean; error?: string }> {
   try {
+    await requireUser(userId);
     const db = await getDatabase();
     if (!db) {
       return { success: false, error: "Database not available" };
     }
 
     await db.collection("solved").deleteOne({ titleSlug, userId });
+    await invalidateUserAICache(db, userId);
 
     return { success: true };
   } catch (error) {
@@ -0,0 +1,46 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { DEFAULT_COACHING_PROFILE, type CoachingProfile } from "@/lib/coaching-profile";
+import { nextDifficultyFor } from "@/lib/recommender";
+
+/**
+ * The difficulty progression: where it starts and when it steps up comes
+ * from the coaching profile, not from fixed solved counts.
+ */
+
+const profile = (overrides: Partial<CoachingProfile> = {}): CoachingProfile => ({
+  ...DEFAULT_COACHING_PROFILE,
+  allowedDifficulties: ["Easy", "Medium", "Hard"],
+  ...overrides,
+});
+
+const solved = (easy: number, medium: number, hard = 0) => ({ easy, medium, hard });
+const now = new Date(2026, 9, 19);
+
+describe("recommender: next difficulty", () => {
+  it("climbs from Easy without an experience level", () => {
+    assert.equal(nextDifficultyFor(solved(10, 0), profile(), now), "Easy");
+    assert.equal(nextDifficultyFor(solved(50, 20), profile(), now), "Medium");
+    assert.equal(nextDifficultyFor(solved(50, 100), profile(), now), "Hard");
+  });
+
+  it("starts experienced users at Medium and steps up sooner", () => {
+    assert.equal(nextDifficultyFor(solved(0, 0), profile({ experienceLevel: "senior" }), now), "Medium");
+    assert.equal(nextDifficultyFor(solved(0, 30), profile({ experienceLevel: "senior" }), now), "Hard");
+    assert.equal(nextDifficultyFor(solved(40, 40), profile({ experienceLevel: "junior" }), now), "Medium");
+  });
+
+  it("stays at Medium in the last two weeks before the interview", () => {
+    const soon = profile({ experienceLevel: "staff", interviewDate: "2026-10-26" });
+    const later = profile({ experienceLevel: "staff", interviewDate: "2026-12-19" });
+
+    assert.equal(nextDifficultyFor(solved(0, 40), soon, now), "Medium");
+    assert.equal(nextDifficultyFor(solved(0, 40), later, now), "Hard");
+  });
+
+  it("gives way to the difficulties the profile allows", () => {
+    assert.equal(nextDifficultyFor(solved(60, 200), profile({ allowedDifficulties: ["Easy", "Medium"] }), now), "Medium");
+    assert.equal(nextDifficultyFor(solved(0, 0), profile({ allowedDifficulties: ["Hard"] }), now), "Hard");
+    assert.equal(nextDifficultyFor(solved(0, 0), profile({ experienceLevel: "mid", allowedDifficulties: ["Easy"] }), now), "Easy");
+  });
+});
@@ -0,0 +1,303 @@
+import { getDatabase, COLLECTIONS } from "@/lib/mongodb";
+import { requireUser } from "@/lib/session";
+import { getTopicProgress, getUserProgress } from "@/lib/progress-actions";
+import { getWeakTopics } from "@/lib/smart-review-actions";
+import { queryCatalog } from "@/lib/problem-catalog";
+import {
+  allowsDifficulty,
+  daysUntilInterview,
+  loadCoachingProfile,
+  type CoachingProfile,
+  type ExperienceLevel,
+} from "@/lib/coaching-profile";
+import { difficulties, type Difficulty, type LeetCodeProblem } from "@/lib/types";
+
+/**
+ * Recommender - ranked, explained problem suggestions without AI
+ *
+ * Each unsolved problem in the allowed difficulties is scored on:
+ * - weak-topic: low review confidence in its topics (getWeakTopics)
+ * - coverage: little of its topics solved so far (getTopicProgress)
+ * - pattern-gap: patterns from leetcode-problems.json the user has rarely solved
+ * - company: asked at the user's target companies, or asked often in general
+ * - difficulty: matches the next step in the user's difficulty progression,
+ *   which starts and climbs according to the coaching profile
+ *
+ * The score is the weighted sum of the signals. Problems sharing a pattern
+ * with one already picked are marked down, so the list isn't ten problems of
+ * the same kind. Works whenever the database does; the AI path re-ranks and
+ * narrates these results rather than choosing from scratch.
+ */
+
+export type RecommendationSignal = "weak-topic" | "coverage" | "pattern-gap" | "company" | "difficulty";
+
+export interface RecommendationReason {
+  signal: RecommendationSignal;
+  label: string; // e.g. "New pattern: Monotonic Stack"
+}
+
+export interface Recommendation extends LeetCodeProblem {
+  score: number; // 0-1, higher is more useful now
+  reasons: RecommendationReason[];
+}
+
+export interface RecommenderInput {
+  solvedSlugs: Set<string>;
+  solvedPatterns: Map<string, number>; // solved count per curated pattern
+  byDifficulty: { easy: number; medium: number; hard: number };
+  weakTopics: { topic: string; avgConfidence: number; count: number }[];
+  topicCoverage: { name: string; solved: number; total: number; percentage: number }[];
+  coaching: CoachingProfile;
+}
+
+const WEIGHTS: Record<RecommendationSignal, number> = {
+  "weak-topic": 0.3,
+  coverage: 0.2,
+  "pattern-gap": 0.2,
+  company: 0.15,
+  difficulty: 0.15,
+};
+
+const MIN_REASON_SCORE = 0.5; // weaker signals count towards the score but aren't listed as reasons
+const MIN_TOPIC_SIZE = 5; // coverage of tiny topics says little
+const REPEAT_PATTERN_PENALTY = 0.85;
+const CANDIDATE_LIMIT = 500;
+
+const INTERVIEW_SOON_DAYS = 14; // matches the policy's last-two-weeks pace
+
+// Where each experience level starts, and how many solved at a difficulty move it up a step
+interface DifficultyLadder {
+  start: Difficulty;
+  stepUp: Record<Exclude<Difficulty, "Hard">, number>;
+}
+
+const DEFAULT_LADDER: DifficultyLadder = { start: "Easy", stepUp: { Easy: 50, Medium: 100 } };
+
+const LADDERS: Record<ExperienceLevel, DifficultyLadder> = {
+  student: DEFAULT_LADDER,
+  junior: { start: "Easy", stepUp: { Easy: 30, Medium: 75 } },
+  mid: { start: "Medium", stepUp: { Easy: 0, Medium: 50 } },
+  senior: { start: "Medium", stepUp: { Easy: 0, Medium: 30 } },
+  staff: { start: "Medium", stepUp: { Easy: 0, Medium: 15 } },
+};
+
+/**
+ * The difficulty to practise next. The experience level picks the starting
+ * difficulty and how many solved problems move the user up; within two
+ * weeks of the interview it stays at Medium, where most interview questions
+ * are. A difficulty the profile rules out gives way to the hardest allowed
+ * one below it, or the easiest allowed.
+ */
+export function nextDifficultyFor(
+  byDifficulty: RecommenderInput["byDifficulty"],
+  coaching: CoachingProfile,
+  now: Date = new Date()
+): Difficulty {
+  const ladder = coaching.experienceLevel ? LADDERS[coaching.experienceLevel] : DEFAULT_LADDER;
+  const solved: Record<Difficulty, number> = { Easy: byDifficulty.easy, Medium: byDifficulty.medium, Hard: byDifficulty.hard };
+
+  let next = ladder.start;
+  while (next !== "Hard" && solved[next] >= ladder.stepUp[next]) {
+    next = difficulties[difficulties.indexOf(next) + 1];
+  }
+
+  const days = daysUntilInterview(coaching, now);
+  if (next === "Hard" && days !== undefined && days <= INTERVIEW_SOON_DAYS) next = "Medium";
+  if (allowsDifficulty(coaching, next)) return next;
+
+  const wanted = difficulties.indexOf(next);
+  const allowed = coaching.allowedDifficulties;
+  return [...allowed].reverse().find(d => difficulties.indexOf(d) < wanted) ?? allowed[0];
+}
+
+// Solved count per curated pattern
+function solvedPatternCounts(solved: LeetCodeProblem[]): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (const problem of solved) {
+    for (const pattern of problem.patterns) {
+      counts.set(pattern, (counts.get(pattern) ?? 0) + 1);
+    }
+  }
+  return counts;
+}
+
+// Per-topic coverage against the catalog, for when topic progress is empty
+async function catalogCoverage(solvedSlugs: Set<string>): Promise<RecommenderInput["topicCoverage"]> {
+  const totals = new Map<string, { solved: number; total: number }>();
+  for (const problem of await queryCatalog({ limit: CANDIDATE_LIMIT })) {
+    for (const topic of problem.topics) {
+      const entry = totals.get(topic) ?? { solved: 0, total: 0 };
+      entry.total++;
+      if (solvedSlugs.has(problem.slug)) entry.solved++;
+      totals.set(topic, entry);
+    }
+  }
+  return [...totals].map(([name, { solved, total }]) => ({
+    name,
+    solved,
+    total,
+    percentage: Math.round((solved / total) * 100),
+  }));
+}
+
+function scoreProblem(
+  problem: LeetCodeProblem,
+  input: RecommenderInput,
+  context: { patterns: Map<string, number>; target: Difficulty }
+): { signals: Record<RecommendationSignal, number>; reasons: RecommendationReason[] } {
+  const signals: Record<RecommendationSignal, number> = { "weak-topic": 0, coverage: 0, "pattern-gap": 0, company: 0, difficulty: 0 };
+  const labels: Partial<Record<RecommendationSignal, string>> = {};
+  const topics = new Set(problem.topics.map(t => t.toLowerCase()));
+
+  for (const weak of input.weakTopics) {
+    if (!topics.has(weak.topic.toLowerCase())) continue;
+    const score = Math.min(1, Math.max(0, (5 - weak.avgConfidence) / 4));
+    if (score > signals["weak-topic"]) {
+      signals["weak-topic"] = score;
+      labels["weak-topic"] = `Weak in reviews: ${weak.topic} (confidence ${weak.avgConfidence}/5)`;
+    }
+  }
+
+  for (const topic of input.topicCoverage) {
+    if (topic.total < MIN_TOPIC_SIZE || !topics.has(topic.name.toLowerCase())) continue;
+    const score = 1 - topic.percentage / 100;
+    if (score > signals.coverage) {
+      signals.coverage = score;
+      labels.coverage = `Little coverage: ${topic.name} (${topic.percentage}% solved)`;
+    }
+  }
+
+  for (const pattern of problem.patterns) {
+    const solved = context.patterns.get(pattern) ?? 0;
+    const score = 1 / (1 + solved);
+    if (score > signals["pattern-gap"]) {
+      signals["pattern-gap"] = score;
+      labels["pattern-gap"] = solved === 0 ? `New pattern: ${pattern}` : `Pattern solved only ${solved}x: ${pattern}`;
+    }
+  }
+
+  const targets = new Set(input.coaching.targetCompanies.map(c => c.toLowerCase()));
+  const targeted = problem.companies.filter(c => targets.has(c.toLowerCase()));
+  if (targeted.length > 0) {
+    signals.company = 1;
+    labels.company = `Asked at ${targeted.slice(0, 3).join(", ")}`;
+  } else if (problem.frequency) {
+    signals.company = 0.6 * Math.min(1, problem.frequency / 100);
+    labels.company = `Frequently asked${problem.companies.length > 0 ? ` (${problem.companies.slice(0, 3).join(", ")})` : ""}`;
+  }
+
+  const gap = difficulties.indexOf(context.target) - difficulties.indexOf(problem.difficulty);
+  signals.difficulty = gap === 0 ? 1 : gap === 1 ? 0.5 : 0.2;
+  if (gap === 0) labels.difficulty = `Next step in your progression: ${problem.difficulty}`;
+
+  const reasons = (Object.keys(WEIGHTS) as RecommendationSignal[])
+    .filter(signal => labels[signal] && signals[signal] >= MIN_REASON_SCORE)
+    .sort((a, b) => WEIGHTS[b] * signals[b] - WEIGHTS[a] * signals[a])
+    .map(signal => ({ signal, label: labels[signal]! }));
+
+  return { signals, reasons };
+}
+
+/**
+ * Rank `candidates` for the user. Solved problems and difficulties the
+ * coaching profile rules out are skipped; ties go to the more frequently
+ * asked problem.
+ */
+export function rankRecommendations(candidates: LeetCodeProblem[], input: RecommenderInput, limit: number = 10): Recommendation[] {
+  const context = { patterns: input.solvedPatterns, target: nextDifficultyFor(input.byDifficulty, input.coaching) };
+
+  const scored = candidates
+    .filter(problem => !input.solvedSlugs.has(problem.slug) && allowsDifficulty(input.coaching, problem.difficulty))
+    .map(problem => {
+      const { signals, reasons } = scoreProblem(problem, input, context);
+      const score = (Object.keys(WEIGHTS) as RecommendationSignal[]).reduce((sum, signal) => sum + WEIGHTS[signal] * signals[signal], 0);
+      return { ...problem, score, reasons };
+    })
+    .sort((a, b) => b.score - a.score || (b.frequency ?? 0) - (a.frequency ?? 0) || a.id - b.id);
+
+  // Pick greedily, marking down problems whose patterns are already in the list
+  const picked: Recommendation[] = [];
+  const usedPatterns = new Map<string, number>();
+  const remaining = [...scored];
+  while (picked.length < limit && remaining.length > 0) {
+    const adjusted = (problem: Recommendation) =>
+      problem.score * Math.pow(REPEAT_PATTERN_PENALTY, Math.max(0, ...problem.patterns.map(p => usedPatterns.get(p) ?? 0)));
+    let best = 0;
+    for (let i = 1; i < remaining.length; i++) {
+      if (adjusted(remaining[i]) > adjusted(remaining[best])) best = i;
+    }
+    const [next] = remaining.splice(best, 1);
+    next.patterns.forEach(p => usedPatterns.set(p, (usedPatterns.get(p) ?? 0) + 1));
+    picked.push({ ...next, score: Math.round(next.score * 100) / 100 });
+  }
+  return picked;
+}
+
+// Everything the recommender needs about the user, from reviews, progress and the coaching profile
+export async function loadRecommenderInput(userId: string): Promise<RecommenderInput> {
+  await requireUser(userId);
+  const db = await getDatabase();
+  const [solved, progressResult, topicResult, weakResult, coaching] = await Promise.all([
+    db ? db.collection(COLLECTIONS.SOLVED).find({ userId }).project({ titleSlug: 1 }).toArray() : Promise.resolve([]),
+    getUserProgress(userId),
+    getTopicProgress(userId),
+    getWeakTopics(userId),
+    loadCoachingProfile(db, userId),
+  ]);
+
+  const solvedSlugs = new Set<string>(solved.map(s => s.titleSlug));
+  const [solvedProblems, topicCoverage] = await Promise.all([
+    queryCatalog({ slugs: [...solvedSlugs], curated: true, limit: solvedSlugs.size }),
+    topicResult.success && topicResult.topics?.length ? topicResult.topics : catalogCoverage(solvedSlugs),
+  ]);
+
+  return {
+    solvedSlugs,
+    solvedPatterns: solvedPatternCounts(solvedProblems),
+    byDifficulty: progressResult.progress?.byDifficulty ?? { easy: 0, medium: 0, hard: 0 },
+    weakTopics: weakResult.success ? weakResult.topics ?? [] : [],
+    topicCoverage,
+    coaching,
+  };
+}
+
+// Ranked recommendations for the signed-in user, optionally within one topic or difficulty
+export async function recommendProblems(
+  userId: string,
+  options: { topic?: string; difficulty?: string; limit?: number } = {}
+): Promise<{ recommendations: Recommendation[]; input: RecommenderInput }> {
+  await requireUser(userId);
+  const input = await loadRecommenderInput(userId);
+  const difficulty = options.difficulty && allowsDifficulty(input.coaching, options.difficulty) ? options.difficulty : undefined;
+
+  const query = {
+    topics: options.topic ? [options.topic] : undefined,
+    difficulty,
+    difficulties: input.coaching.allowedDifficulties,
+    excludeSlugs: [...input.solvedSlugs],
+  };
+  // The curated problems carry the pattern and company data, so they're always candidates
+  const [imported, withPatterns] = await Promise.all([
+    queryCatalog({ ...query, limit: CANDIDATE_LIMIT }),
+    queryCatalog({ ...query, curated: true, limit: CANDIDATE_LIMIT }),
+  ]);
+  const candidates = [...new Map([...withPatterns, ...imported].map(p => [p.slug, p])).values()];
+
+  return { recommendations: rankRecommendations(candidates, input, options.limit ?? 10), input };
+}
+
+// Topics most worth practising: low review confidence first, then low coverage
+export function weakestTopics(input: RecommenderInput, limit: number = 5): string[] {
+  const lowCoverage = input.topicCoverage
+    .filter(t => t.total >= MIN_TOPIC_SIZE && t.percentage < 30)
+    .sort((a, b) => a.percentage - b.percentage)
+    .map(t => t.name);
+  return [...new Set([...input.weakTopics.map(t => t.topic), ...lowCoverage])].slice(0, limit);
+}
+
+// One-line reason for a recommendation, for places that show a single string
+export function describeRecommendation(recommendation: Recommendation): string {
+  return recommendation.reasons.length > 0
+    ? recommendation.reasons.map(r => r.label).join("; ")
+    : "Unsolved problem in your allowed difficulties";
+}
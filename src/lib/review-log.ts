@@ -0,0 +1,179 @@
+import type { ObjectId } from "mongodb";
+import type { ReviewAlgorithmName, ReviewCard, ReviewHistoryEntry } from "@/lib/review-scheduler";
+
+/**
+ * Review Log - append-only history of every review attempt
+ *
+ * Cards in COLLECTIONS.REVIEWS hold only the current scheduling state.
+ * Each review also appends one entry to COLLECTIONS.REVIEW_LOGS, which is
+ * never updated in place. Stats, streaks, timelines and FSRS fitting are
+ * computed from this log.
+ */
+
+export type ReviewLogSource = "initial" | "smart-review" | "topic" | "migration" | "backfill";
+
+export interface ReviewLogEntry {
+  _id?: ObjectId;
+  id?: string;
+  userId: string;
+  problemSlug: string;
+  reviewedAt: Date;
+  confidence: number;
+  timeSpent?: number; // minutes
+  notes?: string;
+
+  // Scheduling context
+  algorithm: ReviewAlgorithmName;
+  scheduledInterval: number | null; // days the previous review asked for
+  actualInterval: number | null; // days that actually passed since the previous review
+  nextInterval: number;
+  nextReviewDate: Date;
+
+  source: ReviewLogSource;
+  legacyId?: string; // the legacy review document a "migration" entry came from
+}
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+
+function roundDays(ms: number): number {
+  return Math.round((ms / DAY_MS) * 100) / 100;
+}
+
+/**
+ * Describe one review as a log entry. `previous` is the card as it was
+ * before the review (absent for a problem's first review).
+ */
+export function buildReviewLogEntry(input: {
+  userId: string;
+  problemSlug: string;
+  previous?: Pick<ReviewCard, "interval" | "lastReviewedAt"> | null;
+  next: Pick<ReviewCard, "algorithm" | "interval" | "nextReviewDate">;
+  confidence: number;
+  reviewedAt: Date;
+  source: ReviewLogSource;
+  notes?: string;
+  timeSpent?: number;
+}): ReviewLogEntry {
+  const { previous, next } = input;
+
+  const entry: ReviewLogEntry = {
+    userId: input.userId,
+    problemSlug: input.problemSlug,
+    reviewedAt: input.reviewedAt,
+    confidence: input.confidence,
+    algorithm: next.algorithm,
+    scheduledInterval: previous ? previous.interval : null,
+    actualInterval: previous
+      ? roundDays(input.reviewedAt.getTime() - new Date(previous.lastReviewedAt).getTime())
+      : null,
+    nextInterval: next.interval,
+    nextReviewDate: next.nextReviewDate,
+    source: input.source,
+  };
+
+  if (input.notes) entry.notes = input.notes;
+  if (input.timeSpent !== undefined) entry.timeSpent = input.timeSpent;
+
+  return entry;
+}
+
+/**
+ * Stand-in history for a card reviewed before the log existed: one entry
+ * at its last review, scheduled as the card is now. The gap before it is
+ * unknown, so both intervals are left empty.
+ */
+export function buildBackfillLogEntry(
+  card: Pick<ReviewCard, "userId" | "problemSlug" | "algorithm" | "confidence" | "interval" | "lastReviewedAt" | "nextReviewDate">
+): ReviewLogEntry {
+  return {
+    userId: card.userId,
+    problemSlug: card.problemSlug,
+    reviewedAt: new Date(card.lastReviewedAt),
+    confidence: card.confidence,
+    algorithm: card.algorithm,
+    scheduledInterval: null,
+    actualInterval: null,
+    nextInterval: card.interval,
+    nextReviewDate: new Date(card.nextReviewDate),
+    source: "backfill",
+  };
+}
+
+function dayKey(date: Date): string {
+  return new Date(date).toISOString().split("T")[0];
+}
+
+/**
+ * Consecutive days with at least one review, counting back from today.
+ * Today is allowed to be empty so a streak isn't broken before the user
+ * has had a chance to review.
+ */
+export function computeStreakDays(entries: Pick<ReviewLogEntry, "reviewedAt">[], now: Date = new Date()): number {
+  const reviewDays = new Set(entries.map(e => dayKey(e.reviewedAt)));
+  const today = dayKey(now);
+
+  let streakDays = 0;
+  const checkDate = new Date(now);
+  for (;;) {
+    const key = dayKey(checkDate);
+    if (reviewDays.has(key)) {
+      streakDays++;
+    } else if (key !== today) {
+      break;
+    }
+    checkDate.setDate(checkDate.getDate() - 1);
+  }
+
+  return streakDays;
+}
+
+/**
+ * Reviews and average confidence for each of the last `days` days, oldest first.
+ */
+export function computeDailyProgress(
+  entries: Pick<ReviewLogEntry, "reviewedAt" | "confidence">[],
+  days: number = 7,
+  now: Date = new Date()
+): { date: string; reviewed: number; avgConfidence: number }[] {
+  const buckets = new Map<string, { reviewed: number; total: number }>();
+  for (const entry of entries) {
+    const key = dayKey(entry.reviewedAt);
+    const bucket = buckets.get(key) || { reviewed: 0, total: 0 };
+    bucket.reviewed++;
+    bucket.total += entry.confidence;
+    buckets.set(key, bucket);
+  }
+
+  const progress = [];
+  for (let i = days - 1; i >= 0; i--) {
+    const date = new Date(now);
+    date.setDate(date.getDate() - i);
+    const key = dayKey(date);
+    const bucket = buckets.get(key);
+    progress.push({
+      date: key,
+      reviewed: bucket?.reviewed || 0,
+      avgConfidence: bucket ? Math.round((bucket.total / bucket.reviewed) * 10) / 10 : 0,
+    });
+  }
+
+  return progress;
+}
+
+/**
+ * Split a user's log into chronological per-problem histories for FSRS fitting.
+ */
+export function groupReviewHistories(
+  entries: Pick<ReviewLogEntry, "problemSlug" | "reviewedAt" | "confidence">[]
+): ReviewHistoryEntry[][] {
+  const byProblem = new Map<string, ReviewHistoryEntry[]>();
+  for (const entry of entries) {
+    const history = byProblem.get(entry.problemSlug) || [];
+    history.push({ reviewedAt: new Date(entry.reviewedAt), confidence: entry.confidence });
+    byProblem.set(entry.problemSlug, history);
+  }
+
+  return Array.from(byProblem.values()).map(history =>
+    history.sort((a, b) => a.reviewedAt.getTime() - b.reviewedAt.getTime())
+  );
+}
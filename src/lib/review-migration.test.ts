@@ -0,0 +1,133 @@
+import { beforeEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { COLLECTIONS } from "@/lib/mongodb";
+import { migrateReviews } from "@/lib/review-migration";
+import { MemoryDb } from "@/lib/testing/memory-db";
+
+/**
+ * The one-off review migration against an in-memory database: legacy topic
+ * reviews fold into cards exactly once, also when a run is interrupted.
+ */
+
+const userId = "user-1";
+const DAY_MS = 24 * 60 * 60 * 1000;
+const start = new Date("2025-06-01T09:00:00Z");
+
+let db: MemoryDb;
+
+function legacyReview(day: number, confidence: number) {
+  const reviewedAt = new Date(start.getTime() + day * DAY_MS);
+  return {
+    userId,
+    questionId: "q-two-sum",
+    topicId: "arrays",
+    questionTitle: "1. Two Sum",
+    difficulty: "easy",
+    confidence,
+    reviewedAt,
+    nextReviewDate: new Date(reviewedAt.getTime() + 6 * DAY_MS),
+    interval: 6,
+    easeFactor: 2.5,
+  };
+}
+
+const reviews = () => db.collection(COLLECTIONS.REVIEWS);
+const logs = () => db.collection(COLLECTIONS.REVIEW_LOGS);
+
+beforeEach(async () => {
+  db = new MemoryDb();
+  await reviews().insertMany([legacyReview(0, 3), legacyReview(6, 4), legacyReview(12, 5)]);
+});
+
+describe("review migration: legacy topic reviews", () => {
+  it("folds a question's reviews into one card with a log entry each", async () => {
+    const result = await migrateReviews(db.asDb(), userId);
+
+    assert.deepEqual(result, { migrated: 3, merged: 0, backfilled: 0 });
+    const cards = await reviews().find({ userId }).toArray();
+    assert.equal(cards.length, 1);
+    assert.equal(cards[0].problemSlug, "two-sum");
+    assert.equal(cards[0].totalReviews, 3);
+    assert.deepEqual(cards[0].migratedQuestionIds, ["q-two-sum"]);
+    assert.equal(await logs().countDocuments({ userId, source: "migration" }), 3);
+  });
+
+  it("counts nothing twice when a run stops before deleting the legacy documents", async () => {
+    const deleteMany = reviews().deleteMany.bind(reviews());
+    reviews().deleteMany = async () => {
+      throw new Error("connection reset");
+    };
+    await assert.rejects(migrateReviews(db.asDb(), userId), /connection reset/);
+    reviews().deleteMany = deleteMany;
+
+    await migrateReviews(db.asDb(), userId);
+
+    const cards = await reviews().find({ userId }).toArray();
+    assert.equal(cards.length, 1);
+    assert.equal(cards[0].totalReviews, 3);
+    assert.equal(await logs().countDocuments({ userId }), 3);
+  });
+
+  it("merges into the card the question already has", async () => {
+    await reviews().insertOne({
+      userId,
+      problemSlug: "two-sum",
+      problemTitle: "Two Sum",
+      difficulty: "Easy",
+      topics: ["Array"],
+      algorithm: "sm2",
+      confidence: 4,
+      easeFactor: 2.5,
+      interval: 6,
+      repetitions: 2,
+      createdAt: start,
+      lastReviewedAt: new Date(start.getTime() + 20 * DAY_MS),
+      nextReviewDate: new Date(start.getTime() + 26 * DAY_MS),
+      totalReviews: 2,
+      averageConfidence: 4,
+      masteryLevel: "practicing",
+    });
+
+    const result = await migrateReviews(db.asDb(), userId);
+
+    assert.equal(result.merged, 1);
+    const [card] = await reviews().find({ userId }).toArray();
+    assert.equal(card.totalReviews, 5);
+    assert.deepEqual(card.topics, ["Array"]);
+  });
+});
+
+describe("review migration: once per user", () => {
+  it("only reads the settings flags after the first run", async () => {
+    await migrateReviews(db.asDb(), userId);
+    const settings = await db.collection(COLLECTIONS.REVIEW_SETTINGS).findOne({ userId });
+    assert.ok(settings?.legacyReviewsMigratedAt instanceof Date);
+    assert.ok(settings?.reviewLogBackfilledAt instanceof Date);
+
+    await reviews().insertOne(legacyReview(30, 2));
+    const result = await migrateReviews(db.asDb(), userId);
+
+    assert.deepEqual(result, { migrated: 0, merged: 0, backfilled: 0 });
+    assert.equal(await reviews().countDocuments({ userId, questionId: "q-two-sum", problemSlug: { $exists: false } }), 1);
+  });
+
+  it("backfills a log entry for cards reviewed before the log existed", async () => {
+    await reviews().deleteMany({});
+    await reviews().insertOne({
+      userId,
+      problemSlug: "valid-parentheses",
+      algorithm: "sm2",
+      confidence: 3,
+      interval: 1,
+      lastReviewedAt: start,
+      nextReviewDate: new Date(start.getTime() + DAY_MS),
+    });
+
+    const first = await migrateReviews(db.asDb(), userId);
+    const second = await migrateReviews(db.asDb(), userId);
+
+    assert.equal(first.backfilled, 1);
+    assert.equal(second.backfilled, 0);
+    assert.equal(await logs().countDocuments({ userId, source: "backfill" }), 1);
+  });
+});
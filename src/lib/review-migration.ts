@@ -0,0 +1,152 @@
+import type { Db } from "mongodb";
+import { COLLECTIONS } from "@/lib/mongodb";
+import {
+  foldLegacyQuestionReviews,
+  isLegacyQuestionReview,
+  mergeReviewCards,
+  type LegacyQuestionReview,
+  type ReviewCard,
+} from "@/lib/review-scheduler";
+import { buildBackfillLogEntry, buildReviewLogEntry, type ReviewLogEntry } from "@/lib/review-log";
+
+/**
+ * Review Migration - brings a user's reviews up to the current schema
+ *
+ * Two one-off steps, each marked done on the user's REVIEW_SETTINGS
+ * document so later page loads only read that flag:
+ * 1. Fold legacy per-review topic documents into review cards, with one log
+ *    entry per legacy review (legacyReviewsMigratedAt)
+ * 2. Give cards that predate the review log a stand-in entry
+ *    (reviewLogBackfilledAt)
+ *
+ * The fold can be interrupted and rerun: log entries are upserted by the
+ * legacy document they came from, and a card lists the legacy questions
+ * already folded into it, so nothing is counted twice before the legacy
+ * documents are deleted.
+ */
+
+export interface ReviewMigrationResult {
+  migrated: number; // legacy review documents folded
+  merged: number; // of those questions, how many joined an existing card
+  backfilled: number;
+}
+
+// One log entry per legacy review, oldest first
+function legacyLogEntries(userId: string, problemSlug: string, group: LegacyQuestionReview[]): ReviewLogEntry[] {
+  return [...group]
+    .sort((a, b) => new Date(a.reviewedAt).getTime() - new Date(b.reviewedAt).getTime())
+    .map((legacy, i, sortedGroup) => {
+      const previous = i > 0 ? sortedGroup[i - 1] : null;
+      return {
+        ...buildReviewLogEntry({
+          userId,
+          problemSlug,
+          previous: previous && { interval: previous.interval, lastReviewedAt: previous.reviewedAt },
+          next: { algorithm: "sm2", interval: legacy.interval, nextReviewDate: legacy.nextReviewDate },
+          confidence: legacy.confidence,
+          reviewedAt: new Date(legacy.reviewedAt),
+          source: "migration",
+        }),
+        legacyId: String(legacy._id),
+      };
+    });
+}
+
+async function foldLegacyReviews(db: Db, userId: string): Promise<{ migrated: number; merged: number }> {
+  const reviews = db.collection(COLLECTIONS.REVIEWS);
+
+  // Cards written before the scheduler existed have no algorithm field
+  await reviews.updateMany(
+    { userId, problemSlug: { $exists: true }, algorithm: { $exists: false } },
+    { $set: { algorithm: "sm2" } }
+  );
+
+  const legacyDocs = await reviews
+    .find({ userId, questionId: { $exists: true }, problemSlug: { $exists: false } })
+    .toArray();
+
+  const byQuestion = new Map<string, LegacyQuestionReview[]>();
+  for (const doc of legacyDocs) {
+    if (!isLegacyQuestionReview(doc)) continue;
+    const group = byQuestion.get(doc.questionId) || [];
+    group.push(doc as unknown as LegacyQuestionReview);
+    byQuestion.set(doc.questionId, group);
+  }
+
+  let migrated = 0;
+  let merged = 0;
+
+  for (const [questionId, group] of byQuestion) {
+    let card = foldLegacyQuestionReviews(group);
+
+    await db.collection(COLLECTIONS.REVIEW_LOGS).bulkWrite(
+      legacyLogEntries(userId, card.problemSlug, group).map(entry => ({
+        updateOne: { filter: { userId, legacyId: entry.legacyId }, update: { $setOnInsert: entry }, upsert: true },
+      }))
+    );
+
+    const existing = (await reviews.findOne({ userId, problemSlug: card.problemSlug })) as unknown as ReviewCard | null;
+    const folded = existing?.migratedQuestionIds ?? [];
+    if (!folded.includes(questionId)) {
+      if (existing) {
+        card = mergeReviewCards(existing, card);
+        merged++;
+      }
+
+      const { _id, ...fields } = card;
+      await reviews.updateOne(
+        { userId, problemSlug: card.problemSlug },
+        { $set: { ...fields, migratedQuestionIds: [...folded, questionId] } },
+        { upsert: true }
+      );
+    }
+
+    await reviews.deleteMany({ _id: { $in: group.map(r => r._id!) } });
+    migrated += group.length;
+  }
+
+  return { migrated, merged };
+}
+
+// Give every card without log entries one from its current state
+async function backfillReviewLog(db: Db, userId: string): Promise<number> {
+  const logged = new Set(await db.collection(COLLECTIONS.REVIEW_LOGS).distinct("problemSlug", { userId }));
+  const cards = await db.collection(COLLECTIONS.REVIEWS)
+    .find({ userId, problemSlug: { $exists: true } })
+    .toArray() as unknown as ReviewCard[];
+  const entries = cards
+    .filter(card => !logged.has(card.problemSlug) && card.lastReviewedAt && card.nextReviewDate)
+    .map(buildBackfillLogEntry);
+
+  if (entries.length > 0) {
+    await db.collection(COLLECTIONS.REVIEW_LOGS).insertMany(entries);
+  }
+  return entries.length;
+}
+
+// Run whichever migration steps haven't completed for `userId` yet
+export async function migrateReviews(db: Db, userId: string, now: Date = new Date()): Promise<ReviewMigrationResult> {
+  const settingsCollection = db.collection(COLLECTIONS.REVIEW_SETTINGS);
+  const settings = await settingsCollection.findOne({ userId });
+  const result: ReviewMigrationResult = { migrated: 0, merged: 0, backfilled: 0 };
+
+  if (!settings?.legacyReviewsMigratedAt) {
+    Object.assign(result, await foldLegacyReviews(db, userId));
+    await settingsCollection.updateOne(
+      { userId },
+      { $set: { userId, legacyReviewsMigratedAt: now } },
+      { upsert: true }
+    );
+  }
+
+  if (!settings?.reviewLogBackfilledAt) {
+    result.backfilled = await backfillReviewLog(db, userId);
+    await settingsCollection.updateOne(
+      { userId },
+      { $set: { userId, reviewLogBackfilledAt: now } },
+      { upsert: true }
+    );
+  }
+
+  return result;
+}
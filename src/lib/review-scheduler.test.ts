@@ -0,0 +1,154 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  DEFAULT_FSRS_WEIGHTS,
+  MIN_REVIEWS_FOR_FITTING,
+  applyReview,
+  createReviewCard,
+  fitFsrsWeights,
+  fsrsStep,
+  type ReviewCard,
+  type ReviewHistoryEntry,
+} from "@/lib/review-scheduler";
+
+/**
+ * The FSRS step, switching cards between SM-2 and FSRS, and fitting FSRS
+ * weights to a review history.
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const weights = [...DEFAULT_FSRS_WEIGHTS];
+const start = new Date("2026-01-05T09:00:00Z");
+const daysAfter = (date: Date, days: number) => new Date(date.getTime() + days * DAY_MS);
+
+function sm2Card(overrides: Partial<ReviewCard> = {}): ReviewCard {
+  return {
+    userId: "user-1",
+    problemSlug: "two-sum",
+    problemTitle: "Two Sum",
+    difficulty: "Easy",
+    topics: ["Array"],
+    algorithm: "sm2",
+    confidence: 4,
+    easeFactor: 2.5,
+    interval: 30,
+    repetitions: 3,
+    createdAt: start,
+    lastReviewedAt: start,
+    nextReviewDate: daysAfter(start, 30),
+    totalReviews: 4,
+    averageConfidence: 4,
+    masteryLevel: "practicing",
+    ...overrides,
+  };
+}
+
+describe("review scheduler: FSRS step", () => {
+  it("starts a never-reviewed card from the first-rating weights", () => {
+    const step = fsrsStep(weights, { easeFactor: 2.5, interval: 1, repetitions: 0 }, 3, start);
+
+    assert.equal(step.stability, weights[2]);
+    assert.equal(step.retrievability, 1);
+  });
+
+  it("seeds an SM-2 card's stability from its interval", () => {
+    const card = sm2Card();
+    const step = fsrsStep(weights, card, 3, daysAfter(start, card.interval));
+
+    // Reviewed exactly when the seeded stability says recall has dropped to 90%
+    assert.ok(Math.abs(step.retrievability - 0.9) < 1e-9);
+    assert.ok(step.stability > card.interval);
+  });
+
+  it("doesn't treat an SM-2 card reset by a lapse as new", () => {
+    const card = sm2Card({ repetitions: 0, interval: 15 });
+    const step = fsrsStep(weights, card, 3, daysAfter(start, 15));
+
+    assert.ok(step.retrievability < 1);
+    assert.ok(step.stability > 15, `expected more than the 15-day interval, got ${step.stability}`);
+  });
+
+  it("shortens stability after a lapse", () => {
+    const card = sm2Card({ algorithm: "fsrs", stability: 40, memoryDifficulty: 5 });
+    const step = fsrsStep(weights, card, 1, daysAfter(start, 40));
+
+    assert.ok(step.stability < 40);
+    assert.ok(step.memoryDifficulty > 5);
+  });
+});
+
+describe("review scheduler: switching algorithms", () => {
+  it("moves an SM-2 card to FSRS on its next review", () => {
+    const card = sm2Card();
+    const update = applyReview(card, 4, daysAfter(start, 30), "fsrs");
+
+    assert.equal(update.algorithm, "fsrs");
+    assert.equal(update.easeFactor, card.easeFactor);
+    assert.equal(update.repetitions, 4);
+    assert.ok(update.stability! > 30);
+    assert.ok(update.interval! > 30);
+  });
+
+  it("moves an FSRS card back to SM-2 without a reset", () => {
+    const card = sm2Card({ algorithm: "fsrs", interval: 45, stability: 45, memoryDifficulty: 4 });
+    const update = applyReview(card, 4, daysAfter(start, 45), "sm2");
+
+    assert.equal(update.algorithm, "sm2");
+    assert.equal(update.repetitions, 4);
+    assert.equal(update.interval, Math.round(45 * update.easeFactor!));
+    assert.equal(update.stability, undefined);
+  });
+
+  it("creates FSRS cards with a first-rating memory state", () => {
+    const card = createReviewCard(
+      { userId: "user-1", problemSlug: "two-sum", problemTitle: "Two Sum", difficulty: "Easy", topics: [] },
+      5,
+      "fsrs",
+      start
+    );
+
+    assert.equal(card.algorithm, "fsrs");
+    assert.equal(card.stability, weights[3]);
+    assert.equal(card.repetitions, 0);
+  });
+});
+
+describe("review scheduler: fitting FSRS weights", () => {
+  // Cards rated Good, then recalled after 3 and 9 days; every third one forgotten after 30
+  function histories(cards: number): ReviewHistoryEntry[][] {
+    return Array.from({ length: cards }, (_, i) => {
+      const first = daysAfter(start, i);
+      return [
+        { reviewedAt: first, confidence: 4 },
+        { reviewedAt: daysAfter(first, 3), confidence: 4 },
+        { reviewedAt: daysAfter(first, 12), confidence: 5 },
+        { reviewedAt: daysAfter(first, 42), confidence: i % 3 === 0 ? 1 : 4 },
+      ];
+    });
+  }
+
+  it("keeps the defaults below the minimum history", () => {
+    const fitted = fitFsrsWeights(histories(5));
+
+    assert.ok(fitted.reviewCount < MIN_REVIEWS_FOR_FITTING);
+    assert.deepEqual(fitted.weights, weights);
+  });
+
+  it("fits initial stability and doesn't do worse than the defaults", () => {
+    const sample = histories(20);
+    const defaults = fitFsrsWeights(sample, { iterations: 0 });
+    const fitted = fitFsrsWeights(sample);
+
+    assert.equal(fitted.reviewCount, 80);
+    assert.equal(fitted.weights.length, weights.length);
+    assert.equal(fitted.weights[2], 3); // median days from a Good first rating to the next recall
+    assert.ok(fitted.loss <= defaults.loss);
+  });
+
+  it("orders each history by review date", () => {
+    const sample = histories(20);
+    const shuffled = sample.map(history => [...history].reverse());
+
+    assert.deepEqual(fitFsrsWeights(shuffled).weights, fitFsrsWeights(sample).weights);
+  });
+});
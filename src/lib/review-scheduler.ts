@@ -0,0 +1,609 @@
+import type { ObjectId } from "mongodb";
+
+/**
+ * Review Scheduler - single spaced-repetition engine for every review path
+ *
+ * Features:
+ * - Pluggable scheduling algorithms (SM-2 by default, FSRS per user)
+ * - One review-card schema shared by the Smart Review page and topic questions
+ * - Folding of legacy review documents into cards
+ *
+ * Cards are stored one per (userId, problemSlug) in COLLECTIONS.REVIEWS.
+ */
+
+export type ReviewAlgorithmName = "sm2" | "fsrs";
+
+export type MasteryLevel = "learning" | "practicing" | "mastered" | "forgotten";
+
+export interface ReviewCard {
+  _id?: ObjectId;
+  id?: string;
+  userId: string;
+  problemSlug: string;
+  problemTitle: string;
+  difficulty: "Easy" | "Medium" | "Hard";
+  topics: string[];
+
+  // Origin in a Firestore topic list, when the card was created from one
+  questionId?: string;
+  topicId?: string;
+  migratedQuestionIds?: string[]; // legacy topic questions already folded into this card
+
+  // Scheduling state
+  algorithm: ReviewAlgorithmName;
+  confidence: number; // 1-5 (1=need help, 5=mastered)
+  easeFactor: number; // SM-2 ease factor (1.3-2.5)
+  interval: number; // Days until next review
+  repetitions: number; // Consecutive successful reviews
+  stability?: number; // FSRS: days until recall probability drops to 90%
+  memoryDifficulty?: number; // FSRS: intrinsic difficulty (1-10)
+
+  // Dates
+  createdAt: Date;
+  lastReviewedAt: Date;
+  nextReviewDate: Date;
+
+  // Performance tracking
+  totalReviews: number;
+  averageConfidence: number;
+  masteryLevel: MasteryLevel;
+
+  // Notes and insights
+  notes?: string;
+  mistakePatterns?: string[];
+  keyInsights?: string[];
+}
+
+export type SchedulingState = Pick<
+  ReviewCard,
+  "easeFactor" | "interval" | "repetitions" | "stability" | "memoryDifficulty"
+> & {
+  lastReviewedAt?: Date;
+};
+
+export interface ScheduleResult extends SchedulingState {
+  nextReviewDate: Date;
+}
+
+export interface ReviewAlgorithm {
+  name: ReviewAlgorithmName;
+  initialState(): SchedulingState;
+  schedule(state: SchedulingState, confidence: number, now?: Date): ScheduleResult;
+}
+
+function addDays(date: Date, days: number): Date {
+  const next = new Date(date);
+  next.setDate(next.getDate() + days);
+  return next;
+}
+
+// SM-2 with confidence (1-5) used directly as quality
+export const sm2Algorithm: ReviewAlgorithm = {
+  name: "sm2",
+
+  initialState() {
+    return { easeFactor: 2.5, interval: 1, repetitions: 0 };
+  },
+
+  schedule(state, confidence, now = new Date()) {
+    const quality = confidence;
+
+    const easeFactor = Math.max(
+      1.3,
+      state.easeFactor + 0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02)
+    );
+
+    let interval: number;
+    let repetitions: number;
+
+    if (quality < 3) {
+      // Reset on poor performance
+      interval = 1;
+      repetitions = 0;
+    } else {
+      if (state.repetitions === 0) {
+        interval = 1;
+      } else if (state.repetitions === 1) {
+        interval = 6;
+      } else {
+        interval = Math.round(state.interval * easeFactor);
+      }
+      repetitions = state.repetitions + 1;
+    }
+
+    return { easeFactor, interval, repetitions, nextReviewDate: addDays(now, interval) };
+  },
+};
+
+// ============ FSRS ============
+
+/**
+ * FSRS (Free Spaced Repetition Scheduler, v4.5 formulas). Models each card's
+ * memory as stability (S), difficulty (D) and retrievability R(t, S), and
+ * schedules the next review when R is predicted to fall to the requested
+ * retention.
+ */
+
+export const DEFAULT_FSRS_WEIGHTS: readonly number[] = [
+  0.4872, 1.4003, 3.7145, 13.8206, 5.1618, 1.2298, 0.8975, 0.031, 1.6474,
+  0.1367, 1.0461, 2.1072, 0.0793, 0.3246, 1.587, 0.2272, 2.8755,
+];
+
+export const DEFAULT_REQUEST_RETENTION = 0.9;
+
+const FSRS_DECAY = -0.5;
+const FSRS_FACTOR = 19 / 81;
+const MAX_INTERVAL_DAYS = 36500;
+const DAY_MS = 1000 * 60 * 60 * 24;
+
+export interface FsrsParameters {
+  weights: number[];
+  requestRetention: number;
+}
+
+export type FsrsGrade = 1 | 2 | 3 | 4; // again, hard, good, easy
+
+// Confidence 1-5 onto FSRS grades: only "Need Help" counts as a lapse
+export function confidenceToGrade(confidence: number): FsrsGrade {
+  if (confidence <= 1) return 1;
+  if (confidence <= 3) return 2;
+  if (confidence === 4) return 3;
+  return 4;
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, value));
+}
+
+export function fsrsRetrievability(elapsedDays: number, stability: number): number {
+  return Math.pow(1 + (FSRS_FACTOR * Math.max(0, elapsedDays)) / stability, FSRS_DECAY);
+}
+
+function fsrsInitialStability(w: number[], grade: FsrsGrade): number {
+  return Math.max(0.1, w[grade - 1]);
+}
+
+function fsrsInitialDifficulty(w: number[], grade: FsrsGrade): number {
+  return clamp(w[4] - w[5] * (grade - 3), 1, 10);
+}
+
+function fsrsNextDifficulty(w: number[], difficulty: number, grade: FsrsGrade): number {
+  const next = difficulty - w[6] * (grade - 3);
+  // Mean reversion towards the difficulty of an "easy" first rating
+  return clamp(w[7] * fsrsInitialDifficulty(w, 4) + (1 - w[7]) * next, 1, 10);
+}
+
+function fsrsRecallStability(
+  w: number[],
+  difficulty: number,
+  stability: number,
+  retrievability: number,
+  grade: FsrsGrade
+): number {
+  const hardPenalty = grade === 2 ? w[15] : 1;
+  const easyBonus = grade === 4 ? w[16] : 1;
+  return (
+    stability *
+    (1 +
+      Math.exp(w[8]) *
+        (11 - difficulty) *
+        Math.pow(stability, -w[9]) *
+        (Math.exp(w[10] * (1 - retrievability)) - 1) *
+        hardPenalty *
+        easyBonus)
+  );
+}
+
+function fsrsForgetStability(
+  w: number[],
+  difficulty: number,
+  stability: number,
+  retrievability: number
+): number {
+  const next =
+    w[11] *
+    Math.pow(difficulty, -w[12]) *
+    (Math.pow(stability + 1, w[13]) - 1) *
+    Math.exp(w[14] * (1 - retrievability));
+  return clamp(next, 0.1, stability);
+}
+
+function fsrsInterval(stability: number, requestRetention: number): number {
+  const interval = (stability / FSRS_FACTOR) * (Math.pow(requestRetention, 1 / FSRS_DECAY) - 1);
+  return clamp(Math.round(interval), 1, MAX_INTERVAL_DAYS);
+}
+
+// Seed FSRS memory state for cards that were scheduled by SM-2 until now: the
+// current interval is how long SM-2 expects the card to be remembered
+function fsrsStateFromSm2(state: SchedulingState): { stability: number; difficulty: number } {
+  const stability = Math.max(0.1, state.interval);
+  const difficulty = clamp(11 - ((state.easeFactor - 1.3) / (2.5 - 1.3)) * 9, 1, 10);
+  return { stability, difficulty };
+}
+
+/**
+ * Advance one card's FSRS memory state by a single review. A card is new
+ * when it has never been reviewed; repetitions can't tell, since SM-2 resets
+ * them to 0 on every lapse.
+ */
+export function fsrsStep(
+  w: number[],
+  state: SchedulingState,
+  grade: FsrsGrade,
+  now: Date
+): { stability: number; memoryDifficulty: number; retrievability: number } {
+  if (!state.lastReviewedAt) {
+    return {
+      stability: fsrsInitialStability(w, grade),
+      memoryDifficulty: fsrsInitialDifficulty(w, grade),
+      retrievability: 1,
+    };
+  }
+
+  const seeded =
+    state.stability != null && state.memoryDifficulty != null
+      ? { stability: state.stability, difficulty: state.memoryDifficulty }
+      : fsrsStateFromSm2(state);
+
+  const elapsedDays = (now.getTime() - new Date(state.lastReviewedAt).getTime()) / DAY_MS;
+  const retrievability = fsrsRetrievability(elapsedDays, seeded.stability);
+
+  const stability =
+    grade === 1
+      ? fsrsForgetStability(w, seeded.difficulty, seeded.stability, retrievability)
+      : fsrsRecallStability(w, seeded.difficulty, seeded.stability, retrievability, grade);
+
+  return {
+    stability,
+    memoryDifficulty: fsrsNextDifficulty(w, seeded.difficulty, grade),
+    retrievability,
+  };
+}
+
+export function createFsrsAlgorithm(parameters: Partial<FsrsParameters> = {}): ReviewAlgorithm {
+  const weights = parameters.weights ?? [...DEFAULT_FSRS_WEIGHTS];
+  const requestRetention = parameters.requestRetention ?? DEFAULT_REQUEST_RETENTION;
+
+  return {
+    name: "fsrs",
+
+    initialState() {
+      return { easeFactor: 2.5, interval: 1, repetitions: 0 };
+    },
+
+    schedule(state, confidence, now = new Date()) {
+      const grade = confidenceToGrade(confidence);
+      const { stability, memoryDifficulty } = fsrsStep(weights, state, grade, now);
+      const interval = fsrsInterval(stability, requestRetention);
+
+      return {
+        // easeFactor is kept so a user can switch back to SM-2 without a reset
+        easeFactor: state.easeFactor,
+        interval,
+        repetitions: grade === 1 ? 0 : state.repetitions + 1,
+        stability,
+        memoryDifficulty,
+        nextReviewDate: addDays(now, interval),
+      };
+    },
+  };
+}
+
+/**
+ * Predicted probability of recalling a card right now. SM-2 cards are
+ * approximated by treating their interval as FSRS stability.
+ */
+export function getRetrievability(card: ReviewCard, now: Date = new Date()): number {
+  const elapsedDays = (now.getTime() - new Date(card.lastReviewedAt).getTime()) / DAY_MS;
+  const stability = card.stability ?? Math.max(0.1, card.interval);
+  return fsrsRetrievability(elapsedDays, stability);
+}
+
+// ============ FSRS parameter fitting ============
+
+export interface ReviewHistoryEntry {
+  reviewedAt: Date;
+  confidence: number;
+}
+
+export const MIN_REVIEWS_FOR_FITTING = 50;
+
+// Weights that shape recall prediction; initial-stability weights are fitted separately
+const FITTED_WEIGHT_INDICES = [4, 5, 6, 7, 8, 9, 10, 11, 12, 13, 14, 15, 16];
+
+// Mean binary cross-entropy of predicted retrievability against actual recall
+function fsrsLoss(weights: number[], histories: ReviewHistoryEntry[][]): number {
+  let loss = 0;
+  let count = 0;
+
+  for (const history of histories) {
+    let state: SchedulingState = { easeFactor: 2.5, interval: 1, repetitions: 0 };
+
+    for (const entry of history) {
+      const now = new Date(entry.reviewedAt);
+      const grade = confidenceToGrade(entry.confidence);
+      const step = fsrsStep(weights, state, grade, now);
+
+      if (state.lastReviewedAt) {
+        const p = clamp(step.retrievability, 1e-4, 1 - 1e-4);
+        const recalled = grade > 1 ? 1 : 0;
+        loss -= recalled * Math.log(p) + (1 - recalled) * Math.log(1 - p);
+        count++;
+      }
+
+      state = {
+        easeFactor: 2.5,
+        interval: 1,
+        repetitions: grade === 1 ? 0 : state.repetitions + 1,
+        stability: step.stability,
+        memoryDifficulty: step.memoryDifficulty,
+        lastReviewedAt: now,
+      };
+    }
+  }
+
+  return count > 0 ? loss / count : 0;
+}
+
+/**
+ * Fit FSRS weights to a user's own review history.
+ *
+ * `histories` holds one chronologically ordered list per card. Initial
+ * stabilities come from the average first-successful-interval per grade;
+ * the remaining weights are tuned by coordinate descent on log loss.
+ * Falls back to the defaults when there is too little history.
+ */
+export function fitFsrsWeights(
+  histories: ReviewHistoryEntry[][],
+  options: { iterations?: number; initialWeights?: number[] } = {}
+): { weights: number[]; loss: number; reviewCount: number } {
+  const sorted = histories
+    .map(history =>
+      [...history].sort((a, b) => new Date(a.reviewedAt).getTime() - new Date(b.reviewedAt).getTime())
+    )
+    .filter(history => history.length > 0);
+  const reviewCount = sorted.reduce((sum, history) => sum + history.length, 0);
+  const weights = [...(options.initialWeights ?? DEFAULT_FSRS_WEIGHTS)];
+
+  if (reviewCount < MIN_REVIEWS_FOR_FITTING) {
+    return { weights, loss: fsrsLoss(weights, sorted), reviewCount };
+  }
+
+  // Initial stability per first grade: median days until the next review still recalled
+  const firstIntervals = new Map<FsrsGrade, number[]>();
+  for (const history of sorted) {
+    if (history.length < 2 || confidenceToGrade(history[1].confidence) === 1) continue;
+    const grade = confidenceToGrade(history[0].confidence);
+    const days =
+      (new Date(history[1].reviewedAt).getTime() - new Date(history[0].reviewedAt).getTime()) / DAY_MS;
+    firstIntervals.set(grade, [...(firstIntervals.get(grade) || []), days]);
+  }
+  for (const [grade, intervals] of firstIntervals) {
+    if (intervals.length < 5) continue;
+    const ordered = [...intervals].sort((a, b) => a - b);
+    weights[grade - 1] = clamp(ordered[Math.floor(ordered.length / 2)], 0.1, 100);
+  }
+
+  let loss = fsrsLoss(weights, sorted);
+  let step = 0.1;
+  const iterations = options.iterations ?? 8;
+
+  for (let i = 0; i < iterations; i++) {
+    for (const index of FITTED_WEIGHT_INDICES) {
+      for (const direction of [1, -1]) {
+        const candidate = [...weights];
+        candidate[index] = Math.max(0.001, weights[index] * (1 + direction * step));
+        const candidateLoss = fsrsLoss(candidate, sorted);
+        if (candidateLoss < loss) {
+          weights[index] = candidate[index];
+          loss = candidateLoss;
+          break;
+        }
+      }
+    }
+    step *= 0.7;
+  }
+
+  return { weights, loss, reviewCount };
+}
+
+// ============ Registry ============
+
+export const DEFAULT_REVIEW_ALGORITHM: ReviewAlgorithmName = "sm2";
+
+export const REVIEW_ALGORITHM_NAMES: readonly ReviewAlgorithmName[] = ["sm2", "fsrs"];
+
+export function getReviewAlgorithm(
+  name?: string,
+  fsrsParameters?: Partial<FsrsParameters>
+): ReviewAlgorithm {
+  if (name === "fsrs") return createFsrsAlgorithm(fsrsParameters);
+  return sm2Algorithm;
+}
+
+export function deriveMasteryLevel(
+  confidence: number,
+  averageConfidence: number,
+  totalReviews: number
+): MasteryLevel {
+  if (averageConfidence >= 4.5 && totalReviews >= 3) return "mastered";
+  if (averageConfidence >= 3.5) return "practicing";
+  if (confidence < 2 && totalReviews > 1) return "forgotten";
+  return "learning";
+}
+
+/**
+ * Build a fresh card for a problem entering the review system.
+ */
+export function createReviewCard(
+  input: Pick<ReviewCard, "userId" | "problemSlug" | "problemTitle" | "difficulty" | "topics"> &
+    Partial<Pick<ReviewCard, "questionId" | "topicId">>,
+  initialConfidence: number,
+  algorithmName: string = DEFAULT_REVIEW_ALGORITHM,
+  now: Date = new Date(),
+  fsrsParameters?: Partial<FsrsParameters>
+): ReviewCard {
+  const algorithm = getReviewAlgorithm(algorithmName, fsrsParameters);
+  const scheduled = algorithm.schedule(algorithm.initialState(), initialConfidence, now);
+
+  return {
+    ...input,
+    algorithm: algorithm.name,
+    confidence: initialConfidence,
+    easeFactor: scheduled.easeFactor,
+    interval: scheduled.interval,
+    repetitions: 0,
+    stability: scheduled.stability,
+    memoryDifficulty: scheduled.memoryDifficulty,
+    createdAt: now,
+    lastReviewedAt: now,
+    nextReviewDate: scheduled.nextReviewDate,
+    totalReviews: 1,
+    averageConfidence: initialConfidence,
+    masteryLevel: initialConfidence >= 4 ? "practicing" : "learning",
+  };
+}
+
+/**
+ * Apply one review to a card and return the fields that changed. The card
+ * moves to `algorithmName` when given, so a user's algorithm choice takes
+ * effect on each card's next review.
+ */
+export function applyReview(
+  card: ReviewCard,
+  confidence: number,
+  now: Date = new Date(),
+  algorithmName: string = card.algorithm,
+  fsrsParameters?: Partial<FsrsParameters>
+): Partial<ReviewCard> {
+  const algorithm = getReviewAlgorithm(algorithmName, fsrsParameters);
+  const scheduled = algorithm.schedule(card, confidence, now);
+
+  const totalReviews = card.totalReviews + 1;
+  const averageConfidence = (card.averageConfidence * card.totalReviews + confidence) / totalReviews;
+
+  return {
+    algorithm: algorithm.name,
+    confidence,
+    easeFactor: scheduled.easeFactor,
+    interval: scheduled.interval,
+    repetitions: scheduled.repetitions,
+    stability: scheduled.stability,
+    memoryDifficulty: scheduled.memoryDifficulty,
+    lastReviewedAt: now,
+    nextReviewDate: scheduled.nextReviewDate,
+    totalReviews,
+    averageConfidence,
+    masteryLevel: deriveMasteryLevel(confidence, averageConfidence, card.totalReviews),
+  };
+}
+
+// ============ Legacy document folding ============
+
+/**
+ * Pre-scheduler topic review: one document inserted per review,
+ * keyed by Firestore questionId/topicId.
+ */
+export interface LegacyQuestionReview {
+  _id?: ObjectId;
+  userId: string;
+  questionId: string;
+  topicId: string;
+  questionTitle: string;
+  difficulty: string;
+  confidence: number;
+  reviewedAt: Date;
+  nextReviewDate: Date;
+  interval: number;
+  easeFactor: number;
+}
+
+export function isLegacyQuestionReview(doc: Record<string, any>): boolean {
+  return !doc.problemSlug && typeof doc.questionId === "string";
+}
+
+export function slugifyTitle(title: string): string {
+  return title
+    .toLowerCase()
+    .replace(/^\d+\.\s*/, "")
+    .replace(/[^a-z0-9\s-]/g, "")
+    .trim()
+    .replace(/\s+/g, "-")
+    .replace(/-+/g, "-");
+}
+
+function normalizeDifficulty(difficulty: string): ReviewCard["difficulty"] {
+  const value = difficulty?.toLowerCase();
+  if (value === "easy") return "Easy";
+  if (value === "hard") return "Hard";
+  return "Medium";
+}
+
+/**
+ * Collapse every legacy review of one question into a single card.
+ * `reviews` must all share the same userId and questionId.
+ */
+export function foldLegacyQuestionReviews(reviews: LegacyQuestionReview[]): ReviewCard {
+  const sorted = [...reviews].sort(
+    (a, b) => new Date(a.reviewedAt).getTime() - new Date(b.reviewedAt).getTime()
+  );
+  const first = sorted[0];
+  const latest = sorted[sorted.length - 1];
+
+  const totalReviews = sorted.length;
+  const averageConfidence = sorted.reduce((sum, r) => sum + r.confidence, 0) / totalReviews;
+
+  // Successful reviews since the last lapse approximate SM-2 repetitions
+  let repetitions = 0;
+  for (const review of sorted) {
+    repetitions = review.confidence < 3 ? 0 : repetitions + 1;
+  }
+
+  return {
+    userId: latest.userId,
+    problemSlug: slugifyTitle(latest.questionTitle),
+    problemTitle: latest.questionTitle,
+    difficulty: normalizeDifficulty(latest.difficulty),
+    topics: [],
+    questionId: latest.questionId,
+    topicId: latest.topicId,
+    algorithm: DEFAULT_REVIEW_ALGORITHM,
+    confidence: latest.confidence,
+    easeFactor: latest.easeFactor,
+    interval: latest.interval,
+    repetitions,
+    createdAt: new Date(first.reviewedAt),
+    lastReviewedAt: new Date(latest.reviewedAt),
+    nextReviewDate: new Date(latest.nextReviewDate),
+    totalReviews,
+    averageConfidence,
+    masteryLevel: deriveMasteryLevel(latest.confidence, averageConfidence, totalReviews - 1),
+  };
+}
+
+/**
+ * Merge two cards for the same problem. Scheduling comes from whichever
+ * was reviewed most recently; counts and averages are combined.
+ */
+export function mergeReviewCards(a: ReviewCard, b: ReviewCard): ReviewCard {
+  const [older, newer] =
+    new Date(a.lastReviewedAt).getTime() <= new Date(b.lastReviewedAt).getTime() ? [a, b] : [b, a];
+
+  const totalReviews = older.totalReviews + newer.totalReviews;
+  const averageConfidence =
+    (older.averageConfidence * older.totalReviews + newer.averageConfidence * newer.totalReviews) /
+    totalReviews;
+
+  return {
+    ...older,
+    ...newer,
+    _id: a._id ?? b._id,
+    topics: Array.from(new Set([...older.topics, ...newer.topics])),
+    questionId: newer.questionId ?? older.questionId,
+    topicId: newer.topicId ?? older.topicId,
+    createdAt: new Date(Math.min(new Date(a.createdAt).getTime(), new Date(b.createdAt).getTime())),
+    totalReviews,
+    averageConfidence,
+    masteryLevel: deriveMasteryLevel(newer.confidence, averageConfidence, totalReviews - 1),
+  };
+}
@@ -0,0 +1,105 @@
+import { cache } from "react";
+import { cookies, headers } from "next/headers";
+import { getAdminAuth } from "@/lib/firebase-admin";
+
+/**
+ * Session layer - server-side identity for actions and API routes
+ *
+ * The client keeps the Firebase ID token in the `__session` cookie (see
+ * /api/auth/session). Every server action and API route derives the user
+ * from that token instead of trusting a userId sent by the client.
+ */
+
+export const SESSION_COOKIE = "__session";
+
+export interface SessionUser {
+  uid: string;
+  email?: string;
+  emailVerified?: boolean; // the token's email_verified claim
+}
+
+export class AuthError extends Error {
+  constructor(
+    message: string,
+    public readonly status: 401 | 403 = 401
+  ) {
+    super(message);
+    this.name = "AuthError";
+  }
+}
+
+export async function verifyIdToken(token: string): Promise<SessionUser | null> {
+  try {
+    const decoded = await getAdminAuth().verifyIdToken(token);
+    return { uid: decoded.uid, email: decoded.email, emailVerified: decoded.email_verified === true };
+  } catch (error) {
+    console.warn("Rejected Firebase ID token:", error instanceof Error ? error.message : error);
+    return null;
+  }
+}
+
+function bearerToken(authorization: string | null): string | null {
+  const match = authorization?.match(/^Bearer\s+(.+)$/i);
+  return match ? match[1] : null;
+}
+
+/**
+ * The signed-in user for the current request, from the Authorization
+ * header or the session cookie. Memoized per request.
+ */
+export const getSessionUser = cache(async (): Promise<SessionUser | null> => {
+  const headerStore = await headers();
+  const cookieStore = await cookies();
+
+  const token = bearerToken(headerStore.get("authorization")) || cookieStore.get(SESSION_COOKIE)?.value;
+  if (!token) return null;
+
+  return verifyIdToken(token);
+});
+
+/**
+ * Ensure the request is authenticated as `userId`. Throws AuthError when
+ * there is no valid session or the session belongs to someone else.
+ */
+export async function requireUser(userId: string): Promise<SessionUser> {
+  const user = await getSessionUser();
+  if (!user) {
+    throw new AuthError("Not authenticated");
+  }
+  if (user.uid !== userId) {
+    throw new AuthError("Not allowed to access another user's data", 403);
+  }
+  return user;
+}
+
+/**
+ * Ensure the request is authenticated, returning the session user.
+ */
+export async function requireSession(): Promise<SessionUser> {
+  const user = await getSessionUser();
+  if (!user) {
+    throw new AuthError("Not authenticated");
+  }
+  return user;
+}
+
+// Admins are listed by email in ADMIN_EMAILS (comma-separated); only verified emails count
+export function isAdmin(user: SessionUser): boolean {
+  const admins = (process.env.ADMIN_EMAILS || "")
+    .split(",")
+    .map(email => email.trim().toLowerCase())
+    .filter(Boolean);
+  return user.emailVerified === true && !!user.email && admins.includes(user.email.toLowerCase());
+}
+
+/**
+ * Ensure the request comes from an admin, for jobs that touch every user's
+ * data or the shared catalog. Throws AuthError otherwise.
+ */
+export async function requireAdmin(): Promise<SessionUser> {
+  const user = await requireSession();
+  if (!isAdmin(user)) {
+    throw new AuthError("Admin access required", 403);
+  }
+  return user;
+}
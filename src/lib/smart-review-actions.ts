@@ -1,57 +1,59 @@
 "use server";
 
 import { getDatabase, COLLECTIONS } from "@/lib/mongodb";
+import { requireUser } from "@/lib/session";
+import { invalidateUserAICache } from "@/lib/ai-cache";
 import { getSolvedProblems } from "@/lib/progress-actions";
-import { ObjectId } from "mongodb";
+import {
+  applyReview,
+  createReviewCard,
+  DEFAULT_REQUEST_RETENTION,
+  DEFAULT_REVIEW_ALGORITHM,
+  fitFsrsWeights,
+  MIN_REVIEWS_FOR_FITTING,
+  REVIEW_ALGORITHM_NAMES,
+  slugifyTitle,
+  type FsrsParameters,
+  type ReviewAlgorithmName,
+  type ReviewCard,
+} from "@/lib/review-scheduler";
+import {
+  buildReviewLogEntry,
+  computeDailyProgress,
+  computeStreakDays,
+  groupReviewHistories,
+  type ReviewLogEntry,
+  type ReviewLogSource,
+} from "@/lib/review-log";
+import { migrateReviews } from "@/lib/review-migration";
 
 /**
  * Smart Review System - Spaced Repetition for LeetCode Problems
  * 
  * Features:
- * - SM-2 Spaced Repetition Algorithm
+ * - Spaced repetition via the shared review scheduler (SM-2 or FSRS, per user)
  * - Adaptive difficulty adjustment
- * - Performance tracking
+ * - Performance tracking from an append-only review log
  * - Review scheduling
  * - Weakness detection
  * - Integration with solved problems
  * 
  * How it works:
  * 1. User marks confidence level (1-5) after solving/reviewing a problem
- * 2. System calculates next review date using SM-2 algorithm
+ * 2. The review scheduler calculates the next review date
  * 3. Problems with low confidence get reviewed more frequently
  * 4. Problems with high confidence get longer intervals
  * 5. System tracks long-term retention and suggests focus areas
  */
 
-export interface SmartReview {
-  _id?: ObjectId;
-  id?: string;
+export type SmartReview = ReviewCard;
+
+export interface ReviewSettings {
   userId: string;
-  problemSlug: string;
-  problemTitle: string;
-  difficulty: "Easy" | "Medium" | "Hard";
-  topics: string[];
-  
-  // Review data
-  confidence: number; // 1-5 (1=need help, 5=mastered)
-  easeFactor: number; // SM-2 ease factor (1.3-2.5)
-  interval: number; // Days until next review
-  repetitions: number; // Number of times reviewed
-  
-  // Dates
-  createdAt: Date;
-  lastReviewedAt: Date;
-  nextReviewDate: Date;
-  
-  // Performance tracking
-  totalReviews: number;
-  averageConfidence: number;
-  masteryLevel: "learning" | "practicing" | "mastered" | "forgotten";
-  
-  // Notes and insights
-  notes?: string;
-  mistakePatterns?: string[]; // Common mistakes
-  keyInsights?: string[]; // Important learnings
+  algorithm: ReviewAlgorithmName;
+  requestRetention: number; // Target recall probability for FSRS (0.7-0.97)
+  fsrsWeights?: number[]; // Fitted from the user's history; defaults otherwise
+  updatedAt?: Date;
 }
 
 export interface ReviewSession {
@@ -72,6 +74,7 @@ export interface ReviewStats {
   learningCount: number;
   forgottenCount: number;
   streakDays: number;
+  totalReviews: number;
   avgConfidence: number;
   weeklyProgress: {
     date: string;
@@ -80,44 +83,107 @@ export interface ReviewStats {
   }[];
 }
 
-// SM-2 Algorithm implementation
-function calculateNextReview(
+async function loadReviewSettings(
+  db: NonNullable<Awaited<ReturnType<typeof getDatabase>>>,
+  userId: string
+): Promise<{ algorithm: ReviewAlgorithmName; fsrsParameters: Partial<FsrsParameters> }> {
+  const settings = await db.collection(COLLECTIONS.REVIEW_SETTINGS).findOne({ userId });
+  return {
+    algorithm: settings?.algorithm || DEFAULT_REVIEW_ALGORITHM,
+    fsrsParameters: {
+      weights: settings?.fsrsWeights || undefined,
+      requestRetention: settings?.requestRetention || DEFAULT_REQUEST_RETENTION
+    }
+  };
+}
+
+// Every review write logs here, so cached AI answers built on the old schedule are dropped here too
+async function appendReviewLog(
+  db: NonNullable<Awaited<ReturnType<typeof getDatabase>>>,
+  card: Pick<SmartReview, "userId" | "problemSlug">,
+  previous: Pick<SmartReview, "interval" | "lastReviewedAt"> | null,
+  next: Pick<SmartReview, "algorithm" | "interval" | "nextReviewDate">,
   confidence: number,
-  currentInterval: number,
-  currentEaseFactor: number,
-  repetitions: number
-): { interval: number; easeFactor: number; nextDate: Date } {
-  let interval = currentInterval;
-  let easeFactor = currentEaseFactor;
-
-  // Map confidence (1-5) to quality (0-5) for SM-2
-  const quality = confidence;
-
-  // Update ease factor
-  easeFactor = Math.max(
-    1.3,
-    easeFactor + 0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02)
-  );
-
-  // Calculate new interval
-  if (quality < 3) {
-    // Reset on poor performance
-    interval = 1;
-  } else {
-    if (repetitions === 0) {
-      interval = 1;
-    } else if (repetitions === 1) {
-      interval = 6;
-    } else {
-      interval = Math.round(interval * easeFactor);
+  reviewedAt: Date,
+  source: ReviewLogSource,
+  notes?: string,
+  timeSpent?: number
+): Promise<void> {
+  const entry = buildReviewLogEntry({
+    userId: card.userId,
+    problemSlug: card.problemSlug,
+    previous,
+    next,
+    confidence,
+    reviewedAt,
+    source,
+    notes,
+    timeSpent
+  });
+  await db.collection(COLLECTIONS.REVIEW_LOGS).insertOne(entry);
+  await invalidateUserAICache(db, card.userId);
+}
+
+// Get a user's scheduling preferences
+export async function getReviewSettings(
+  userId: string
+): Promise<{ success: boolean; settings?: ReviewSettings; error?: string }> {
+  try {
+    await requireUser(userId);
+    const db = await getDatabase();
+    if (!db) {
+      return { success: false, error: "Database not available" };
     }
+
+    const doc = await db.collection(COLLECTIONS.REVIEW_SETTINGS).findOne({ userId });
+
+    const settings: ReviewSettings = {
+      userId,
+      algorithm: doc?.algorithm || DEFAULT_REVIEW_ALGORITHM,
+      requestRetention: doc?.requestRetention || DEFAULT_REQUEST_RETENTION,
+      fsrsWeights: doc?.fsrsWeights,
+      updatedAt: doc?.updatedAt
+    };
+
+    return { success: true, settings };
+  } catch (error) {
+    console.error("Failed to get review settings:", error);
+    return { success: false, error: "Failed to get review settings" };
   }
+}
+
+// Choose the scheduling algorithm; existing cards switch on their next review
+export async function updateReviewSettings(
+  userId: string,
+  updates: { algorithm?: ReviewAlgorithmName; requestRetention?: number }
+): Promise<{ success: boolean; error?: string }> {
+  try {
+    await requireUser(userId);
+    const db = await getDatabase();
+    if (!db) {
+      return { success: false, error: "Database not available" };
+    }
+
+    if (updates.algorithm && !REVIEW_ALGORITHM_NAMES.includes(updates.algorithm)) {
+      return { success: false, error: "Unknown review algorithm" };
+    }
+
+    if (updates.requestRetention !== undefined &&
+        (updates.requestRetention < 0.7 || updates.requestRetention > 0.97)) {
+      return { success: false, error: "Retention must be between 0.7 and 0.97" };
+    }
 
-  // Calculate next review date
-  const nextDate = new Date();
-  nextDate.setDate(nextDate.getDate() + interval);
+    await db.collection(COLLECTIONS.REVIEW_SETTINGS).updateOne(
+      { userId },
+      { $set: { ...updates, userId, updatedAt: new Date() } },
+      { upsert: true }
+    );
 
-  return { interval, easeFactor, nextDate };
+    return { success: true };
+  } catch (error) {
+    console.error("Failed to update review settings:", error);
+    return { success: false, error: "Failed to update review settings" };
+  }
 }
 
 // Add a problem to review system
@@ -130,6 +196,7 @@ export async function addToReviewSystem(
   initialConfidence: number = 3
 ): Promise<{ success: boolean; reviewId?: string; error?: string }> {
   try {
+    await requireUser(userId);
     const db = await getDatabase();
     if (!db) {
       return { success: false, error: "Database not available" };
@@ -145,33 +212,18 @@ export async function addToReviewSystem(
       return { success: false, error: "Problem already in review system" };
     }
 
-    // Calculate initial review schedule
-    const { interval, easeFactor, nextDate } = calculateNextReview(
+    const { algorithm, fsrsParameters } = await loadReviewSettings(db, userId);
+    const now = new Date();
+    const review = createReviewCard(
+      { userId, problemSlug, problemTitle, difficulty, topics },
       initialConfidence,
-      1,
-      2.5,
-      0
+      algorithm,
+      now,
+      fsrsParameters
     );
 
-    const review: SmartReview = {
-      userId,
-      problemSlug,
-      problemTitle,
-      difficulty,
-      topics,
-      confidence: initialConfidence,
-      easeFactor,
-      interval,
-      repetitions: 0,
-      createdAt: new Date(),
-      lastReviewedAt: new Date(),
-      nextReviewDate: nextDate,
-      totalReviews: 1,
-      averageConfidence: initialConfidence,
-      masteryLevel: initialConfidence >= 4 ? "practicing" : "learning"
-    };
-
     const result = await db.collection(COLLECTIONS.REVIEWS).insertOne(review);
+    await appendReviewLog(db, review, null, review, initialConfidence, now, "initial");
     return { success: true, reviewId: result.insertedId.toString() };
   } catch (error) {
     console.error("Failed to add to review system:", error);
@@ -188,6 +240,7 @@ export async function recordReview(
   timeSpent?: number
 ): Promise<{ success: boolean; nextReviewDate?: Date; error?: string }> {
   try {
+    await requireUser(userId);
     const db = await getDatabase();
     if (!db) {
       return { success: false, error: "Database not available" };
@@ -202,58 +255,130 @@ export async function recordReview(
       return { success: false, error: "Problem not found in review system" };
     }
 
-    // Calculate new schedule
-    const { interval, easeFactor, nextDate } = calculateNextReview(
-      confidence,
-      existing.interval,
-      existing.easeFactor,
-      existing.repetitions
+    const { algorithm, fsrsParameters } = await loadReviewSettings(db, userId);
+    const card = existing as unknown as SmartReview;
+    const now = new Date();
+    const scheduled = applyReview(card, confidence, now, algorithm, fsrsParameters);
+    const updateData: Partial<SmartReview> = {
+      ...scheduled,
+      notes
+    };
+
+    await db.collection(COLLECTIONS.REVIEWS).updateOne(
+      { userId, problemSlug },
+      { $set: updateData }
+    );
+    await appendReviewLog(
+      db, card, card, { ...card, ...scheduled }, confidence, now, "smart-review", notes, timeSpent
     );
 
-    // Update mastery level
-    let masteryLevel: SmartReview["masteryLevel"] = "learning";
-    const newAvgConfidence = (existing.averageConfidence * existing.totalReviews + confidence) / (existing.totalReviews + 1);
-    
-    if (newAvgConfidence >= 4.5 && existing.totalReviews >= 3) {
-      masteryLevel = "mastered";
-    } else if (newAvgConfidence >= 3.5) {
-      masteryLevel = "practicing";
-    } else if (confidence < 2 && existing.totalReviews > 1) {
-      masteryLevel = "forgotten";
+    return { success: true, nextReviewDate: updateData.nextReviewDate };
+  } catch (error) {
+    console.error("Failed to record review:", error);
+    return { success: false, error: "Failed to record review" };
+  }
+}
+
+// Record a review from a topic question list. Creates the card on first review.
+export async function recordQuestionReview(
+  userId: string,
+  questionId: string,
+  topicId: string,
+  questionTitle: string,
+  difficulty: string,
+  confidence: number,
+  problemSlug?: string
+): Promise<{ success: boolean; nextReviewDate?: Date; error?: string }> {
+  try {
+    await requireUser(userId);
+    const db = await getDatabase();
+    if (!db) {
+      return { success: false, error: "Database not available" };
     }
 
-    // Update review record
+    const slug = problemSlug || slugifyTitle(questionTitle);
+    const existing = await db.collection(COLLECTIONS.REVIEWS).findOne({
+      userId,
+      problemSlug: slug
+    });
+
+    const { algorithm, fsrsParameters } = await loadReviewSettings(db, userId);
+    const now = new Date();
+
+    if (!existing) {
+      const review = createReviewCard(
+        {
+          userId,
+          problemSlug: slug,
+          problemTitle: questionTitle,
+          difficulty: difficulty as SmartReview["difficulty"],
+          topics: [],
+          questionId,
+          topicId
+        },
+        confidence,
+        algorithm,
+        now,
+        fsrsParameters
+      );
+      await db.collection(COLLECTIONS.REVIEWS).insertOne(review);
+      await appendReviewLog(db, review, null, review, confidence, now, "topic");
+      return { success: true, nextReviewDate: review.nextReviewDate };
+    }
+
+    const card = existing as unknown as SmartReview;
+    const scheduled = applyReview(card, confidence, now, algorithm, fsrsParameters);
     const updateData: Partial<SmartReview> = {
-      confidence,
-      easeFactor,
-      interval,
-      repetitions: existing.repetitions + 1,
-      lastReviewedAt: new Date(),
-      nextReviewDate: nextDate,
-      totalReviews: existing.totalReviews + 1,
-      averageConfidence: newAvgConfidence,
-      masteryLevel,
-      notes
+      ...scheduled,
+      questionId,
+      topicId
     };
 
     await db.collection(COLLECTIONS.REVIEWS).updateOne(
-      { userId, problemSlug },
+      { userId, problemSlug: slug },
       { $set: updateData }
     );
+    await appendReviewLog(db, card, card, { ...card, ...scheduled }, confidence, now, "topic");
 
-    return { success: true, nextReviewDate: nextDate };
+    return { success: true, nextReviewDate: updateData.nextReviewDate };
   } catch (error) {
-    console.error("Failed to record review:", error);
+    console.error("Failed to record question review:", error);
     return { success: false, error: "Failed to record review" };
   }
 }
 
+// Fold legacy per-review topic documents and pre-scheduler cards into review
+// cards, then backfill the review log for cards that predate it; each step
+// runs once per user
+export async function migrateLegacyReviews(
+  userId: string
+): Promise<{ success: boolean; migrated?: number; merged?: number; backfilled?: number; error?: string }> {
+  try {
+    await requireUser(userId);
+    const db = await getDatabase();
+    if (!db) {
+      return { success: false, error: "Database not available" };
+    }
+
+    const { migrated, merged, backfilled } = await migrateReviews(db, userId);
+    if (migrated + backfilled > 0) {
+      await invalidateUserAICache(db, userId);
+    }
+
+    return { success: true, migrated, merged, backfilled };
+  } catch (error) {
+    console.error("Failed to migrate legacy reviews:", error);
+    return { success: false, error: "Failed to migrate legacy reviews" };
+  }
+}
+
 // Get problems due for review
 export async function getDueForReview(
   userId: string,
   limit: number = 20
 ): Promise<{ success: boolean; problems?: SmartReview[]; error?: string }> {
   try {
+    await requireUser(userId);
     const db = await getDatabase();
     if (!db) {
       return { success: false, error: "Database not available" };
@@ -293,6 +418,7 @@ export async function getReviewStats(
   userId: string
 ): Promise<{ success: boolean; stats?: ReviewStats; error?: string }> {
   try {
+    await requireUser(userId);
     const db = await getDatabase();
     if (!db) {
       return { success: false, error: "Database not available" };
@@ -327,63 +453,26 @@ export async function getReviewStats(
       }
     });
 
-    // Calculate average confidence
-    const avgResult = await db.collection(COLLECTIONS.REVIEWS).aggregate([
+    // Average confidence across every logged review
+    const avgResult = await db.collection(COLLECTIONS.REVIEW_LOGS).aggregate([
       { $match: { userId } },
-      { $group: { _id: null, avgConfidence: { $avg: "$averageConfidence" } } }
+      { $group: { _id: null, avgConfidence: { $avg: "$confidence" }, totalReviews: { $sum: 1 } } }
     ]).toArray();
 
     const avgConfidence = avgResult[0]?.avgConfidence || 0;
+    const totalReviews = avgResult[0]?.totalReviews || 0;
 
-    // Calculate streak (days with reviews in the last 30 days)
-    const thirtyDaysAgo = new Date();
-    thirtyDaysAgo.setDate(thirtyDaysAgo.getDate() - 30);
-
-    const recentReviews = await db.collection(COLLECTIONS.REVIEWS).aggregate([
-      {
-        $match: {
-          userId,
-          lastReviewedAt: { $gte: thirtyDaysAgo }
-        }
-      },
-      {
-        $group: {
-          _id: {
-            $dateToString: {
-              format: "%Y-%m-%d",
-              date: "$lastReviewedAt"
-            }
-          },
-          count: { $sum: 1 }
-        }
-      },
-      { $sort: { _id: -1 } }
-    ]).toArray();
+    // Streak and weekly progress come from the review log
+    const ninetyDaysAgo = new Date();
+    ninetyDaysAgo.setDate(ninetyDaysAgo.getDate() - 90);
 
-    // Calculate streak
-    let streakDays = 0;
-    const today = new Date().toISOString().split('T')[0];
-    const reviewDates = new Set(recentReviews.map(r => r._id));
-    
-    for (let i = 0; i < 30; i++) {
-      const checkDate = new Date();
-      checkDate.setDate(checkDate.getDate() - i);
-      const dateStr = checkDate.toISOString().split('T')[0];
-      
-      if (reviewDates.has(dateStr)) {
-        streakDays++;
-      } else if (dateStr !== today) {
-        // Break streak only if it's not today (allow for not reviewing yet today)
-        break;
-      }
-    }
+    const recentLog = await db.collection(COLLECTIONS.REVIEW_LOGS)
+      .find({ userId, reviewedAt: { $gte: ninetyDaysAgo } })
+      .project({ reviewedAt: 1, confidence: 1 })
+      .toArray();
 
-    // Weekly progress
-    const weeklyProgress = recentReviews.slice(0, 7).map(r => ({
-      date: r._id,
-      reviewed: r.count,
-      avgConfidence: 0 // We'd need more complex aggregation for this
-    }));
+    const streakDays = computeStreakDays(recentLog as unknown as ReviewLogEntry[]);
+    const weeklyProgress = computeDailyProgress(recentLog as unknown as ReviewLogEntry[], 7);
 
     const stats: ReviewStats = {
       totalProblems,
@@ -392,6 +481,7 @@ export async function getReviewStats(
       learningCount: masteryBreakdown.learning,
       forgottenCount: masteryBreakdown.forgotten,
       streakDays,
+      totalReviews,
       avgConfidence: Math.round(avgConfidence * 10) / 10,
       weeklyProgress
     };
@@ -403,11 +493,82 @@ export async function getReviewStats(
   }
 }
 
+// Get every logged review of one problem, oldest first
+export async function getProblemTimeline(
+  userId: string,
+  problemSlug: string
+): Promise<{ success: boolean; timeline?: ReviewLogEntry[]; error?: string }> {
+  try {
+    await requireUser(userId);
+    const db = await getDatabase();
+    if (!db) {
+      return { success: false, error: "Database not available" };
+    }
+
+    const entries = await db.collection(COLLECTIONS.REVIEW_LOGS)
+      .find({ userId, problemSlug })
+      .sort({ reviewedAt: 1 })
+      .toArray();
+
+    const timeline = entries.map(e => ({
+      ...e,
+      _id: undefined,
+      id: e._id.toString()
+    })) as unknown as ReviewLogEntry[];
+
+    return { success: true, timeline };
+  } catch (error) {
+    console.error("Failed to get problem timeline:", error);
+    return { success: false, error: "Failed to get problem timeline" };
+  }
+}
+
+// Fit FSRS weights to the user's logged reviews and save them
+export async function fitFsrsParameters(
+  userId: string
+): Promise<{ success: boolean; reviewCount?: number; loss?: number; error?: string }> {
+  try {
+    await requireUser(userId);
+    const db = await getDatabase();
+    if (!db) {
+      return { success: false, error: "Database not available" };
+    }
+
+    const entries = await db.collection(COLLECTIONS.REVIEW_LOGS)
+      .find({ userId })
+      .project({ problemSlug: 1, reviewedAt: 1, confidence: 1 })
+      .toArray();
+
+    if (entries.length < MIN_REVIEWS_FOR_FITTING) {
+      return {
+        success: false,
+        reviewCount: entries.length,
+        error: `At least ${MIN_REVIEWS_FOR_FITTING} logged reviews are needed to fit FSRS`
+      };
+    }
+
+    const histories = groupReviewHistories(entries as unknown as ReviewLogEntry[]);
+    const { weights, loss, reviewCount } = fitFsrsWeights(histories);
+
+    await db.collection(COLLECTIONS.REVIEW_SETTINGS).updateOne(
+      { userId },
+      { $set: { userId, fsrsWeights: weights, fsrsFittedAt: new Date(), updatedAt: new Date() } },
+      { upsert: true }
+    );
+
+    return { success: true, reviewCount, loss: Math.round(loss * 1000) / 1000 };
+  } catch (error) {
+    console.error("Failed to fit FSRS parameters:", error);
+    return { success: false, error: "Failed to fit FSRS parameters" };
+  }
+}
+
 // Get weak topics that need more review
 export async function getWeakTopics(
   userId: string
 ): Promise<{ success: boolean; topics?: { topic: string; avgConfidence: number; count: number }[]; error?: string }> {
   try {
+    await requireUser(userId);
     const db = await getDatabase();
     if (!db) {
       return { success: false, error: "Database not available" };
@@ -446,6 +607,7 @@ export async function importSolvedProblemsToReview(
   userId: string
 ): Promise<{ success: boolean; imported?: number; error?: string }> {
   try {
+    await requireUser(userId);
     const solvedResult = await getSolvedProblems(userId);
     
     if (!solvedResult.success || !solvedResult.problems) {
@@ -482,6 +644,7 @@ export async function getRecommendedForReview(
   limit: number = 10
 ): Promise<{ success: boolean; problems?: any[]; error?: string }> {
   try {
+    await requireUser(userId);
     const db = await getDatabase();
     if (!db) {
       return { success: false, error: "Database not available" };
@@ -1,7 +1,10 @@
 "use server";
 
-import { getDatabase, COLLECTIONS } from "@/lib/mongodb";
+import { getDatabase, COLLECTIONS, NOT_TRASHED, unmodifiedSinceFilter } from "@/lib/mongodb";
+import { requireSession, requireUser } from "@/lib/session";
 import { ObjectId } from "mongodb";
+import { indexSnippet, removeEmbeddings } from "@/lib/embedding-index";
+import type { ReplayOptions } from "@/lib/types";
 
 /**
  * Code Snippets MongoDB Actions
@@ -31,6 +34,8 @@ export interface CodeSnippet {
   updatedAt: Date;
   usageCount: number; // How often it's been copied/used
   rating?: number; // User's rating 1-5
+  deletedAt?: Date | null; // in the trash (see trash.ts)
+  clientId?: string; // outbox entry that created it (offline writes)
 }
 
 export type ProgrammingLanguage = 
@@ -51,17 +56,33 @@ export interface SnippetFilters {
   search?: string;
 }
 
+async function snippetExists(snippetId: string, userId: string): Promise<boolean> {
+  const db = await getDatabase();
+  if (!db) return false;
+  return !!(await db.collection(COLLECTIONS.SNIPPETS).findOne({ _id: new ObjectId(snippetId), userId }, { projection: { _id: 1 } }));
+}
+
 // Create a new code snippet
 export async function createSnippet(
   userId: string,
-  snippet: Omit<CodeSnippet, "_id" | "id" | "userId" | "createdAt" | "updatedAt" | "usageCount">
+  snippet: Omit<CodeSnippet, "_id" | "id" | "userId" | "createdAt" | "updatedAt" | "usageCount" | "clientId">,
+  options: ReplayOptions = {}
 ): Promise<{ success: boolean; id?: string; error?: string }> {
   try {
+    await requireUser(userId);
     const db = await getDatabase();
     if (!db) {
       return { success: false, error: "Database not available" };
     }
 
+    // A replayed offline create may already have been applied
+    if (options.clientId) {
+      const existing = await db.collection(COLLECTIONS.SNIPPETS).findOne({ userId, clientId: options.clientId });
+      if (existing) {
+        return { success: true, id: existing._id.toString() };
+      }
+    }
+
     // Auto-generate tags from code and title
     const autoTags = await generateAutoTags(snippet.title, snippet.code, snippet.language);
     const allTags = [...new Set([...snippet.tags, ...autoTags])];
@@ -74,8 +95,10 @@ export async function createSnippet(
       updatedAt: new Date(),
       usageCount: 0,
     };
+    if (options.clientId) newSnippet.clientId = options.clientId;
 
     const result = await db.collection(COLLECTIONS.SNIPPETS).insertOne(newSnippet);
+    await indexSnippet(db, { ...newSnippet, _id: result.insertedId });
     
     return { success: true, id: result.insertedId.toString() };
   } catch (error) {
@@ -90,13 +113,14 @@ export async function getUserSnippets(
   filters: SnippetFilters = {}
 ): Promise<{ success: boolean; snippets?: CodeSnippet[]; error?: string }> {
   try {
+    await requireUser(userId);
     const db = await getDatabase();
     if (!db) {
       return { success: false, error: "Database not available" };
     }
 
     // Build query
-    const query: any = { userId };
+    const query: any = { userId, ...NOT_TRASHED };
 
     if (filters.language) {
       query.language = filters.language;
@@ -141,9 +165,11 @@ export async function getUserSnippets(
 export async function updateSnippet(
   userId: string,
   snippetId: string,
-  updates: Partial<CodeSnippet>
-): Promise<{ success: boolean; error?: string }> {
+  updates: Partial<CodeSnippet>,
+  options: ReplayOptions = {}
+): Promise<{ success: boolean; conflict?: boolean; error?: string }> {
   try {
+    await requireUser(userId);
     const db = await getDatabase();
     if (!db) {
       return { success: false, error: "Database not available" };
@@ -174,14 +200,20 @@ export async function updateSnippet(
     }
 
     const result = await db.collection(COLLECTIONS.SNIPPETS).updateOne(
-      { _id: new ObjectId(snippetId), userId },
+      { _id: new ObjectId(snippetId), userId, ...unmodifiedSinceFilter(options.ifUnmodifiedSince) },
       { $set: updateData }
     );
 
     if (result.matchedCount === 0) {
+      if (options.ifUnmodifiedSince && await snippetExists(snippetId, userId)) {
+        return { success: false, conflict: true, error: "Snippet was changed on another device" };
+      }
       return { success: false, error: "Snippet not found or not owned by user" };
     }
 
+    const updated = await db.collection(COLLECTIONS.SNIPPETS).findOne({ _id: new ObjectId(snippetId), userId });
+    if (updated) await indexSnippet(db, updated);
+
     return { success: true };
   } catch (error) {
     console.error("Failed to update snippet:", error);
@@ -189,26 +221,42 @@ export async function updateSnippet(
   }
 }
 
-// Delete a snippet
+// Move a snippet to the trash
 export async function deleteSnippet(
   userId: string,
-  snippetId: string
-): Promise<{ success: boolean; error?: string }> {
+  snippetId: string,
+  options: ReplayOptions = {}
+): Promise<{ success: boolean; conflict?: boolean; error?: string }> {
   try {
+    await requireUser(userId);
     const db = await getDatabase();
     if (!db) {
       return { success: false, error: "Database not available" };
     }
 
-    const result = await db.collection(COLLECTIONS.SNIPPETS).deleteOne({
-      _id: new ObjectId(snippetId),
-      userId
-    });
+    const result = await db.collection(COLLECTIONS.SNIPPETS).updateOne(
+      {
+        _id: new ObjectId(snippetId),
+        userId,
+        ...NOT_TRASHED,
+        ...unmodifiedSinceFilter(options.ifUnmodifiedSince)
+      },
+      { $set: { deletedAt: new Date() } }
+    );
 
-    if (result.deletedCount === 0) {
+    if (result.matchedCount === 0) {
+      const current = await db.collection(COLLECTIONS.SNIPPETS)
+        .findOne({ _id: new ObjectId(snippetId), userId }, { projection: { deletedAt: 1 } });
+      if (current?.deletedAt) {
+        return { success: true }; // already in the trash
+      }
+      if (current && options.ifUnmodifiedSince) {
+        return { success: false, conflict: true, error: "Snippet was changed on another device" };
+      }
       return { success: false, error: "Snippet not found or not owned by user" };
     }
 
+    await removeEmbeddings(db, "snippet", [snippetId]);
     return { success: true };
   } catch (error) {
     console.error("Failed to delete snippet:", error);
@@ -216,18 +264,19 @@ export async function deleteSnippet(
   }
 }
 
-// Increment usage count
+// Increment usage count; counts the session user's own snippets and public ones
 export async function incrementSnippetUsage(
   snippetId: string
 ): Promise<{ success: boolean; error?: string }> {
   try {
+    const user = await requireSession();
     const db = await getDatabase();
     if (!db) {
       return { success: false, error: "Database not available" };
     }
 
     await db.collection(COLLECTIONS.SNIPPETS).updateOne(
-      { _id: new ObjectId(snippetId) },
+      { _id: new ObjectId(snippetId), $or: [{ userId: user.uid }, { isPublic: true }] },
       { $inc: { usageCount: 1 } }
     );
 
@@ -249,7 +298,7 @@ export async function getPopularSnippets(
       return { success: false, error: "Database not available" };
     }
 
-    const query: any = { isPublic: true };
+    const query: any = { isPublic: true, ...NOT_TRASHED };
     if (language) {
       query.language = language;
     }
@@ -339,6 +388,7 @@ export async function getSnippetsForProblem(
   problemSlug: string
 ): Promise<{ success: boolean; snippets?: CodeSnippet[]; error?: string }> {
   try {
+    await requireUser(userId);
     const db = await getDatabase();
     if (!db) {
       return { success: false, error: "Database not available" };
@@ -347,6 +397,7 @@ export async function getSnippetsForProblem(
     const snippets = await db.collection(COLLECTIONS.SNIPPETS)
       .find({
         userId,
+        ...NOT_TRASHED,
         relatedProblems: problemSlug
       })
       .sort({ updatedAt: -1 })
@@ -371,6 +422,7 @@ export async function searchSnippets(
   filters: SnippetFilters = {}
 ): Promise<{ success: boolean; snippets?: CodeSnippet[]; error?: string }> {
   try {
+    await requireUser(userId);
     const db = await getDatabase();
     if (!db) {
       return { success: false, error: "Database not available" };
@@ -381,6 +433,7 @@ export async function searchSnippets(
       {
         $match: {
           userId,
+          ...NOT_TRASHED,
           $or: [
             { title: { $regex: searchQuery, $options: "i" } },
             { description: { $regex: searchQuery, $options: "i" } },
@@ -0,0 +1,228 @@
+import type { Db } from "mongodb";
+import type { ZodType } from "zod";
+import { COLLECTIONS } from "@/lib/mongodb";
+import { extractJson } from "@/lib/ai-client";
+import { getCatalogProblem, lookupCatalogProblem, findCatalogProblemByTitle } from "@/lib/problem-catalog";
+import { allowsDifficulty, loadCoachingProfile } from "@/lib/coaching-profile";
+import { slugifyTitle } from "@/lib/review-scheduler";
+import { difficulties, type Difficulty, type LeetCodeProblem } from "@/lib/types";
+
+/**
+ * Suggestion Output - checks AI problem suggestions before they reach the user
+ *
+ * Models return JSON that may not match the schema, name problems that
+ * don't exist, repeat themselves or ignore what the user has solved. Every
+ * suggestion path runs its output through here:
+ * 1. Parse with the path's Zod schema
+ * 2. Resolve each item against the catalog by slug, URL, number or exact title;
+ *    wrong titles, URLs and difficulties are corrected from the catalog
+ * 3. Drop unknown, already solved, duplicate and disallowed-difficulty items
+ * 4. If too few remain, ask again with feedback saying what was rejected,
+ *    keeping the items already accepted
+ */
+
+export interface SuggestionRules {
+  solvedSlugs: Set<string>;
+  allowedDifficulties: Difficulty[]; // from the coaching profile
+  difficulty?: Difficulty; // requested for this call; must be allowed
+}
+
+// How a path's items identify a problem, and how to rewrite one from the catalog
+export interface SuggestionShape<Item> {
+  ref(item: Item): { slug?: string; id?: string | number; title?: string; url?: string };
+  fromCatalog(item: Item, problem: LeetCodeProblem): Item;
+}
+
+export type RejectionReason = "unknown" | "solved" | "difficulty" | "duplicate";
+
+export interface RejectedSuggestion {
+  label: string;
+  reason: RejectionReason;
+}
+
+export interface SuggestionReport {
+  attempts: number;
+  repaired: number; // items kept after correcting their title, URL or difficulty
+  rejected: RejectedSuggestion[];
+}
+
+const MAX_REPAIR_ATTEMPTS = 2;
+
+const REJECTION_LABELS: Record<RejectionReason, string> = {
+  unknown: "is not a LeetCode problem",
+  solved: "is already solved by the user",
+  difficulty: "has a difficulty the user ruled out",
+  duplicate: "was suggested twice",
+};
+
+function toDifficulty(value?: string): Difficulty | undefined {
+  return difficulties.find(d => d.toLowerCase() === value?.trim().toLowerCase());
+}
+
+// What the user has solved, plus their allowed difficulties; `solvedTitles` adds titles from Firestore buckets
+export async function loadSuggestionRules(
+  db: Db | null,
+  userId: string | undefined,
+  options: { difficulty?: string; solvedTitles?: string[] } = {}
+): Promise<SuggestionRules> {
+  const solvedSlugs = new Set((options.solvedTitles ?? []).map(slugifyTitle));
+  if (db && userId) {
+    const solved = await db.collection(COLLECTIONS.SOLVED).find({ userId }).project({ titleSlug: 1 }).toArray();
+    solved.forEach(s => solvedSlugs.add(s.titleSlug));
+  }
+
+  const coaching = await loadCoachingProfile(userId ? db : null, userId ?? "");
+  const difficulty = toDifficulty(options.difficulty);
+  return {
+    solvedSlugs,
+    allowedDifficulties: coaching.allowedDifficulties,
+    difficulty: difficulty && allowsDifficulty(coaching, difficulty) ? difficulty : undefined,
+  };
+}
+
+// The catalog problem an item refers to; titles must match exactly so a near miss isn't swapped for another problem
+async function resolveSuggestedProblem(ref: ReturnType<SuggestionShape<unknown>["ref"]>): Promise<LeetCodeProblem | undefined> {
+  const bySlug = ref.slug ? await getCatalogProblem(ref.slug.trim().toLowerCase()) : undefined;
+  if (bySlug) return bySlug;
+
+  const byUrl = ref.url ? await lookupCatalogProblem(ref.url) : undefined;
+  if (byUrl) return byUrl;
+
+  const id = Number(ref.id);
+  const byId = Number.isInteger(id) && id > 0 ? await getCatalogProblem(id) : undefined;
+  if (byId) return byId;
+
+  const byTitle = ref.title ? await findCatalogProblemByTitle(ref.title) : undefined;
+  return byTitle && slugifyTitle(byTitle.title) === slugifyTitle(ref.title!) ? byTitle : undefined;
+}
+
+/**
+ * Check items against the catalog and the rules. `accepted` holds slugs
+ * kept earlier and is updated with the new ones.
+ */
+export async function checkSuggestions<Item>(
+  items: Item[],
+  shape: SuggestionShape<Item>,
+  rules: SuggestionRules,
+  accepted: Set<string> = new Set()
+): Promise<{ valid: Item[]; rejected: RejectedSuggestion[]; repaired: number }> {
+  const valid: Item[] = [];
+  const rejected: RejectedSuggestion[] = [];
+  let repaired = 0;
+
+  for (const item of items) {
+    const ref = shape.ref(item);
+    const label = ref.title || ref.slug || String(ref.id ?? ref.url ?? "untitled");
+    const problem = await resolveSuggestedProblem(ref);
+
+    let reason: RejectionReason | undefined;
+    if (!problem) reason = "unknown";
+    else if (accepted.has(problem.slug)) reason = "duplicate";
+    else if (rules.solvedSlugs.has(problem.slug)) reason = "solved";
+    else if (!rules.allowedDifficulties.includes(problem.difficulty) ||
+             (rules.difficulty && problem.difficulty !== rules.difficulty)) reason = "difficulty";
+
+    if (reason || !problem) {
+      rejected.push({ label: problem ? problem.title : label, reason: reason ?? "unknown" });
+      continue;
+    }
+
+    const fixed = shape.fromCatalog(item, problem);
+    if (JSON.stringify(fixed) !== JSON.stringify(item)) repaired++;
+    accepted.add(problem.slug);
+    valid.push(fixed);
+  }
+
+  return { valid, rejected, repaired };
+}
+
+// Follow-up message for the model after a rejected or malformed answer
+export function repairFeedback(options: {
+  rejected: RejectedSuggestion[];
+  acceptedTitles: string[];
+  needed: number;
+  parseError?: string;
+}): string {
+  const lines = options.parseError
+    ? [`Your previous answer did not match the required JSON structure: ${options.parseError}.`]
+    : ["Some of your previous suggestions were rejected:", ...options.rejected.map(r => `- "${r.label}" ${REJECTION_LABELS[r.reason]}`)];
+
+  if (options.acceptedTitles.length > 0) {
+    lines.push(`Already accepted (do not repeat): ${options.acceptedTitles.join(", ")}.`);
+  }
+  lines.push(`Suggest ${options.needed} more real, unsolved LeetCode problems with their exact titles and slugs, in the same JSON structure.`);
+  return lines.join("\n");
+}
+
+function parseOutput<Output>(schema: ZodType<Output>, raw: unknown): { output?: Output; error?: string } {
+  try {
+    const value = typeof raw === "string" ? extractJson(raw) : raw;
+    const result = schema.safeParse(value);
+    if (result.success) return { output: result.data };
+    return { error: result.error.issues.slice(0, 3).map(i => `${i.path.join(".") || "response"}: ${i.message}`).join("; ") };
+  } catch (error) {
+    return { error: error instanceof Error ? error.message : "invalid JSON" };
+  }
+}
+
+/**
+ * Parse, check and if needed re-ask until `wanted` valid items are collected
+ * or the repair attempts run out. `raw` is the first response, text or an
+ * already parsed object; `retry` sends feedback and returns the next one.
+ * Throws only when no attempt produced output matching the schema.
+ */
+export async function validateSuggestionOutput<Output, Item>(options: {
+  schema: ZodType<Output>;
+  raw: unknown;
+  retry: (feedback: string) => Promise<unknown>;
+  items: (output: Output) => Item[];
+  withItems: (output: Output, items: Item[]) => Output;
+  shape: SuggestionShape<Item>;
+  rules: SuggestionRules;
+  wanted: number;
+}): Promise<{ output: Output; report: SuggestionReport }> {
+  const accepted = new Set<string>();
+  const valid: Item[] = [];
+  const report: SuggestionReport = { attempts: 0, repaired: 0, rejected: [] };
+  let latest: Output | undefined;
+  let raw = options.raw;
+
+  while (true) {
+    report.attempts++;
+    const { output, error } = parseOutput(options.schema, raw);
+    let rejected: RejectedSuggestion[] = [];
+
+    if (output) {
+      latest = output;
+      const checked = await checkSuggestions(options.items(output), options.shape, options.rules, accepted);
+      valid.push(...checked.valid);
+      rejected = checked.rejected;
+      report.repaired += checked.repaired;
+      report.rejected.push(...checked.rejected);
+    }
+
+    if ((latest && valid.length >= options.wanted) || report.attempts > MAX_REPAIR_ATTEMPTS) break;
+
+    const feedback = repairFeedback({
+      rejected,
+      acceptedTitles: valid.map(item => options.shape.ref(item).title ?? "").filter(Boolean),
+      needed: options.wanted - valid.length,
+      parseError: error,
+    });
+    try {
+      raw = await options.retry(feedback);
+    } catch (retryError) {
+      // Keep what was accepted so far rather than losing it to a failed follow-up
+      console.error("AI suggestion repair attempt failed:", retryError);
+      break;
+    }
+  }
+
+  if (!latest) {
+    throw new Error("AI response did not match the expected format");
+  }
+  if (report.rejected.length > 0 || report.repaired > 0) {
+    console.info(`AI suggestions checked in ${report.attempts} attempt(s): ${valid.length} kept, ${report.repaired} corrected, ${report.rejected.length} rejected`);
+  }
+  return { output: options.withItems(latest, valid.slice(0, options.wanted)), report };
+}
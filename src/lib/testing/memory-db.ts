@@ -0,0 +1,245 @@
+import { ObjectId, type Db } from "mongodb";
+
+/**
+ * Memory Db - an in-process stand-in for the Mongo calls the server code
+ * makes, for tests
+ *
+ * Covers what the import, sync and migration jobs use: find/findOne with
+ * sort and limit, insert, update (with upsert), bulkWrite of updateOne
+ * operations, deleteMany, countDocuments and distinct. Filters support
+ * equality (arrays match any element), $in, $nin, $ne, $exists, $gt, $gte,
+ * $lt, $lte, $or and $and; updates $set, $unset, $inc, $min, $max and
+ * $setOnInsert.
+ * Projections are ignored and indexes are not enforced.
+ */
+
+type Doc = Record<string, any>;
+
+function clone<T>(value: T): T {
+  if (value instanceof Date) return new Date(value) as T;
+  if (Array.isArray(value)) return value.map(clone) as T;
+  if (value && typeof value === "object" && Object.getPrototypeOf(value) === Object.prototype) {
+    return Object.fromEntries(Object.entries(value).map(([key, entry]) => [key, clone(entry)])) as T;
+  }
+  return value; // ObjectIds and other values are immutable here
+}
+
+function getPath(doc: Doc, path: string): unknown {
+  return path.split(".").reduce<any>((value, key) => (value == null ? undefined : value[key]), doc);
+}
+
+function setPath(doc: Doc, path: string, value: unknown) {
+  const keys = path.split(".");
+  let target = doc;
+  for (const key of keys.slice(0, -1)) {
+    target[key] ??= {};
+    target = target[key];
+  }
+  target[keys[keys.length - 1]] = value;
+}
+
+function unsetPath(doc: Doc, path: string) {
+  const keys = path.split(".");
+  const parent = keys.slice(0, -1).reduce<any>((value, key) => value?.[key], doc);
+  if (parent) delete parent[keys[keys.length - 1]];
+}
+
+function comparable(value: unknown): unknown {
+  if (value instanceof ObjectId) return value.toHexString();
+  if (value instanceof Date) return value.getTime();
+  return value;
+}
+
+function equals(a: unknown, b: unknown): boolean {
+  if (a === null || a === undefined) return b === null || b === undefined;
+  return comparable(a) === comparable(b);
+}
+
+// Equality as Mongo does it: an array field matches when any element does
+function matchesValue(value: unknown, expected: unknown): boolean {
+  if (Array.isArray(value) && !Array.isArray(expected)) return value.some(item => equals(item, expected));
+  return equals(value, expected);
+}
+
+function isOperatorObject(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === "object" && !(value instanceof Date) && !(value instanceof ObjectId) &&
+    !Array.isArray(value) && Object.keys(value).some(key => key.startsWith("$"));
+}
+
+function matchesCondition(value: unknown, condition: unknown): boolean {
+  if (!isOperatorObject(condition)) return matchesValue(value, condition);
+
+  return Object.entries(condition).every(([operator, operand]) => {
+    const ordered = (compare: (a: any, b: any) => boolean) =>
+      value !== undefined && value !== null && compare(comparable(value), comparable(operand));
+    switch (operator) {
+      case "$eq": return matchesValue(value, operand);
+      case "$ne": return !matchesValue(value, operand);
+      case "$in": return (operand as unknown[]).some(item => matchesValue(value, item));
+      case "$nin": return !(operand as unknown[]).some(item => matchesValue(value, item));
+      case "$exists": return (value !== undefined) === operand;
+      case "$gt": return ordered((a, b) => a > b);
+      case "$gte": return ordered((a, b) => a >= b);
+      case "$lt": return ordered((a, b) => a < b);
+      case "$lte": return ordered((a, b) => a <= b);
+      default: throw new Error(`Memory Db doesn't support ${operator}`);
+    }
+  });
+}
+
+export function matchesFilter(doc: Doc, filter: Doc = {}): boolean {
+  return Object.entries(filter).every(([key, condition]) => {
+    if (key === "$or") return (condition as Doc[]).some(sub => matchesFilter(doc, sub));
+    if (key === "$and") return (condition as Doc[]).every(sub => matchesFilter(doc, sub));
+    return matchesCondition(getPath(doc, key), condition);
+  });
+}
+
+function applyUpdate(doc: Doc, update: Doc, inserting: boolean) {
+  for (const [operator, fields] of Object.entries(update)) {
+    for (const [path, value] of Object.entries(fields as Doc)) {
+      switch (operator) {
+        case "$set": setPath(doc, path, clone(value)); break;
+        case "$setOnInsert": if (inserting) setPath(doc, path, clone(value)); break;
+        case "$unset": unsetPath(doc, path); break;
+        case "$inc": setPath(doc, path, ((getPath(doc, path) as number) ?? 0) + (value as number)); break;
+        case "$min":
+        case "$max": {
+          const current = comparable(getPath(doc, path)) as any;
+          const next = comparable(value) as any;
+          if (current == null || (operator === "$min" ? next < current : next > current)) setPath(doc, path, clone(value));
+          break;
+        }
+        default: throw new Error(`Memory Db doesn't support ${operator}`);
+      }
+    }
+  }
+}
+
+function sortDocs(docs: Doc[], sort?: Record<string, 1 | -1>): Doc[] {
+  if (!sort) return docs;
+  return [...docs].sort((a, b) => {
+    for (const [key, direction] of Object.entries(sort)) {
+      const x = comparable(getPath(a, key)) as any;
+      const y = comparable(getPath(b, key)) as any;
+      if (x !== y) return (x < y ? -1 : 1) * direction;
+    }
+    return 0;
+  });
+}
+
+class MemoryCursor {
+  private sortSpec?: Record<string, 1 | -1>;
+  private limitCount?: number;
+
+  constructor(private readonly load: () => Doc[]) {}
+
+  project() {
+    return this;
+  }
+
+  sort(spec: Record<string, 1 | -1>) {
+    this.sortSpec = spec;
+    return this;
+  }
+
+  limit(count: number) {
+    this.limitCount = count;
+    return this;
+  }
+
+  async toArray(): Promise<any[]> {
+    const docs = sortDocs(this.load(), this.sortSpec);
+    return (this.limitCount ? docs.slice(0, this.limitCount) : docs).map(clone);
+  }
+}
+
+export class MemoryCollection {
+  docs: Doc[] = [];
+
+  find(filter: Doc = {}) {
+    return new MemoryCursor(() => this.docs.filter(doc => matchesFilter(doc, filter)));
+  }
+
+  async findOne(filter: Doc = {}, options: { sort?: Record<string, 1 | -1> } = {}) {
+    const [doc] = sortDocs(this.docs.filter(d => matchesFilter(d, filter)), options.sort);
+    return doc ? clone(doc) : null;
+  }
+
+  async insertOne(doc: Doc) {
+    const stored = { _id: new ObjectId(), ...clone(doc) };
+    this.docs.push(stored);
+    return { acknowledged: true, insertedId: stored._id };
+  }
+
+  async insertMany(docs: Doc[]) {
+    const ids = [];
+    for (const doc of docs) ids.push((await this.insertOne(doc)).insertedId);
+    return { acknowledged: true, insertedCount: ids.length, insertedIds: ids };
+  }
+
+  async updateOne(filter: Doc, update: Doc, options: { upsert?: boolean } = {}) {
+    const doc = this.docs.find(d => matchesFilter(d, filter));
+    if (doc) {
+      applyUpdate(doc, update, false);
+      return { acknowledged: true, matchedCount: 1, modifiedCount: 1, upsertedCount: 0, upsertedId: null };
+    }
+    if (!options.upsert) {
+      return { acknowledged: true, matchedCount: 0, modifiedCount: 0, upsertedCount: 0, upsertedId: null };
+    }
+
+    const inserted: Doc = { _id: new ObjectId() };
+    for (const [key, value] of Object.entries(filter)) {
+      if (!key.startsWith("$") && !isOperatorObject(value)) setPath(inserted, key, clone(value));
+    }
+    applyUpdate(inserted, update, true);
+    this.docs.push(inserted);
+    return { acknowledged: true, matchedCount: 0, modifiedCount: 0, upsertedCount: 1, upsertedId: inserted._id };
+  }
+
+  async updateMany(filter: Doc, update: Doc) {
+    const matched = this.docs.filter(d => matchesFilter(d, filter));
+    matched.forEach(doc => applyUpdate(doc, update, false));
+    return { acknowledged: true, matchedCount: matched.length, modifiedCount: matched.length };
+  }
+
+  async bulkWrite(operations: { updateOne: { filter: Doc; update: Doc; upsert?: boolean } }[]) {
+    for (const { updateOne } of operations) {
+      await this.updateOne(updateOne.filter, updateOne.update, { upsert: updateOne.upsert });
+    }
+    return { acknowledged: true };
+  }
+
+  async deleteMany(filter: Doc = {}) {
+    const before = this.docs.length;
+    this.docs = this.docs.filter(doc => !matchesFilter(doc, filter));
+    return { acknowledged: true, deletedCount: before - this.docs.length };
+  }
+
+  async countDocuments(filter: Doc = {}) {
+    return this.docs.filter(doc => matchesFilter(doc, filter)).length;
+  }
+
+  async distinct(key: string, filter: Doc = {}) {
+    const values = this.docs.filter(doc => matchesFilter(doc, filter)).map(doc => getPath(doc, key));
+    return [...new Map(values.map(value => [comparable(value), value])).values()];
+  }
+
+  async createIndex() {
+    return "index";
+  }
+}
+
+export class MemoryDb {
+  private readonly collections = new Map<string, MemoryCollection>();
+
+  collection(name: string): MemoryCollection {
+    if (!this.collections.has(name)) this.collections.set(name, new MemoryCollection());
+    return this.collections.get(name)!;
+  }
+
+  // The same object, typed for code that expects a Mongo Db
+  asDb(): Db {
+    return this as unknown as Db;
+  }
+}
@@ -0,0 +1,148 @@
+"use server";
+
+import { ObjectId } from "mongodb";
+import { getDatabase, COLLECTIONS } from "@/lib/mongodb";
+import { requireUser } from "@/lib/session";
+import { trashCutoff, type TrashItem } from "@/lib/trash";
+import { indexMemory, indexSnippet, removeEmbeddings } from "@/lib/embedding-index";
+
+/**
+ * Trash Actions - trashed memories and snippets
+ *
+ * deleteMemory and deleteSnippet only set deletedAt; these list, restore
+ * and purge what they left behind. Firestore records (topics, questions,
+ * notes) have their trash functions in actions.ts.
+ */
+
+type MongoTrashKind = Extract<TrashItem["kind"], "memory" | "snippet">;
+
+const TRASH_COLLECTIONS: Record<MongoTrashKind, string> = {
+  memory: COLLECTIONS.MEMORIES,
+  snippet: COLLECTIONS.SNIPPETS,
+};
+
+const TRASHED = { deletedAt: { $ne: null } };
+
+function itemLabel(kind: MongoTrashKind, doc: any): string {
+  if (kind === "snippet") return doc.title;
+  const content = String(doc.content ?? "").replace(/\s+/g, " ").trim();
+  return content.length > 80 ? `${content.slice(0, 79)}…` : content;
+}
+
+// Trashed memories and snippets, most recently deleted first
+export async function getMongoTrash(
+  userId: string
+): Promise<{ success: boolean; items?: TrashItem[]; error?: string }> {
+  try {
+    await requireUser(userId);
+    const db = await getDatabase();
+    if (!db) {
+      return { success: false, error: "Database not available" };
+    }
+
+    const items: TrashItem[] = [];
+    for (const [kind, name] of Object.entries(TRASH_COLLECTIONS) as [MongoTrashKind, string][]) {
+      const docs = await db.collection(name)
+        .find({ userId, ...TRASHED })
+        .sort({ deletedAt: -1 })
+        .toArray();
+      items.push(...docs.map(doc => ({
+        kind,
+        id: doc._id.toString(),
+        label: itemLabel(kind, doc),
+        deletedAt: new Date(doc.deletedAt).toISOString(),
+        detail: kind === "memory" ? doc.type : doc.language,
+      })));
+    }
+
+    items.sort((a, b) => b.deletedAt.localeCompare(a.deletedAt));
+    return { success: true, items };
+  } catch (error) {
+    console.error("Failed to get trash:", error);
+    return { success: false, error: "Failed to get trash" };
+  }
+}
+
+export async function restoreMongoItem(
+  userId: string,
+  kind: MongoTrashKind,
+  id: string
+): Promise<{ success: boolean; error?: string }> {
+  try {
+    await requireUser(userId);
+    const db = await getDatabase();
+    if (!db) {
+      return { success: false, error: "Database not available" };
+    }
+
+    const result = await db.collection(TRASH_COLLECTIONS[kind]).findOneAndUpdate(
+      { _id: new ObjectId(id), userId, ...TRASHED },
+      { $set: { deletedAt: null, updatedAt: new Date() } },
+      { returnDocument: "after" }
+    );
+    if (!result) {
+      return { success: false, error: "Item not found in trash" };
+    }
+
+    await (kind === "memory" ? indexMemory(db, result) : indexSnippet(db, result));
+    return { success: true };
+  } catch (error) {
+    console.error("Failed to restore item:", error);
+    return { success: false, error: "Failed to restore item" };
+  }
+}
+
+// Delete a trashed item for good
+export async function purgeMongoItem(
+  userId: string,
+  kind: MongoTrashKind,
+  id: string
+): Promise<{ success: boolean; error?: string }> {
+  try {
+    await requireUser(userId);
+    const db = await getDatabase();
+    if (!db) {
+      return { success: false, error: "Database not available" };
+    }
+
+    const result = await db.collection(TRASH_COLLECTIONS[kind]).deleteOne({ _id: new ObjectId(id), userId, ...TRASHED });
+    if (result.deletedCount === 0) {
+      return { success: false, error: "Item not found in trash" };
+    }
+
+    await removeEmbeddings(db, kind, [id]);
+    return { success: true };
+  } catch (error) {
+    console.error("Failed to purge item:", error);
+    return { success: false, error: "Failed to purge item" };
+  }
+}
+
+// Purge trashed memories and snippets past the retention period, or all of them
+export async function purgeMongoTrash(
+  userId: string,
+  options: { expiredOnly?: boolean } = { expiredOnly: true }
+): Promise<{ success: boolean; purged?: number; error?: string }> {
+  try {
+    await requireUser(userId);
+    const db = await getDatabase();
+    if (!db) {
+      return { success: false, error: "Database not available" };
+    }
+
+    const filter = options.expiredOnly
+      ? { userId, deletedAt: { $ne: null, $lt: trashCutoff() } }
+      : { userId, ...TRASHED };
+
+    let purged = 0;
+    for (const name of Object.values(TRASH_COLLECTIONS)) {
+      const result = await db.collection(name).deleteMany(filter);
+      purged += result.deletedCount;
+    }
+
+    return { success: true, purged };
+  } catch (error) {
+    console.error("Failed to purge trash:", error);
+    return { success: false, error: "Failed to purge trash" };
+  }
+}
@@ -0,0 +1,48 @@
+/**
+ * Trash - soft delete shared by topics, questions, notes, memories and snippets
+ *
+ * Deleting sets `deletedAt` instead of removing the record. Trashed records
+ * are left out of every list and stat, can be restored from the Trash page,
+ * and are purged for good TRASH_RETENTION_DAYS after they were deleted.
+ * A trashed topic hides its questions and notes; restoring it brings them
+ * back. Restoring writes `deletedAt: null`, which counts as not trashed.
+ */
+
+export const TRASH_RETENTION_DAYS = 30;
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+
+export type TrashKind = "topic" | "question" | "note" | "memory" | "snippet";
+
+export interface TrashItem {
+  kind: TrashKind;
+  id: string;
+  label: string;
+  deletedAt: string; // ISO
+  topicId?: string; // parent topic, for questions and notes
+  detail?: string; // e.g. "3 questions, 2 notes" for a topic
+}
+
+export function isTrashed(record: { deletedAt?: unknown }): boolean {
+  return record.deletedAt != null;
+}
+
+// Firestore gives Timestamps, Mongo gives Dates, server actions give ISO strings
+export function deletedAtDate(value: unknown): Date | undefined {
+  if (value == null) return undefined;
+  if (value instanceof Date) return value;
+  if (typeof value === "string") return new Date(value);
+  if (typeof (value as { toDate?: unknown }).toDate === "function") {
+    return (value as { toDate: () => Date }).toDate();
+  }
+  return undefined;
+}
+
+// Records deleted before this are due for purging
+export function trashCutoff(now: Date = new Date()): Date {
+  return new Date(now.getTime() - TRASH_RETENTION_DAYS * DAY_MS);
+}
+
+export function purgeDate(deletedAt: string | Date): Date {
+  return new Date(new Date(deletedAt).getTime() + TRASH_RETENTION_DAYS * DAY_MS);
+}
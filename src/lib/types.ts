@@ -1,4 +1,9 @@
 import type { Timestamp } from "firebase/firestore";
+import type { CodeSnippet as StoredSnippet } from "@/lib/snippet-actions";
+import type { SolvedProblem } from "@/lib/progress-actions";
+import type { MongoMemory } from "@/lib/memory-actions";
+import type { ReviewCard } from "@/lib/review-scheduler";
+import type { ReviewLogEntry } from "@/lib/review-log";
 
 // ============ Daily Questions ============
 export type DailyQuestion = {
@@ -16,6 +21,7 @@ export type Topic = {
   name: string;
   description: string;
   createdAt: Timestamp;
+  deletedAt?: Timestamp | null; // in the trash (see trash.ts)
 };
 
 export type TopicStats = {
@@ -35,6 +41,7 @@ export type TopicNote = {
   content: string;
   type: 'text' | 'code';
   createdAt: Timestamp;
+  deletedAt?: Timestamp | null;
 };
 
 // ============ Question Statuses & Difficulties ============
@@ -192,6 +199,7 @@ export type TopicQuestion = {
   nextReviewDate?: Timestamp;
   reviewInterval?: number; // days for spaced repetition
   createdAt: Timestamp;
+  deletedAt?: Timestamp | null;
 };
 
 // ============ Code Snippets ============
@@ -221,6 +229,9 @@ export type LeetCodeProblem = {
   isPremium?: boolean;
   acceptance?: number;
   frequency?: number;
+  description?: string; // plain text, for imported problems
+  // Which catalog sources contributed to this record (see problem-catalog.ts)
+  sources?: ('catalog' | 'bundled')[];
 };
 
 // ============ AI Memory Bank ============
@@ -247,6 +258,9 @@ export type ReviewItem = {
 };
 
 // ============ Export Data ============
+// Mongo records as they appear in an export: ObjectIds become string ids
+type Exported<T> = Omit<T, "_id" | "id"> & { id: string };
+
 export type ExportData = {
   exportedAt: string;
   version: string;
@@ -257,7 +271,13 @@ export type ExportData = {
   };
   topics: (Topic & { questions: TopicQuestion[]; notes: TopicNote[] })[];
   dailyQuestions: DailyQuestion[];
-  snippets: CodeSnippet[];
+  snippets: Exported<StoredSnippet>[];
+
+  // Mongo-backed stores, included from version 2.0
+  solved?: Exported<SolvedProblem>[];
+  reviews?: Exported<ReviewCard>[];
+  reviewLogs?: Exported<ReviewLogEntry>[];
+  memories?: Exported<MongoMemory>[];
 };
 
 // ============ Offline Sync ============
@@ -270,3 +290,9 @@ export type SyncAction = {
   timestamp: Date;
   synced: boolean;
 };
+
+// Passed by the outbox when it replays a queued write against a server action
+export type ReplayOptions = {
+  clientId?: string; // outbox entry id; a replayed create returns the record it already made
+  ifUnmodifiedSince?: Date; // report a conflict if the record changed after this
+};
@@ -0,0 +1,245 @@
+import type { Db, Document } from "mongodb";
+import { COLLECTIONS } from "@/lib/mongodb";
+import { buildGraph, distance, searchGraph, type HnswGraph } from "@/lib/hnsw";
+
+/**
+ * Vector Index - nearest-neighbour search over stored embeddings
+ *
+ * Backends, chosen with VECTOR_INDEX:
+ * - atlas: MongoDB Atlas $vectorSearch (needs the Atlas search index)
+ * - exact: brute-force cosine over every vector in the partition
+ * - hnsw: in-process HNSW graph (see hnsw.ts), persisted to
+ *   COLLECTIONS.VECTOR_INDEXES so a restart doesn't rebuild it
+ * Unset, Atlas is tried first; once the server rejects $vectorSearch,
+ * searches run in-process: exact below HNSW_MIN_SIZE vectors, HNSW above.
+ *
+ * A partition is what one search looks at: a collection, an embedding
+ * model and a filter (e.g. one user's memories). Its vectors are loaded
+ * once per server process; a fingerprint of the count and newest
+ * embeddedAt tells when to reload. Scores are (1 + cosine) / 2 like the
+ * Atlas cosine score, so minScore means the same on every backend.
+ */
+
+export type VectorIndexBackend = "atlas" | "exact" | "hnsw";
+
+export interface VectorQuery {
+  vector: number[];
+  model: string; // embeddingModel of the vectors to compare against
+  filter?: Record<string, any>;
+  limit: number;
+  minScore: number;
+}
+
+const HNSW_MIN_SIZE = 1000;
+const MAX_PARTITIONS = 50;
+
+interface Partition {
+  key: string;
+  fingerprint: string;
+  ids: unknown[];
+  vectors: Float32Array[];
+  graph?: HnswGraph;
+}
+
+// Least recently used first
+const partitions = new Map<string, Partition>();
+let atlasUnavailable = false;
+
+function configuredBackend(): VectorIndexBackend | undefined {
+  const backend = process.env.VECTOR_INDEX;
+  return backend === "atlas" || backend === "exact" || backend === "hnsw" ? backend : undefined;
+}
+
+function normalize(vector: number[]): Float32Array {
+  const result = Float32Array.from(vector);
+  const norm = Math.sqrt(result.reduce((sum, value) => sum + value * value, 0)) || 1;
+  for (let i = 0; i < result.length; i++) result[i] /= norm;
+  return result;
+}
+
+function toScore(cosineDistance: number): number {
+  return (2 - cosineDistance) / 2;
+}
+
+function isAtlasUnsupported(error: any): boolean {
+  return error?.message?.includes("$vectorSearch") || error?.codeName === "InvalidPipelineOperator";
+}
+
+// The Atlas index was built for another model's vector size
+export function isDimensionMismatch(error: any): boolean {
+  return /dimension/i.test(error?.message ?? "");
+}
+
+// The Atlas index predates the filter fields (e.g. "Path 'userId' needs to be indexed as filter")
+function isMissingFilterField(error: any): boolean {
+  return /needs to be indexed/i.test(error?.message ?? "");
+}
+
+/**
+ * The filter goes into $vectorSearch itself: a $match afterwards would only
+ * see the candidates nearest across every user, leaving users with few
+ * vectors short or empty results. Every filtered field must be declared as
+ * a "filter" field in the Atlas index (see vector-search.ts).
+ */
+async function searchAtlas(db: Db, collection: string, query: VectorQuery): Promise<Document[]> {
+  return await db.collection(collection).aggregate([
+    {
+      $vectorSearch: {
+        index: "vector_index", // Name of your Atlas Vector Search index
+        path: "embedding",
+        queryVector: query.vector,
+        numCandidates: query.limit * 10,
+        limit: query.limit,
+        filter: { ...query.filter, embeddingModel: query.model }
+      }
+    },
+    { $set: { score: { $meta: "vectorSearchScore" } } },
+    { $unset: "embedding" },
+    { $match: { score: { $gte: query.minScore } } }
+  ]).toArray();
+}
+
+// ============ In-process partitions ============
+
+async function fingerprint(db: Db, collection: string, match: Record<string, any>): Promise<string> {
+  const [stats] = await db.collection(collection).aggregate([
+    { $match: match },
+    { $group: { _id: null, count: { $sum: 1 }, newest: { $max: "$embeddedAt" } } }
+  ]).toArray();
+  return stats ? `${stats.count}:${new Date(stats.newest ?? 0).getTime()}` : "0:0";
+}
+
+async function loadPersistedGraph(db: Db, partition: Partition): Promise<HnswGraph | undefined> {
+  const saved = await db.collection(COLLECTIONS.VECTOR_INDEXES).findOne({ key: partition.key, fingerprint: partition.fingerprint });
+  if (!saved || saved.ids.length !== partition.ids.length) return undefined;
+
+  // Graph nodes are positions in the id list it was built from
+  const savedIds: string[] = saved.ids;
+  if (savedIds.some((id, node) => id !== String(partition.ids[node]))) return undefined;
+  return saved.graph as HnswGraph;
+}
+
+async function persistGraph(db: Db, partition: Partition) {
+  try {
+    await db.collection(COLLECTIONS.VECTOR_INDEXES).replaceOne(
+      { key: partition.key },
+      {
+        key: partition.key,
+        fingerprint: partition.fingerprint,
+        ids: partition.ids.map(String),
+        graph: partition.graph,
+        size: partition.ids.length,
+        builtAt: new Date()
+      },
+      { upsert: true }
+    );
+  } catch (error) {
+    // Too large for one document, or the write failed: rebuild after the next restart
+    console.error("Failed to persist vector index:", error);
+  }
+}
+
+async function loadPartition(db: Db, collection: string, query: VectorQuery): Promise<Partition> {
+  const match = { ...query.filter, embeddingModel: query.model };
+  const key = `${collection}:${JSON.stringify(match)}`;
+  const current = await fingerprint(db, collection, match);
+
+  let partition = partitions.get(key);
+  if (!partition || partition.fingerprint !== current) {
+    const docs = await db.collection(collection)
+      .find(match, { projection: { embedding: 1 } })
+      .sort({ _id: 1 })
+      .toArray();
+    partition = {
+      key,
+      fingerprint: current,
+      ids: docs.map(doc => doc._id),
+      vectors: docs.map(doc => normalize(doc.embedding))
+    };
+  }
+
+  partitions.delete(key);
+  partitions.set(key, partition);
+  if (partitions.size > MAX_PARTITIONS) {
+    partitions.delete(partitions.keys().next().value!);
+  }
+  return partition;
+}
+
+async function ensureGraph(db: Db, partition: Partition): Promise<HnswGraph> {
+  if (!partition.graph) {
+    partition.graph = await loadPersistedGraph(db, partition);
+    if (!partition.graph) {
+      partition.graph = buildGraph(partition.vectors);
+      await persistGraph(db, partition);
+    }
+  }
+  return partition.graph;
+}
+
+async function searchInProcess(
+  db: Db,
+  collection: string,
+  query: VectorQuery,
+  backend?: "exact" | "hnsw"
+): Promise<Document[]> {
+  const queryVector = normalize(query.vector);
+  const partition = await loadPartition(db, collection, query);
+
+  let nearest: { node: number; distance: number }[];
+  if (backend === "hnsw" || (!backend && partition.vectors.length >= HNSW_MIN_SIZE)) {
+    const graph = await ensureGraph(db, partition);
+    nearest = searchGraph(graph, partition.vectors, queryVector, query.limit);
+  } else {
+    nearest = partition.vectors
+      .map((vector, node) => ({ node, distance: distance(queryVector, vector) }))
+      .sort((a, b) => a.distance - b.distance)
+      .slice(0, query.limit);
+  }
+
+  const scores = new Map<string, number>();
+  for (const { node, distance } of nearest) {
+    const score = toScore(distance);
+    if (score >= query.minScore) scores.set(String(partition.ids[node]), score);
+  }
+  if (scores.size === 0) return [];
+
+  const docs = await db.collection(collection)
+    .find({ _id: { $in: nearest.map(({ node }) => partition.ids[node]) as any[] } }, { projection: { embedding: 0 } })
+    .toArray();
+  return docs
+    .filter(doc => scores.has(String(doc._id)))
+    .map(doc => ({ ...doc, score: scores.get(String(doc._id))! }))
+    .sort((a, b) => b.score - a.score);
+}
+
+/**
+ * The documents closest to `query.vector`, best first, each with a
+ * `score`. Throws when the configured backend can't run the search.
+ */
+export async function searchVectors(db: Db, collection: string, query: VectorQuery): Promise<Document[]> {
+  const backend = configuredBackend();
+  if (backend === "exact" || backend === "hnsw") {
+    return await searchInProcess(db, collection, query, backend);
+  }
+
+  if (backend === "atlas" || !atlasUnavailable) {
+    try {
+      return await searchAtlas(db, collection, query);
+    } catch (error) {
+      if (backend === "atlas") throw error;
+      if (isAtlasUnsupported(error)) {
+        atlasUnavailable = true;
+        console.warn("Atlas Vector Search not available, searching vectors in-process");
+      } else if (isDimensionMismatch(error)) {
+        console.warn(`Atlas vector index doesn't fit ${query.model} vectors; recreate it with ${query.vector.length} dimensions. Searching in-process meanwhile`);
+      } else if (isMissingFilterField(error)) {
+        console.warn("Atlas vector index is missing its filter fields; add them (see vector-search.ts). Searching in-process meanwhile");
+      } else {
+        throw error;
+      }
+    }
+  }
+
+  return await searchInProcess(db, collection, query);
+}
@@ -1,6 +1,13 @@
 "use server";
 
 import { getDatabase, COLLECTIONS } from "@/lib/mongodb";
+import { requireUser } from "@/lib/session";
+import { ObjectId } from "mongodb";
+import { getCatalogProblem } from "@/lib/problem-catalog";
+import { rankSimilarProblems, type SimilarProblem } from "@/lib/problem-similarity";
+import { embedText, embeddingModelId, getEmbeddingConfig } from "@/lib/embeddings";
+import { isDimensionMismatch, searchVectors } from "@/lib/vector-index";
+import { FRESH_VECTORS, liveSourceIds, type EmbeddingSourceType } from "@/lib/embedding-index";
 
 /**
  * MongoDB Atlas Vector Search Setup
@@ -13,169 +20,70 @@ import { getDatabase, COLLECTIONS } from "@/lib/mongodb";
  * Requirements:
  * 1. MongoDB Atlas M10+ cluster (Vector Search requires Atlas)
  * 2. Create Vector Search Index in Atlas UI or via API
+ *
+ * Without Atlas, vectors are searched in-process instead (see
+ * vector-index.ts); scores are comparable either way.
  * 
  * Index Definition (create in Atlas):
  * {
- *   "fields": [{
- *     "type": "vector",
- *     "path": "embedding",
- *     "numDimensions": 1536,  // OpenAI embedding size
- *     "similarity": "cosine"
- *   }]
+ *   "fields": [
+ *     {
+ *       "type": "vector",
+ *       "path": "embedding",
+ *       "numDimensions": 1536,  // OpenAI 1536, Google 768, local 384
+ *       "similarity": "cosine"
+ *     },
+ *     { "type": "filter", "path": "type" },
+ *     { "type": "filter", "path": "userId" },
+ *     { "type": "filter", "path": "embeddingModel" },
+ *     { "type": "filter", "path": "stale" },
+ *     { "type": "filter", "path": "embeddingVersion" }
+ *   ]
  * }
+ *
+ * Memories, snippets, notes and catalog problems are embedded into
+ * COLLECTIONS.EMBEDDINGS by the pipeline in embedding-index.ts. After
+ * switching EMBEDDING_PROVIDER, recreate the index with the new
+ * numDimensions; vectors are rebuilt in the background and only rebuilt
+ * ones are found meanwhile.
  */
 
+// A document in COLLECTIONS.EMBEDDINGS (see embedding-index.ts)
 export interface EmbeddingDocument {
   _id?: string;
+  type: EmbeddingSourceType;
+  sourceId: string;
+  userId: string | null;
   content: string;
-  embedding: number[];
-  type: "memory" | "problem" | "note";
+  contentHash: string;
   metadata: Record<string, any>;
+  stale: boolean; // content changed since it was embedded
+  attempts: number;
+  lastError?: string;
+  embedding?: number[];
+  embeddingModel?: string;
+  embeddingVersion?: number;
+  embeddingDimensions?: number;
+  embeddedAt?: Date;
+  queuedAt: Date;
   createdAt: Date;
 }
 
-// Supported embedding providers
-export type EmbeddingProvider = "openai" | "google" | "local";
-
-interface EmbeddingConfig {
-  provider: EmbeddingProvider;
-  model: string;
-  dimensions: number;
-}
-
-// Configuration for different providers
-const EMBEDDING_CONFIGS: Record<EmbeddingProvider, EmbeddingConfig> = {
-  openai: {
-    provider: "openai",
-    model: "text-embedding-3-small",
-    dimensions: 1536
-  },
-  google: {
-    provider: "google",
-    model: "text-embedding-004",
-    dimensions: 768
-  },
-  local: {
-    provider: "local",
-    model: "all-MiniLM-L6-v2",
-    dimensions: 384
-  }
-};
-
-// Get current embedding config
-function getEmbeddingConfig(): EmbeddingConfig {
-  const provider = (process.env.EMBEDDING_PROVIDER || "openai") as EmbeddingProvider;
-  return EMBEDDING_CONFIGS[provider] || EMBEDDING_CONFIGS.openai;
-}
-
-// Generate embedding using OpenAI
-async function generateOpenAIEmbedding(text: string): Promise<number[]> {
-  const apiKey = process.env.OPENAI_API_KEY;
-  if (!apiKey) {
-    throw new Error("OPENAI_API_KEY not configured");
-  }
-
-  const response = await fetch("https://api.openai.com/v1/embeddings", {
-    method: "POST",
-    headers: {
-      "Content-Type": "application/json",
-      "Authorization": `Bearer ${apiKey}`
-    },
-    body: JSON.stringify({
-      model: "text-embedding-3-small",
-      input: text.substring(0, 8000) // Limit input length
-    })
-  });
-
-  if (!response.ok) {
-    throw new Error(`OpenAI API error: ${response.statusText}`);
-  }
-
-  const data = await response.json();
-  return data.data[0].embedding;
-}
-
-// Generate embedding using Google
-async function generateGoogleEmbedding(text: string): Promise<number[]> {
-  const apiKey = process.env.GOOGLE_AI_API_KEY;
-  if (!apiKey) {
-    throw new Error("GOOGLE_AI_API_KEY not configured");
-  }
-
-  const response = await fetch(
-    `https://generativelanguage.googleapis.com/v1beta/models/text-embedding-004:embedContent?key=${apiKey}`,
-    {
-      method: "POST",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify({
-        content: { parts: [{ text: text.substring(0, 8000) }] }
-      })
-    }
-  );
-
-  if (!response.ok) {
-    throw new Error(`Google API error: ${response.statusText}`);
-  }
-
-  const data = await response.json();
-  return data.embedding.values;
-}
+// Helpers below stay module-private: exports of a "use server" module are callable by any client,
+// and these take a raw collection name and filter. The exported searches scope them to the session user.
 
 // Generate embedding based on configured provider
-export async function generateEmbedding(text: string): Promise<number[] | null> {
+async function generateEmbedding(text: string): Promise<number[] | null> {
   try {
-    const config = getEmbeddingConfig();
-    
-    switch (config.provider) {
-      case "openai":
-        return await generateOpenAIEmbedding(text);
-      case "google":
-        return await generateGoogleEmbedding(text);
-      case "local":
-        // For local embeddings, we'd need to integrate with a local model
-        // This is a placeholder - in production, use a local embedding service
-        console.warn("Local embeddings not implemented, falling back to keyword search");
-        return null;
-      default:
-        return null;
-    }
+    return await embedText(text);
   } catch (error) {
     console.error("Failed to generate embedding:", error);
     return null;
   }
 }
 
-// Store document with embedding
-export async function storeWithEmbedding(
-  collection: string,
-  document: Record<string, any>,
-  textToEmbed: string
-): Promise<{ success: boolean; id?: string; error?: string }> {
-  try {
-    const db = await getDatabase();
-    if (!db) {
-      return { success: false, error: "Database not available" };
-    }
-
-    // Generate embedding
-    const embedding = await generateEmbedding(textToEmbed);
-    
-    // Store document (with or without embedding)
-    const docToStore = embedding 
-      ? { ...document, embedding, embeddedAt: new Date() }
-      : document;
-
-    const result = await db.collection(collection).insertOne(docToStore);
-    
-    return { success: true, id: result.insertedId.toString() };
-  } catch (error) {
-    console.error("Failed to store document with embedding:", error);
-    return { success: false, error: "Failed to store document" };
-  }
-}
-
-// Vector similarity search using MongoDB Atlas Vector Search
-export async function vectorSearch(
+// Vector similarity search; results carry a 0-1 `score`
+async function vectorSearch(
   collection: string,
   query: string,
   options: {
@@ -192,6 +100,7 @@ export async function vectorSearch(
 
     const limit = options.limit || 10;
     const minScore = options.minScore || 0.7;
+    const config = getEmbeddingConfig();
 
     // Generate query embedding
     const queryEmbedding = await generateEmbedding(query);
@@ -201,49 +110,27 @@ export async function vectorSearch(
       return await fallbackTextSearch(collection, query, options);
     }
 
-    // MongoDB Atlas Vector Search aggregation pipeline
-    const pipeline: any[] = [
-      {
-        $vectorSearch: {
-          index: "vector_index", // Name of your Atlas Vector Search index
-          path: "embedding",
-          queryVector: queryEmbedding,
-          numCandidates: limit * 10,
-          limit: limit
-        }
-      },
-      {
-        $project: {
-          _id: 1,
-          content: 1,
-          type: 1,
-          metadata: 1,
-          score: { $meta: "vectorSearchScore" }
-        }
-      }
-    ];
-
-    // Add filter if provided
-    if (options.filter) {
-      pipeline.splice(1, 0, { $match: options.filter });
-    }
-
-    // Filter by minimum score
-    pipeline.push({
-      $match: { score: { $gte: minScore } }
+    const results = await searchVectors(db, collection, {
+      vector: queryEmbedding,
+      model: embeddingModelId(config),
+      filter: options.filter,
+      limit,
+      minScore
     });
 
-    const results = await db.collection(collection)
-      .aggregate(pipeline)
-      .toArray();
-
     return { success: true, results };
   } catch (error: any) {
-    // If vector search isn't available, fallback to text search
+    // VECTOR_INDEX=atlas on a server without Atlas Vector Search
     if (error.message?.includes("$vectorSearch") || error.codeName === "InvalidPipelineOperator") {
       console.warn("Vector search not available, falling back to text search");
       return await fallbackTextSearch(collection, query, options);
     }
+
+    if (isDimensionMismatch(error)) {
+      const config = getEmbeddingConfig();
+      console.warn(`Vector index doesn't match ${embeddingModelId(config)} (${config.dimensions} dimensions); recreate it with the new numDimensions. Falling back to text search`);
+      return await fallbackTextSearch(collection, query, options);
+    }
     
     console.error("Vector search failed:", error);
     return { success: false, error: "Search failed" };
@@ -276,11 +163,20 @@ async function fallbackTextSearch(
       ]
     };
 
-    const results = await db.collection(collection)
-      .find(searchQuery)
+    const docs = await db.collection(collection)
+      .find(searchQuery, { projection: { embedding: 0 } })
       .limit(limit)
       .toArray();
 
+    // Score by the share of keywords each document contains
+    const results = docs
+      .map(doc => {
+        const text = `${doc.title ?? ""} ${doc.content ?? ""} ${(doc.tags ?? []).join(" ")}`.toLowerCase();
+        const hits = keywords.filter(keyword => text.includes(keyword)).length;
+        return { ...doc, score: hits / (keywords.length || 1) };
+      })
+      .sort((a, b) => b.score - a.score);
+
     return { success: true, results };
   } catch (error) {
     console.error("Fallback search failed:", error);
@@ -288,96 +184,125 @@ async function fallbackTextSearch(
   }
 }
 
+/**
+ * Fresh vectors of one source type closest to `query`, best first.
+ * Searches the stored text instead when no query vector can be made.
+ */
+async function searchEmbeddings(
+  query: string,
+  filter: Record<string, any>,
+  limit: number,
+  minScore: number = 0.7
+): Promise<any[]> {
+  const result = await vectorSearch(COLLECTIONS.EMBEDDINGS, query, {
+    limit,
+    minScore,
+    filter: { ...filter, ...FRESH_VECTORS }
+  });
+  if (!result.success) throw new Error(result.error);
+  return result.results || [];
+}
+
+// Sources behind the matches that still exist, in match order with the match score
+async function hydrateMatches(
+  type: "memory" | "snippet",
+  userId: string,
+  matches: any[]
+): Promise<any[]> {
+  const db = await getDatabase();
+  if (!db || matches.length === 0) return [];
+
+  const live = await liveSourceIds(db, type, userId, matches.map(match => match.sourceId));
+  const collection = type === "memory" ? COLLECTIONS.MEMORIES : COLLECTIONS.SNIPPETS;
+  const docs = await db.collection(collection)
+    .find({ _id: { $in: [...live].map(id => new ObjectId(id)) } })
+    .toArray();
+  const byId = new Map(docs.map(doc => [doc._id.toString(), doc]));
+
+  return matches
+    .filter(match => byId.has(match.sourceId))
+    .map(match => ({ ...byId.get(match.sourceId), score: match.score }));
+}
+
 // Semantic search for memories
 export async function searchMemoriesSemantic(
   userId: string,
   query: string,
   limit: number = 5
 ): Promise<{ success: boolean; memories?: any[]; error?: string }> {
-  return await vectorSearch(COLLECTIONS.MEMORIES, query, {
-    limit,
-    filter: { userId }
-  });
+  try {
+    await requireUser(userId);
+  } catch (error) {
+    console.error("Semantic memory search rejected:", error);
+    return { success: false, error: "Not authorized" };
+  }
+
+  try {
+    const matches = await searchEmbeddings(query, { type: "memory", userId }, limit);
+    return { success: true, memories: await hydrateMatches("memory", userId, matches) };
+  } catch (error) {
+    console.error("Semantic memory search failed:", error);
+    return { success: false, error: "Search failed" };
+  }
 }
 
-// Find similar problems
-export async function findSimilarProblems(
-  problemSlug: string,
+// Semantic search for code snippets
+export async function searchSnippetsSemantic(
+  userId: string,
+  query: string,
   limit: number = 5
-): Promise<{ success: boolean; problems?: any[]; error?: string }> {
+): Promise<{ success: boolean; snippets?: any[]; error?: string }> {
   try {
-    const db = await getDatabase();
-    if (!db) {
-      return { success: false, error: "Database not available" };
-    }
-
-    // Get the source problem
-    const sourceProblem = await db.collection(COLLECTIONS.PROBLEMS)
-      .findOne({ titleSlug: problemSlug });
-
-    if (!sourceProblem) {
-      return { success: false, error: "Problem not found" };
-    }
-
-    // Find problems with similar topics
-    const similarProblems = await db.collection(COLLECTIONS.PROBLEMS)
-      .find({
-        titleSlug: { $ne: problemSlug },
-        topicTags: { $in: sourceProblem.topicTags || [] },
-        difficulty: sourceProblem.difficulty
-      })
-      .limit(limit)
-      .toArray();
-
-    return { success: true, problems: similarProblems };
+    await requireUser(userId);
+    const matches = await searchEmbeddings(query, { type: "snippet", userId }, limit);
+    return { success: true, snippets: await hydrateMatches("snippet", userId, matches) };
   } catch (error) {
-    console.error("Failed to find similar problems:", error);
-    return { success: false, error: "Failed to find similar problems" };
+    console.error("Semantic snippet search failed:", error);
+    return { success: false, error: "Search failed" };
   }
 }
 
-// Batch generate embeddings for existing documents
-export async function generateEmbeddingsForCollection(
-  collection: string,
-  batchSize: number = 50
-): Promise<{ success: boolean; processed?: number; error?: string }> {
+// Semantic search for topic notes; notes live in Firestore, so matches carry the note's indexed text
+export async function searchNotesSemantic(
+  userId: string,
+  query: string,
+  limit: number = 5
+): Promise<{ success: boolean; notes?: { topicId: string; noteId: string; content: string; score: number }[]; error?: string }> {
   try {
-    const db = await getDatabase();
-    if (!db) {
-      return { success: false, error: "Database not available" };
-    }
-
-    // Find documents without embeddings
-    const documents = await db.collection(collection)
-      .find({ embedding: { $exists: false } })
-      .limit(batchSize)
-      .toArray();
-
-    let processed = 0;
+    await requireUser(userId);
+    const matches = await searchEmbeddings(query, { type: "note", userId }, limit);
+    return {
+      success: true,
+      notes: matches.map(match => ({
+        topicId: match.metadata.topicId,
+        noteId: match.metadata.noteId,
+        content: match.content,
+        score: match.score
+      }))
+    };
+  } catch (error) {
+    console.error("Semantic note search failed:", error);
+    return { success: false, error: "Search failed" };
+  }
+}
 
-    for (const doc of documents) {
-      try {
-        const textToEmbed = doc.content || doc.title || JSON.stringify(doc);
-        const embedding = await generateEmbedding(textToEmbed);
-        
-        if (embedding) {
-          await db.collection(collection).updateOne(
-            { _id: doc._id },
-            { $set: { embedding, embeddedAt: new Date() } }
-          );
-          processed++;
-        }
+// Problems similar to a catalog problem, best first, each with why it was picked (see problem-similarity.ts)
+export async function findSimilarProblems(
+  idOrSlug: number | string,
+  limit: number = 5,
+  userId?: string // include the user's own notes as a signal
+): Promise<{ success: boolean; problems?: SimilarProblem[]; error?: string }> {
+  try {
+    if (userId) await requireUser(userId);
 
-        // Add delay to respect rate limits
-        await new Promise(resolve => setTimeout(resolve, 100));
-      } catch (error) {
-        console.error(`Failed to embed document ${doc._id}:`, error);
-      }
+    const sourceProblem = await getCatalogProblem(idOrSlug);
+    if (!sourceProblem) {
+      return { success: false, error: "Problem not found" };
     }
 
-    return { success: true, processed };
+    return { success: true, problems: await rankSimilarProblems(sourceProblem, { userId, limit }) };
   } catch (error) {
-    console.error("Failed to generate embeddings:", error);
-    return { success: false, error: "Failed to generate embeddings" };
+    console.error("Failed to find similar problems:", error);
+    return { success: false, error: "Failed to find similar problems" };
   }
-}
\ No newline at end of file
+}
@@ -35,6 +35,11 @@ function makeRequest(options, data = null) {
   });
 }
 
+// The import endpoint requires a signed-in user: pass a Firebase ID token
+const authHeaders = process.env.FIREBASE_ID_TOKEN
+  ? { 'Authorization': `Bearer ${process.env.FIREBASE_ID_TOKEN}` }
+  : {};
+
 async function testAndImport() {
   try {
     console.log("🔄 Testing server connection...");
@@ -46,7 +51,8 @@ async function testAndImport() {
       path: '/api/problems',
       method: 'POST',
       headers: {
-        'Content-Type': 'application/json'
+        'Content-Type': 'application/json',
+        ...authHeaders
       }
     };
 
@@ -66,7 +72,8 @@ async function testAndImport() {
         path: '/api/problems',
         method: 'POST',
         headers: {
-          'Content-Type': 'application/json'
+          'Content-Type': 'application/json',
+          ...authHeaders
         }
       };
 